@@ -17,6 +17,8 @@ export default {
           moduleResolution: 'node',
           allowSyntheticDefaultImports: true,
           esModuleInterop: true,
+          // 型検査は tsc --noEmit で行い、テストはファイル単位で変換する（googleapis の型の読み込みでメモリが尽きるため）
+          isolatedModules: true,
         },
       },
     ],
@@ -7,6 +7,7 @@ import { competitorAnalysisTool } from '../tools/competitor-analysis-tool';
 import { youtubeKeywordResearchTool } from '../tools/youtube-keyword-research';
 import { seoOptimizationTool } from '../tools/seo-optimization-tool';
 import { youtubeAnalyticsTool } from '../tools/youtube-analytics';
+import { competitorWatchlistTool } from '../tools/competitor-watchlist-tool';
 
 /**
  * リアルタイムリサーチャーエージェント
@@ -23,6 +24,7 @@ export const realtimeResearcherAgent = new Agent({
     youtubeKeywordResearchTool,
     seoOptimizationTool,
     youtubeAnalyticsTool,
+    competitorWatchlistTool,
   },
   instructions: `あなたは世界トップクラスのリサーチアナリストです。
 AI教育・アフィリエイトマーケティング分野のリアルタイム情報収集と分析を専門としています。
@@ -73,6 +75,13 @@ AI教育・アフィリエイトマーケティング分野のリアルタイム
 - 時系列での変化追跡
 - 予測と推奨アクション
 
+## 競合YouTubeチャンネルの監視
+競合チャンネルの動向は Gemini 検索ではなく competitorWatchlistTool で確認します：
+- 監視対象の追加・削除は add / remove、一覧は list
+- 最新の変化を確認する場合は scan を実行し、検知済みの履歴は alerts で参照
+- アラートは API から取得した実データに基づくため、報告時は動画ID・変化量をそのまま引用
+- 新規アフィリエイト商品（critical）は最優先で報告し、自社の訴求・価格への影響を評価
+
 ## アラート機能
 重要な市場変化や競合動向を検知した場合、即座に報告します：
 - 競合の価格変更
@@ -99,6 +108,11 @@ AI教育・アフィリエイトマーケティング分野のリアルタイム
  *   "七里信一ChatGPTセミナーの競合他社を調査し、価格・内容・マーケティング戦略を比較分析してください"
  * );
  * 
+ * // 競合チャンネルの変化検知
+ * const competitorAlerts = await realtimeResearcherAgent.generate(
+ *   "ウォッチリストの競合チャンネルをスキャンし、新しく紹介されたアフィリエイト商品と再生急増の動画を報告してください"
+ * );
+ * 
  * // トレンド分析
  * const trendAnalysis = await realtimeResearcherAgent.generate(
  *   "AI教育市場の最新トレンドを調査し、今後6ヶ月の市場予測を提供してください"
@@ -4,6 +4,8 @@ import { Memory } from '@mastra/memory';
 import { LibSQLStore } from '@mastra/libsql';
 import { geminiImageGenerationTool } from '../tools/gemini-image-generation-tool';
 import { youtubeThumbnailGeneratorTool } from '../tools/youtube-thumbnail-generator';
+import { thumbnailRenderTool } from '../tools/thumbnail-render-tool';
+import { thumbnailLegibilityTool } from '../tools/thumbnail-legibility-tool';
 import { abTestingTool } from '../tools/ab-testing-tool';
 import { contentGeneratorTool } from '../tools/content-generator-tool';
 import { socialMediaSchedulingTool } from '../tools/social-media-scheduling-tool';
@@ -20,6 +22,8 @@ export const visualDesignerAgent = new Agent({
   tools: {
     geminiImageGenerationTool,
     youtubeThumbnailGeneratorTool,
+    thumbnailRenderTool,
+    thumbnailLegibilityTool,
     abTestingTool,
     contentGeneratorTool,
     socialMediaSchedulingTool,
@@ -58,6 +62,11 @@ export const visualDesignerAgent = new Agent({
 5. **フィードバック反映**: 改善と最適化
 6. **A/Bテスト提案**: 効果測定計画
 
+## サムネイルの品質チェック
+- サムネイル案は必ずthumbnailLegibilityToolで採点し、スコア70未満の案はfixesに沿って修正してから提示する
+- スマホの最小表示（168x94）で文字が読めること、コントラスト比4.5:1以上、右下の再生時間表示と重ならないことを確認する
+- 修正後の案はthumbnailRenderToolでPNGに描画して比較する
+
 ## 出力スタイル
 - 創造的でありながら戦略的
 - デザイン決定の根拠を明示
@@ -4,6 +4,7 @@ import { Memory } from '@mastra/memory';
 import { LibSQLStore } from '@mastra/libsql';
 import { youtubeKeywordResearchTool } from '../tools/youtube-keyword-research.js';
 import { personaGeneratorTool } from '../tools/persona-generator.js';
+import { commentMiningTool } from '../tools/comment-mining-tool.js';
 
 export const youtubeConceptDesignerAgent = new Agent({
   name: 'YouTube Concept Designer Agent',
@@ -17,16 +18,19 @@ export const youtubeConceptDesignerAgent = new Agent({
   設計プロセス：
   - Step1: 販売商品情報を収集（サービスURL優先）
   - Step2: 関連性が高く検索ボリュームの高いキーワードを30個抽出
-  - Step3: 上位3キーワードに対してペルソナを各3つ作成
+  - Step3: 関連動画のコメントと視聴者構成データからペルソナを作成（根拠のコメントを必ず示す）
   - Step4: 最も相関性の高い3ペルソナを選定
   - Step5: ペルソナが達成したい未来像を定義
   - Step6: チャンネルコンセプト案を30個生成（タイトル13文字以内）
 
+  既存動画がある場合は、コメントから抽出した質問・リクエストを動画ネタやFAQとして企画に反映してください。
+
   常にデータに基づいた戦略的な提案を行い、SEO効果を最大化してください。`,
   model: google('gemini-2.5-pro'),
   tools: {
     youtubeKeywordResearch: youtubeKeywordResearchTool,
     personaGenerator: personaGeneratorTool,
+    commentMining: commentMiningTool,
   },
   memory: new Memory({
     storage: new LibSQLStore({
@@ -3,6 +3,7 @@ import { google } from '@ai-sdk/google';
 import { Memory } from '@mastra/memory';
 import { LibSQLStore } from '@mastra/libsql';
 import { youtubeThumbnailGeneratorTool } from '../tools/youtube-thumbnail-generator.js';
+import { thumbnailRenderTool } from '../tools/thumbnail-render-tool.js';
 import { youtubeTitleGeneratorTool } from '../tools/youtube-title-generator.js';
 
 export const youtubeMarketingAgent = new Agent({
@@ -15,8 +16,9 @@ export const youtubeMarketingAgent = new Agent({
   4. A/Bテスト用の複数バリエーション作成
 
   タイトル生成の原則：
-  - 最大60文字（理想は40-50文字）
+  - スマホで省略されない全角30文字（表示幅60）以内に要点とキーワードを収める
   - キーワードを前方に配置
+  - チャンネルの既存動画や上位の競合動画と似たタイトルは避ける（titleGeneratorのsimilarityとissuesを確認）
   - 数字や具体的な成果を含める
   - 感情に訴える言葉を使用
   - クリックベイトは避ける
@@ -27,11 +29,13 @@ export const youtubeMarketingAgent = new Agent({
   - 表情豊かな人物写真
   - 視覚的な階層構造
   - モバイルでも見やすいデザイン
+  - A/Bテスト用の候補はthumbnailRenderで実際のPNGに描画して比較する
 
   常にデータドリブンなアプローチで、視聴者の心理を理解した提案を行ってください。`,
   model: google('gemini-2.5-pro'),
   tools: {
     thumbnailGenerator: youtubeThumbnailGeneratorTool,
+    thumbnailRender: thumbnailRenderTool,
     titleGenerator: youtubeTitleGeneratorTool,
   },
   memory: new Memory({
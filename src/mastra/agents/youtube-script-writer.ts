@@ -6,6 +6,9 @@ import { scriptStructureGeneratorTool } from '../tools/script-structure-generato
 import { hookGeneratorTool } from '../tools/hook-generator.js';
 import { scriptStyleSelectorTool } from '../tools/script-style-selector.js';
 import { advancedScriptStylesTool } from '../tools/advanced-script-styles.js';
+import { videoTranscriptTool } from '../tools/video-transcript-tool.js';
+import { scriptTimingTool } from '../tools/script-timing-tool.js';
+import { hookLibraryTool } from '../tools/hook-library-tool.js';
 
 export const youtubeScriptWriterAgent = new Agent({
   name: 'YouTube Script Writer Agent',
@@ -37,6 +40,18 @@ export const youtubeScriptWriterAgent = new Agent({
   - 具体例を多用
   - 感情表現を豊かに
 
+  参考動画の分析：
+  - videoTranscript ツールで取り込み済みの字幕から、実際の冒頭15秒・チャプター構成・話速（文字/分）を確認できる
+  - 競合や過去の自分の動画の冒頭を参考にする場合は、推測ではなく字幕の実データを引用する
+
+  フックの選び方：
+  - hookGenerator ツールのフックは公開動画の冒頭30秒維持率の実績順に並ぶ。evidence が empirical のものを優先し、explored のものは新しい型を試す枠として使う
+  - 公開した動画で使ったフックは hookLibrary ツールの record_usage で動画IDと結び付けて記録する
+
+  尺の管理：
+  - 台本を書いたら scriptTiming ツールで各セクションの読み上げ時間を確認し、目標尺から外れたセクションは加筆・削減する
+  - 出力されたタイムラインは概要欄のチャプターとしてそのまま使える
+
   常に視聴維持率を意識し、飽きさせない展開を心がけてください。`,
   model: google('gemini-2.5-pro'),
   tools: {
@@ -44,6 +59,9 @@ export const youtubeScriptWriterAgent = new Agent({
     hookGenerator: hookGeneratorTool,
     scriptStyleSelector: scriptStyleSelectorTool,
     advancedScriptStyles: advancedScriptStylesTool,
+    videoTranscript: videoTranscriptTool,
+    scriptTiming: scriptTimingTool,
+    hookLibrary: hookLibraryTool,
   },
   memory: new Memory({
     storage: new LibSQLStore({
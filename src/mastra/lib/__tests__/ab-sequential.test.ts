@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals';
+import { createSequentialDesign, evaluateSequentialLook } from '../ab-sequential';
+import type { ABTest, TestVariant } from '../ab-test-store';
+
+function variant(id: string, impressions: number, clicks: number): TestVariant {
+  return { id, name: id, content: id, impressions, clicks, conversions: 0, revenue: 0 };
+}
+
+function sequentialTest(variants: TestVariant[]): ABTest {
+  return {
+    testId: 'test_1',
+    testName: 'サムネイル比較',
+    startDate: new Date('2024-01-01T00:00:00Z'),
+    status: 'active',
+    metric: 'ctr',
+    mode: 'sequential',
+    sequential: createSequentialDesign({ baselineRate: 0.05, minimumDetectableEffect: 0.2 }, variants.length),
+    variants,
+  };
+}
+
+describe('createSequentialDesign', () => {
+  it('多群比較ではBonferroni補正で必要サンプルサイズが増える', () => {
+    const two = createSequentialDesign({ baselineRate: 0.05, minimumDetectableEffect: 0.2 }, 2);
+    const three = createSequentialDesign({ baselineRate: 0.05, minimumDetectableEffect: 0.2 }, 3);
+    expect(two.alpha).toBe(0.05);
+    expect(two.looks).toEqual([]);
+    expect(three.requiredSampleSizePerVariant).toBeGreaterThan(two.requiredSampleSizePerVariant);
+  });
+});
+
+describe('evaluateSequentialLook', () => {
+  it('固定サンプルのテストは解析しない', () => {
+    const test = { ...sequentialTest([variant('a', 100, 5), variant('b', 100, 6)]), mode: 'fixed' as const };
+    expect(evaluateSequentialLook(test)).toBeNull();
+  });
+
+  it('序盤の小さな差では境界を越えず、サンプルが増えなければαを消費しない', () => {
+    const test = sequentialTest([variant('a', 500, 25), variant('b', 500, 30)]);
+    const look = evaluateSequentialLook(test, new Date('2024-01-02T00:00:00Z'));
+    expect(look?.boundaryCrossed).toBe(false);
+    expect(test.status).toBe('active');
+    expect(look!.nominalAlpha).toBeLessThan(0.05);
+
+    expect(evaluateSequentialLook(test)).toBeNull();
+    expect(test.sequential!.looks).toHaveLength(1);
+  });
+
+  it('大きな差で境界を越えたら勝者を決めてテストを終了する', () => {
+    const test = sequentialTest([variant('a', 5000, 250), variant('b', 5000, 500)]);
+    const now = new Date('2024-01-03T00:00:00Z');
+    const look = evaluateSequentialLook(test, now);
+    expect(look?.boundaryCrossed).toBe(true);
+    expect(test.status).toBe('completed');
+    expect(test.winningVariant).toBe('b');
+    expect(test.endDate).toEqual(now);
+    expect(test.sequential!.decision).toBe('winner');
+  });
+
+  it('必要サンプルサイズに達して差がなければ no_difference で終了する', () => {
+    const required = createSequentialDesign({ baselineRate: 0.05, minimumDetectableEffect: 0.2 }, 2).requiredSampleSizePerVariant;
+    const test = sequentialTest([variant('a', required, Math.round(required * 0.05)), variant('b', required, Math.round(required * 0.05))]);
+    const look = evaluateSequentialLook(test);
+    expect(look?.informationFraction).toBe(1);
+    expect(test.status).toBe('completed');
+    expect(test.winningVariant).toBeUndefined();
+    expect(test.sequential!.decision).toBe('no_difference');
+  });
+
+  it('各解析の名目αの総和は設計時のαを超えない', () => {
+    const test = sequentialTest([variant('a', 0, 0), variant('b', 0, 0)]);
+    const required = test.sequential!.requiredSampleSizePerVariant;
+    for (const fraction of [0.25, 0.5, 0.75, 1]) {
+      const n = Math.ceil(required * fraction);
+      test.variants = [variant('a', n, Math.round(n * 0.05)), variant('b', n, Math.round(n * 0.05))];
+      evaluateSequentialLook(test);
+    }
+    const spent = test.sequential!.looks.reduce((sum, look) => sum + look.nominalAlpha, 0);
+    expect(test.sequential!.looks).toHaveLength(4);
+    expect(spent).toBeLessThanOrEqual(0.05 + 1e-12);
+  });
+});
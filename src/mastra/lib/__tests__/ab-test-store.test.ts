@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createClient } from '@libsql/client';
+import { ABTestStore } from '../ab-test-store';
+import type { ABTest } from '../ab-test-store';
+
+function fixedTest(): ABTest {
+  return {
+    testId: 'test_1',
+    testName: 'サムネイル比較',
+    startDate: new Date('2024-01-01T00:00:00Z'),
+    status: 'active',
+    metric: 'ctr',
+    mode: 'fixed',
+    variants: ['a', 'b'].map(id => ({ id, name: id, content: id, impressions: 0, clicks: 0, conversions: 0, revenue: 0 })),
+  };
+}
+
+describe('ABTestStore.update', () => {
+  it('読み込み後に記録されたイベントを上書きせず、分析結果だけを保存する', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'ab-test-store-'));
+    const client = createClient({ url: `file:${join(dir, 'ab.db')}` });
+    try {
+      const store = new ABTestStore(() => client);
+      await store.save(fixedTest());
+
+      const stale = (await store.get('test_1'))!;
+      await store.recordEvent('test_1', { variantId: 'a', impressions: 100, clicks: 7 });
+      await store.update(stale.testId, latest => {
+        latest.winningVariant = 'a';
+        latest.statisticalSignificance = 97.5;
+      });
+
+      const saved = (await store.get('test_1'))!;
+      expect(saved.variants[0]).toMatchObject({ impressions: 100, clicks: 7 });
+      expect(saved).toMatchObject({ winningVariant: 'a', statisticalSignificance: 97.5 });
+      await expect(store.update('missing', () => {})).rejects.toThrow('A/B test not found: missing');
+    } finally {
+      client.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from '@jest/globals';
+import { normalizeCues } from '../captions';
+
+describe('normalizeCues', () => {
+  it('自動字幕の繰り返し（時間が続く・重なる字幕）は1行にまとめる', () => {
+    const cues = normalizeCues([
+      { startMs: 0, endMs: 2000, text: '今日は英会話の' },
+      { startMs: 1500, endMs: 4000, text: '今日は英会話の 勉強法を紹介します' },
+      { startMs: 4000, endMs: 4010, text: '勉強法を紹介します' },
+    ]);
+    expect(cues.map(c => c.text)).toEqual(['今日は英会話の', '勉強法を紹介します']);
+    expect(cues[1].endMs).toBe(4010);
+  });
+
+  it('間を空けて繰り返した短い行は別の行として残す', () => {
+    const cues = normalizeCues([
+      { startMs: 0, endMs: 1000, text: 'じゃあ始めましょうか、はい' },
+      { startMs: 1500, endMs: 2000, text: 'はい' },
+      { startMs: 3000, endMs: 3500, text: 'OK' },
+      { startMs: 4000, endMs: 4500, text: 'OK' },
+    ]);
+    expect(cues.map(c => c.text)).toEqual(['じゃあ始めましょうか、はい', 'はい', 'OK', 'OK']);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from '@jest/globals';
+import { createClient } from '@libsql/client';
+import { ClaimEvidenceStore, assessClaims, extractNumericClaims } from '../claim-evidence';
+import type { ClaimEvidence } from '../claim-evidence';
+
+const now = new Date('2024-06-01T00:00:00Z');
+
+function evidence(overrides: Partial<ClaimEvidence>): ClaimEvidence {
+  return {
+    product: 'スクールA',
+    claim: '受講者満足度92%',
+    figures: ['92%'],
+    metric: '受講者満足度',
+    source: '〇〇リサーチ',
+    surveyedAt: '2024-01-10',
+    expiresAt: '2025-01-10',
+    registeredAt: '2024-01-15T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function statuses(text: string, registered: ClaimEvidence[] = []): string[] {
+  return assessClaims(text, registered, { product: 'スクールA', now }).map(a => a.status);
+}
+
+describe('extractNumericClaims', () => {
+  it('人・件・位は主張の形のときだけ数値として扱う', () => {
+    expect(extractNumericClaims('定員10人のクラスで、講座は3件あります。').map(c => c.figure)).toEqual([]);
+    expect(extractNumericClaims('1,000人以上が受講し、ランキングで1位を獲得しました。').map(c => c.figure)).toEqual(['1000人', '1位']);
+  });
+
+  it('数値の前の部分を主張の対象にし、文頭の数値は後ろの部分にする', () => {
+    const [satisfaction, retention] = extractNumericClaims('受講者の満足度は92%、継続率は85%です。');
+    expect(satisfaction.subject).toBe('受講者の満足度は');
+    expect(retention.subject).toBe('継続率は');
+    expect(extractNumericClaims('92%の受講者が満足と回答。')[0].subject).toBe('の受講者が満足と回答。');
+  });
+});
+
+describe('assessClaims', () => {
+  it('数値が同じでも指標が違えば根拠として使わない', () => {
+    expect(statuses('スクールAの受講者の満足度は92%です。', [evidence({})])).toEqual(['substantiated']);
+    expect(statuses('スクールAの継続率は92%です。', [evidence({})])).toEqual(['unsubstantiated']);
+  });
+
+  it('出典を名指しした注記だけを cited にする', () => {
+    expect(statuses('継続率85%（出典: 〇〇リサーチ 2024年調査）')).toEqual(['cited']);
+    expect(statuses('継続率85%※2024年 〇〇リサーチ調べ')).toEqual(['cited']);
+    expect(statuses('〇〇リサーチの調査で満足度92%')).toEqual(['cited']);
+    expect(statuses('継続率85%※[根拠: 調査機関・調査期間・調査対象を記載]')).toEqual(['unsubstantiated']);
+    expect(statuses('継続率85%※個人の感想です')).toEqual(['unsubstantiated']);
+  });
+
+  it('今回・当社・独自の調査は出典の名指しとみなさない', () => {
+    expect(statuses('今回の調査で満足度92%')).toEqual(['unsubstantiated']);
+    expect(statuses('当社の調査では満足度92%でした')).toEqual(['unsubstantiated']);
+    expect(statuses('継続率85%※2024年 当社調べ')).toEqual(['unsubstantiated']);
+    expect(statuses('継続率85%（出典: 独自調査）')).toEqual(['unsubstantiated']);
+  });
+
+  it('期限切れの根拠は stale にする', () => {
+    expect(statuses('受講者満足度92%', [evidence({ expiresAt: '2024-05-31' })])).toEqual(['stale']);
+  });
+});
+
+describe('ClaimEvidenceStore.register', () => {
+  it('metric を指定しなければ主張の数値の前の部分を使う', async () => {
+    const client = createClient({ url: ':memory:' });
+    const store = new ClaimEvidenceStore(() => client);
+
+    const registered = await store.register({ product: 'スクールA', claim: '受講者満足度92%', source: '〇〇リサーチ', surveyedAt: '2024-01-10' }, now);
+    expect(registered).toMatchObject({ figures: ['92%'], metric: '受講者満足度', expiresAt: '2025-01-10' });
+
+    const explicit = await store.register({ product: 'スクールA', claim: '92%が満足', metric: '満足', source: '〇〇リサーチ', surveyedAt: '2024-01-10' }, now);
+    expect(explicit.metric).toBe('満足');
+
+    await expect(store.register({ product: 'スクールA', claim: '92%', source: '〇〇リサーチ', surveyedAt: '2024-01-10' }, now))
+      .rejects.toThrow(/specify metric/);
+    await expect(store.register({ product: 'スクールA', claim: '満足度92%', source: '〇〇リサーチ', surveyedAt: '2024-13-40' }, now))
+      .rejects.toThrow('Invalid surveyedAt: 2024-13-40');
+    client.close();
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, it, expect } from '@jest/globals';
+import { dedupeComments, parseCommentExport } from '../comments';
+
+describe('parseCommentExport', () => {
+  it('ID のないコメントは内容から ID を作り、別の入力の同じ位置のコメントとまとめない', () => {
+    const fromFile = parseCommentExport(JSON.stringify([{ text: '発音のコツが知りたい', author: 'A' }]));
+    const fromJson = parseCommentExport(JSON.stringify([{ text: '教材のおすすめは？', author: 'B' }]));
+    const again = parseCommentExport(JSON.stringify([{ text: 'ほかのコメント' }, { text: '発音のコツが知りたい', author: 'A' }]));
+
+    expect(fromFile[0].commentId).not.toBe(fromJson[0].commentId);
+    expect(dedupeComments([...fromFile, ...fromJson])).toHaveLength(2);
+    expect(again[1].commentId).toBe(fromFile[0].commentId);
+  });
+});
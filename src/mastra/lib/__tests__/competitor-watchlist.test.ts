@@ -0,0 +1,35 @@
+import { describe, it, expect } from '@jest/globals';
+import { diffChannelVideos } from '../competitor-watchlist';
+
+const now = new Date('2024-06-02T00:00:00Z');
+const channel = { channelId: 'UC1', label: '競合A', productKeywords: [], addedAt: '2024-05-01T00:00:00Z', lastScannedAt: '2024-06-01T00:00:00Z' };
+const options = { spikeMultiplier: 3, spikeMinViews: 1000 };
+
+function video(videoId: string, products: string[], publishedAt = '2024-05-20T00:00:00Z') {
+  return { videoId, channelId: 'UC1', title: `動画${videoId}`, thumbnail: `${videoId}.jpg`, views: 100, products, checkedAt: '2024-06-01T00:00:00Z', publishedAt };
+}
+
+function productAlerts(previous: ReturnType<typeof video>[], current: ReturnType<typeof video>[]) {
+  const before = new Map(previous.map(v => [v.videoId, v]));
+  return diffChannelVideos(channel, before, current, options, now)
+    .filter(alert => alert.type === 'new_affiliate_product')
+    .map(alert => ({ videoId: alert.videoId, products: alert.details.products }));
+}
+
+describe('diffChannelVideos の新商品アラート', () => {
+  it('既存動画の説明欄に追加されたリンクは、他の動画で紹介済みの商品でもアラートにする', () => {
+    const previous = [video('v1', ['amzn.to/a']), video('v2', ['amzn.to/b'])];
+    const current = [video('v1', ['amzn.to/a', 'amzn.to/b']), video('v2', ['amzn.to/b'])];
+    expect(productAlerts(previous, current)).toEqual([{ videoId: 'v1', products: ['amzn.to/b'] }]);
+  });
+
+  it('前回の一覧になかった古い動画の商品は基準に加えるだけで、新着動画はチャンネル未紹介の商品だけを拾う', () => {
+    const previous = [video('v1', ['amzn.to/a'])];
+    const current = [
+      video('v1', ['amzn.to/a']),
+      video('v0', ['amzn.to/old'], '2024-04-01T00:00:00Z'),
+      video('v3', ['amzn.to/a', 'amzn.to/old', 'amzn.to/new'], '2024-06-01T12:00:00Z'),
+    ];
+    expect(productAlerts(previous, current)).toEqual([{ videoId: 'v3', products: ['amzn.to/new'] }]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from '@jest/globals';
+import { createClient } from '@libsql/client';
+import { ComplianceAuditStore, toAuditCsv, toOverrides } from '../compliance-audit';
+import type { ComplianceAuditRun } from '../compliance-audit';
+import type { SuppressedIssue } from '../compliance-rules';
+
+const checkedAt = new Date('2024-06-01T09:00:00Z');
+
+function run(status: string): Omit<ComplianceAuditRun, 'id'> {
+  return {
+    action: 'check_content',
+    contentId: 'video-1',
+    contentHash: 'hash-1',
+    rulePacks: [{ id: 'jp-keihyo', version: '2024.12' }],
+    score: status === 'compliant' ? 100 : 75,
+    status,
+    issues: [],
+    overrides: [],
+    checkedAt: checkedAt.toISOString(),
+  };
+}
+
+function suppressed(approvedBy?: string): SuppressedIssue {
+  return {
+    severity: 'high',
+    category: '景品表示法',
+    issue: '最上級表現「No.1」に根拠の表示がありません',
+    recommendation: '注記してください',
+    id: 'keihyo.superlative:No.1:1',
+    ruleId: 'keihyo.superlative',
+    suppressionReason: '調査報告書を別途保管',
+    approvedBy,
+  };
+}
+
+describe('toOverrides', () => {
+  it('承認者と記録日時を残す', () => {
+    expect(toOverrides([suppressed('legal@example.com')], checkedAt)).toEqual([{
+      issueId: 'keihyo.superlative:No.1:1',
+      ruleId: 'keihyo.superlative',
+      reason: '調査報告書を別途保管',
+      approvedBy: 'legal@example.com',
+      recordedAt: checkedAt.toISOString(),
+    }]);
+  });
+
+  it('承認者のない抑制は記録を拒否する', () => {
+    expect(() => toOverrides([suppressed()], checkedAt)).toThrow('Suppressions recorded in the compliance audit need approvedBy: keihyo.superlative:No.1:1');
+  });
+});
+
+describe('ComplianceAuditStore', () => {
+  it('compliant 以外のチェックにはサインオフできない', async () => {
+    const client = createClient({ url: ':memory:' });
+    const store = new ComplianceAuditStore(() => client);
+    const attention = await store.recordRun(run('needs_attention'));
+    await expect(store.signOff(attention.id, 'editor')).rejects.toThrow(`Compliance audit run ${attention.id} is needs_attention`);
+    client.close();
+  });
+
+  it('公開時点の compliant なチェックとサインオフがそろえば passed にする', async () => {
+    const client = createClient({ url: ':memory:' });
+    const store = new ComplianceAuditStore(() => client);
+    const compliant = await store.recordRun({ ...run('compliant'), overrides: toOverrides([suppressed('legal@example.com')], checkedAt) });
+    await store.signOff(compliant.id, 'editor', undefined, new Date('2024-06-01T10:00:00Z'));
+
+    const record = await store.publicationRecord('video-1', new Date('2024-06-02T00:00:00Z'), 'hash-1');
+    expect(record).toMatchObject({ passed: true, hashMatches: true, signOff: { approvedBy: 'editor' } });
+    expect(toAuditCsv([record.run!], [record.signOff!])).toContain('keihyo.superlative:No.1:1: 調査報告書を別途保管（legal@example.com）');
+
+    const before = await store.publicationRecord('video-1', new Date('2024-06-01T09:30:00Z'));
+    expect(before.passed).toBe(false);
+    client.close();
+  });
+
+  it('同じ contentId で後から実行したキャンペーン監査は、公開時点のチェックとして扱わない', async () => {
+    const client = createClient({ url: ':memory:' });
+    const store = new ComplianceAuditStore(() => client);
+    const compliant = await store.recordRun(run('compliant'));
+    await store.signOff(compliant.id, 'editor', undefined, new Date('2024-06-01T10:00:00Z'));
+    await store.recordRun({ ...run('needs_attention'), action: 'audit_campaign', contentHash: 'hash-2', checkedAt: '2024-06-01T11:00:00.000Z' });
+
+    const record = await store.publicationRecord('video-1', new Date('2024-06-02T00:00:00Z'), 'hash-1');
+    expect(record).toMatchObject({ passed: true, run: { id: compliant.id, action: 'check_content' } });
+    client.close();
+  });
+});
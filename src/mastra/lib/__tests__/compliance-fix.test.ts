@@ -0,0 +1,59 @@
+import { describe, it, expect } from '@jest/globals';
+import { ComplianceRuleRegistry, evaluateCompliance } from '../compliance-rules';
+import { BUILTIN_RULE_PACKS } from '../compliance-rule-packs';
+import { fixCompliance, hashContent } from '../compliance-fix';
+
+const registry = new ComplianceRuleRegistry(BUILTIN_RULE_PACKS);
+const keihyo = [registry.get('jp-keihyo')!];
+const PLACEHOLDER = '※[根拠: 調査機関・調査期間・調査対象を記載]';
+
+function fix(content: string, options: Parameters<typeof fixCompliance>[3] = {}) {
+  const { issues } = evaluateCompliance(content, keihyo);
+  return fixCompliance(content, issues, keihyo, options);
+}
+
+function ruleIds(content: string): string[] {
+  return evaluateCompliance(content, keihyo).issues.map(issue => issue.ruleId!);
+}
+
+describe('fixCompliance', () => {
+  it('採否を指定しないハンクは保留にし、本文を変えない', () => {
+    const content = '【PR】\n必ず話せるようになります。\n業界No.1のスクールです。';
+    const result = fix(content);
+    expect(result.hunks.map(hunk => hunk.status)).toEqual(['pending', 'pending']);
+    expect(result.fixedContent).toBe(content);
+    expect(result.baseHash).toBe(hashContent(content));
+    expect(result.proposedContent).toContain(`No.1${PLACEHOLDER}`);
+  });
+
+  it('ハンクごとの採否を反映し、知らないハンクIDは拒否する', () => {
+    const content = '【PR】\n必ず話せるようになります。\n業界No.1のスクールです。';
+    const result = fix(content, { decisions: [{ hunkId: 'hunk-1', accept: true }, { hunkId: 'hunk-2', accept: false }] });
+    expect(result.fixedContent).toBe('【PR】\n多くの場合話せるようになります。\n業界No.1のスクールです。');
+    expect(() => fix(content, { decisions: [{ hunkId: 'hunk-9', accept: true }] })).toThrow('Unknown hunk ids: hunk-9');
+  });
+
+  it('未記入の記入欄は根拠とみなさず、applyAll の後も最上級・数値表示の指摘を残す', () => {
+    const content = '【PR】業界No.1のスクールで、受講者の92%が満足しています。';
+    const { fixedContent } = fix(content, { applyAll: true });
+    expect(fixedContent).toBe(`【PR】業界No.1${PLACEHOLDER}のスクールで、受講者の92%${PLACEHOLDER}が満足しています。`);
+    expect(ruleIds(fixedContent)).toEqual(['keihyo.superlative', 'keihyo.numeric-claim']);
+
+    const filled = fixedContent.split(PLACEHOLDER).join('※2024年 当社調べ（受講者500名）');
+    expect(ruleIds(filled)).toEqual([]);
+  });
+
+  it('記入欄がすでにある指摘には、もう1つ記入欄を入れない', () => {
+    const result = fix(`【PR】業界No.1${PLACEHOLDER}のスクールです。`, { applyAll: true });
+    expect(result.hunks).toEqual([]);
+    expect(result.unfixed.map(issue => issue.unfixedReason)).toEqual(['記入欄はすでにあります。内容を記入してください']);
+  });
+
+  it('記入欄ではない挿入（定期契約の案内）は、挿入した文言で指摘が解消する', () => {
+    const tokusho = [registry.get('jp-tokusho')!];
+    const content = '初回無料でお試しいただけます。';
+    const { issues } = evaluateCompliance(content, tokusho);
+    const { fixedContent } = fixCompliance(content, issues, tokusho, { applyAll: true });
+    expect(evaluateCompliance(fixedContent, tokusho).issues.map(issue => issue.ruleId)).not.toContain('tokusho.subscription-trial');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ComplianceRuleRegistry, evaluateCompliance } from '../compliance-rules';
+import { BUILTIN_RULE_PACKS } from '../compliance-rule-packs';
+
+const registry = new ComplianceRuleRegistry(BUILTIN_RULE_PACKS);
+
+function ruleIds(content: string, packIds: string[], contentType?: string): string[] {
+  const packs = packIds.map(id => registry.get(id)!);
+  return evaluateCompliance(content, packs, { contentType }).issues.map(issue => issue.ruleId!);
+}
+
+describe('ComplianceRuleRegistry.forMarket', () => {
+  it('scope ごとにパックを分け、check_content には開示・監査のパックを含めない', () => {
+    expect(registry.forMarket('jp').map(pack => pack.id)).toEqual(['jp-keihyo', 'jp-yakki', 'jp-tokusho', 'jp-appi']);
+    expect(registry.forMarket('global', 'disclosure').map(pack => pack.id)).toEqual(['jp-disclosure', 'us-disclosure']);
+    expect(registry.forMarket('jp', 'campaign_audit').map(pack => pack.id)).toEqual(['jp-campaign-audit']);
+  });
+});
+
+describe('evaluateCompliance（組み込みパック）', () => {
+  it('最上級表現は根拠の注記があれば指摘しない', () => {
+    expect(ruleIds('業界No.1の英会話スクールです。', ['jp-keihyo'])).toContain('keihyo.superlative');
+    expect(ruleIds('【PR】業界No.1（※2024年 当社調べ）の英会話スクールです。', ['jp-keihyo'])).not.toContain('keihyo.superlative');
+  });
+
+  it('開示がなければ missing、冒頭200文字より後ろにしかなければ position を指摘する', () => {
+    expect(ruleIds('おすすめの英会話スクールを紹介します。', ['jp-disclosure'])).toEqual(['disclosure.missing']);
+    expect(ruleIds(`${'本文'.repeat(120)}この記事は広告を含みます。`, ['jp-disclosure'])).toEqual(['disclosure.position']);
+    expect(ruleIds('【PR】おすすめの英会話スクールを紹介します。', ['jp-disclosure'])).toEqual([]);
+  });
+
+  it('英単語の一部（"lead" の "ad"）は開示とみなさない', () => {
+    expect(ruleIds('We lead the market.', ['jp-disclosure'])).toEqual(['disclosure.missing']);
+  });
+
+  it('キャンペーン監査は区分（category）ごとに指摘する', () => {
+    const { issues } = evaluateCompliance(
+      '月額3,980円で受講できます。メールで資料をお送りします。',
+      [registry.get('jp-campaign-audit')!]
+    );
+    expect(issues.map(issue => issue.category)).toEqual(
+      expect.arrayContaining(['表示義務', '価格表示', '特定商取引法', 'プライバシー'])
+    );
+    expect(issues.every(issue => issue.packVersion === '2024.11')).toBe(true);
+    expect(issues.some(issue => issue.category === '著作権')).toBe(false);
+  });
+
+  it('税込の表示があれば価格表示を指摘しない', () => {
+    expect(ruleIds('【PR】月額3,980円（税込）', ['jp-campaign-audit'])).not.toContain('campaign.tax-display');
+  });
+});
+
+describe('ComplianceRuleRegistry.loadDirectory', () => {
+  it('壊れたファイルは飛ばして記録し、他のファイルのパックは登録する', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'compliance-rules-'));
+    try {
+      writeFileSync(join(dir, 'a-broken.yaml'), 'id: [unclosed');
+      writeFileSync(join(dir, 'b-invalid.json'), JSON.stringify({ id: 'invalid', name: 'rules なし', version: '1', market: 'jp', law: '社内基準', rules: [] }));
+      writeFileSync(join(dir, 'c-house.json'), JSON.stringify({
+        id: 'house',
+        name: '社内ガイドライン',
+        version: '2025.01',
+        market: 'jp',
+        law: '社内基準',
+        rules: [{ id: 'house.competitor', title: '競合名', severity: 'medium', message: '「{match}」', recommendation: '伏せる', terms: ['競合A'] }],
+      }));
+
+      const loaded = new ComplianceRuleRegistry(BUILTIN_RULE_PACKS);
+      expect(loaded.loadDirectory(dir).map(pack => pack.id)).toEqual(['house']);
+      expect(loaded.get('house')?.scope).toBe('content');
+      expect(loaded.loadErrors().map(e => e.file)).toEqual([join(dir, 'a-broken.yaml'), join(dir, 'b-invalid.json')]);
+      expect(loaded.loadErrors()[1].error).toMatch(/Invalid compliance rule pack/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
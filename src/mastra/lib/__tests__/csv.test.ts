@@ -0,0 +1,18 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseCsvRecords, pickRatio } from '../csv';
+
+const CTR = ['ctr', 'Impressions click-through rate'];
+
+describe('pickRatio', () => {
+  it('列名に (%) があれば 1 以下の値も百分率として読む', () => {
+    const [low, high] = parseCsvRecords('Content,Impressions click-through rate (%)\nv1,0.8\nv2,4.5');
+    expect(pickRatio(low, CTR)).toBeCloseTo(0.008);
+    expect(pickRatio(high, CTR)).toBeCloseTo(0.045);
+  });
+
+  it('単位のない列は比率として読み、値に % が付いていれば百分率にする', () => {
+    expect(pickRatio({ ctr: '0.8' }, CTR)).toBe(0.8);
+    expect(pickRatio({ ctr: '0.8%' }, CTR)).toBeCloseTo(0.008);
+    expect(pickRatio({ ctr: '' }, CTR)).toBeUndefined();
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from '@jest/globals';
+import { verifyVideoDisclosure } from '../disclosure-verification';
+
+const video = {
+  description: '【PR】本動画は〇〇社の提供でお送りします。\n詳細はこちら',
+  pinnedComment: '【PR】紹介した商品のリンクです',
+  productionChecklist: [{ task: '冒頭の「PR」テロップ表示（ステマ規制）', category: 'ポストプロダクション' }],
+};
+
+describe('verifyVideoDisclosure の画面表示', () => {
+  it('制作チェックリストの計画だけでは disclosed にせず、compliant にもしない', () => {
+    const result = verifyVideoDisclosure(video);
+    const onScreen = result.surfaces.find(s => s.surface === 'on_screen')!;
+    expect(onScreen.status).toBe('planned');
+    expect(result.unverifiedSurfaces).toEqual(['on_screen']);
+    expect(result.missingSurfaces).toEqual([]);
+    expect(result.compliant).toBe(false);
+    expect(result.issues.map(issue => issue.id)).toEqual(['stealth.on_screen']);
+  });
+
+  it('編集後のテロップを冒頭から3秒以上表示していれば disclosed にする', () => {
+    const result = verifyVideoDisclosure({
+      ...video,
+      onScreenText: [{ text: 'PR', startSeconds: 0, durationSeconds: 5 }],
+    });
+    expect(result.surfaces.find(s => s.surface === 'on_screen')!.status).toBe('disclosed');
+    expect(result.compliant).toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+import { afterEach, describe, it, expect } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FixtureSuggestionSource, YouTubeAutocompleteSource, researchKeywords } from '../keyword-research';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+function writeFixture(content: string): { path: string; cleanup: () => void } {
+  const dir = mkdtempSync(join(tmpdir(), 'keyword-fixture-'));
+  const path = join(dir, 'suggestions.json');
+  writeFileSync(path, content);
+  return { path, cleanup: () => rmSync(dir, { recursive: true, force: true }) };
+}
+
+describe('FixtureSuggestionSource.fromFile', () => {
+  it('シード語 → サジェスト一覧 のJSONを読み込む', async () => {
+    const fixture = writeFixture(JSON.stringify({ 英会話: ['英会話 初心者', '英会話 オンライン'] }));
+    try {
+      const source = await FixtureSuggestionSource.fromFile(fixture.path);
+      await expect(source.suggest('英会話')).resolves.toEqual(['英会話 初心者', '英会話 オンライン']);
+      await expect(source.suggest('未登録')).resolves.toEqual([]);
+    } finally {
+      fixture.cleanup();
+    }
+  });
+
+  it('形の違うJSONはどの値が不正か示して拒否する', async () => {
+    const fixture = writeFixture(JSON.stringify({ 英会話: '英会話 初心者' }));
+    try {
+      await expect(FixtureSuggestionSource.fromFile(fixture.path)).rejects.toThrow(/Invalid suggestion fixture .*英会話/);
+    } finally {
+      fixture.cleanup();
+    }
+  });
+
+  it('壊れたJSONはファイル名付きで拒否する', async () => {
+    const fixture = writeFixture('{ "英会話": [');
+    try {
+      await expect(FixtureSuggestionSource.fromFile(fixture.path)).rejects.toThrow(/Invalid suggestion fixture/);
+    } finally {
+      fixture.cleanup();
+    }
+  });
+});
+
+describe('YouTubeAutocompleteSource', () => {
+  it('応答しないときは時間切れにし、リサーチはサジェストなしで続ける', async () => {
+    globalThis.fetch = ((_url: string, init?: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+      })) as typeof fetch;
+
+    const source = new YouTubeAutocompleteSource('ja', 10);
+    await expect(source.suggest('英会話')).rejects.toThrow('Autocomplete request timed out after 10ms');
+
+    const result = await researchKeywords('オンライン英会話 スクール', { targetCount: 5, suggestionSource: source });
+    expect(result.keywords.length).toBeGreaterThan(0);
+    expect(result.keywords.every(k => k.provenance.source === 'product_info')).toBe(true);
+    expect(result.warnings.some(w => w.includes('timed out'))).toBe(true);
+  });
+});
@@ -0,0 +1,11 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseAudienceExport } from '../personas';
+
+describe('parseAudienceExport', () => {
+  it('(%) の列は 1 以下の値も百分率として他の行と同じ単位で読む', () => {
+    const { dimension, shares } = parseAudienceExport('Viewer age,Views (%)\nage18-24,59.2\nage25-34,40\nage65-,0.8\n合計,100');
+    expect(dimension).toBe('age');
+    expect(shares.map(s => s.label)).toEqual(['18-24歳', '25-34歳', '65歳以上']);
+    expect(shares[2].share).toBeCloseTo(0.008);
+  });
+});
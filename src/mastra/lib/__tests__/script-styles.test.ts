@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ScriptStyleRegistry } from '../script-styles';
+import { BUILTIN_SCRIPT_STYLES } from '../script-style-presets';
+
+const taiki = BUILTIN_SCRIPT_STYLES.find(style => style.id === 'taiki')!;
+
+describe('ScriptStyleRegistry.loadDirectory', () => {
+  it('壊れたファイルは飛ばして記録し、他のファイルのスタイルは登録する', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'script-styles-'));
+    try {
+      writeFileSync(join(dir, 'a-broken.yaml'), 'id: [unclosed');
+      writeFileSync(join(dir, 'b-invalid.json'), JSON.stringify({ id: 'invalid', styleName: 'ratio なし' }));
+      writeFileSync(join(dir, 'c-house.json'), JSON.stringify({ ...taiki, id: 'house-review', styleName: 'ハウス型' }));
+      writeFileSync(join(dir, 'notes.txt'), 'スタイル定義ではないファイル');
+
+      const registry = new ScriptStyleRegistry(BUILTIN_SCRIPT_STYLES);
+      const loaded = registry.loadDirectory(dir);
+
+      expect(loaded.map(style => style.id)).toEqual(['house-review']);
+      expect(registry.has('house-review')).toBe(true);
+      expect(registry.has('taiki')).toBe(true);
+      expect(registry.loadErrors().map(e => e.file)).toEqual([join(dir, 'a-broken.yaml'), join(dir, 'b-invalid.json')]);
+      expect(registry.loadErrors()[1].error).toMatch(/Invalid script style/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('配列のファイルに不正な定義が1件でもあれば、そのファイルの定義は登録しない', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'script-styles-'));
+    try {
+      writeFileSync(join(dir, 'styles.json'), JSON.stringify([{ ...taiki, id: 'house-a' }, { id: 'house-b' }]));
+
+      const registry = new ScriptStyleRegistry();
+      expect(registry.loadDirectory(dir)).toEqual([]);
+      expect(registry.has('house-a')).toBe(false);
+      expect(registry.loadErrors()).toHaveLength(1);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('ディレクトリがなければ記録して組み込みスタイルだけで続ける', () => {
+    const registry = new ScriptStyleRegistry(BUILTIN_SCRIPT_STYLES);
+    expect(registry.loadDirectory(join(tmpdir(), 'no-such-script-styles-dir'))).toEqual([]);
+    expect(registry.loadErrors()).toHaveLength(1);
+    expect(registry.get('taiki')?.styleName).toBe(taiki.styleName);
+  });
+});
@@ -0,0 +1,12 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseDurationRange } from '../script-timing';
+
+describe('parseDurationRange', () => {
+  it('日本語と英語の単位を秒の範囲に変換する', () => {
+    expect(parseDurationRange('40-45秒')).toEqual({ minSeconds: 40, maxSeconds: 45 });
+    expect(parseDurationRange('1分30秒')).toEqual({ minSeconds: 90, maxSeconds: 90 });
+    expect(parseDurationRange('5min')).toEqual({ minSeconds: 300, maxSeconds: 300 });
+    expect(parseDurationRange('3-5min')).toEqual({ minSeconds: 180, maxSeconds: 300 });
+    expect(parseDurationRange('1m30s')).toEqual({ minSeconds: 90, maxSeconds: 90 });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from '@jest/globals';
+import { createCanvas } from '@napi-rs/canvas';
+import { analyzeThumbnailConcept, analyzeThumbnailImage } from '../thumbnail-legibility';
+import type { ThumbnailConcept } from '../thumbnail-renderer';
+
+function blackBlocksOnWhite(): Buffer {
+  const canvas = createCanvas(1280, 720);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, 1280, 720);
+  ctx.fillStyle = '#000000';
+  for (let x = 80; x < 1200; x += 160) {
+    ctx.fillRect(x, 120, 100, 140);
+  }
+  return canvas.toBuffer('image/png');
+}
+
+function concept(overrides: Partial<ThumbnailConcept>): ThumbnailConcept {
+  return {
+    mainText: '秘密の方法',
+    layout: 'text_center',
+    background: { type: 'solid', color: '#000000' },
+    textColor: '#FFFFFF',
+    outlineColor: '#000000',
+    accentColor: '#F59E0B',
+    ...overrides,
+  };
+}
+
+describe('analyzeThumbnailImage', () => {
+  it('画像全体を文字領域に指定しても評価できる', async () => {
+    const report = await analyzeThumbnailImage(blackBlocksOnWhite(), [{ x: 0, y: 0, width: 1280, height: 720, text: '秘密' }]);
+    const [region] = report.regions;
+    expect(region.box).toEqual({ x: 0, y: 0, width: 1280, height: 720 });
+    expect(region.textColor).toBe('#000000');
+    expect(region.backgroundColor).toBe('#FFFFFF');
+    expect(region.contrast.effective).toBeGreaterThan(20);
+  });
+});
+
+describe('analyzeThumbnailConcept', () => {
+  it('背景と同じ色の縁取りではコントラストを補えない', async () => {
+    const report = await analyzeThumbnailConcept(concept({
+      background: { type: 'solid', color: '#FFFFFF' },
+      textColor: '#FFFF00',
+      outlineColor: '#FFFFFF',
+    }));
+    const main = report.regions.find(r => r.role === 'main')!;
+    expect(main.contrast.outlineVsBackground).toBe(1);
+    expect(main.contrast.effective).toBeLessThan(1.5);
+    expect(main.contrast.passesAA).toBe(false);
+  });
+
+  it('背景と差のある縁取りは、文字と縁取り・縁取りと背景の低い方まで実効コントラストを上げる', async () => {
+    const report = await analyzeThumbnailConcept(concept({
+      background: { type: 'solid', color: '#FFFFFF' },
+      textColor: '#FFFF00',
+      outlineColor: '#000000',
+    }));
+    const main = report.regions.find(r => r.role === 'main')!;
+    expect(main.contrast.textVsBackground).toBeLessThan(1.5);
+    expect(main.contrast.textVsOutline).toBeGreaterThan(19);
+    expect(main.contrast.outlineVsBackground).toBe(21);
+    expect(main.contrast.effective).toBe(main.contrast.textVsOutline);
+    expect(main.contrast.passesAA).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from '@jest/globals';
+import { createClient } from '@libsql/client';
+import { LibSQLQuotaLedger, quotaDay } from '../youtube-cache';
+import type { QuotaUsage, YouTubeEndpoint, YouTubeQuotaLedger } from '../youtube-cache';
+import { YouTubeService } from '../youtube';
+import { YouTubeQuotaExceededError, YouTubeRateLimitError, toYouTubeError } from '../youtube-errors';
+
+function gaxiosError(status: number, reason: string) {
+  return Object.assign(new Error(reason), { code: status, errors: [{ reason, message: reason }] });
+}
+
+class MemoryLedger implements YouTubeQuotaLedger {
+  used = 0;
+  exhausted = false;
+
+  constructor(private readonly limit = 10000) {}
+
+  async usage(): Promise<QuotaUsage> {
+    return { day: quotaDay(), used: this.exhausted ? this.limit : this.used, limit: this.limit };
+  }
+
+  async consume(_endpoint: YouTubeEndpoint, units: number): Promise<void> {
+    this.used += units;
+  }
+
+  async markExhausted(): Promise<void> {
+    this.exhausted = true;
+  }
+}
+
+function serviceWithChannels(ledger: YouTubeQuotaLedger, list: () => Promise<unknown>): YouTubeService {
+  const service = new YouTubeService('test-key', { cache: null, quotaLedger: ledger, oauth: null, rateLimitBackoffMs: 0 });
+  (service as unknown as { youtube: unknown }).youtube = { channels: { list } };
+  return service;
+}
+
+describe('LibSQLQuotaLedger', () => {
+  it('太平洋時間の日ごとに消費ユニットを集計し、使い切りを記録する', async () => {
+    const client = createClient({ url: ':memory:' });
+    const ledger = new LibSQLQuotaLedger(10000, () => client);
+    const now = new Date('2024-06-01T12:00:00Z');
+
+    await ledger.consume('search.list', 100, now);
+    await ledger.consume('videos.list', 1, now);
+    await ledger.consume('videos.list', 1, now);
+    await expect(ledger.usage(now)).resolves.toEqual({ day: '2024-06-01', used: 102, limit: 10000 });
+
+    await ledger.markExhausted(now);
+    await expect(ledger.usage(now)).resolves.toMatchObject({ used: 10000 });
+    // 太平洋時間の0時を過ぎた翌日は0から数える
+    await expect(ledger.usage(new Date('2024-06-02T08:00:00Z'))).resolves.toMatchObject({ day: '2024-06-02', used: 0 });
+    client.close();
+  });
+});
+
+describe('toYouTubeError', () => {
+  it('1日のクォータ切れと短時間の集中による制限を区別する', () => {
+    expect(toYouTubeError(gaxiosError(403, 'quotaExceeded'), 'op')).toBeInstanceOf(YouTubeQuotaExceededError);
+    expect(toYouTubeError(gaxiosError(403, 'rateLimitExceeded'), 'op')).toBeInstanceOf(YouTubeRateLimitError);
+    expect(toYouTubeError(gaxiosError(403, 'userRateLimitExceeded'), 'op')).toBeInstanceOf(YouTubeRateLimitError);
+    expect(toYouTubeError(new Error('socket hang up'), 'op').reason).toBe('unknown');
+  });
+});
+
+describe('YouTubeService のクォータ管理', () => {
+  it('rateLimitExceeded は台帳を使い切りにせず、待って再実行する', async () => {
+    const ledger = new MemoryLedger();
+    let calls = 0;
+    const service = serviceWithChannels(ledger, async () => {
+      calls++;
+      if (calls < 3) throw gaxiosError(403, 'rateLimitExceeded');
+      return { data: { items: [{ id: 'UC1' }] } };
+    });
+
+    await expect(service.getChannelInfo('UC1')).resolves.toEqual({ id: 'UC1' });
+    expect(calls).toBe(3);
+    expect(ledger.exhausted).toBe(false);
+    expect(ledger.used).toBe(3);
+  });
+
+  it('再実行しても制限が続けば YouTubeRateLimitError を投げる', async () => {
+    const ledger = new MemoryLedger();
+    const service = serviceWithChannels(ledger, async () => {
+      throw gaxiosError(403, 'userRateLimitExceeded');
+    });
+
+    await expect(service.getChannelInfo('UC1')).rejects.toBeInstanceOf(YouTubeRateLimitError);
+    expect(ledger.exhausted).toBe(false);
+  });
+
+  it('quotaExceeded は台帳を使い切りにし、以降はAPIを呼ばない', async () => {
+    const ledger = new MemoryLedger();
+    let calls = 0;
+    const service = serviceWithChannels(ledger, async () => {
+      calls++;
+      throw gaxiosError(403, 'quotaExceeded');
+    });
+
+    await expect(service.getChannelInfo('UC1')).rejects.toBeInstanceOf(YouTubeQuotaExceededError);
+    expect(ledger.exhausted).toBe(true);
+    await expect(service.getChannelInfo('UC2')).rejects.toMatchObject({ local: true });
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,145 @@
+import { toProportionSample } from './ab-test-store';
+import type { ABTest, BanditAlgorithm, TestVariant } from './ab-test-store';
+
+export type RandomSource = () => number;
+
+export interface BanditChoice {
+  variant: TestVariant;
+  explored: boolean;
+  allocation: Array<{ variantId: string; name: string; probability: number; posteriorMean: number }>;
+}
+
+// 割り当て確率をモンテカルロで推定する際の試行回数
+const ALLOCATION_SIMULATIONS = 2000;
+
+function standardNormal(random: RandomSource): number {
+  // Box-Muller 法
+  let u = 0;
+  while (u === 0) u = random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * ガンマ分布からのサンプリング（Marsaglia-Tsang 法）
+ */
+function sampleGamma(shape: number, random: RandomSource): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = standardNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x * x * x * x || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v;
+    }
+  }
+}
+
+export function sampleBeta(alpha: number, beta: number, random: RandomSource = Math.random): number {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x / (x + y);
+}
+
+function posterior(variant: TestVariant, test: ABTest) {
+  const sample = toProportionSample(variant, test.metric);
+  return {
+    alpha: 1 + sample.successes,
+    beta: 1 + Math.max(0, sample.trials - sample.successes),
+    mean: (1 + sample.successes) / (2 + sample.trials),
+  };
+}
+
+function thompsonDraw(test: ABTest, random: RandomSource): number {
+  let bestIndex = 0;
+  let bestDraw = -1;
+  test.variants.forEach((v, index) => {
+    const p = posterior(v, test);
+    const draw = sampleBeta(p.alpha, p.beta, random);
+    if (draw > bestDraw) {
+      bestDraw = draw;
+      bestIndex = index;
+    }
+  });
+  return bestIndex;
+}
+
+function greedyIndex(test: ABTest): number {
+  let bestIndex = 0;
+  test.variants.forEach((v, index) => {
+    if (posterior(v, test).mean > posterior(test.variants[bestIndex], test).mean) {
+      bestIndex = index;
+    }
+  });
+  return bestIndex;
+}
+
+/**
+ * 各バリアントが最良である事後確率（トンプソンサンプリングの割り当て比率と一致）
+ */
+export function probabilityOfBeingBest(test: ABTest, random: RandomSource = Math.random): number[] {
+  const wins = new Array(test.variants.length).fill(0);
+  for (let i = 0; i < ALLOCATION_SIMULATIONS; i++) {
+    wins[thompsonDraw(test, random)]++;
+  }
+  return wins.map(w => w / ALLOCATION_SIMULATIONS);
+}
+
+export function posteriorMean(test: ABTest, variant: TestVariant): number {
+  return posterior(variant, test).mean;
+}
+
+function estimateAllocation(test: ABTest, algorithm: BanditAlgorithm, epsilon: number, random: RandomSource): number[] {
+  if (algorithm === 'epsilon_greedy') {
+    const k = test.variants.length;
+    const best = greedyIndex(test);
+    return test.variants.map((_, index) => epsilon / k + (index === best ? 1 - epsilon : 0));
+  }
+  return probabilityOfBeingBest(test, random);
+}
+
+/**
+ * 次に配信するバリアントを選ぶ
+ * 事後分布は各バリアントの集計値（record_event で登録された実績）から毎回計算する
+ */
+export function chooseBanditVariant(test: ABTest, random: RandomSource = Math.random): BanditChoice {
+  const config = test.bandit;
+  if (test.mode !== 'bandit' || !config) {
+    throw new Error(`Test ${test.testId} is not a bandit test`);
+  }
+
+  let index: number;
+  let explored = false;
+  if (config.algorithm === 'epsilon_greedy') {
+    if (random() < config.epsilon) {
+      index = Math.floor(random() * test.variants.length);
+      explored = true;
+    } else {
+      index = greedyIndex(test);
+    }
+  } else {
+    index = thompsonDraw(test, random);
+    explored = index !== greedyIndex(test);
+  }
+
+  const probabilities = estimateAllocation(test, config.algorithm, config.epsilon, random);
+  return {
+    variant: test.variants[index],
+    explored,
+    allocation: test.variants.map((v, i) => ({
+      variantId: v.id,
+      name: v.name,
+      probability: probabilities[i],
+      posteriorMean: posterior(v, test).mean,
+    })),
+  };
+}
@@ -0,0 +1,123 @@
+import {
+  obrienFlemingAlphaSpent,
+  rate,
+  requiredSampleSizePerVariant,
+  twoProportionZTest,
+} from './ab-statistics';
+import { toProportionSample } from './ab-test-store';
+import type { ABTest, SequentialDesign, SequentialLook } from './ab-test-store';
+
+export interface SequentialDesignInput {
+  baselineRate: number;
+  minimumDetectableEffect: number;
+  alpha?: number;
+  power?: number;
+}
+
+/**
+ * テスト作成時に必要サンプルサイズを確定させた逐次検定の設計を作る
+ * 多群比較ではBonferroni補正後のαでサンプルサイズを計算する
+ */
+export function createSequentialDesign(
+  input: SequentialDesignInput,
+  variantCount: number
+): SequentialDesign {
+  const alpha = input.alpha ?? 0.05;
+  const power = input.power ?? 0.8;
+  const comparisons = Math.max(1, variantCount - 1);
+
+  return {
+    baselineRate: input.baselineRate,
+    minimumDetectableEffect: input.minimumDetectableEffect,
+    alpha,
+    power,
+    requiredSampleSizePerVariant: requiredSampleSizePerVariant(
+      input.baselineRate,
+      input.minimumDetectableEffect,
+      alpha / comparisons,
+      power
+    ),
+    looks: [],
+  };
+}
+
+/**
+ * イベントのバッチ取り込み後に1回の「中間解析」を行う
+ *
+ * O'Brien-Fleming型のα消費関数で、前回の解析から今回までに新たに消費できるα
+ * （増分α）をこの解析の名目有意水準とする。各解析の名目αの総和は設計時のαを
+ * 超えないため、何度覗いても第一種の過誤は α 以下に抑えられる（保守的な近似）。
+ *
+ * 境界を越えた場合、または必要サンプルサイズに到達した場合はテストを completed にする。
+ * 引数の test を直接更新し、今回の解析結果を返す。
+ */
+export function evaluateSequentialLook(test: ABTest, now: Date = new Date()): SequentialLook | null {
+  const design = test.sequential;
+  if (test.mode !== 'sequential' || !design || test.status !== 'active') {
+    return null;
+  }
+
+  const [control, ...challengers] = test.variants;
+  const controlSample = toProportionSample(control, test.metric);
+  const samplesPerVariant = Math.min(...test.variants.map(v => toProportionSample(v, test.metric).trials));
+  const informationFraction = Math.min(1, samplesPerVariant / design.requiredSampleSizePerVariant);
+
+  const previous = design.looks[design.looks.length - 1];
+  if (previous && samplesPerVariant <= previous.samplesPerVariant) {
+    // 判定対象のサンプルが増えていなければ解析しない（αを消費しない）
+    return null;
+  }
+
+  const cumulativeAlpha = obrienFlemingAlphaSpent(design.alpha, informationFraction);
+  const incrementalAlpha = Math.max(0, cumulativeAlpha - (previous?.cumulativeAlpha ?? 0));
+  const nominalAlpha = incrementalAlpha / Math.max(1, challengers.length);
+
+  const comparisons = challengers.map(v => {
+    const sample = toProportionSample(v, test.metric);
+    return {
+      variant: v,
+      rate: rate(sample),
+      pValue: twoProportionZTest(controlSample, sample).pValue,
+    };
+  });
+  const crossed = comparisons.filter(c => c.pValue < nominalAlpha);
+  const better = crossed
+    .filter(c => c.rate > rate(controlSample))
+    .sort((a, b) => b.rate - a.rate);
+  const minPValue = Math.min(1, ...comparisons.map(c => c.pValue));
+
+  // 勝者が確定するのは「コントロールより有意に良い」か「全挑戦者が有意に悪い」場合のみ
+  let winner: string | undefined;
+  if (better.length > 0) {
+    winner = better[0].variant.name;
+  } else if (crossed.length > 0 && crossed.length === challengers.length) {
+    winner = control.name;
+  }
+
+  const look: SequentialLook = {
+    at: now.toISOString(),
+    samplesPerVariant,
+    informationFraction,
+    cumulativeAlpha,
+    nominalAlpha,
+    minPValue,
+    boundaryCrossed: winner !== undefined,
+  };
+  design.looks.push(look);
+
+  if (winner) {
+    test.status = 'completed';
+    test.endDate = now;
+    test.winningVariant = winner;
+    test.statisticalSignificance = Math.round((1 - minPValue) * 10000) / 100;
+    design.decision = 'winner';
+  } else if (informationFraction >= 1) {
+    test.status = 'completed';
+    test.endDate = now;
+    test.winningVariant = undefined;
+    test.statisticalSignificance = Math.round((1 - minPValue) * 10000) / 100;
+    design.decision = 'no_difference';
+  }
+
+  return look;
+}
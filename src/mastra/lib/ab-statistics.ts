@@ -0,0 +1,182 @@
+// A/Bテスト用の統計計算ユーティリティ
+// 外部ライブラリに依存せず、決定的（乱数を使わない）な計算のみを提供する
+
+export interface ProportionSample {
+  successes: number;
+  trials: number;
+}
+
+export interface ZTestResult {
+  zScore: number;
+  pValue: number;
+  pooledRate: number;
+}
+
+/**
+ * 標準正規分布の累積分布関数
+ * Abramowitz & Stegun 7.1.26 による erf 近似（誤差 1.5e-7 以下）
+ */
+export function normalCdf(z: number): number {
+  const sign = z < 0 ? -1 : 1;
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return 0.5 * (1 + sign * erf);
+}
+
+/**
+ * 標準正規分布の分位点関数（Acklam のアルゴリズム）
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) {
+    throw new RangeError('normalQuantile: p must be in (0, 1)');
+  }
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+export function rate(sample: ProportionSample): number {
+  return sample.trials > 0 ? sample.successes / sample.trials : 0;
+}
+
+/**
+ * Wilson スコア法による比率の信頼区間
+ * 試行回数が少ない・比率が0/1に近い場合でも区間が[0,1]からはみ出さない
+ */
+export function proportionConfidenceInterval(
+  sample: ProportionSample,
+  confidence: number = 0.95
+): [number, number] {
+  const { successes, trials } = sample;
+  if (trials <= 0) {
+    return [0, 1];
+  }
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const p = successes / trials;
+  const denominator = 1 + (z * z) / trials;
+  const center = (p + (z * z) / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials))) / denominator;
+  return [Math.max(0, center - margin), Math.min(1, center + margin)];
+}
+
+/**
+ * 二標本比率の差の両側z検定（プールした分散を使用）
+ */
+export function twoProportionZTest(
+  control: ProportionSample,
+  variant: ProportionSample
+): ZTestResult {
+  const totalTrials = control.trials + variant.trials;
+  const pooledRate = totalTrials > 0 ? (control.successes + variant.successes) / totalTrials : 0;
+
+  if (control.trials === 0 || variant.trials === 0) {
+    return { zScore: 0, pValue: 1, pooledRate };
+  }
+
+  const standardError = Math.sqrt(
+    pooledRate * (1 - pooledRate) * (1 / control.trials + 1 / variant.trials)
+  );
+  if (standardError === 0) {
+    return { zScore: 0, pValue: 1, pooledRate };
+  }
+
+  const zScore = (rate(variant) - rate(control)) / standardError;
+  const pValue = 2 * (1 - normalCdf(Math.abs(zScore)));
+  return { zScore, pValue: Math.min(1, Math.max(0, pValue)), pooledRate };
+}
+
+/**
+ * 比率の差（variant - control）の信頼区間（非プール分散）
+ */
+export function differenceConfidenceInterval(
+  control: ProportionSample,
+  variant: ProportionSample,
+  confidence: number = 0.95
+): [number, number] {
+  const pc = rate(control);
+  const pv = rate(variant);
+  const diff = pv - pc;
+  if (control.trials === 0 || variant.trials === 0) {
+    return [-1, 1];
+  }
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const se = Math.sqrt((pc * (1 - pc)) / control.trials + (pv * (1 - pv)) / variant.trials);
+  return [diff - z * se, diff + z * se];
+}
+
+/**
+ * Beta(1,1) 事前分布のもとで variant が control を上回る事後確率
+ * 事後分布 Beta(1+成功, 1+失敗) を正規近似して計算する
+ */
+export function probabilityToBeatControl(
+  control: ProportionSample,
+  variant: ProportionSample
+): number {
+  const posterior = (sample: ProportionSample) => {
+    const alpha = 1 + sample.successes;
+    const beta = 1 + Math.max(0, sample.trials - sample.successes);
+    const mean = alpha / (alpha + beta);
+    const variance = (alpha * beta) / ((alpha + beta) ** 2 * (alpha + beta + 1));
+    return { mean, variance };
+  };
+
+  const c = posterior(control);
+  const v = posterior(variant);
+  return normalCdf((v.mean - c.mean) / Math.sqrt(c.variance + v.variance));
+}
+
+/**
+ * 二標本比率検定で必要な1群あたりのサンプルサイズ（両側検定）
+ * minimumDetectableEffect はベースライン比に対する相対リフト（0.1 = +10%）
+ */
+export function requiredSampleSizePerVariant(
+  baselineRate: number,
+  minimumDetectableEffect: number,
+  alpha: number = 0.05,
+  power: number = 0.8
+): number {
+  const p1 = baselineRate;
+  const p2 = Math.min(0.9999, baselineRate * (1 + minimumDetectableEffect));
+  if (p1 <= 0 || p1 >= 1 || p2 === p1) {
+    throw new RangeError('requiredSampleSizePerVariant: baselineRate must be in (0, 1) and effect must be non-zero');
+  }
+
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  const zBeta = normalQuantile(power);
+  const pBar = (p1 + p2) / 2;
+  const numerator = zAlpha * Math.sqrt(2 * pBar * (1 - pBar)) + zBeta * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2));
+  return Math.ceil((numerator * numerator) / ((p2 - p1) * (p2 - p1)));
+}
+
+/**
+ * Lan-DeMets の O'Brien-Fleming 型 α消費関数
+ * 情報割合 t（0〜1）までに消費してよい累積α
+ */
+export function obrienFlemingAlphaSpent(alpha: number, informationFraction: number): number {
+  if (informationFraction <= 0) {
+    return 0;
+  }
+  const t = Math.min(1, informationFraction);
+  const z = normalQuantile(1 - alpha / 2);
+  return Math.min(alpha, 2 * (1 - normalCdf(z / Math.sqrt(t))));
+}
@@ -0,0 +1,235 @@
+import type { Client, Transaction } from '@libsql/client';
+import type { ProportionSample } from './ab-statistics';
+import { createSchemaInitializer, getStorageClient } from './storage';
+
+export interface TestVariant {
+  id: string;
+  name: string;
+  content: string;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  revenue: number;
+}
+
+export type ABTestMetric = 'ctr' | 'cvr';
+
+export type ABTestMode = 'fixed' | 'sequential' | 'bandit';
+
+export type BanditAlgorithm = 'thompson' | 'epsilon_greedy';
+
+export interface BanditConfig {
+  algorithm: BanditAlgorithm;
+  epsilon: number;
+}
+
+export interface SequentialLook {
+  at: string;
+  samplesPerVariant: number;
+  informationFraction: number;
+  cumulativeAlpha: number;
+  nominalAlpha: number;
+  minPValue: number;
+  boundaryCrossed: boolean;
+}
+
+export interface SequentialDesign {
+  baselineRate: number;
+  minimumDetectableEffect: number;
+  alpha: number;
+  power: number;
+  requiredSampleSizePerVariant: number;
+  looks: SequentialLook[];
+  decision?: 'winner' | 'no_difference';
+}
+
+export interface ABTest {
+  testId: string;
+  testName: string;
+  startDate: Date;
+  endDate?: Date;
+  status: 'active' | 'completed' | 'paused';
+  metric: ABTestMetric;
+  mode: ABTestMode;
+  sequential?: SequentialDesign;
+  bandit?: BanditConfig;
+  variants: TestVariant[];
+  winningVariant?: string;
+  statisticalSignificance?: number;
+}
+
+export type ABTestEventType = 'impression' | 'click' | 'conversion' | 'revenue';
+
+export interface ABTestEvent {
+  variantId: string;
+  impressions?: number;
+  clicks?: number;
+  conversions?: number;
+  revenue?: number;
+}
+
+/**
+ * 判定指標に応じてバリアントを「成功数/試行数」の形に変換する
+ */
+export function toProportionSample(variant: TestVariant, metric: ABTestMetric): ProportionSample {
+  return metric === 'ctr'
+    ? { successes: variant.clicks, trials: variant.impressions }
+    : { successes: variant.conversions, trials: variant.clicks };
+}
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS ab_tests (
+    test_id TEXT PRIMARY KEY,
+    test_name TEXT NOT NULL,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS ab_test_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    test_id TEXT NOT NULL,
+    variant_id TEXT NOT NULL,
+    impressions INTEGER NOT NULL DEFAULT 0,
+    clicks INTEGER NOT NULL DEFAULT 0,
+    conversions INTEGER NOT NULL DEFAULT 0,
+    revenue REAL NOT NULL DEFAULT 0,
+    recorded_at TEXT NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_ab_test_events_test ON ab_test_events (test_id, variant_id)`,
+];
+
+function serialize(test: ABTest): string {
+  return JSON.stringify(test);
+}
+
+function deserialize(raw: string): ABTest {
+  const parsed = JSON.parse(raw);
+  return {
+    ...parsed,
+    metric: parsed.metric ?? 'cvr',
+    mode: parsed.mode ?? 'fixed',
+    startDate: new Date(parsed.startDate),
+    endDate: parsed.endDate ? new Date(parsed.endDate) : undefined,
+  };
+}
+
+/**
+ * A/BテストをLibSQLに永続化するストア
+ * テスト本体はJSONで保存し、イベントは監査用に1件ずつ記録する
+ */
+export class ABTestStore {
+  private readonly ensureSchema: () => Promise<void>;
+
+  constructor(private readonly client: () => Client = getStorageClient) {
+    this.ensureSchema = createSchemaInitializer(client, SCHEMA);
+  }
+
+  async save(test: ABTest): Promise<void> {
+    await this.ensureSchema();
+    const now = new Date().toISOString();
+    await this.client().execute({
+      sql: `INSERT INTO ab_tests (test_id, test_name, status, data, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT(test_id) DO UPDATE SET
+              test_name = excluded.test_name,
+              status = excluded.status,
+              data = excluded.data,
+              updated_at = excluded.updated_at`,
+      args: [test.testId, test.testName, test.status, serialize(test), now, now],
+    });
+  }
+
+  async get(testId: string): Promise<ABTest | null> {
+    await this.ensureSchema();
+    const result = await this.client().execute({
+      sql: 'SELECT data FROM ab_tests WHERE test_id = ?',
+      args: [testId],
+    });
+    const row = result.rows[0];
+    return row ? deserialize(String(row.data)) : null;
+  }
+
+  async list(status?: ABTest['status']): Promise<ABTest[]> {
+    await this.ensureSchema();
+    const result = status
+      ? await this.client().execute({
+          sql: 'SELECT data FROM ab_tests WHERE status = ? ORDER BY created_at DESC',
+          args: [status],
+        })
+      : await this.client().execute('SELECT data FROM ab_tests ORDER BY created_at DESC');
+    return result.rows.map(row => deserialize(String(row.data)));
+  }
+
+  /**
+   * イベントを記録し、バリアントの集計値を同一トランザクションで更新する
+   * onUpdate は集計後・保存前に同じトランザクション内で呼ばれる（逐次検定の中間解析と終了判定に使う）
+   */
+  async recordEvent(testId: string, event: ABTestEvent, onUpdate?: (test: ABTest) => void): Promise<ABTest> {
+    return this.modify(testId, async (test, tx) => {
+      const variant = test.variants.find(v => v.id === event.variantId || v.name === event.variantId);
+      if (!variant) {
+        throw new Error(`Variant not found: ${event.variantId}`);
+      }
+
+      variant.impressions += event.impressions ?? 0;
+      variant.clicks += event.clicks ?? 0;
+      variant.conversions += event.conversions ?? 0;
+      variant.revenue += event.revenue ?? 0;
+      onUpdate?.(test);
+
+      await tx.execute({
+        sql: `INSERT INTO ab_test_events (test_id, variant_id, impressions, clicks, conversions, revenue, recorded_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          testId,
+          variant.id,
+          event.impressions ?? 0,
+          event.clicks ?? 0,
+          event.conversions ?? 0,
+          event.revenue ?? 0,
+          new Date().toISOString(),
+        ],
+      });
+    });
+  }
+
+  /**
+   * 最新のテストを読み直して apply で書き換え、同一トランザクションで保存する
+   * 分析結果の保存に使う（読み込みから保存までの間に記録されたイベントを上書きしない）
+   */
+  async update(testId: string, apply: (test: ABTest) => void): Promise<ABTest> {
+    return this.modify(testId, test => apply(test));
+  }
+
+  private async modify(testId: string, apply: (test: ABTest, tx: Transaction) => Promise<void> | void): Promise<ABTest> {
+    await this.ensureSchema();
+    const tx = await this.client().transaction('write');
+    try {
+      const result = await tx.execute({
+        sql: 'SELECT data FROM ab_tests WHERE test_id = ?',
+        args: [testId],
+      });
+      const row = result.rows[0];
+      if (!row) {
+        throw new Error(`A/B test not found: ${testId}`);
+      }
+
+      const test = deserialize(String(row.data));
+      await apply(test, tx);
+      await tx.execute({
+        sql: 'UPDATE ab_tests SET data = ?, status = ?, updated_at = ? WHERE test_id = ?',
+        args: [serialize(test), test.status, new Date().toISOString(), testId],
+      });
+      await tx.commit();
+      return test;
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    } finally {
+      tx.close();
+    }
+  }
+}
+
+export const abTestStore = new ABTestStore();
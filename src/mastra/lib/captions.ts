@@ -0,0 +1,248 @@
+// 字幕ファイル（SRT / WebVTT）の解析と、チャプター単位の分割・話速の計算
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+export interface CaptionCue {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+export interface Chapter {
+  title: string;
+  startMs: number;
+}
+
+export interface TranscriptSegment {
+  title: string;
+  startMs: number;
+  endMs: number;
+  text: string;
+  /** 日本語は文字数（空白・記号除く）、英語は単語数 */
+  units: number;
+  /** 1分あたりの units */
+  unitsPerMinute: number;
+}
+
+export interface TranscriptAnalysis {
+  language: 'ja' | 'en';
+  durationMs: number;
+  opening: { seconds: number; text: string; units: number };
+  segments: TranscriptSegment[];
+  pacing: {
+    unitsPerMinute: number;
+    /** 2秒以上の無音（字幕のない区間）の数 */
+    pauses: number;
+    longestPauseMs: number;
+  };
+}
+
+// 無音とみなす字幕間の空白
+const PAUSE_MS = 2000;
+
+// 冒頭（フック）として扱う秒数
+export const DEFAULT_OPENING_SECONDS = 15;
+
+/**
+ * 00:01:02,345 / 01:02.345 / 1:02:03.4 などを ミリ秒に変換する
+ */
+export function parseTimestamp(value: string): number {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) {
+    throw new Error(`Invalid caption timestamp: ${value}`);
+  }
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    Number(hours ?? 0) * 3_600_000 +
+    Number(minutes) * 60_000 +
+    Number(seconds) * 1000 +
+    Number((fraction ?? '0').padEnd(3, '0'))
+  );
+}
+
+export function formatTimestamp(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(hours > 0 ? 2 : 1, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+const ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'", '&nbsp;': ' ' };
+
+function cleanText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '') // <c>, <i>, <00:00:01.000> などのタグ
+    .replace(/\{\\[^}]*\}/g, '') // {\an8} などのSSA由来の指定
+    .replace(/&(?:amp|lt|gt|quot|#39|nbsp);/g, entity => ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function parseBlocks(content: string, format: CaptionFormat): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  const blocks = content.replace(/^﻿/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) {
+      continue; // WEBVTT ヘッダー・NOTE・STYLE・番号のみのブロック
+    }
+    if (format === 'vtt' && /^(NOTE|STYLE|REGION)\b/.test(lines[0])) {
+      continue;
+    }
+    const [start, rest] = lines[timingIndex].split('-->');
+    // VTT のタイミング行の後ろには "align:start position:0%" などの設定が続くことがある
+    const end = rest.trim().split(/\s+/)[0];
+    cues.push({
+      startMs: parseTimestamp(start),
+      endMs: parseTimestamp(end),
+      text: cleanText(lines.slice(timingIndex + 1).join(' ')),
+    });
+  }
+
+  return cues;
+}
+
+/**
+ * 並べ替え・空字幕の除去・重なりの解消を行う
+ * YouTube の自動字幕（VTT）は直前の行を繰り返しながら流れるため、重複する先頭部分を取り除く
+ * 直前の行の繰り返しとみなすのは時間が続いている・重なっている字幕だけ（間を空けて繰り返した「はい」などは別の行として残す）
+ */
+export function normalizeCues(cues: CaptionCue[]): CaptionCue[] {
+  const sorted = [...cues].filter(c => c.text !== '' && c.endMs > c.startMs).sort((a, b) => a.startMs - b.startMs);
+  const result: CaptionCue[] = [];
+
+  for (const cue of sorted) {
+    const prev = result[result.length - 1];
+    let text = cue.text;
+    if (prev) {
+      const continued = cue.startMs <= prev.endMs;
+      if ((continued && text === prev.text) || (cue.startMs < prev.endMs && prev.text.endsWith(text))) {
+        prev.endMs = Math.max(prev.endMs, cue.endMs);
+        continue;
+      }
+      if (continued && text.startsWith(prev.text)) {
+        text = text.slice(prev.text.length).trim();
+      }
+      prev.endMs = Math.min(prev.endMs, cue.startMs);
+    }
+    if (text !== '') {
+      result.push({ startMs: cue.startMs, endMs: cue.endMs, text });
+    }
+  }
+
+  return result;
+}
+
+export function detectCaptionFormat(content: string, fileName?: string): CaptionFormat {
+  if (fileName?.toLowerCase().endsWith('.vtt') || /^﻿?WEBVTT/.test(content)) {
+    return 'vtt';
+  }
+  return 'srt';
+}
+
+export function parseCaptions(content: string, format: CaptionFormat = detectCaptionFormat(content)): CaptionCue[] {
+  return normalizeCues(parseBlocks(content, format));
+}
+
+/**
+ * 概要欄のタイムスタンプ（"0:00 イントロ" 形式）からチャプターを抽出する
+ * YouTube と同様に 0:00 から始まる3件以上の昇順リストのみをチャプターとみなす
+ */
+export function parseChapters(description: string): Chapter[] {
+  const chapters: Chapter[] = [];
+  for (const line of description.split(/\r?\n/)) {
+    const match = line.match(/^\s*[-・▶►]?\s*\(?((?:\d+:)?\d{1,2}:\d{2})\)?\s*[-–:：|]?\s*(.+?)\s*$/);
+    if (match) {
+      chapters.push({ startMs: parseTimestamp(match[1]), title: match[2] });
+    }
+  }
+
+  const ascending = chapters.every((c, i) => i === 0 || c.startMs > chapters[i - 1].startMs);
+  if (chapters.length < 3 || chapters[0].startMs !== 0 || !ascending) {
+    return [];
+  }
+  return chapters;
+}
+
+export function detectLanguage(text: string): 'ja' | 'en' {
+  const japanese = (text.match(/[぀-ヿ一-鿿]/g) ?? []).length;
+  return japanese > text.length * 0.1 ? 'ja' : 'en';
+}
+
+export function countUnits(text: string, language: 'ja' | 'en'): number {
+  if (language === 'ja') {
+    return (text.match(/[^\s\p{P}\p{S}]/gu) ?? []).length;
+  }
+  return text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+function toSegment(title: string, startMs: number, endMs: number, cues: CaptionCue[], language: 'ja' | 'en'): TranscriptSegment {
+  const text = cues.map(c => c.text).join(language === 'ja' ? '' : ' ');
+  const units = countUnits(text, language);
+  const minutes = (endMs - startMs) / 60_000;
+  return {
+    title,
+    startMs,
+    endMs,
+    text,
+    units,
+    unitsPerMinute: minutes > 0 ? Math.round(units / minutes) : 0,
+  };
+}
+
+/**
+ * 字幕をチャプターごとに分割し、冒頭部分と話速を求める
+ * チャプターがない場合は動画全体を1区間として扱う
+ */
+export function analyzeTranscript(
+  cues: CaptionCue[],
+  chapters: Chapter[] = [],
+  openingSeconds: number = DEFAULT_OPENING_SECONDS
+): TranscriptAnalysis {
+  const language = detectLanguage(cues.map(c => c.text).join(''));
+  const durationMs = cues.length > 0 ? cues[cues.length - 1].endMs : 0;
+  const bounds = chapters.length > 0 ? chapters : [{ title: '全体', startMs: 0 }];
+
+  const segments = bounds.map((chapter, i) => {
+    const endMs = bounds[i + 1]?.startMs ?? durationMs;
+    const inChapter = cues.filter(c => c.startMs >= chapter.startMs && c.startMs < endMs);
+    return toSegment(chapter.title, chapter.startMs, Math.max(endMs, chapter.startMs), inChapter, language);
+  });
+
+  const openingMs = openingSeconds * 1000;
+  const opening = toSegment('冒頭', 0, openingMs, cues.filter(c => c.startMs < openingMs), language);
+
+  const gaps = cues.slice(1).map((c, i) => c.startMs - cues[i].endMs);
+  const speakingMinutes = cues.reduce((sum, c) => sum + (c.endMs - c.startMs), 0) / 60_000;
+  const totalUnits = segments.reduce((sum, s) => sum + s.units, 0);
+
+  return {
+    language,
+    durationMs,
+    opening: { seconds: openingSeconds, text: opening.text, units: opening.units },
+    segments,
+    pacing: {
+      unitsPerMinute: speakingMinutes > 0 ? Math.round(totalUnits / speakingMinutes) : 0,
+      pauses: gaps.filter(g => g >= PAUSE_MS).length,
+      longestPauseMs: Math.max(0, ...gaps),
+    },
+  };
+}
+
+/**
+ * エージェントに渡すための要約テキスト
+ */
+export function summarizeTranscript(label: string, analysis: TranscriptAnalysis): string {
+  const unit = analysis.language === 'ja' ? '文字' : '語';
+  return [
+    `【${label}】尺 ${formatTimestamp(analysis.durationMs)}、話速 ${analysis.pacing.unitsPerMinute}${unit}/分、2秒以上の間 ${analysis.pacing.pauses}回`,
+    `冒頭${analysis.opening.seconds}秒: ${analysis.opening.text}`,
+    ...analysis.segments.map(
+      s => `- ${formatTimestamp(s.startMs)} ${s.title}（${formatTimestamp(s.endMs - s.startMs)}、${s.unitsPerMinute}${unit}/分）`
+    ),
+  ].join('\n');
+}
@@ -0,0 +1,311 @@
+import type { youtube_v3 } from 'googleapis';
+
+export type AnalysisDepth = 'basic' | 'detailed' | 'comprehensive';
+
+// 2024年10月以降、YouTubeショートは最大3分まで
+export const SHORTS_MAX_SECONDS = 180;
+
+// 外れ値とみなす z スコアの閾値
+const OUTLIER_Z = 2;
+
+const DURATION_BUCKETS = [
+  { label: '〜1分', maxSeconds: 60 },
+  { label: '1〜3分', maxSeconds: 180 },
+  { label: '3〜8分', maxSeconds: 480 },
+  { label: '8〜15分', maxSeconds: 900 },
+  { label: '15〜30分', maxSeconds: 1800 },
+  { label: '30分〜', maxSeconds: Infinity },
+];
+
+export interface VideoMetrics {
+  videoId: string;
+  title: string;
+  publishedAt: string;
+  durationSeconds: number;
+  isShort: boolean;
+  views: number;
+  likes: number;
+  comments: number;
+  ageDays: number;
+  viewsPerDay: number;
+  engagementRate: number;
+  likeRatio: number;
+  commentRatio: number;
+}
+
+export interface ChannelMetrics {
+  depth: AnalysisDepth;
+  overview: {
+    channelTitle: string;
+    subscribers: number;
+    totalViews: number;
+    videoCount: number;
+    analyzedVideos: number;
+    averageViews: number;
+    medianViews: number;
+    medianViewsPerDay: number;
+  };
+  cadence: {
+    firstUpload?: string;
+    lastUpload?: string;
+    uploadsPerWeek: number;
+    medianGapDays: number;
+    longestGapDays: number;
+    uploadsLast30Days: number;
+  };
+  engagement?: {
+    averageEngagementRate: number;
+    averageLikeRatio: number;
+    averageCommentRatio: number;
+    medianEngagementRate: number;
+  };
+  durationBuckets?: Array<{ label: string; videos: number; medianViewsPerDay: number }>;
+  format?: {
+    shorts: { videos: number; medianViews: number; medianViewsPerDay: number; averageEngagementRate: number };
+    longForm: { videos: number; medianViews: number; medianViewsPerDay: number; averageEngagementRate: number };
+  };
+  outliers?: Array<{ videoId: string; title: string; viewsPerDay: number; zScore: number; direction: 'over' | 'under' }>;
+  publishingWeekdays?: Record<string, number>;
+}
+
+/**
+ * ISO 8601 の期間表記（PT1H2M3S / P1DT2H など）を秒に変換する
+ */
+export function parseIsoDuration(duration: string | null | undefined): number {
+  if (!duration) return 0;
+  const match = duration.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match) return 0;
+  const [, days, hours, minutes, seconds] = match;
+  return (
+    Number(days ?? 0) * 86400 +
+    Number(hours ?? 0) * 3600 +
+    Number(minutes ?? 0) * 60 +
+    Number(seconds ?? 0)
+  );
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function toVideoMetrics(video: youtube_v3.Schema$Video, now: Date = new Date()): VideoMetrics {
+  const views = Number(video.statistics?.viewCount ?? 0);
+  const likes = Number(video.statistics?.likeCount ?? 0);
+  const comments = Number(video.statistics?.commentCount ?? 0);
+  const publishedAt = video.snippet?.publishedAt ?? now.toISOString();
+  const ageDays = Math.max(1, (now.getTime() - new Date(publishedAt).getTime()) / 86_400_000);
+  const durationSeconds = parseIsoDuration(video.contentDetails?.duration);
+
+  return {
+    videoId: video.id ?? '',
+    title: video.snippet?.title ?? '',
+    publishedAt,
+    durationSeconds,
+    isShort: durationSeconds > 0 && durationSeconds <= SHORTS_MAX_SECONDS,
+    views,
+    likes,
+    comments,
+    ageDays,
+    viewsPerDay: views / ageDays,
+    engagementRate: views > 0 ? (likes + comments) / views : 0,
+    likeRatio: views > 0 ? likes / views : 0,
+    commentRatio: views > 0 ? comments / views : 0,
+  };
+}
+
+function computeCadence(videos: VideoMetrics[], now: Date): ChannelMetrics['cadence'] {
+  const times = videos.map(v => new Date(v.publishedAt).getTime()).sort((a, b) => a - b);
+  if (times.length === 0) {
+    return { uploadsPerWeek: 0, medianGapDays: 0, longestGapDays: 0, uploadsLast30Days: 0 };
+  }
+
+  const gaps = times.slice(1).map((t, i) => (t - times[i]) / 86_400_000);
+  const spanWeeks = Math.max(1, (times[times.length - 1] - times[0]) / (7 * 86_400_000));
+  return {
+    firstUpload: new Date(times[0]).toISOString(),
+    lastUpload: new Date(times[times.length - 1]).toISOString(),
+    uploadsPerWeek: round(times.length / spanWeeks),
+    medianGapDays: round(median(gaps), 1),
+    longestGapDays: round(Math.max(0, ...gaps), 1),
+    uploadsLast30Days: times.filter(t => now.getTime() - t <= 30 * 86_400_000).length,
+  };
+}
+
+function summarizeGroup(videos: VideoMetrics[]) {
+  return {
+    videos: videos.length,
+    medianViews: Math.round(median(videos.map(v => v.views))),
+    medianViewsPerDay: round(median(videos.map(v => v.viewsPerDay)), 1),
+    averageEngagementRate: round(mean(videos.map(v => v.engagementRate)), 4),
+  };
+}
+
+/**
+ * 再生速度は対数正規分布に近いため、log(1 + 再生/日) の z スコアで外れ値を判定する
+ */
+function findOutliers(videos: VideoMetrics[]): NonNullable<ChannelMetrics['outliers']> {
+  if (videos.length < 3) return [];
+  const logs = videos.map(v => Math.log1p(v.viewsPerDay));
+  const mu = mean(logs);
+  const sigma = Math.sqrt(mean(logs.map(l => (l - mu) ** 2)));
+  if (sigma === 0) return [];
+
+  return videos
+    .map((v, i) => ({ video: v, zScore: (logs[i] - mu) / sigma }))
+    .filter(({ zScore }) => Math.abs(zScore) >= OUTLIER_Z)
+    .sort((a, b) => b.zScore - a.zScore)
+    .map(({ video, zScore }) => ({
+      videoId: video.videoId,
+      title: video.title,
+      viewsPerDay: round(video.viewsPerDay, 1),
+      zScore: round(zScore),
+      direction: zScore > 0 ? 'over' as const : 'under' as const,
+    }));
+}
+
+/**
+ * チャンネル情報と動画詳細から決定的な指標を計算する
+ * analysisDepth に応じて計算する指標ファミリーを切り替える
+ *   basic: 概要・投稿頻度
+ *   detailed: + エンゲージメント・尺の分布・ショート/長尺比較
+ *   comprehensive: + 外れ値動画・曜日別投稿数
+ */
+export function computeChannelMetrics(
+  channel: youtube_v3.Schema$Channel,
+  videos: youtube_v3.Schema$Video[],
+  depth: AnalysisDepth = 'detailed',
+  now: Date = new Date()
+): ChannelMetrics {
+  const metrics = videos.map(v => toVideoMetrics(v, now));
+  const views = metrics.map(v => v.views);
+
+  const result: ChannelMetrics = {
+    depth,
+    overview: {
+      channelTitle: channel.snippet?.title ?? '',
+      subscribers: Number(channel.statistics?.subscriberCount ?? 0),
+      totalViews: Number(channel.statistics?.viewCount ?? 0),
+      videoCount: Number(channel.statistics?.videoCount ?? 0),
+      analyzedVideos: metrics.length,
+      averageViews: Math.round(mean(views)),
+      medianViews: Math.round(median(views)),
+      medianViewsPerDay: round(median(metrics.map(v => v.viewsPerDay)), 1),
+    },
+    cadence: computeCadence(metrics, now),
+  };
+
+  if (depth === 'basic') {
+    return result;
+  }
+
+  result.engagement = {
+    averageEngagementRate: round(mean(metrics.map(v => v.engagementRate)), 4),
+    averageLikeRatio: round(mean(metrics.map(v => v.likeRatio)), 4),
+    averageCommentRatio: round(mean(metrics.map(v => v.commentRatio)), 5),
+    medianEngagementRate: round(median(metrics.map(v => v.engagementRate)), 4),
+  };
+
+  let lowerBound = 0;
+  result.durationBuckets = DURATION_BUCKETS.map(bucket => {
+    const inBucket = metrics.filter(v => v.durationSeconds > lowerBound && v.durationSeconds <= bucket.maxSeconds);
+    lowerBound = bucket.maxSeconds;
+    return {
+      label: bucket.label,
+      videos: inBucket.length,
+      medianViewsPerDay: round(median(inBucket.map(v => v.viewsPerDay)), 1),
+    };
+  });
+
+  result.format = {
+    shorts: summarizeGroup(metrics.filter(v => v.isShort)),
+    longForm: summarizeGroup(metrics.filter(v => !v.isShort)),
+  };
+
+  if (depth === 'detailed') {
+    return result;
+  }
+
+  result.outliers = findOutliers(metrics);
+
+  const weekdays = ['日', '月', '火', '水', '木', '金', '土'];
+  result.publishingWeekdays = Object.fromEntries(weekdays.map(d => [d, 0]));
+  for (const v of metrics) {
+    // 投稿曜日は日本時間で集計する
+    const jstDay = new Date(new Date(v.publishedAt).getTime() + 9 * 3600_000).getUTCDay();
+    result.publishingWeekdays[weekdays[jstDay]]++;
+  }
+
+  return result;
+}
+
+/**
+ * エージェントに渡すための簡潔な要約テキスト
+ */
+export function summarizeChannelMetrics(m: ChannelMetrics): string {
+  const pct = (value: number) => `${(value * 100).toFixed(2)}%`;
+  const lines = [
+    `チャンネル: ${m.overview.channelTitle}（登録者 ${m.overview.subscribers.toLocaleString()}人、総再生 ${m.overview.totalViews.toLocaleString()}回）`,
+    `分析対象: ${m.overview.analyzedVideos}本（平均 ${m.overview.averageViews.toLocaleString()}回、中央値 ${m.overview.medianViews.toLocaleString()}回、再生/日の中央値 ${m.overview.medianViewsPerDay}）`,
+    `投稿頻度: 週${m.cadence.uploadsPerWeek}本、投稿間隔の中央値 ${m.cadence.medianGapDays}日、最長空白 ${m.cadence.longestGapDays}日、直近30日 ${m.cadence.uploadsLast30Days}本`,
+  ];
+
+  if (m.engagement) {
+    lines.push(
+      `エンゲージメント: 平均 ${pct(m.engagement.averageEngagementRate)}（高評価率 ${pct(m.engagement.averageLikeRatio)}、コメント率 ${pct(m.engagement.averageCommentRatio)}）`
+    );
+  }
+  if (m.format) {
+    lines.push(
+      `ショート: ${m.format.shorts.videos}本（再生/日 中央値 ${m.format.shorts.medianViewsPerDay}） / 長尺: ${m.format.longForm.videos}本（再生/日 中央値 ${m.format.longForm.medianViewsPerDay}）`
+    );
+  }
+  if (m.durationBuckets) {
+    lines.push(
+      `尺別（本数・再生/日中央値）: ${m.durationBuckets.filter(b => b.videos > 0).map(b => `${b.label} ${b.videos}本/${b.medianViewsPerDay}`).join('、')}`
+    );
+  }
+  if (m.outliers && m.outliers.length > 0) {
+    lines.push(
+      `外れ値動画: ${m.outliers.slice(0, 5).map(o => `「${o.title}」(${o.direction === 'over' ? '好調' : '不調'}, z=${o.zScore})`).join('、')}`
+    );
+  }
+  if (m.publishingWeekdays) {
+    lines.push(`曜日別投稿数: ${Object.entries(m.publishingWeekdays).map(([d, n]) => `${d}${n}`).join(' ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * 競合チャンネルとの比較をエージェントに渡すための要約テキスト（倍率は自チャンネルを1とした値）
+ */
+export function summarizeCompetitorComparison(own: ChannelMetrics, competitors: ChannelMetrics[]): string {
+  const ratio = (value: number, base: number) => (base > 0 ? `${round(value / base, 2)}倍` : '-');
+  return competitors
+    .map(c => {
+      const parts = [
+        `登録者 ${c.overview.subscribers.toLocaleString()}人（${ratio(c.overview.subscribers, own.overview.subscribers)}）`,
+        `再生/日の中央値 ${c.overview.medianViewsPerDay}（${ratio(c.overview.medianViewsPerDay, own.overview.medianViewsPerDay)}）`,
+        `投稿頻度 週${c.cadence.uploadsPerWeek}本（${ratio(c.cadence.uploadsPerWeek, own.cadence.uploadsPerWeek)}）`,
+      ];
+      if (c.engagement && own.engagement) {
+        parts.push(
+          `エンゲージメント ${(c.engagement.averageEngagementRate * 100).toFixed(2)}%（${ratio(c.engagement.averageEngagementRate, own.engagement.averageEngagementRate)}）`
+        );
+      }
+      return `- ${c.overview.channelTitle}（直近${c.overview.analyzedVideos}本）: ${parts.join('、')}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,353 @@
+import type { Client } from '@libsql/client';
+import type { youtube_v3 } from 'googleapis';
+import { createSchemaInitializer, getStorageClient } from './storage';
+import type { YouTubeService } from './youtube';
+import { YouTubeNotFoundError } from './youtube-errors';
+
+export interface ChannelSnapshot {
+  channelId: string;
+  capturedAt: string;
+  subscribers: number;
+  views: number;
+  videoCount: number;
+}
+
+export interface VideoSnapshot {
+  videoId: string;
+  channelId: string;
+  capturedAt: string;
+  publishedAt: string;
+  title: string;
+  views: number;
+  likes: number;
+  comments: number;
+}
+
+export interface DailyDelta {
+  date: string;
+  subscribers: number;
+  views: number;
+  subscriberDelta: number | null;
+  viewDelta: number | null;
+}
+
+export interface UploadVelocity {
+  videoId: string;
+  title: string;
+  publishedAt: string;
+  views48h: number | null;
+  views7d: number | null;
+  views28d: number | null;
+}
+
+export interface WeekOverWeek {
+  currentWeek: { subscriberGain: number; viewGain: number; uploads: number };
+  previousWeek: { subscriberGain: number; viewGain: number; uploads: number };
+  subscriberGainChange: number | null;
+  viewGainChange: number | null;
+}
+
+export interface ChannelHistory {
+  channelId: string;
+  snapshots: number;
+  firstSnapshot?: string;
+  lastSnapshot?: string;
+  dailyDeltas: DailyDelta[];
+  uploadVelocity: UploadVelocity[];
+  weekOverWeek: WeekOverWeek | null;
+}
+
+const DAY_MS = 86_400_000;
+const JST_OFFSET_MS = 9 * 3600_000;
+
+// 公開からの経過時間ごとの再生数を求める時点
+const VELOCITY_WINDOWS = {
+  views48h: 2 * DAY_MS,
+  views7d: 7 * DAY_MS,
+  views28d: 28 * DAY_MS,
+} as const;
+
+/**
+ * チャンネル・動画の統計を時点ごとに保存するストア
+ */
+export class ChannelSnapshotStore {
+  private readonly ensureSchema: () => Promise<void>;
+
+  constructor(private readonly client: () => Client = getStorageClient) {
+    this.ensureSchema = createSchemaInitializer(client, [
+      `CREATE TABLE IF NOT EXISTS channel_snapshots (
+        channel_id TEXT NOT NULL,
+        captured_at TEXT NOT NULL,
+        subscribers INTEGER NOT NULL,
+        views INTEGER NOT NULL,
+        video_count INTEGER NOT NULL,
+        PRIMARY KEY (channel_id, captured_at)
+      )`,
+      `CREATE TABLE IF NOT EXISTS video_snapshots (
+        video_id TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        captured_at TEXT NOT NULL,
+        published_at TEXT NOT NULL,
+        title TEXT NOT NULL,
+        views INTEGER NOT NULL,
+        likes INTEGER NOT NULL,
+        comments INTEGER NOT NULL,
+        PRIMARY KEY (video_id, captured_at)
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_video_snapshots_channel ON video_snapshots (channel_id, captured_at)`,
+    ]);
+  }
+
+  async record(channel: ChannelSnapshot, videos: VideoSnapshot[]): Promise<void> {
+    await this.ensureSchema();
+    await this.client().batch(
+      [
+        {
+          sql: `INSERT OR REPLACE INTO channel_snapshots (channel_id, captured_at, subscribers, views, video_count)
+                VALUES (?, ?, ?, ?, ?)`,
+          args: [channel.channelId, channel.capturedAt, channel.subscribers, channel.views, channel.videoCount],
+        },
+        ...videos.map(v => ({
+          sql: `INSERT OR REPLACE INTO video_snapshots
+                  (video_id, channel_id, captured_at, published_at, title, views, likes, comments)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          args: [v.videoId, v.channelId, v.capturedAt, v.publishedAt, v.title, v.views, v.likes, v.comments],
+        })),
+      ],
+      'write'
+    );
+  }
+
+  async listChannelSnapshots(channelId: string, since: Date): Promise<ChannelSnapshot[]> {
+    await this.ensureSchema();
+    const result = await this.client().execute({
+      sql: `SELECT channel_id, captured_at, subscribers, views, video_count FROM channel_snapshots
+            WHERE channel_id = ? AND captured_at >= ? ORDER BY captured_at`,
+      args: [channelId, since.toISOString()],
+    });
+    return result.rows.map(row => ({
+      channelId: String(row.channel_id),
+      capturedAt: String(row.captured_at),
+      subscribers: Number(row.subscribers),
+      views: Number(row.views),
+      videoCount: Number(row.video_count),
+    }));
+  }
+
+  /**
+   * 指定日時以降に公開された動画のスナップショットを取得する
+   */
+  async listVideoSnapshots(channelId: string, publishedSince: Date): Promise<VideoSnapshot[]> {
+    await this.ensureSchema();
+    const result = await this.client().execute({
+      sql: `SELECT video_id, channel_id, captured_at, published_at, title, views, likes, comments FROM video_snapshots
+            WHERE channel_id = ? AND published_at >= ? ORDER BY video_id, captured_at`,
+      args: [channelId, publishedSince.toISOString()],
+    });
+    return result.rows.map(row => ({
+      videoId: String(row.video_id),
+      channelId: String(row.channel_id),
+      capturedAt: String(row.captured_at),
+      publishedAt: String(row.published_at),
+      title: String(row.title),
+      views: Number(row.views),
+      likes: Number(row.likes),
+      comments: Number(row.comments),
+    }));
+  }
+}
+
+export const channelSnapshotStore = new ChannelSnapshotStore();
+
+export function toSnapshots(
+  channelId: string,
+  channel: youtube_v3.Schema$Channel,
+  videos: youtube_v3.Schema$Video[],
+  capturedAt: Date = new Date()
+): { channel: ChannelSnapshot; videos: VideoSnapshot[] } {
+  const at = capturedAt.toISOString();
+  return {
+    channel: {
+      channelId,
+      capturedAt: at,
+      subscribers: Number(channel.statistics?.subscriberCount ?? 0),
+      views: Number(channel.statistics?.viewCount ?? 0),
+      videoCount: Number(channel.statistics?.videoCount ?? 0),
+    },
+    videos: videos
+      .filter(v => v.id && v.snippet?.publishedAt)
+      .map(v => ({
+        videoId: v.id!,
+        channelId,
+        capturedAt: at,
+        publishedAt: v.snippet!.publishedAt!,
+        title: v.snippet?.title ?? '',
+        views: Number(v.statistics?.viewCount ?? 0),
+        likes: Number(v.statistics?.likeCount ?? 0),
+        comments: Number(v.statistics?.commentCount ?? 0),
+      })),
+  };
+}
+
+/**
+ * チャンネルと最近の動画の統計を取得して保存する（定期実行から呼び出す想定）
+ * 取得時刻の値として記録するため、キャッシュを通さずに取得する
+ */
+export async function captureChannelSnapshot(
+  youtube: YouTubeService,
+  channelId: string,
+  options: { maxVideos?: number; store?: ChannelSnapshotStore; now?: Date } = {}
+) {
+  const { maxVideos = 50, store = channelSnapshotStore, now = new Date() } = options;
+  const live = youtube.withoutCache();
+  const channel = await live.getChannelInfo(channelId);
+  if (!channel) {
+    throw new YouTubeNotFoundError('captureChannelSnapshot', `channel ${channelId}`);
+  }
+  const videos = await live.getAllChannelVideos(channelId, { maxVideos });
+  const snapshot = toSnapshots(channelId, channel, videos, now);
+  await store.record(snapshot.channel, snapshot.videos);
+  return { channel, videos, capturedAt: snapshot.channel.capturedAt };
+}
+
+function jstDate(iso: string): string {
+  return new Date(new Date(iso).getTime() + JST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * 日本時間の日ごとに最後のスナップショットを採用し、前日比を計算する
+ */
+export function computeDailyDeltas(snapshots: ChannelSnapshot[]): DailyDelta[] {
+  const lastPerDay = new Map<string, ChannelSnapshot>();
+  for (const s of snapshots) {
+    lastPerDay.set(jstDate(s.capturedAt), s);
+  }
+
+  const days = [...lastPerDay.entries()].sort(([a], [b]) => a.localeCompare(b));
+  return days.map(([date, s], i) => {
+    const prev = days[i - 1];
+    // 前日のスナップショットがない場合は差分を出さない（欠測日をまたいだ差分は日次値ではない）
+    const isConsecutive = prev && new Date(date).getTime() - new Date(prev[0]).getTime() === DAY_MS;
+    return {
+      date,
+      subscribers: s.subscribers,
+      views: s.views,
+      subscriberDelta: isConsecutive ? s.subscribers - prev[1].subscribers : null,
+      viewDelta: isConsecutive ? s.views - prev[1].views : null,
+    };
+  });
+}
+
+/**
+ * 時点 target における再生数を前後のスナップショットから線形補間する
+ * target の前後両方に実測のスナップショットがなければ null（公開時点の0回からの補間や外挿はしない）
+ */
+function viewsAt(snapshots: VideoSnapshot[], target: number): number | null {
+  let before: { t: number; views: number } | undefined;
+  for (const s of snapshots) {
+    const t = new Date(s.capturedAt).getTime();
+    if (t === target) return s.views;
+    if (t < target) {
+      before = { t, views: s.views };
+    } else {
+      if (!before) return null;
+      const ratio = (target - before.t) / (t - before.t);
+      return Math.round(before.views + (s.views - before.views) * ratio);
+    }
+  }
+  return null;
+}
+
+export function computeUploadVelocity(snapshots: VideoSnapshot[]): UploadVelocity[] {
+  const byVideo = new Map<string, VideoSnapshot[]>();
+  for (const s of snapshots) {
+    const list = byVideo.get(s.videoId) ?? [];
+    list.push(s);
+    byVideo.set(s.videoId, list);
+  }
+
+  return [...byVideo.values()]
+    .map(list => {
+      const sorted = [...list].sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+      const latest = sorted[sorted.length - 1];
+      const published = new Date(latest.publishedAt).getTime();
+      return {
+        videoId: latest.videoId,
+        title: latest.title,
+        publishedAt: latest.publishedAt,
+        views48h: viewsAt(sorted, published + VELOCITY_WINDOWS.views48h),
+        views7d: viewsAt(sorted, published + VELOCITY_WINDOWS.views7d),
+        views28d: viewsAt(sorted, published + VELOCITY_WINDOWS.views28d),
+      };
+    })
+    .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+}
+
+/**
+ * 各境界時点で直近のスナップショットを基準に、期間中の増加数を求める
+ */
+function gainBetween(snapshots: ChannelSnapshot[], from: number, to: number) {
+  const latestAt = (time: number) =>
+    [...snapshots].reverse().find(s => new Date(s.capturedAt).getTime() <= time);
+  const start = latestAt(from);
+  const end = latestAt(to);
+  if (!start || !end || start === end) return null;
+  return {
+    subscriberGain: end.subscribers - start.subscribers,
+    viewGain: end.views - start.views,
+  };
+}
+
+export function computeWeekOverWeek(
+  snapshots: ChannelSnapshot[],
+  videos: VideoSnapshot[],
+  now: Date = new Date()
+): WeekOverWeek | null {
+  const end = now.getTime();
+  const current = gainBetween(snapshots, end - 7 * DAY_MS, end);
+  const previous = gainBetween(snapshots, end - 14 * DAY_MS, end - 7 * DAY_MS);
+  if (!current || !previous) return null;
+
+  const uploadsBetween = (from: number, to: number) =>
+    new Set(
+      videos
+        .filter(v => {
+          const t = new Date(v.publishedAt).getTime();
+          return t >= from && t < to;
+        })
+        .map(v => v.videoId)
+    ).size;
+  const change = (cur: number, prev: number) => (prev !== 0 ? (cur - prev) / Math.abs(prev) : null);
+
+  return {
+    currentWeek: { ...current, uploads: uploadsBetween(end - 7 * DAY_MS, end) },
+    previousWeek: { ...previous, uploads: uploadsBetween(end - 14 * DAY_MS, end - 7 * DAY_MS) },
+    subscriberGainChange: change(current.subscriberGain, previous.subscriberGain),
+    viewGainChange: change(current.viewGain, previous.viewGain),
+  };
+}
+
+export async function buildChannelHistory(
+  channelId: string,
+  options: { days?: number; store?: ChannelSnapshotStore; now?: Date } = {}
+): Promise<ChannelHistory> {
+  const { days = 30, store = channelSnapshotStore, now = new Date() } = options;
+  const since = new Date(now.getTime() - days * DAY_MS);
+  // 前週比の基準点として最低15日分は読み込む
+  const allSnapshots = await store.listChannelSnapshots(
+    channelId,
+    new Date(Math.min(since.getTime(), now.getTime() - 15 * DAY_MS))
+  );
+  const channelSnapshots = allSnapshots.filter(s => new Date(s.capturedAt) >= since);
+  const videoSnapshots = await store.listVideoSnapshots(channelId, since);
+
+  return {
+    channelId,
+    snapshots: channelSnapshots.length,
+    firstSnapshot: channelSnapshots[0]?.capturedAt,
+    lastSnapshot: channelSnapshots[channelSnapshots.length - 1]?.capturedAt,
+    dailyDeltas: computeDailyDeltas(channelSnapshots),
+    uploadVelocity: computeUploadVelocity(videoSnapshots),
+    weekOverWeek: computeWeekOverWeek(allSnapshots, videoSnapshots, now),
+  };
+}
@@ -0,0 +1,307 @@
+// 数値を使った商品の主張（「満足度92%」「3倍」「1万人が受講」など）の根拠の登録と照合
+// 根拠には出典・調査日・有効期限を持たせ、期限が切れた根拠による主張は再調査を促す
+
+import type { Client } from '@libsql/client';
+import { createSchemaInitializer, getStorageClient } from './storage';
+
+// 根拠の有効期限を指定しないときの期間（No.1表示などの調査は概ね1年で見直す）
+const DEFAULT_VALIDITY_YEARS = 1;
+// これより期限が近い根拠は、通過させたうえで更新を促す
+const EXPIRY_WARNING_DAYS = 30;
+
+// 「50%OFF」などの割引表示は主張ではないので除く
+// 人・件・位は「定員10人」「3件」のような事実の記載が多いので、主張の形（「100人以上が」「1位を獲得」）のときだけ数える
+const NUMERIC_FIGURE = /(\d+(?:,\d{3})*(?:\.\d+)?)\s?(%|％|倍|万人|[人件](?=\s?(?:以上|突破|超|が|の方が))|位(?=\s?(?:獲得|を獲得|に輝|に選ばれ)))(?!\s?(?:OFF|オフ|割引|引き))/gi;
+// 文中の出典の注記（「出典: 〇〇」「〇〇調べ」「〇〇による調査」）。括弧の中が出典の名前
+const INLINE_CITATION = /(?:出典|出所)\s?[:：]\s?([^\s\]）)、。]{2,})|([^\s※（(\[\]、。:：]{2,}?)\s?調べ|([^\s※（(\[\]、。:：]{2,}?)(?:による|の)調査/g;
+// 出典を名指ししていない注記（「今回の調査」「当社調べ」「独自調査」）
+const SELF_REFERENCE = /(?:今回|当社|弊社|自社|独自|社内|私たち|我々)$/;
+// 自動修正の記入欄（※[根拠: …]）は出典の注記ではない
+const EVIDENCE_PLACEHOLDER = /※\[根拠:[^\]]*\]/g;
+// 主張の対象（「受講者の満足度は」）の比較で無視する文字
+const SUBJECT_NOISE = /[\s、・]|の|は|が|も|約|およそ/g;
+
+export type ClaimStatus = 'substantiated' | 'stale' | 'cited' | 'unsubstantiated';
+
+export interface ClaimEvidence {
+  id?: number;
+  product: string;
+  /** 根拠のある主張の文言（例: 受講者満足度92%） */
+  claim: string;
+  /** 主張に含まれる数値（「92%」「3倍」の形に正規化） */
+  figures: string[];
+  /** 数値が示すもの（「満足度」「継続率」）。本文の数値の subject にこれがあるときだけ照合する */
+  metric: string;
+  source: string;
+  sourceUrl?: string;
+  /** 調査日・発表日（YYYY-MM-DD） */
+  surveyedAt: string;
+  expiresAt: string;
+  note?: string;
+  registeredAt: string;
+}
+
+export interface ClaimEvidenceInput {
+  product: string;
+  claim: string;
+  /** 未指定なら claim の数値の前の部分（「受講者満足度92%」なら「受講者満足度」、文頭の数値なら後ろの部分） */
+  metric?: string;
+  source: string;
+  sourceUrl?: string;
+  surveyedAt: string;
+  /** 未指定なら調査日から1年 */
+  expiresAt?: string;
+  note?: string;
+}
+
+export interface NumericClaim {
+  figure: string;
+  /** 数値が示すもの（文頭または前の数値から数値までの部分、文頭の数値なら後ろの部分）。根拠の metric と照合する */
+  subject: string;
+  sentence: string;
+  offset: number;
+  line: number;
+}
+
+export interface ClaimAssessment extends NumericClaim {
+  status: ClaimStatus;
+  /** 照合できた根拠（stale は期限切れの根拠） */
+  evidence?: ClaimEvidence;
+  /** 根拠の期限までの日数（期限切れは負） */
+  daysUntilExpiry?: number;
+}
+
+export interface CampaignClaimAudit {
+  assessments: Array<ClaimAssessment & { contentId: string }>;
+  unsubstantiated: Array<ClaimAssessment & { contentId: string }>;
+  stale: Array<ClaimAssessment & { contentId: string }>;
+  /** 30日以内に期限が切れる根拠 */
+  expiringSoon: ClaimEvidence[];
+  summary: Record<ClaimStatus, number>;
+}
+
+function normalizeFigure(value: string, unit: string): string {
+  return `${Number(value.replace(/,/g, ''))}${unit === '％' ? '%' : unit}`;
+}
+
+function normalizeSubject(text: string): string {
+  return text.replace(SUBJECT_NOISE, '');
+}
+
+/**
+ * 出典を名指しした注記があるか（「出典: 当社調べ」のように名前が自社・今回の調査を指すものは除く）
+ */
+function hasNamedCitation(sentence: string): boolean {
+  return [...sentence.matchAll(INLINE_CITATION)].some(match => {
+    const source = (match[1] ?? match[2] ?? match[3]).replace(/(?:による|の)?(?:調べ|調査)$/, '');
+    return !SELF_REFERENCE.test(source);
+  });
+}
+
+function toDate(value: string, field: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${field}: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * 有効期限（YYYY-MM-DD、当日まで有効）までの日数
+ */
+function daysUntil(expiresAt: string, now: Date): number {
+  const today = new Date(now.toISOString().slice(0, 10));
+  return Math.round((new Date(expiresAt).getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * 本文から数値を使った主張を、含まれる文と位置とともに抜き出す
+ */
+export function extractNumericClaims(text: string): NumericClaim[] {
+  const matches = [...text.matchAll(NUMERIC_FIGURE)];
+  return matches.map((match, n): NumericClaim => {
+    const offset = match.index ?? 0;
+    const start = Math.max(...['。', '！', '？', '\n'].map(mark => text.lastIndexOf(mark, offset - 1))) + 1;
+    const ends = ['。', '！', '？', '\n'].map(mark => text.indexOf(mark, offset)).filter(i => i !== -1);
+    const end = ends.length > 0 ? Math.min(...ends) + 1 : text.length;
+    // 数値の前（同じ文の前の数値の後から）。文頭の数値（「92%の受講者が満足」）は後ろの部分
+    const previous = matches[n - 1];
+    const next = matches[n + 1];
+    const before = text.slice(Math.max(start, previous ? (previous.index ?? 0) + previous[0].length : 0), offset).replace(/^[\s、,]+/, '').trim();
+    const after = text.slice(offset + match[0].length, Math.min(end, next?.index ?? end)).trim();
+    return {
+      figure: normalizeFigure(match[1], match[2]),
+      subject: normalizeSubject(before) !== '' ? before : after,
+      sentence: text.slice(start, end).trim(),
+      offset,
+      line: text.slice(0, offset).split('\n').length,
+    };
+  });
+}
+
+export function figuresOf(claim: string): string[] {
+  return [...new Set(extractNumericClaims(claim).map(c => c.figure))];
+}
+
+/**
+ * 本文の数値の主張を登録済みの根拠と照合する
+ * product を指定しなければ、本文に名前が出てくる商品の根拠だけを使う（別商品の同じ数値で通過させない）
+ */
+export function assessClaims(
+  text: string,
+  evidence: ClaimEvidence[],
+  options: { product?: string; now?: Date } = {}
+): ClaimAssessment[] {
+  const now = options.now ?? new Date();
+  const inScope = evidence.filter(e => (options.product ? e.product === options.product : text.includes(e.product)));
+
+  return extractNumericClaims(text).map((claim): ClaimAssessment => {
+    // 同じ数値でも、別の指標（満足度の根拠で継続率）は通過させない
+    const matching = inScope
+      .filter(e => e.figures.includes(claim.figure) && normalizeSubject(claim.subject).includes(normalizeSubject(e.metric)))
+      .map(e => ({ evidence: e, daysUntilExpiry: daysUntil(e.expiresAt, now) }))
+      .sort((a, b) => b.daysUntilExpiry - a.daysUntilExpiry);
+    const best = matching[0];
+    if (best && best.daysUntilExpiry >= 0) {
+      return { ...claim, status: 'substantiated', ...best };
+    }
+    if (best) {
+      return { ...claim, status: 'stale', ...best };
+    }
+    const cited = hasNamedCitation(claim.sentence.replace(EVIDENCE_PLACEHOLDER, ''));
+    return { ...claim, status: cited ? 'cited' : 'unsubstantiated' };
+  });
+}
+
+/**
+ * キャンペーン全体（複数の本文）の数値の主張を照合し、根拠のないもの・期限切れのものを一覧にする
+ */
+export function auditCampaignClaims(
+  contents: Array<{ id: string; content: string }>,
+  evidence: ClaimEvidence[],
+  options: { product?: string; now?: Date } = {}
+): CampaignClaimAudit {
+  const now = options.now ?? new Date();
+  const assessments = contents.flatMap(({ id, content }) =>
+    assessClaims(content, evidence, { ...options, now }).map(a => ({ ...a, contentId: id }))
+  );
+  const summary: Record<ClaimStatus, number> = { substantiated: 0, stale: 0, cited: 0, unsubstantiated: 0 };
+  for (const a of assessments) summary[a.status]++;
+
+  const used = new Set(assessments.filter(a => a.status === 'substantiated').map(a => a.evidence!));
+  return {
+    assessments,
+    unsubstantiated: assessments.filter(a => a.status === 'unsubstantiated'),
+    stale: assessments.filter(a => a.status === 'stale'),
+    expiringSoon: [...used].filter(e => daysUntil(e.expiresAt, now) <= EXPIRY_WARNING_DAYS),
+    summary,
+  };
+}
+
+/**
+ * 商品ごとの主張の根拠（出典・調査日・有効期限）を保存するストア
+ */
+export class ClaimEvidenceStore {
+  private readonly ensureSchema: () => Promise<void>;
+
+  constructor(private readonly client: () => Client = getStorageClient) {
+    this.ensureSchema = createSchemaInitializer(client, [
+      `CREATE TABLE IF NOT EXISTS claim_evidence (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        product TEXT NOT NULL,
+        claim TEXT NOT NULL,
+        figures TEXT NOT NULL,
+        metric TEXT NOT NULL,
+        source TEXT NOT NULL,
+        source_url TEXT,
+        surveyed_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        note TEXT,
+        registered_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_claim_evidence_product ON claim_evidence (product)`,
+    ]);
+  }
+
+  async register(input: ClaimEvidenceInput, now: Date = new Date()): Promise<ClaimEvidence> {
+    const figures = figuresOf(input.claim);
+    if (figures.length === 0) {
+      throw new Error(`Claim has no numeric figure to substantiate: ${input.claim}`);
+    }
+    const metric = (input.metric ?? extractNumericClaims(input.claim)[0].subject).trim();
+    if (normalizeSubject(metric) === '') {
+      throw new Error(`Claim has no metric before the figure; specify metric (e.g. 満足度): ${input.claim}`);
+    }
+    const surveyedAt = toDate(input.surveyedAt, 'surveyedAt');
+    const expiresAt = input.expiresAt ? toDate(input.expiresAt, 'expiresAt') : new Date(surveyedAt);
+    if (!input.expiresAt) {
+      expiresAt.setUTCFullYear(expiresAt.getUTCFullYear() + DEFAULT_VALIDITY_YEARS);
+    }
+    if (expiresAt <= surveyedAt) {
+      throw new Error(`expiresAt must be after surveyedAt: ${input.expiresAt}`);
+    }
+
+    await this.ensureSchema();
+    const result = await this.client().execute({
+      sql: `INSERT INTO claim_evidence (product, claim, figures, metric, source, source_url, surveyed_at, expires_at, note, registered_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        input.product,
+        input.claim,
+        JSON.stringify(figures),
+        metric,
+        input.source,
+        input.sourceUrl ?? null,
+        surveyedAt.toISOString().slice(0, 10),
+        expiresAt.toISOString().slice(0, 10),
+        input.note ?? null,
+        now.toISOString(),
+      ],
+    });
+    return (await this.list({ includeExpired: true })).find(e => e.id === Number(result.lastInsertRowid))!;
+  }
+
+  async remove(id: number): Promise<boolean> {
+    await this.ensureSchema();
+    const result = await this.client().execute({ sql: 'DELETE FROM claim_evidence WHERE id = ?', args: [id] });
+    return result.rowsAffected > 0;
+  }
+
+  /**
+   * 登録済みの根拠（既定では期限内のものだけ）
+   */
+  async list(options: { product?: string; includeExpired?: boolean; now?: Date } = {}): Promise<ClaimEvidence[]> {
+    await this.ensureSchema();
+    const conditions: string[] = [];
+    const args: string[] = [];
+    if (options.product) {
+      conditions.push('product = ?');
+      args.push(options.product);
+    }
+    if (!options.includeExpired) {
+      conditions.push('expires_at >= ?');
+      args.push((options.now ?? new Date()).toISOString().slice(0, 10));
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.client().execute({
+      sql: `SELECT id, product, claim, figures, metric, source, source_url, surveyed_at, expires_at, note, registered_at
+            FROM claim_evidence ${where} ORDER BY product, surveyed_at DESC, id DESC`,
+      args,
+    });
+    return result.rows.map(row => ({
+      id: Number(row.id),
+      product: String(row.product),
+      claim: String(row.claim),
+      figures: JSON.parse(String(row.figures)),
+      metric: String(row.metric),
+      source: String(row.source),
+      sourceUrl: row.source_url ? String(row.source_url) : undefined,
+      surveyedAt: String(row.surveyed_at),
+      expiresAt: String(row.expires_at),
+      note: row.note ? String(row.note) : undefined,
+      registeredAt: String(row.registered_at),
+    }));
+  }
+}
+
+export const claimEvidenceStore = new ClaimEvidenceStore();
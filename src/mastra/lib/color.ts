@@ -0,0 +1,41 @@
+// 色の変換と WCAG 2.x のコントラスト比
+
+export type Rgb = [number, number, number];
+
+/**
+ * "#RGB" / "#RRGGBB" を RGB（0〜255）にする。解釈できなければ undefined
+ */
+export function parseHexColor(color: string): Rgb | undefined {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) return undefined;
+  const hex = match[1].length === 3 ? [...match[1]].map(c => c + c).join('') : match[1];
+  const value = parseInt(hex, 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+export function toHexColor(rgb: Rgb): string {
+  return `#${rgb.map(c => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+}
+
+/**
+ * WCAG の相対輝度（0〜1）
+ */
+export function relativeLuminance([r, g, b]: Rgb): number {
+  const linear = (c: number) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+}
+
+/**
+ * WCAG のコントラスト比（1〜21）
+ */
+export function contrastRatio(a: Rgb, b: Rgb): number {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+export function mixColors(a: Rgb, b: Rgb, amount: number): Rgb {
+  return [0, 1, 2].map(i => a[i] + (b[i] - a[i]) * amount) as Rgb;
+}
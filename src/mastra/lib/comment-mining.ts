@@ -0,0 +1,326 @@
+// コメントから質問・リクエスト・商品への反論・感情を抽出し、動画ネタと FAQ にまとめる
+
+import { dedupeComments, scoreSentiment, splitSentences } from './comments';
+import type { CommentRecord, Sentiment } from './comments';
+import { extractTerms } from './keyword-research';
+import { titleSimilarity } from './title-scoring';
+
+export type CommentSignal = 'question' | 'request' | 'objection';
+
+export type ObjectionCategory = 'price' | 'trust' | 'effectiveness' | 'promotion' | 'cancellation' | 'necessity';
+
+export const OBJECTION_LABELS: Record<ObjectionCategory, string> = {
+  price: '価格',
+  trust: '信頼性',
+  effectiveness: '効果',
+  promotion: '宣伝・案件',
+  cancellation: '解約・返金',
+  necessity: '必要性',
+};
+
+export interface ClassifiedSentence {
+  commentId: string;
+  videoId?: string;
+  author: string;
+  text: string;
+  likeCount: number;
+  signals: CommentSignal[];
+  product?: string;
+  objections: ObjectionCategory[];
+}
+
+export interface VideoIdea {
+  rank: number;
+  title: string;
+  topic: string;
+  targetKeywords: string[];
+  /** 件数といいね数から出した需要の大きさ */
+  demandScore: number;
+  questionCount: number;
+  requestCount: number;
+  commentIds: string[];
+  examples: string[];
+}
+
+export interface FaqEntry {
+  question: string;
+  /** 同じ趣旨の質問をしたコメント数 */
+  askedCount: number;
+  likeCount: number;
+  commentIds: string[];
+  videoIds: string[];
+  variants: string[];
+}
+
+export interface ObjectionSummary {
+  product?: string;
+  category: ObjectionCategory;
+  count: number;
+  likeCount: number;
+  commentIds: string[];
+  examples: string[];
+}
+
+export interface SentimentSummary {
+  videoId?: string;
+  comments: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  averageScore: number;
+}
+
+export interface CommentMiningOptions {
+  /** 概要欄などで紹介している商品名（反論の判定に使う） */
+  products?: string[];
+  maxIdeas?: number;
+  maxFaq?: number;
+}
+
+export interface CommentMiningResult {
+  analyzedComments: number;
+  duplicatesRemoved: number;
+  sentiment: SentimentSummary;
+  sentimentByVideo: SentimentSummary[];
+  videoIdeas: VideoIdea[];
+  faq: FaqEntry[];
+  objections: ObjectionSummary[];
+  /** コンテンツ生成ツールの keyPoints にそのまま渡せる、答えるべき論点 */
+  keyPoints: string[];
+}
+
+const QUESTION_PATTERN = /([?？]|ですか|ますか|でしょうか|ませんか|のかな|どうやって|どうすれば|どうしたら|なぜ|なんで|何で|どれが|どれを|どっち|いくら|いつから|いつまで|教えて|\b(how|what|why|which|where|can i|is it)\b)/i;
+const REQUEST_PATTERN = /((次は|次回|今度|いつか).*(動画|解説|紹介|レビュー|比較|やって|お願い|希望|欲しい|ほしい)|してほしい|して欲しい|やってほしい|お願いします|リクエスト|取り上げて|解説して|紹介して|比較して|レビューして|希望です|\b(please make|video on|next video)\b)/i;
+// 商品の話をしているかどうか（商品名の指定がないときの手がかり）
+const PRODUCT_CONTEXT = /(商品|ツール|サービス|アプリ|プラン|講座|サブスク|有料|案件|アフィリ|リンク|購入|契約|課金)/;
+const OBJECTION_PATTERNS: Record<ObjectionCategory, RegExp> = {
+  price: /(高い|高すぎ|値段|料金|価格|コスパ|お金がかか)/,
+  trust: /(詐欺|怪し|あやし|信用|信じ|騙|嘘|うそ|胡散)/,
+  effectiveness: /(効果な|効果が(な|出な)|意味な|使えな|役に立たな|微妙|変わらな|稼げな)/,
+  promotion: /(ステマ|宣伝|広告|案件|アフィリ|ポジショントーク)/,
+  cancellation: /(解約|返金|退会|やめられな)/,
+  necessity: /(いらない|要らない|必要な(い|く)|不要|他の方が|代わりに|無料(版|の.*)?で十分)/,
+};
+
+// リクエストの言い回しに使われるだけで、話題を表さない語
+const REQUEST_TERMS = new Set(['次回', '今度', '比較', '希望', '質問', 'リクエスト', 'レビュー', 'お願い']);
+
+const FAQ_SIMILARITY = 0.45;
+const MAX_EXAMPLES = 3;
+
+function normalizeText(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/[\s、。！？!?.,「」『』（）()]/g, '');
+}
+
+/**
+ * 同じIDや同じ本文のコメント（コピペ・連投）をまとめる
+ */
+export function dedupeCommentTexts(comments: CommentRecord[]): { comments: CommentRecord[]; duplicatesRemoved: number } {
+  const unique = new Map<string, CommentRecord>();
+  for (const comment of dedupeComments(comments)) {
+    const key = `${comment.videoId ?? ''}:${normalizeText(comment.text)}`;
+    const existing = unique.get(key);
+    if (existing) {
+      unique.set(key, { ...existing, likeCount: existing.likeCount + comment.likeCount });
+    } else {
+      unique.set(key, comment);
+    }
+  }
+  return { comments: [...unique.values()], duplicatesRemoved: comments.length - unique.size };
+}
+
+/**
+ * コメントを文に分け、質問・リクエスト・商品への反論を判定する
+ */
+export function classifyComment(comment: CommentRecord, products: string[] = []): ClassifiedSentence[] {
+  const sentences: ClassifiedSentence[] = [];
+  for (const text of splitSentences(comment.text)) {
+    const lower = text.normalize('NFKC').toLowerCase();
+    const signals: CommentSignal[] = [];
+    if (REQUEST_PATTERN.test(text)) {
+      signals.push('request');
+    } else if (QUESTION_PATTERN.test(text)) {
+      signals.push('question');
+    }
+
+    const product = products.find(name => lower.includes(name.normalize('NFKC').toLowerCase()));
+    const objections = product || PRODUCT_CONTEXT.test(text)
+      ? (Object.keys(OBJECTION_PATTERNS) as ObjectionCategory[]).filter(category => OBJECTION_PATTERNS[category].test(text))
+      : [];
+    if (objections.length > 0) signals.push('objection');
+
+    if (signals.length > 0) {
+      sentences.push({
+        commentId: comment.commentId,
+        videoId: comment.videoId,
+        author: comment.author,
+        text,
+        likeCount: comment.likeCount,
+        signals,
+        product,
+        objections,
+      });
+    }
+  }
+  return sentences;
+}
+
+function summarizeSentiment(comments: CommentRecord[], videoId?: string): SentimentSummary {
+  const counts: Record<Sentiment, number> = { positive: 0, neutral: 0, negative: 0 };
+  let total = 0;
+  for (const comment of comments) {
+    const { score, label } = scoreSentiment(comment.text);
+    counts[label]++;
+    total += score;
+  }
+  return { videoId, comments: comments.length, ...counts, averageScore: comments.length > 0 ? total / comments.length : 0 };
+}
+
+function weight(sentence: ClassifiedSentence): number {
+  return 1 + Math.log2(sentence.likeCount + 1);
+}
+
+/**
+ * 質問とリクエストを話題（共通する語）ごとにまとめ、需要の大きい順に動画ネタにする
+ */
+function groupIdeas(sentences: ClassifiedSentence[], maxIdeas: number): VideoIdea[] {
+  // 語は小文字でまとめ、表示には最初に出てきた表記を使う
+  const display = new Map<string, string>();
+  let remaining = sentences
+    .filter(s => s.signals.includes('question') || s.signals.includes('request'))
+    .map(sentence => {
+      const terms = new Set<string>();
+      for (const term of extractTerms(sentence.text)) {
+        const key = term.toLowerCase();
+        if (REQUEST_TERMS.has(key)) continue;
+        if (!display.has(key)) display.set(key, term);
+        terms.add(key);
+      }
+      return { sentence, terms };
+    })
+    .filter(entry => entry.terms.size > 0);
+
+  const ideas: Omit<VideoIdea, 'rank'>[] = [];
+  while (remaining.length > 0 && ideas.length < maxIdeas) {
+    const termWeights = new Map<string, number>();
+    for (const { sentence, terms } of remaining) {
+      for (const term of terms) termWeights.set(term, (termWeights.get(term) ?? 0) + weight(sentence));
+    }
+    const [topicKey] = [...termWeights.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0];
+    const members = remaining.filter(entry => entry.terms.has(topicKey));
+    remaining = remaining.filter(entry => !entry.terms.has(topicKey));
+    const topic = display.get(topicKey) ?? topicKey;
+
+    const related = new Map<string, number>();
+    for (const { sentence, terms } of members) {
+      for (const term of terms) {
+        if (term !== topicKey) related.set(term, (related.get(term) ?? 0) + weight(sentence));
+      }
+    }
+    const relatedTerms = [...related.entries()].sort((a, b) => b[1] - a[1]).map(([term]) => display.get(term) ?? term);
+    const questionCount = members.filter(m => m.sentence.signals.includes('question')).length;
+    const requestCount = members.filter(m => m.sentence.signals.includes('request')).length;
+    const authors = new Set(members.map(m => m.sentence.author || m.sentence.commentId));
+    const examples = [...members]
+      .sort((a, b) => b.sentence.likeCount - a.sentence.likeCount)
+      .slice(0, MAX_EXAMPLES)
+      .map(m => m.sentence.text);
+
+    ideas.push({
+      title: requestCount >= questionCount
+        ? `【リクエスト】${topic}${relatedTerms[0] ? `×${relatedTerms[0]}` : ''}を徹底解説`
+        : `【${topic}】よくある質問にまとめて答えます`,
+      topic,
+      targetKeywords: [topic, ...relatedTerms.slice(0, 2)],
+      demandScore: Math.round((members.reduce((sum, m) => sum + weight(m.sentence), 0) + authors.size) * 10) / 10,
+      questionCount,
+      requestCount,
+      commentIds: [...new Set(members.map(m => m.sentence.commentId))],
+      examples,
+    });
+  }
+
+  return ideas
+    .sort((a, b) => b.demandScore - a.demandScore)
+    .map((idea, i) => ({ ...idea, rank: i + 1 }));
+}
+
+/**
+ * 似た質問（文字の bigram 類似度）をまとめて FAQ にする。代表はいいねの多い質問
+ */
+function groupFaq(sentences: ClassifiedSentence[], maxFaq: number): FaqEntry[] {
+  const groups: ClassifiedSentence[][] = [];
+  const questions = sentences
+    .filter(s => s.signals.includes('question'))
+    .sort((a, b) => b.likeCount - a.likeCount);
+  for (const question of questions) {
+    const group = groups.find(g => titleSimilarity(normalizeText(g[0].text), normalizeText(question.text)) >= FAQ_SIMILARITY);
+    if (group) {
+      group.push(question);
+    } else {
+      groups.push([question]);
+    }
+  }
+
+  return groups
+    .map(group => ({
+      question: group[0].text,
+      askedCount: new Set(group.map(q => q.commentId)).size,
+      likeCount: group.reduce((sum, q) => sum + q.likeCount, 0),
+      commentIds: [...new Set(group.map(q => q.commentId))],
+      videoIds: [...new Set(group.flatMap(q => (q.videoId ? [q.videoId] : [])))],
+      variants: [...new Set(group.slice(1).map(q => q.text))].slice(0, MAX_EXAMPLES),
+    }))
+    .sort((a, b) => b.askedCount - a.askedCount || b.likeCount - a.likeCount)
+    .slice(0, maxFaq);
+}
+
+function groupObjections(sentences: ClassifiedSentence[]): ObjectionSummary[] {
+  const groups = new Map<string, ObjectionSummary>();
+  for (const sentence of sentences) {
+    for (const category of sentence.objections) {
+      const key = `${sentence.product ?? ''}:${category}`;
+      const group = groups.get(key) ?? { product: sentence.product, category, count: 0, likeCount: 0, commentIds: [], examples: [] };
+      if (!group.commentIds.includes(sentence.commentId)) {
+        group.commentIds.push(sentence.commentId);
+        group.count++;
+        group.likeCount += sentence.likeCount;
+      }
+      if (group.examples.length < MAX_EXAMPLES && !group.examples.includes(sentence.text)) group.examples.push(sentence.text);
+      groups.set(key, group);
+    }
+  }
+  return [...groups.values()].sort((a, b) => b.count - a.count || b.likeCount - a.likeCount);
+}
+
+/**
+ * コメント群を分析して、動画ネタ・FAQ・反論・感情の集計を返す
+ */
+export function mineComments(input: CommentRecord[], options: CommentMiningOptions = {}): CommentMiningResult {
+  const { comments, duplicatesRemoved } = dedupeCommentTexts(input);
+  const sentences = comments.flatMap(comment => classifyComment(comment, options.products));
+
+  const byVideo = new Map<string, CommentRecord[]>();
+  for (const comment of comments) {
+    if (!comment.videoId) continue;
+    byVideo.set(comment.videoId, [...(byVideo.get(comment.videoId) ?? []), comment]);
+  }
+
+  const faq = groupFaq(sentences, options.maxFaq ?? 10);
+  const objections = groupObjections(sentences);
+  const keyPoints = [
+    ...faq.slice(0, 5).map(entry => `よくある質問への回答: ${entry.question}`),
+    ...objections.slice(0, 5).map(o => `${o.product ?? '紹介商品'}への懸念（${OBJECTION_LABELS[o.category]}）への回答: ${o.examples[0]}`),
+  ];
+
+  return {
+    analyzedComments: comments.length,
+    duplicatesRemoved,
+    sentiment: summarizeSentiment(comments),
+    sentimentByVideo: [...byVideo.entries()].map(([videoId, list]) => summarizeSentiment(list, videoId)),
+    videoIdeas: groupIdeas(sentences, options.maxIdeas ?? 10),
+    faq,
+    objections,
+    keyPoints,
+  };
+}
@@ -0,0 +1,239 @@
+// YouTube コメントの取り込み（commentThreads.list / エクスポート JSON）と、語の抽出・感情の判定
+
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import type { youtube_v3 } from 'googleapis';
+import { extractTerms } from './keyword-research';
+import type { YouTubeService } from './youtube';
+
+export interface CommentRecord {
+  commentId: string;
+  videoId?: string;
+  author: string;
+  text: string;
+  likeCount: number;
+  publishedAt?: string;
+  /** 返信コメントなら親コメントのID */
+  parentId?: string;
+}
+
+export type Sentiment = 'positive' | 'neutral' | 'negative';
+
+// 感情語（部分一致）。語幹で持つことで活用形の揺れを吸収する
+const POSITIVE_WORDS = [
+  'ありがと', '助かり', '助かる', 'わかりやす', '分かりやす', '最高', '参考にな', '感謝', '素晴らし', '面白', 'おもしろ',
+  '良かった', 'よかった', '勉強にな', '神回', '感動', '嬉し', 'うれし', '楽しみ', 'できました', '成功',
+  'thank', 'great', 'helpful', 'awesome', 'love',
+];
+const NEGATIVE_WORDS = [
+  'わからな', '分からな', '難し', '残念', '微妙', '詐欺', '高すぎ', '失敗', 'エラー', 'できな', '不安', '困っ', '困る',
+  'つまらな', '嘘', 'うそ', '怪し', '無理', 'ひどい', '酷い', '遅い', '損した', '騙',
+  'scam', 'error', 'confus', 'hard to', 'not working', "doesn't work",
+];
+// 直後の打ち消し（「難しくない」「残念ではない」など）
+const NEGATION_AFTER = /^(くない|くなかった|じゃない|ではない)/;
+
+/**
+ * 語彙ベースの感情スコア（-1〜1）
+ */
+export function scoreSentiment(text: string): { score: number; label: Sentiment } {
+  const lower = text.normalize('NFKC').toLowerCase();
+  const count = (words: string[]) =>
+    words.reduce((sum, word) => {
+      let hits = 0;
+      let index = lower.indexOf(word);
+      while (index >= 0) {
+        if (!NEGATION_AFTER.test(lower.slice(index + word.length, index + word.length + 5))) hits++;
+        index = lower.indexOf(word, index + word.length);
+      }
+      return sum + hits;
+    }, 0);
+  const positive = count(POSITIVE_WORDS);
+  const negative = count(NEGATIVE_WORDS);
+  const total = positive + negative;
+  const score = total === 0 ? 0 : (positive - negative) / total;
+  return { score, label: score > 0.2 ? 'positive' : score < -0.2 ? 'negative' : 'neutral' };
+}
+
+/**
+ * コメントを特徴語に分ける（英字は小文字にそろえる）
+ */
+export function commentTerms(text: string): string[] {
+  return extractTerms(text).map(term => term.toLowerCase());
+}
+
+/**
+ * 文（。！？改行で区切る）に分ける
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[。！？!?])|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+function cleanText(text: string): string {
+  return text
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function fromSnippet(comment: youtube_v3.Schema$Comment, videoId?: string, parentId?: string): CommentRecord | null {
+  const snippet = comment.snippet;
+  const text = cleanText(snippet?.textOriginal ?? snippet?.textDisplay ?? '');
+  if (!comment.id || !text) return null;
+  return {
+    commentId: comment.id,
+    videoId: snippet?.videoId ?? videoId,
+    author: snippet?.authorDisplayName ?? '',
+    text,
+    likeCount: snippet?.likeCount ?? 0,
+    publishedAt: snippet?.publishedAt ?? undefined,
+    parentId,
+  };
+}
+
+/**
+ * commentThreads.list のスレッドを、トップレベルコメントと返信の一覧にする
+ */
+export function fromCommentThreads(threads: youtube_v3.Schema$CommentThread[]): CommentRecord[] {
+  const records: CommentRecord[] = [];
+  for (const thread of threads) {
+    const videoId = thread.snippet?.videoId ?? undefined;
+    const top = thread.snippet?.topLevelComment;
+    const topRecord = top ? fromSnippet(top, videoId) : null;
+    if (topRecord) records.push(topRecord);
+    for (const reply of thread.replies?.comments ?? []) {
+      const record = fromSnippet(reply, videoId, topRecord?.commentId);
+      if (record) records.push(record);
+    }
+  }
+  return records;
+}
+
+function contentId(...parts: Array<string | undefined>): string {
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex').slice(0, 16);
+}
+
+/**
+ * エクスポートした JSON を読み込む
+ * commentThreads.list のレスポンス（{ items: [...] }）、スレッドの配列、
+ * または { text, author, likeCount, videoId, publishedAt } の配列に対応する
+ */
+export function parseCommentExport(content: string): CommentRecord[] {
+  const data = JSON.parse(content) as unknown;
+  const items = Array.isArray(data) ? data : (data as { items?: unknown[] })?.items;
+  if (!Array.isArray(items)) {
+    throw new Error('Comment export must be an array or a commentThreads.list response');
+  }
+
+  const records: CommentRecord[] = [];
+  items.forEach(item => {
+    const value = item as Record<string, unknown>;
+    if (value.kind === 'youtube#commentThread' || (value.snippet as Record<string, unknown>)?.topLevelComment) {
+      records.push(...fromCommentThreads([value as youtube_v3.Schema$CommentThread]));
+      return;
+    }
+    const text = cleanText(String(value.text ?? value.textOriginal ?? value.comment ?? value.body ?? ''));
+    if (!text) return;
+    const videoId = value.videoId !== undefined ? String(value.videoId) : undefined;
+    const author = String(value.author ?? value.authorDisplayName ?? '');
+    const publishedAt = value.publishedAt !== undefined ? String(value.publishedAt) : undefined;
+    records.push({
+      // ID のないコメントは内容から ID を作る（ファイルと JSON 文字列で並び順の番号が重なっても別のコメントをまとめない）
+      commentId: String(value.commentId ?? value.id ?? `comment_${contentId(videoId, author, text, publishedAt)}`),
+      videoId,
+      author,
+      text,
+      likeCount: Number(value.likeCount ?? value.likes ?? 0) || 0,
+      publishedAt,
+      parentId: value.parentId !== undefined ? String(value.parentId) : undefined,
+    });
+  });
+  return records;
+}
+
+export async function loadCommentExport(filePath: string): Promise<CommentRecord[]> {
+  return parseCommentExport(await readFile(filePath, 'utf-8'));
+}
+
+/**
+ * 動画ごとにコメントスレッドを取得する（失敗した動画は warnings に記録して続行）
+ */
+export async function fetchVideoComments(
+  youtube: Pick<YouTubeService, 'iterateCommentThreads'>,
+  videoIds: string[],
+  options: { maxThreadsPerVideo?: number } = {}
+): Promise<{ comments: CommentRecord[]; warnings: string[] }> {
+  const comments: CommentRecord[] = [];
+  const warnings: string[] = [];
+  for (const videoId of videoIds) {
+    const threads: youtube_v3.Schema$CommentThread[] = [];
+    try {
+      for await (const thread of youtube.iterateCommentThreads(videoId, { maxThreads: options.maxThreadsPerVideo ?? 200 })) {
+        threads.push(thread);
+      }
+    } catch (error) {
+      warnings.push(`コメントの取得に失敗（${videoId}）: ${error instanceof Error ? error.message : error}`);
+    }
+    comments.push(...fromCommentThreads(threads));
+  }
+  return { comments, warnings };
+}
+
+/**
+ * 同じIDのコメントを1件にまとめる（API と エクスポートの併用時）
+ */
+export function dedupeComments(comments: CommentRecord[]): CommentRecord[] {
+  return [...new Map(comments.map(comment => [comment.commentId, comment])).values()];
+}
+
+export interface CommentSources {
+  videoIds?: string[];
+  commentsFile?: string;
+  commentsJson?: string;
+  maxThreadsPerVideo?: number;
+}
+
+/**
+ * API（YOUTUBE_API_KEY がある場合）・エクスポートファイル・JSON文字列からコメントを集める
+ * 読み込めなかったものは warnings に記録し、集められた分だけ返す
+ * 同じIDのコメントはここでまとめ、まとめた件数を duplicatesRemoved に返す
+ */
+export async function collectComments(
+  sources: CommentSources,
+  youtube?: Pick<YouTubeService, 'iterateCommentThreads'>
+): Promise<{ comments: CommentRecord[]; warnings: string[]; duplicatesRemoved: number }> {
+  const comments: CommentRecord[] = [];
+  const warnings: string[] = [];
+
+  if (sources.videoIds?.length) {
+    if (!youtube) {
+      warnings.push('YOUTUBE_API_KEYが未設定のため、YouTubeからのコメント取得をスキップしました');
+    } else {
+      const fetched = await fetchVideoComments(youtube, sources.videoIds, { maxThreadsPerVideo: sources.maxThreadsPerVideo });
+      comments.push(...fetched.comments);
+      warnings.push(...fetched.warnings);
+    }
+  }
+  if (sources.commentsFile) {
+    try {
+      comments.push(...await loadCommentExport(sources.commentsFile));
+    } catch (error) {
+      warnings.push(`コメントファイルの読み込みに失敗（${sources.commentsFile}）: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  if (sources.commentsJson) {
+    try {
+      comments.push(...parseCommentExport(sources.commentsJson));
+    } catch (error) {
+      warnings.push(`コメントJSONの解析に失敗: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  const unique = dedupeComments(comments);
+  return { comments: unique, warnings, duplicatesRemoved: comments.length - unique.length };
+}
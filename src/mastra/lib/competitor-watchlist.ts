@@ -0,0 +1,440 @@
+import type { Client } from '@libsql/client';
+import type { youtube_v3 } from 'googleapis';
+import { createSchemaInitializer, getStorageClient } from './storage';
+import type { YouTubeService } from './youtube';
+
+export type CompetitorAlertType =
+  | 'new_upload'
+  | 'title_changed'
+  | 'thumbnail_changed'
+  | 'view_spike'
+  | 'new_affiliate_product';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface WatchedChannel {
+  channelId: string;
+  label: string;
+  /** 概要欄で言及を検知したい商品名（アフィリエイトリンク以外の検出用） */
+  productKeywords: string[];
+  addedAt: string;
+  lastScannedAt?: string;
+}
+
+export interface CompetitorAlert {
+  id?: number;
+  type: CompetitorAlertType;
+  severity: AlertSeverity;
+  channelId: string;
+  channelLabel: string;
+  videoId: string;
+  detectedAt: string;
+  summary: string;
+  details: Record<string, unknown>;
+}
+
+interface VideoState {
+  videoId: string;
+  channelId: string;
+  title: string;
+  thumbnail: string;
+  views: number;
+  products: string[];
+  checkedAt: string;
+}
+
+/** 今回のスキャンで取得した動画（公開日時は新着の判定にだけ使い、保存はしない） */
+interface ScannedVideo extends VideoState {
+  publishedAt: string;
+}
+
+export interface WatchlistScanOptions {
+  /** チャンネルごとに確認する最新動画の本数 */
+  maxVideosPerChannel?: number;
+  /** 1時間あたりの再生増加がチャンネル中央値の何倍で急増とみなすか */
+  spikeMultiplier?: number;
+  /** 急増とみなす最小の再生増加数 */
+  spikeMinViews?: number;
+  now?: Date;
+}
+
+export interface WatchlistScanResult {
+  scannedChannels: number;
+  baselinedChannels: string[];
+  alerts: CompetitorAlert[];
+  errors: Array<{ channelId: string; error: string }>;
+}
+
+const DEFAULT_SPIKE_MULTIPLIER = 3;
+const DEFAULT_SPIKE_MIN_VIEWS = 1000;
+
+// 主要ASPとAmazon・楽天のアフィリエイトリンク
+const AFFILIATE_LINK_PATTERNS: Array<{ network: string; pattern: RegExp }> = [
+  { network: 'amazon', pattern: /https?:\/\/(?:www\.)?amazon\.co\.jp\/[^\s]*?(?:dp|gp\/product)\/([A-Z0-9]{10})[^\s]*/g },
+  { network: 'amazon', pattern: /https?:\/\/amzn\.(?:to|asia)\/[A-Za-z0-9]+/g },
+  { network: 'rakuten', pattern: /https?:\/\/hb\.afl\.rakuten\.co\.jp\/[^\s]+/g },
+  { network: 'a8', pattern: /https?:\/\/px\.a8\.net\/[^\s]+/g },
+  { network: 'moshimo', pattern: /https?:\/\/af\.moshimo\.com\/[^\s]+/g },
+  { network: 'valuecommerce', pattern: /https?:\/\/ck\.jp\.ap\.valuecommerce\.com\/[^\s]+/g },
+  { network: 'accesstrade', pattern: /https?:\/\/h\.accesstrade\.net\/[^\s]+/g },
+  { network: 'afb', pattern: /https?:\/\/t\.afi-b\.com\/[^\s]+/g },
+];
+
+/**
+ * 概要欄からアフィリエイト商品を抽出する
+ * Amazonは商品ページならASIN、それ以外はリンクURLそのものを商品の識別子とする
+ */
+export function extractAffiliateProducts(description: string, productKeywords: string[] = []): string[] {
+  const products = new Set<string>();
+  for (const { network, pattern } of AFFILIATE_LINK_PATTERNS) {
+    for (const match of description.matchAll(pattern)) {
+      products.add(`${network}:${match[1] ?? match[0]}`);
+    }
+  }
+  const lower = description.toLowerCase();
+  for (const keyword of productKeywords) {
+    if (lower.includes(keyword.toLowerCase())) {
+      products.add(`keyword:${keyword}`);
+    }
+  }
+  return [...products].sort();
+}
+
+/**
+ * サムネイルの変更検知用の識別子
+ * APIはカスタムサムネイルを差し替えても同じURLを返すことがあるため、全サイズのURLとサイズを連結して比較する
+ */
+function thumbnailSignature(video: youtube_v3.Schema$Video): string {
+  const thumbnails = video.snippet?.thumbnails ?? {};
+  return Object.keys(thumbnails)
+    .sort()
+    .map(size => {
+      const t = thumbnails[size as keyof typeof thumbnails];
+      return `${size}=${t?.url ?? ''}@${t?.width ?? ''}x${t?.height ?? ''}`;
+    })
+    .join('|');
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * 競合チャンネルのウォッチリストと、前回スキャン時点の動画状態・検知したアラートを保存するストア
+ */
+export class CompetitorWatchStore {
+  private readonly ensureSchema: () => Promise<void>;
+
+  constructor(private readonly client: () => Client = getStorageClient) {
+    this.ensureSchema = createSchemaInitializer(client, [
+      `CREATE TABLE IF NOT EXISTS competitor_watchlist (
+        channel_id TEXT PRIMARY KEY,
+        label TEXT NOT NULL,
+        product_keywords TEXT NOT NULL,
+        added_at TEXT NOT NULL,
+        last_scanned_at TEXT
+      )`,
+      `CREATE TABLE IF NOT EXISTS competitor_video_state (
+        video_id TEXT PRIMARY KEY,
+        channel_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        thumbnail TEXT NOT NULL,
+        views INTEGER NOT NULL,
+        products TEXT NOT NULL,
+        checked_at TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS competitor_alerts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        type TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        channel_label TEXT NOT NULL,
+        video_id TEXT NOT NULL,
+        detected_at TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        details TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_competitor_alerts_detected ON competitor_alerts (detected_at)`,
+    ]);
+  }
+
+  async add(channelId: string, label: string, productKeywords: string[] = [], now: Date = new Date()): Promise<WatchedChannel> {
+    await this.ensureSchema();
+    await this.client().execute({
+      sql: `INSERT INTO competitor_watchlist (channel_id, label, product_keywords, added_at) VALUES (?, ?, ?, ?)
+            ON CONFLICT(channel_id) DO UPDATE SET label = excluded.label, product_keywords = excluded.product_keywords`,
+      args: [channelId, label, JSON.stringify(productKeywords), now.toISOString()],
+    });
+    return (await this.list()).find(c => c.channelId === channelId)!;
+  }
+
+  async remove(channelId: string): Promise<boolean> {
+    await this.ensureSchema();
+    const result = await this.client().batch(
+      [
+        { sql: 'DELETE FROM competitor_watchlist WHERE channel_id = ?', args: [channelId] },
+        { sql: 'DELETE FROM competitor_video_state WHERE channel_id = ?', args: [channelId] },
+      ],
+      'write'
+    );
+    return result[0].rowsAffected > 0;
+  }
+
+  async list(): Promise<WatchedChannel[]> {
+    await this.ensureSchema();
+    const result = await this.client().execute(
+      'SELECT channel_id, label, product_keywords, added_at, last_scanned_at FROM competitor_watchlist ORDER BY added_at'
+    );
+    return result.rows.map(row => ({
+      channelId: String(row.channel_id),
+      label: String(row.label),
+      productKeywords: JSON.parse(String(row.product_keywords)),
+      addedAt: String(row.added_at),
+      lastScannedAt: row.last_scanned_at ? String(row.last_scanned_at) : undefined,
+    }));
+  }
+
+  async getVideoStates(channelId: string): Promise<Map<string, VideoState>> {
+    await this.ensureSchema();
+    const result = await this.client().execute({
+      sql: 'SELECT video_id, channel_id, title, thumbnail, views, products, checked_at FROM competitor_video_state WHERE channel_id = ?',
+      args: [channelId],
+    });
+    return new Map(
+      result.rows.map(row => [
+        String(row.video_id),
+        {
+          videoId: String(row.video_id),
+          channelId: String(row.channel_id),
+          title: String(row.title),
+          thumbnail: String(row.thumbnail),
+          views: Number(row.views),
+          products: JSON.parse(String(row.products)),
+          checkedAt: String(row.checked_at),
+        },
+      ])
+    );
+  }
+
+  /**
+   * スキャン結果の動画状態とアラートを1トランザクションで保存する
+   */
+  async saveScan(channelId: string, states: VideoState[], alerts: CompetitorAlert[], scannedAt: Date): Promise<void> {
+    await this.ensureSchema();
+    await this.client().batch(
+      [
+        ...states.map(s => ({
+          sql: `INSERT OR REPLACE INTO competitor_video_state (video_id, channel_id, title, thumbnail, views, products, checked_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          args: [s.videoId, s.channelId, s.title, s.thumbnail, s.views, JSON.stringify(s.products), s.checkedAt],
+        })),
+        ...alerts.map(a => ({
+          sql: `INSERT INTO competitor_alerts (type, severity, channel_id, channel_label, video_id, detected_at, summary, details)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          args: [a.type, a.severity, a.channelId, a.channelLabel, a.videoId, a.detectedAt, a.summary, JSON.stringify(a.details)],
+        })),
+        {
+          sql: 'UPDATE competitor_watchlist SET last_scanned_at = ? WHERE channel_id = ?',
+          args: [scannedAt.toISOString(), channelId],
+        },
+      ],
+      'write'
+    );
+  }
+
+  async listAlerts(options: { since?: Date; channelId?: string; types?: CompetitorAlertType[]; limit?: number } = {}): Promise<CompetitorAlert[]> {
+    await this.ensureSchema();
+    const conditions: string[] = [];
+    const args: Array<string | number> = [];
+    if (options.since) {
+      conditions.push('detected_at >= ?');
+      args.push(options.since.toISOString());
+    }
+    if (options.channelId) {
+      conditions.push('channel_id = ?');
+      args.push(options.channelId);
+    }
+    if (options.types && options.types.length > 0) {
+      conditions.push(`type IN (${options.types.map(() => '?').join(', ')})`);
+      args.push(...options.types);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.client().execute({
+      sql: `SELECT id, type, severity, channel_id, channel_label, video_id, detected_at, summary, details
+            FROM competitor_alerts ${where} ORDER BY detected_at DESC, id DESC LIMIT ?`,
+      args: [...args, options.limit ?? 100],
+    });
+    return result.rows.map(row => ({
+      id: Number(row.id),
+      type: String(row.type) as CompetitorAlertType,
+      severity: String(row.severity) as AlertSeverity,
+      channelId: String(row.channel_id),
+      channelLabel: String(row.channel_label),
+      videoId: String(row.video_id),
+      detectedAt: String(row.detected_at),
+      summary: String(row.summary),
+      details: JSON.parse(String(row.details)),
+    }));
+  }
+}
+
+export const competitorWatchStore = new CompetitorWatchStore();
+
+function toVideoState(video: youtube_v3.Schema$Video, channel: WatchedChannel, checkedAt: Date): ScannedVideo {
+  return {
+    videoId: video.id ?? '',
+    publishedAt: video.snippet?.publishedAt ?? '',
+    channelId: channel.channelId,
+    title: video.snippet?.title ?? '',
+    thumbnail: thumbnailSignature(video),
+    views: Number(video.statistics?.viewCount ?? 0),
+    products: extractAffiliateProducts(video.snippet?.description ?? '', channel.productKeywords),
+    checkedAt: checkedAt.toISOString(),
+  };
+}
+
+/**
+ * 前回の状態と今回の動画一覧を比較してアラートを作る
+ * 初回スキャンでは基準を保存するだけでアラートは出さない
+ * 新着は前回スキャン以降に公開された動画だけを対象にし、新商品は既存動画に追加されたリンクと新着動画の商品を対象にする
+ * （削除などで取得範囲に入ってきた古い動画は基準に加えるだけ）
+ */
+export function diffChannelVideos(
+  channel: WatchedChannel,
+  previous: Map<string, VideoState>,
+  current: ScannedVideo[],
+  options: Required<Pick<WatchlistScanOptions, 'spikeMultiplier' | 'spikeMinViews'>>,
+  now: Date
+): CompetitorAlert[] {
+  if (!channel.lastScannedAt) return [];
+
+  const detectedAt = now.toISOString();
+  const alerts: CompetitorAlert[] = [];
+  const alert = (
+    type: CompetitorAlertType,
+    severity: AlertSeverity,
+    videoId: string,
+    summary: string,
+    details: Record<string, unknown>
+  ) => alerts.push({ type, severity, channelId: channel.channelId, channelLabel: channel.label, videoId, detectedAt, summary, details });
+
+  const lastScannedAt = new Date(channel.lastScannedAt).getTime();
+  const isNewUpload = (state: ScannedVideo) => new Date(state.publishedAt).getTime() > lastScannedAt;
+  const knownProducts = new Set([
+    ...[...previous.values()].flatMap(s => s.products),
+    ...current.filter(s => !isNewUpload(s)).flatMap(s => s.products),
+  ]);
+
+  // 既存動画の1時間あたり再生増加を求め、チャンネル内の中央値と比較する
+  const growth = current
+    .map(state => {
+      const before = previous.get(state.videoId);
+      if (!before) return null;
+      const hours = (now.getTime() - new Date(before.checkedAt).getTime()) / 3_600_000;
+      if (hours <= 0) return null;
+      const gained = state.views - before.views;
+      return { state, gained, perHour: gained / hours };
+    })
+    .filter((g): g is NonNullable<typeof g> => g !== null);
+  const baselinePerHour = median(growth.map(g => g.perHour));
+
+  for (const state of current) {
+    const before = previous.get(state.videoId);
+
+    if (!before) {
+      if (isNewUpload(state)) {
+        alert('new_upload', 'warning', state.videoId, `${channel.label}が新しい動画を公開しました:「${state.title}」`, {
+          title: state.title,
+          views: state.views,
+          products: state.products,
+        });
+      }
+    } else {
+      if (before.title !== state.title) {
+        alert('title_changed', 'info', state.videoId, `${channel.label}がタイトルを変更しました:「${before.title}」→「${state.title}」`, {
+          previousTitle: before.title,
+          title: state.title,
+        });
+      }
+      if (before.thumbnail !== state.thumbnail) {
+        alert('thumbnail_changed', 'info', state.videoId, `${channel.label}が「${state.title}」のサムネイルを変更しました`, {
+          previousThumbnail: before.thumbnail,
+          thumbnail: state.thumbnail,
+        });
+      }
+    }
+
+    // 既存動画は前回の説明欄になかったリンクを、新着動画はチャンネルでまだ見ていない商品を拾う
+    // （前回の一覧になかった古い動画は knownProducts に含めてあるので、基準に加えるだけになる）
+    const newProducts = before
+      ? state.products.filter(p => !before.products.includes(p))
+      : state.products.filter(p => !knownProducts.has(p));
+    if (newProducts.length > 0) {
+      alert('new_affiliate_product', 'critical', state.videoId, `${channel.label}が新しいアフィリエイト商品を紹介しています:「${state.title}」`, {
+        title: state.title,
+        products: newProducts,
+      });
+      newProducts.forEach(p => knownProducts.add(p));
+    }
+  }
+
+  for (const g of growth) {
+    const isSpike =
+      g.gained >= options.spikeMinViews &&
+      (baselinePerHour <= 0 || g.perHour >= baselinePerHour * options.spikeMultiplier);
+    if (isSpike) {
+      alert('view_spike', 'warning', g.state.videoId, `${channel.label}の「${g.state.title}」の再生数が急増しています（+${g.gained.toLocaleString()}回）`, {
+        title: g.state.title,
+        gainedViews: g.gained,
+        viewsPerHour: Math.round(g.perHour),
+        channelMedianViewsPerHour: Math.round(baselinePerHour),
+      });
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * ウォッチリストの全チャンネルを走査し、前回スキャンとの差分からアラートを検知・保存する
+ * 定期実行（cronなど）から呼び出す想定。1チャンネルあたりのクォータ消費は約3ユニット
+ */
+export async function scanWatchlist(
+  youtube: YouTubeService,
+  options: WatchlistScanOptions & { store?: CompetitorWatchStore } = {}
+): Promise<WatchlistScanResult> {
+  const {
+    store = competitorWatchStore,
+    maxVideosPerChannel = 25,
+    spikeMultiplier = DEFAULT_SPIKE_MULTIPLIER,
+    spikeMinViews = DEFAULT_SPIKE_MIN_VIEWS,
+    now = new Date(),
+  } = options;
+  const result: WatchlistScanResult = { scannedChannels: 0, baselinedChannels: [], alerts: [], errors: [] };
+
+  // 前回との差分と再生の増加速度を checkedAt 時点の値として計算するため、キャッシュを通さずに取得する
+  const live = youtube.withoutCache();
+  for (const channel of await store.list()) {
+    try {
+      const videos = await live.getAllChannelVideos(channel.channelId, { maxVideos: maxVideosPerChannel });
+      const previous = await store.getVideoStates(channel.channelId);
+      const current = videos.filter(v => v.id).map(v => toVideoState(v, channel, now));
+      const alerts = diffChannelVideos(channel, previous, current, { spikeMultiplier, spikeMinViews }, now);
+
+      await store.saveScan(channel.channelId, current, alerts, now);
+      result.scannedChannels++;
+      if (!channel.lastScannedAt) {
+        result.baselinedChannels.push(channel.channelId);
+      }
+      result.alerts.push(...alerts);
+    } catch (error) {
+      // 1チャンネルの失敗で他のチャンネルの監視を止めない
+      result.errors.push({ channelId: channel.channelId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,348 @@
+// コンプライアンスチェックの監査記録（チェック結果・承認済みの抑制・公開前のサインオフ）
+// 公開した動画・記事について、公開時点でどのチェックに通っていたかを後から示せるようにする
+
+import type { Client } from '@libsql/client';
+import type { ComplianceIssue, ComplianceSeverity, SuppressedIssue } from './compliance-rules';
+import { formatCsvRow } from './csv';
+import { createSchemaInitializer, getStorageClient } from './storage';
+
+export type ComplianceAuditAction = 'check_content' | 'audit_campaign';
+
+export interface ComplianceOverride {
+  issueId?: string;
+  ruleId?: string;
+  reason: string;
+  approvedBy: string;
+  /** 抑制をチェックの記録に残した日時 */
+  recordedAt: string;
+}
+
+export interface ComplianceAuditRun {
+  id: number;
+  action: ComplianceAuditAction;
+  /** 動画ID・記事URLなど、公開物の識別子 */
+  contentId?: string;
+  contentType?: string;
+  market?: string;
+  /** 検査した本文の SHA-256 */
+  contentHash: string;
+  rulePacks: Array<{ id: string; version: string }>;
+  score: number;
+  status: string;
+  issues: ComplianceIssue[];
+  overrides: ComplianceOverride[];
+  checkedBy?: string;
+  checkedAt: string;
+}
+
+export interface ComplianceSignOff {
+  id: number;
+  runId: number;
+  contentId?: string;
+  contentHash: string;
+  approvedBy: string;
+  note?: string;
+  signedAt: string;
+}
+
+export interface ComplianceAuditQuery {
+  action?: ComplianceAuditAction;
+  contentId?: string;
+  contentHash?: string;
+  status?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+export interface PublicationRecord {
+  contentId: string;
+  publishedAt: string;
+  /** 公開時点で最新の本文のチェック（check_content。キャンペーン監査などの実行は含めない） */
+  run?: ComplianceAuditRun;
+  signOff?: ComplianceSignOff;
+  /** 公開した本文のハッシュを渡したときだけ、チェックした本文と同じか */
+  hashMatches?: boolean;
+  passed: boolean;
+}
+
+/**
+ * 抑制した指摘を、承認者付きのオーバーライドとして記録する形にする
+ * 承認者のない抑制は記録に残せないので、チェックごと拒否する
+ */
+export function toOverrides(suppressed: SuppressedIssue[], recordedAt: Date): ComplianceOverride[] {
+  const unapproved = suppressed.filter(issue => !issue.approvedBy);
+  if (unapproved.length > 0) {
+    throw new Error(`Suppressions recorded in the compliance audit need approvedBy: ${unapproved.map(issue => issue.id ?? issue.ruleId).join(', ')}`);
+  }
+  return suppressed.map(issue => ({
+    issueId: issue.id,
+    ruleId: issue.ruleId,
+    reason: issue.suppressionReason,
+    approvedBy: issue.approvedBy!,
+    recordedAt: recordedAt.toISOString(),
+  }));
+}
+
+/**
+ * チェックの実行記録とサインオフを保存するストア（記録は追記のみで、更新・削除はしない）
+ */
+export class ComplianceAuditStore {
+  private readonly ensureSchema: () => Promise<void>;
+
+  constructor(private readonly client: () => Client = getStorageClient) {
+    this.ensureSchema = createSchemaInitializer(client, [
+      `CREATE TABLE IF NOT EXISTS compliance_audit_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        action TEXT NOT NULL,
+        content_id TEXT,
+        content_type TEXT,
+        market TEXT,
+        content_hash TEXT NOT NULL,
+        rule_packs TEXT NOT NULL,
+        score REAL NOT NULL,
+        status TEXT NOT NULL,
+        issues TEXT NOT NULL,
+        overrides TEXT NOT NULL,
+        checked_by TEXT,
+        checked_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_compliance_audit_runs_content ON compliance_audit_runs (content_id, checked_at)`,
+      `CREATE INDEX IF NOT EXISTS idx_compliance_audit_runs_hash ON compliance_audit_runs (content_hash)`,
+      `CREATE TABLE IF NOT EXISTS compliance_signoffs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL,
+        content_id TEXT,
+        content_hash TEXT NOT NULL,
+        approved_by TEXT NOT NULL,
+        note TEXT,
+        signed_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_compliance_signoffs_content ON compliance_signoffs (content_id, signed_at)`,
+    ]);
+  }
+
+  async recordRun(run: Omit<ComplianceAuditRun, 'id'>): Promise<ComplianceAuditRun> {
+    await this.ensureSchema();
+    const result = await this.client().execute({
+      sql: `INSERT INTO compliance_audit_runs
+              (action, content_id, content_type, market, content_hash, rule_packs, score, status, issues, overrides, checked_by, checked_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        run.action,
+        run.contentId ?? null,
+        run.contentType ?? null,
+        run.market ?? null,
+        run.contentHash,
+        JSON.stringify(run.rulePacks),
+        run.score,
+        run.status,
+        JSON.stringify(run.issues),
+        JSON.stringify(run.overrides),
+        run.checkedBy ?? null,
+        run.checkedAt,
+      ],
+    });
+    return { ...run, id: Number(result.lastInsertRowid) };
+  }
+
+  async getRun(id: number): Promise<ComplianceAuditRun | undefined> {
+    return (await this.selectRuns(['id = ?'], [id], 1))[0];
+  }
+
+  /**
+   * チェックの記録を新しい順に返す
+   */
+  async queryRuns(query: ComplianceAuditQuery = {}): Promise<ComplianceAuditRun[]> {
+    const conditions: string[] = [];
+    const args: Array<string | number> = [];
+    if (query.action) {
+      conditions.push('action = ?');
+      args.push(query.action);
+    }
+    if (query.contentId) {
+      conditions.push('content_id = ?');
+      args.push(query.contentId);
+    }
+    if (query.contentHash) {
+      conditions.push('content_hash = ?');
+      args.push(query.contentHash);
+    }
+    if (query.status) {
+      conditions.push('status = ?');
+      args.push(query.status);
+    }
+    if (query.since) {
+      conditions.push('checked_at >= ?');
+      args.push(query.since.toISOString());
+    }
+    if (query.until) {
+      conditions.push('checked_at <= ?');
+      args.push(query.until.toISOString());
+    }
+    return this.selectRuns(conditions, args, query.limit ?? 100);
+  }
+
+  private async selectRuns(conditions: string[], args: Array<string | number>, limit: number): Promise<ComplianceAuditRun[]> {
+    await this.ensureSchema();
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.client().execute({
+      sql: `SELECT id, action, content_id, content_type, market, content_hash, rule_packs, score, status, issues, overrides, checked_by, checked_at
+            FROM compliance_audit_runs ${where} ORDER BY checked_at DESC, id DESC LIMIT ?`,
+      args: [...args, limit],
+    });
+    return result.rows.map(row => ({
+      id: Number(row.id),
+      action: String(row.action) as ComplianceAuditAction,
+      contentId: row.content_id ? String(row.content_id) : undefined,
+      contentType: row.content_type ? String(row.content_type) : undefined,
+      market: row.market ? String(row.market) : undefined,
+      contentHash: String(row.content_hash),
+      rulePacks: JSON.parse(String(row.rule_packs)),
+      score: Number(row.score),
+      status: String(row.status),
+      issues: JSON.parse(String(row.issues)),
+      overrides: JSON.parse(String(row.overrides)),
+      checkedBy: row.checked_by ? String(row.checked_by) : undefined,
+      checkedAt: String(row.checked_at),
+    }));
+  }
+
+  /**
+   * チェック結果を公開してよいと承認する。適合（compliant）の結果にだけ承認できる
+   * （publicationRecord は compliant の結果とサインオフがそろったときだけ passed にする）
+   */
+  async signOff(runId: number, approvedBy: string, note?: string, now: Date = new Date()): Promise<ComplianceSignOff> {
+    const run = await this.getRun(runId);
+    if (!run) {
+      throw new Error(`Unknown compliance audit run: ${runId}`);
+    }
+    if (run.status !== 'compliant') {
+      throw new Error(`Compliance audit run ${runId} is ${run.status}; fix or suppress the issues with approval and run the check again before signing off`);
+    }
+    const result = await this.client().execute({
+      sql: `INSERT INTO compliance_signoffs (run_id, content_id, content_hash, approved_by, note, signed_at)
+            VALUES (?, ?, ?, ?, ?, ?)`,
+      args: [runId, run.contentId ?? null, run.contentHash, approvedBy, note ?? null, now.toISOString()],
+    });
+    return {
+      id: Number(result.lastInsertRowid),
+      runId,
+      contentId: run.contentId,
+      contentHash: run.contentHash,
+      approvedBy,
+      note,
+      signedAt: now.toISOString(),
+    };
+  }
+
+  async listSignOffs(options: { contentId?: string; runIds?: number[]; until?: Date } = {}): Promise<ComplianceSignOff[]> {
+    await this.ensureSchema();
+    const conditions: string[] = [];
+    const args: Array<string | number> = [];
+    if (options.contentId) {
+      conditions.push('content_id = ?');
+      args.push(options.contentId);
+    }
+    if (options.runIds) {
+      if (options.runIds.length === 0) return [];
+      conditions.push(`run_id IN (${options.runIds.map(() => '?').join(', ')})`);
+      args.push(...options.runIds);
+    }
+    if (options.until) {
+      conditions.push('signed_at <= ?');
+      args.push(options.until.toISOString());
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.client().execute({
+      sql: `SELECT id, run_id, content_id, content_hash, approved_by, note, signed_at
+            FROM compliance_signoffs ${where} ORDER BY signed_at DESC, id DESC`,
+      args,
+    });
+    return result.rows.map(row => ({
+      id: Number(row.id),
+      runId: Number(row.run_id),
+      contentId: row.content_id ? String(row.content_id) : undefined,
+      contentHash: String(row.content_hash),
+      approvedBy: String(row.approved_by),
+      note: row.note ? String(row.note) : undefined,
+      signedAt: String(row.signed_at),
+    }));
+  }
+
+  /**
+   * 公開時点の記録（公開日時までに行われた最新のチェックとサインオフ）
+   * contentHash に公開した本文のハッシュを渡すと、チェックした本文と同じかも確かめる
+   */
+  async publicationRecord(contentId: string, publishedAt: Date, contentHash?: string): Promise<PublicationRecord> {
+    // 同じ contentId で後から実行した audit_campaign などに、サインオフ済みの本文チェックを隠させない
+    const [run] = await this.queryRuns({ action: 'check_content', contentId, until: publishedAt, limit: 1 });
+    const [signOff] = run ? await this.listSignOffs({ runIds: [run.id], until: publishedAt }) : [];
+    const hashMatches = contentHash && run ? run.contentHash === contentHash : undefined;
+    return {
+      contentId,
+      publishedAt: publishedAt.toISOString(),
+      run,
+      signOff,
+      hashMatches,
+      passed: run !== undefined && run.status === 'compliant' && signOff !== undefined && hashMatches !== false,
+    };
+  }
+}
+
+export const complianceAuditStore = new ComplianceAuditStore();
+
+function countBySeverity(issues: ComplianceIssue[], severity: ComplianceSeverity): number {
+  return issues.filter(issue => issue.severity === severity).length;
+}
+
+/**
+ * 監査記録の CSV（1行に1回のチェック。提携先・当局への提出用）
+ */
+export function toAuditCsv(runs: ComplianceAuditRun[], signOffs: ComplianceSignOff[]): string {
+  const header = [
+    'run_id', 'checked_at', 'action', 'content_id', 'content_type', 'market', 'content_hash', 'rule_packs',
+    'score', 'status', 'issues', 'critical', 'high', 'medium', 'low', 'issue_rules', 'overrides',
+    'checked_by', 'signed_off_by', 'signed_off_at',
+  ];
+  const rows = runs.map(run => {
+    const signOff = signOffs.find(s => s.runId === run.id);
+    return [
+      run.id,
+      run.checkedAt,
+      run.action,
+      run.contentId,
+      run.contentType,
+      run.market,
+      run.contentHash,
+      run.rulePacks.map(pack => `${pack.id}@${pack.version}`).join('; '),
+      run.score,
+      run.status,
+      run.issues.length,
+      countBySeverity(run.issues, 'critical'),
+      countBySeverity(run.issues, 'high'),
+      countBySeverity(run.issues, 'medium'),
+      countBySeverity(run.issues, 'low'),
+      [...new Set(run.issues.map(issue => issue.ruleId ?? issue.category))].join('; '),
+      run.overrides.map(o => `${o.issueId ?? o.ruleId}: ${o.reason}（${o.approvedBy}）`).join('; '),
+      run.checkedBy,
+      signOff?.approvedBy,
+      signOff?.signedAt,
+    ];
+  });
+  return [header, ...rows].map(formatCsvRow).join('\n') + '\n';
+}
+
+/**
+ * 監査記録の JSON（指摘の詳細とサインオフを含む）
+ */
+export function toAuditJson(runs: ComplianceAuditRun[], signOffs: ComplianceSignOff[], exportedAt: Date = new Date()): string {
+  return JSON.stringify(
+    {
+      exportedAt: exportedAt.toISOString(),
+      runs: runs.map(run => ({ ...run, signOffs: signOffs.filter(s => s.runId === run.id) })),
+    },
+    null,
+    2
+  );
+}
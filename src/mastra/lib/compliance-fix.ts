@@ -0,0 +1,257 @@
+// コンプライアンス指摘の自動修正（ルールパックの fix 定義による決定的な書き換え）
+// 修正は unified diff のハンクにまとめ、編集者がハンクごとに採用・却下できるようにする
+
+import { createHash } from 'node:crypto';
+import type { ComplianceIssue, ComplianceRule, ComplianceRulePack } from './compliance-rules';
+
+// ハンクの前後に付ける変更のない行数
+const DIFF_CONTEXT_LINES = 2;
+
+export type HunkDecision = 'accepted' | 'rejected' | 'pending';
+
+export interface ComplianceFixChange {
+  /** 元になった指摘の id */
+  issueId: string;
+  ruleId: string;
+  packId?: string;
+  packVersion?: string;
+  type: 'replace' | 'prepend' | 'insert_after';
+  /** 元の本文での位置（0始まり）と置き換える長さ */
+  offset: number;
+  length: number;
+  before: string;
+  after: string;
+  line: number;
+  rationale: string;
+}
+
+export interface ComplianceFixHunk {
+  id: string;
+  /** 元の本文での開始行と行数（@@ -oldStart,oldLines +newStart,newLines @@） */
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  diff: string;
+  changes: ComplianceFixChange[];
+  status: HunkDecision;
+}
+
+export interface UnfixedIssue extends ComplianceIssue {
+  unfixedReason: string;
+}
+
+export interface ComplianceFixResult {
+  /** 修正案を作った本文のハッシュ（採否を送るときに同じ本文か確かめる） */
+  baseHash: string;
+  /** すべてのハンクを採用した本文 */
+  proposedContent: string;
+  /** 採用したハンクだけを反映した本文 */
+  fixedContent: string;
+  diff: string;
+  hunks: ComplianceFixHunk[];
+  unfixed: UnfixedIssue[];
+}
+
+export interface ComplianceFixOptions {
+  /** ハンクIDごとの採否 */
+  decisions?: Array<{ hunkId: string; accept: boolean }>;
+  /** 採否が指定されていないハンクも採用する（ワークフローでの一括修正） */
+  applyAll?: boolean;
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function lineAt(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length;
+}
+
+/**
+ * 指摘ごとの書き換えを作る。fix 定義がないもの・適用できないものは unfixed に入れる
+ */
+export function planComplianceFixes(
+  content: string,
+  issues: ComplianceIssue[],
+  packs: ComplianceRulePack[]
+): { changes: ComplianceFixChange[]; unfixed: UnfixedIssue[] } {
+  const rules = new Map<string, ComplianceRule>();
+  for (const pack of packs) {
+    for (const rule of pack.rules) rules.set(rule.id, rule);
+  }
+
+  const candidates: Array<{ change: ComplianceFixChange; issue: ComplianceIssue }> = [];
+  const unfixed: UnfixedIssue[] = [];
+  for (const issue of issues) {
+    const rule = issue.ruleId ? rules.get(issue.ruleId) : undefined;
+    const fix = rule?.fix;
+    if (!rule || !fix) {
+      unfixed.push({ ...issue, unfixedReason: 'このルールには自動修正がありません' });
+      continue;
+    }
+    const base = {
+      issueId: issue.id ?? rule.id,
+      ruleId: rule.id,
+      packId: issue.packId,
+      packVersion: issue.packVersion,
+      type: fix.type,
+      rationale: `${rule.title}: ${fix.rationale}`,
+    };
+
+    if (fix.type === 'prepend') {
+      candidates.push({ issue, change: { ...base, offset: 0, length: 0, before: '', after: `${fix.text}\n`, line: 1 } });
+      continue;
+    }
+    if (issue.offset === undefined || issue.length === undefined) {
+      unfixed.push({ ...issue, unfixedReason: '指摘の位置が分からないため修正できません' });
+      continue;
+    }
+    if (fix.type === 'insert_after') {
+      const offset = issue.offset + issue.length;
+      if (content.startsWith(fix.text!, offset)) {
+        unfixed.push({ ...issue, unfixedReason: '記入欄はすでにあります。内容を記入してください' });
+        continue;
+      }
+      candidates.push({ issue, change: { ...base, offset, length: 0, before: '', after: fix.text!, line: lineAt(content, offset) } });
+      continue;
+    }
+
+    const flags = `uy${rule.caseSensitive ? '' : 'i'}`;
+    const replacement = fix.replacements
+      .map(r => {
+        const pattern = new RegExp(r.pattern, flags);
+        pattern.lastIndex = issue.offset!;
+        const m = pattern.exec(content);
+        return m ? { before: m[0], after: r.with } : undefined;
+      })
+      .find(r => r !== undefined);
+    if (!replacement) {
+      unfixed.push({ ...issue, unfixedReason: `「${issue.match}」に合う置き換えがありません` });
+      continue;
+    }
+    candidates.push({
+      issue,
+      change: { ...base, offset: issue.offset, length: replacement.before.length, ...replacement, line: lineAt(content, issue.offset) },
+    });
+  }
+
+  // 重なる書き換えは先のものだけを使う（同じ位置への挿入も1つだけ）
+  const changes: ComplianceFixChange[] = [];
+  const sorted = candidates.sort((a, b) => a.change.offset - b.change.offset || a.change.length - b.change.length);
+  for (const { change, issue } of sorted) {
+    const previous = changes[changes.length - 1];
+    const overlaps = previous !== undefined && (
+      change.offset < previous.offset + previous.length ||
+      (change.offset === previous.offset && change.length === 0 && previous.length === 0)
+    );
+    if (overlaps) {
+      const reason = change.type === 'prepend' && previous.type === 'prepend'
+        ? `「${previous.ruleId}」の表示の追加と同じ修正です`
+        : `「${previous.ruleId}」の修正と範囲が重なります`;
+      unfixed.push({ ...issue, unfixedReason: reason });
+      continue;
+    }
+    changes.push(change);
+  }
+  return { changes, unfixed };
+}
+
+function applyChanges(content: string, changes: ComplianceFixChange[]): string {
+  let result = '';
+  let cursor = 0;
+  for (const change of [...changes].sort((a, b) => a.offset - b.offset)) {
+    result += content.slice(cursor, change.offset) + change.after;
+    cursor = change.offset + change.length;
+  }
+  return result + content.slice(cursor);
+}
+
+/**
+ * 書き換えを行単位のハンクにまとめる。採否を細かく選べるよう、同じ行にかかる書き換えだけを1つのハンクにする
+ * （前後の文脈の行は隣のハンクと重なることがある）
+ */
+function buildHunks(content: string, changes: ComplianceFixChange[]): ComplianceFixHunk[] {
+  const lines = content.split('\n');
+  const lineStarts: number[] = [];
+  lines.reduce((offset, line) => {
+    lineStarts.push(offset);
+    return offset + line.length + 1;
+  }, 0);
+  const lastLineOf = (change: ComplianceFixChange) => lineAt(content, change.offset + change.length);
+
+  const groups: ComplianceFixChange[][] = [];
+  for (const change of changes) {
+    const group = groups[groups.length - 1];
+    if (group && change.line <= lastLineOf(group[group.length - 1])) {
+      group.push(change);
+    } else {
+      groups.push([change]);
+    }
+  }
+
+  let delta = 0;
+  return groups.map((group, i) => {
+    const firstLine = group[0].line;
+    const lastLine = lastLineOf(group[group.length - 1]);
+    const start = lineStarts[firstLine - 1];
+    const end = lineStarts[lastLine - 1] + lines[lastLine - 1].length;
+    const oldChanged = lines.slice(firstLine - 1, lastLine);
+    const newChanged = applyChanges(
+      content.slice(start, end),
+      group.map(change => ({ ...change, offset: change.offset - start }))
+    ).split('\n');
+
+    const contextStart = Math.max(1, firstLine - DIFF_CONTEXT_LINES);
+    const contextEnd = Math.min(lines.length, lastLine + DIFF_CONTEXT_LINES);
+    const leading = lines.slice(contextStart - 1, firstLine - 1);
+    const trailing = lines.slice(lastLine, contextEnd);
+    const oldLines = leading.length + oldChanged.length + trailing.length;
+    const newLines = leading.length + newChanged.length + trailing.length;
+    const newStart = contextStart + delta;
+    delta += newChanged.length - oldChanged.length;
+
+    const diff = [
+      `@@ -${contextStart},${oldLines} +${newStart},${newLines} @@`,
+      ...leading.map(line => ` ${line}`),
+      ...oldChanged.map(line => `-${line}`),
+      ...newChanged.map(line => `+${line}`),
+      ...trailing.map(line => ` ${line}`),
+    ].join('\n');
+
+    return { id: `hunk-${i + 1}`, oldStart: contextStart, oldLines, newStart, newLines, diff, changes: group, status: 'pending' as HunkDecision };
+  });
+}
+
+/**
+ * 指摘を自動修正し、unified diff とハンクごとの採否を反映した本文を返す
+ */
+export function fixCompliance(
+  content: string,
+  issues: ComplianceIssue[],
+  packs: ComplianceRulePack[],
+  options: ComplianceFixOptions = {}
+): ComplianceFixResult {
+  const { changes, unfixed } = planComplianceFixes(content, issues, packs);
+  const hunks = buildHunks(content, changes);
+
+  const decisions = new Map((options.decisions ?? []).map(d => [d.hunkId, d.accept]));
+  const unknown = [...decisions.keys()].filter(id => !hunks.some(hunk => hunk.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown hunk ids: ${unknown.join(', ')}`);
+  }
+  for (const hunk of hunks) {
+    const accept = decisions.get(hunk.id);
+    hunk.status = accept === undefined ? (options.applyAll ? 'accepted' : 'pending') : accept ? 'accepted' : 'rejected';
+  }
+
+  const accepted = hunks.filter(hunk => hunk.status === 'accepted').flatMap(hunk => hunk.changes);
+  return {
+    baseHash: hashContent(content),
+    proposedContent: applyChanges(content, changes),
+    fixedContent: applyChanges(content, accepted),
+    diff: hunks.length > 0 ? ['--- original', '+++ fixed', ...hunks.map(hunk => hunk.diff)].join('\n') : '',
+    hunks,
+    unfixed,
+  };
+}
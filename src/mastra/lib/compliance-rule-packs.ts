@@ -0,0 +1,504 @@
+// 組み込みのコンプライアンスルールパック（COMPLIANCE_RULES_DIR に同じ形式の JSON / YAML を置いて追加・上書きする）
+// version は法令・ガイドラインの改定や文言の見直しのたびに上げる
+
+import type { ComplianceRulePackInput } from './compliance-rules';
+
+// 薬機法の対象になる健康・美容の文脈
+const HEALTH_CONTEXT = '(肌|髪|頭皮|体|身体|健康|病|症状|痛み|痩せ|ダイエット|サプリ|美容|美白|シミ|シワ|ニキビ|血|脂肪|便秘|睡眠|薬|治療|免疫|アレルギー|化粧品)';
+
+// 広告・アフィリエイトであることの表示とみなす語（check_disclosure）
+const JP_DISCLOSURE_PATTERNS = ['アフィリエイト', '広告', '\\bPR\\b', 'プロモーション', '\\bAD\\b', '提供', 'sponsored', 'パートナーシップ'];
+const US_DISCLOSURE_PATTERNS = ['#ad\\b', '\\bad:', 'sponsored', 'paid (?:partnership|promotion)', 'affiliate', 'commission', 'advertisement'];
+
+// 開示は冒頭のこの文字数以内に置く
+const DISCLOSURE_POSITION_LIMIT = 200;
+
+export const BUILTIN_RULE_PACKS: ComplianceRulePackInput[] = [
+  {
+    id: 'jp-keihyo',
+    name: '景品表示法',
+    version: '2024.12',
+    market: 'jp',
+    law: '景品表示法',
+    description: '優良誤認・有利誤認・ステルスマーケティング（令和5年10月施行の告示）',
+    rules: [
+      {
+        id: 'keihyo.absolute-claim',
+        title: '断定的な表現',
+        severity: 'high',
+        message: '断定的な表現「{match}」が含まれています',
+        recommendation: '効果や結果を断定せず、条件や個人差を併記するか客観的な根拠を示してください',
+        legalReference: '景品表示法第5条第1号（優良誤認表示）',
+        terms: ['必ず', '絶対', '確実に', '誰でも'],
+        notFollowedBy: ['しも'],
+        // 注意喚起（「必ず公式サイトでご確認ください」など）は対象外
+        exceptions: ['(必ず|絶対に).{0,12}(確認|ご確認|お読み|守って|しないで|やめ|避け)'],
+        fix: {
+          type: 'replace',
+          replacements: [
+            { pattern: '必ず', with: '多くの場合' },
+            { pattern: '絶対に?', with: '' },
+            { pattern: '確実に', with: '' },
+            { pattern: '誰でも', with: '多くの方が' },
+          ],
+          rationale: '結果を断定しない表現に弱めました（個人差の注記も検討してください）',
+        },
+      },
+      {
+        id: 'keihyo.superlative',
+        title: '最上級・No.1表示',
+        severity: 'high',
+        message: '最上級表現「{match}」に根拠の表示がありません',
+        recommendation: '調査機関・調査期間・対象を注記するか、表現を削除してください',
+        legalReference: '景品表示法第5条第1号、「No.1表示に関する実態調査報告書」（消費者庁）',
+        patterns: ['日本一', 'No\\.?\\s?1', 'ナンバー?ワン', '業界(?:初|最安|最大|トップ)', '世界初', '最安値?', '最高(?:品質|峰|レベル)'],
+        exceptions: ['※', '調査', '調べ', '出典'],
+        fix: {
+          type: 'insert_after',
+          text: '※[根拠: 調査機関・調査期間・調査対象を記載]',
+          placeholder: true,
+          rationale: '最上級表示には調査の根拠の注記が必要なため、記入欄を追加しました',
+        },
+      },
+      {
+        id: 'keihyo.numeric-claim',
+        title: '数値の根拠表示',
+        severity: 'medium',
+        message: '数値を使った表現「{match}」に根拠の表示がありません',
+        recommendation: '調査元・調査期間・対象を注記してください',
+        legalReference: '景品表示法第7条第2項（不実証広告規制）',
+        patterns: ['\\d+(?:\\.\\d+)?\\s?[%％](?!\\s?(?:OFF|オフ|割引|引き))', '\\d+(?:\\.\\d+)?倍', '\\d+(?:,\\d{3})*万?人(?:以上)?(?:が|の方が)'],
+        exceptions: ['※', '調査', '調べ', '出典'],
+        fix: {
+          type: 'insert_after',
+          text: '※[根拠: 調査機関・調査期間・調査対象を記載]',
+          placeholder: true,
+          rationale: '数値の根拠（調査元・期間・対象）を示す注記の記入欄を追加しました',
+        },
+      },
+      {
+        id: 'keihyo.guarantee',
+        title: '成果の保証',
+        severity: 'high',
+        message: '「{match}」は成果や効果の保証と受け取られるおそれがあります',
+        recommendation: '保証の範囲と条件を明記するか、保証と受け取られる表現を避けてください',
+        legalReference: '景品表示法第5条第1号（優良誤認表示）',
+        terms: ['保証'],
+        exceptions: ['保証(?:期間|書|内容|条件|対象)', '保証(?:するものでは|いたしかね|しません|はありません|できません)'],
+      },
+      {
+        id: 'keihyo.dual-price',
+        title: '二重価格表示',
+        severity: 'medium',
+        message: '二重価格表示（「{match}」）が検出されました',
+        recommendation: '比較対照価格が最近相当期間にわたって販売されていた価格であることの根拠を示してください',
+        legalReference: '不当な価格表示についての景品表示法上の考え方（価格表示ガイドライン）',
+        patterns: ['通常価格', '定価', 'メーカー希望小売価格'],
+        cooccurs: ['特別価格|割引|セール|今だけ|[%％]\\s?OFF|値下げ'],
+        reportOnce: true,
+      },
+      {
+        id: 'keihyo.scarcity',
+        title: '期間・数量の限定',
+        severity: 'low',
+        message: '限定表現「{match}」の期間・数量が事実か確認してください',
+        recommendation: '実際の期限・在庫数を明記し、期限後も同じ条件で販売しないようにしてください',
+        legalReference: '景品表示法第5条第2号（有利誤認表示）',
+        patterns: ['今だけ', '本日限り', '残りわずか', '先着\\d+名', '期間限定'],
+        // 期限が明記されていれば対象外（「3月31日まで」「23:59まで」）
+        exceptions: ['(?:\\d{1,2}[/月]\\d{1,2}日?|\\d{1,2}:\\d{2})\\s?(?:まで|迄)'],
+      },
+      {
+        id: 'keihyo.stealth-marketing',
+        title: '広告であることの表示（ステマ規制）',
+        severity: 'critical',
+        category: 'アフィリエイト表示',
+        message: 'アフィリエイトリンクの明示がありません',
+        recommendation: '冒頭に「広告」「PR」表記を追加してください',
+        legalReference: '景品表示法第5条第3号「一般消費者が事業者の表示であることを判別することが困難である表示」（令和5年内閣府告示第19号）',
+        mode: 'absence',
+        patterns: ['広告', '\\bPR\\b', 'プロモーション', 'アフィリエイト', '提供', 'タイアップ', 'スポンサー', 'sponsored', 'affiliate', '#ad\\b'],
+        fix: {
+          type: 'prepend',
+          text: '【PR】本コンテンツにはアフィリエイトリンク（広告）が含まれます。',
+          rationale: '広告であることが最初に分かるよう、冒頭に表示を追加しました',
+        },
+      },
+    ],
+  },
+  {
+    id: 'jp-yakki',
+    name: '薬機法',
+    version: '2024.10',
+    market: 'jp',
+    law: '薬機法',
+    description: '医薬品等の誇大広告・承認前の効能効果の標榜（健康食品・化粧品を紹介する場合）',
+    rules: [
+      {
+        id: 'yakki.cure',
+        title: '疾病の治療・治癒',
+        severity: 'high',
+        message: '疾病の治療・治癒をうたう表現「{match}」が含まれています',
+        recommendation: '医薬品として承認されていない商品では、治療・治癒をうたう表現を削除してください',
+        legalReference: '医薬品医療機器等法第66条（誇大広告等の禁止）・第68条（承認前の医薬品等の広告の禁止）',
+        patterns: ['治る', '治す', '治ります', '完治', '根治', '治療(?:効果|でき)'],
+        contexts: [HEALTH_CONTEXT],
+        exceptions: ['医師に相談', '治療中の方', '医療機関'],
+      },
+      {
+        id: 'yakki.efficacy',
+        title: '効能効果の標榜',
+        severity: 'high',
+        message: '健康・美容の文脈で効能効果を示す表現「{match}」が含まれています',
+        recommendation: '化粧品・健康食品で認められた範囲の表現（例:「肌を整える」「健康維持に」）に言い換えてください',
+        legalReference: '医薬品医療機器等法第66条（誇大広告等の禁止）、医薬品等適正広告基準',
+        terms: ['効果', '効く', '効き', '改善', '予防', '解消'],
+        notFollowedBy: ['的'],
+        contexts: [HEALTH_CONTEXT],
+        exceptions: ['個人差', '個人の感想', '効果を保証するものでは'],
+      },
+      {
+        id: 'yakki.diagnosis',
+        title: '診断',
+        severity: 'medium',
+        message: '医療行為と受け取られる表現「{match}」が含まれています',
+        recommendation: '診断は医師のみが行えます。「チェック」「セルフチェック」などに言い換えてください',
+        legalReference: '医薬品医療機器等法第66条、医師法第17条',
+        terms: ['診断'],
+        contexts: [HEALTH_CONTEXT],
+      },
+      {
+        id: 'yakki.body-change',
+        title: '身体の変化の標榜',
+        severity: 'high',
+        message: '身体の構造・機能への影響を示す表現「{match}」が含まれています',
+        recommendation: '「痩せる」「シミが消える」などの表現は医薬品的な効能にあたるため削除してください',
+        legalReference: '医薬品医療機器等法第66条・第68条、「無承認無許可医薬品の指導取締りについて」（46通知）',
+        patterns: [
+          '痩せ(?:る|られる|ます)',
+          '脂肪(?:を|が)?(?:燃焼|分解|落ちる|落とす)',
+          'シミ(?:が|を)?(?:消える|消す|なくなる)',
+          '若返(?:る|り)',
+          'デトックス',
+        ],
+      },
+    ],
+  },
+  {
+    id: 'jp-tokusho',
+    name: '特定商取引法',
+    version: '2024.10',
+    market: 'jp',
+    law: '特定商取引法',
+    description: '通信販売の広告表示・定期購入（特定申込み）・業務提供誘引販売の誇大広告',
+    rules: [
+      {
+        id: 'tokusho.seller-info',
+        title: '事業者の表示',
+        severity: 'medium',
+        message: '販売事業者の名称・所在地の表示が見つかりません',
+        recommendation: '「特定商取引法に基づく表記」ページへのリンクを追加してください',
+        legalReference: '特定商取引法第11条（通信販売についての広告）',
+        mode: 'absence',
+        patterns: ['事業者名', '販売事業者', '運営者', '会社名', '特定商取引法に基づく表記'],
+        contentTypes: ['landing_page'],
+      },
+      {
+        id: 'tokusho.contact',
+        title: '連絡先の表示',
+        severity: 'medium',
+        message: '連絡先の表示が見つかりません',
+        recommendation: '電話番号またはお問い合わせ先を表示してください',
+        legalReference: '特定商取引法第11条、同法施行規則第8条',
+        mode: 'absence',
+        patterns: ['連絡先', '電話番号', 'お問い?合わせ', 'メールアドレス'],
+        contentTypes: ['landing_page'],
+      },
+      {
+        id: 'tokusho.returns',
+        title: '返品特約の表示',
+        severity: 'medium',
+        message: '返品・解約の条件の表示が見つかりません',
+        recommendation: '返品の可否・条件（返品特約）を表示してください',
+        legalReference: '特定商取引法第11条第5号、第15条の3（通信販売における契約の解除等）',
+        mode: 'absence',
+        patterns: ['返品', 'キャンセル', '返金', '解約'],
+        contentTypes: ['landing_page'],
+      },
+      {
+        id: 'tokusho.subscription-trial',
+        title: '定期購入・自動更新の条件',
+        severity: 'medium',
+        message: '「{match}」の後に有料の定期契約へ移る場合は、支払総額・契約期間・解約方法の表示が必要です',
+        recommendation: '無料期間後の料金・自動更新の有無・解約方法を近くに明記してください',
+        legalReference: '特定商取引法第12条の6（特定申込みを受ける際の表示）',
+        patterns: ['初回(?:無料|\\d+円)', 'お試し(?:無料|\\d+円)', '無料(?:体験|トライアル|期間)'],
+        exceptions: ['自動更新', '解約', '総額', '定期'],
+        window: 100,
+        fix: {
+          type: 'insert_after',
+          text: '（無料期間の終了後は自動で有料の定期契約に移行します。料金・契約期間・解約方法は申込みページでご確認ください）',
+          rationale: '定期契約への移行と解約方法の案内を、無料表示のすぐ後に追加しました',
+        },
+      },
+      {
+        id: 'tokusho.income-claim',
+        title: '収入・利益の誇大表示',
+        severity: 'high',
+        message: '収入・利益を強調する表現「{match}」が含まれています',
+        recommendation: '収入は保証されないこと・実績の条件を明記し、誰でも同じ収入が得られる印象を与えないでください',
+        legalReference: '特定商取引法第54条（業務提供誘引販売取引の誇大広告等の禁止）・第36条（連鎖販売取引）',
+        patterns: ['誰でも(?:簡単に)?稼げ', '月\\d+万円?(?:以上)?(?:稼|の収入|の利益)', '不労所得', '放置で稼', '寝ながら稼'],
+      },
+    ],
+  },
+  {
+    id: 'jp-appi',
+    name: '個人情報保護法',
+    version: '2024.10',
+    market: 'jp',
+    law: '個人情報保護法',
+    rules: [
+      {
+        id: 'appi.privacy-policy',
+        title: '利用目的の通知',
+        severity: 'medium',
+        message: '個人情報取得時のプライバシーポリシーへのリンクがありません',
+        recommendation: 'プライバシーポリシーへのリンクを追加してください',
+        legalReference: '個人情報保護法第21条（取得に際しての利用目的の通知等）',
+        patterns: ['個人情報', 'メールアドレス'],
+        unlessPresent: ['プライバシーポリシー', '個人情報の取り?扱い'],
+        reportOnce: true,
+      },
+    ],
+  },
+  {
+    id: 'us-ftc',
+    name: 'FTC Endorsement Guides',
+    version: '2023.06',
+    market: 'us',
+    law: 'FTC Endorsement Guides',
+    description: '16 CFR Part 255（2023年6月改定）と FTC Act 第5条',
+    rules: [
+      {
+        id: 'ftc.disclosure-missing',
+        title: 'Material connection disclosure',
+        severity: 'critical',
+        message: '広告主との関係（アフィリエイト・提供）の開示がありません',
+        recommendation: '冒頭に "#ad" "Sponsored" "I earn a commission from links" などの明確な開示を追加してください',
+        legalReference: '16 CFR §255.5 (Disclosure of material connections)',
+        mode: 'absence',
+        patterns: ['#ad\\b', '\\bad:', 'sponsored', 'paid (?:partnership|promotion)', 'affiliate', 'commission', 'advertisement'],
+        fix: {
+          type: 'prepend',
+          text: 'Disclosure: This post contains affiliate links. I may earn a commission if you buy through them.',
+          rationale: '広告主との関係が最初に分かるよう、冒頭に開示を追加しました',
+        },
+      },
+      {
+        id: 'ftc.ambiguous-disclosure',
+        title: 'Ambiguous disclosure',
+        severity: 'medium',
+        message: '「{match}」は開示として不十分です（視聴者に意味が伝わりません）',
+        recommendation: '"#ad" "Sponsored" など、関係が明確に分かる言葉に置き換えてください',
+        legalReference: '16 CFR §255.5、FTC "Disclosures 101 for Social Media Influencers"',
+        patterns: ['#sp\\b', '#spon\\b', '#collab\\b', '#partner\\b', '#ambassador\\b', '#thanks\\w*'],
+        fix: {
+          type: 'replace',
+          replacements: [{ pattern: '#\\w+', with: '#ad' }],
+          rationale: '意味が伝わりにくいハッシュタグを "#ad" に置き換えました',
+        },
+      },
+      {
+        id: 'ftc.guarantee',
+        title: 'Guaranteed results',
+        severity: 'high',
+        message: '結果を保証する表現「{match}」が含まれています',
+        recommendation: '裏付けのない保証表現を削除し、条件や個人差を明記してください',
+        legalReference: 'FTC Act §5、16 CFR §255.1 (General considerations)',
+        patterns: ['guaranteed?', 'risk[- ]free', '100% (?:results|success|effective)'],
+        exceptions: ['money[- ]back guarantee', 'not guaranteed', 'no guarantee'],
+      },
+      {
+        id: 'ftc.earnings-claim',
+        title: 'Earnings claims without typicality',
+        severity: 'high',
+        message: '収入の実例「{match}」に一般的な結果の表示がありません',
+        recommendation: '一般的な利用者が得られる結果（typical results）を併記してください',
+        legalReference: '16 CFR §255.2(b) (Consumer endorsements)、Business Opportunity Rule (16 CFR Part 437)',
+        patterns: ['\\bI (?:made|earned|make)\\s+\\$[\\d,]+', '\\$[\\d,]+\\s*(?:/|per|a)\\s*(?:month|week|day)', 'passive income', 'get rich'],
+        unlessPresent: ['not typical', 'typical results', 'generally expect'],
+      },
+      {
+        id: 'ftc.health-claim',
+        title: 'Health claims',
+        severity: 'high',
+        message: '健康効果をうたう表現「{match}」には科学的根拠が必要です',
+        recommendation: '有能で信頼できる科学的根拠がない限り、治療・予防効果の表現を削除してください',
+        legalReference: 'FTC Act §§5, 12、FTC Health Products Compliance Guidance (2022)',
+        patterns: ['\\bcures?\\b', 'clinically proven', 'doctor[- ]recommended', '\\bprevents? (?:cancer|disease|covid)'],
+      },
+    ],
+  },
+  {
+    id: 'jp-disclosure',
+    name: '広告表示（開示）',
+    version: '2024.11',
+    market: 'jp',
+    law: '消費者庁ガイドライン',
+    description: 'check_disclosure で使う、アフィリエイト関係の開示の有無と表示位置',
+    scope: 'disclosure',
+    rules: [
+      {
+        id: 'disclosure.missing',
+        title: 'アフィリエイト関係の開示',
+        severity: 'critical',
+        category: 'FTC/消費者庁ガイドライン',
+        message: 'アフィリエイト関係の開示が不十分です',
+        recommendation: '明確なアフィリエイト表示を追加してください',
+        legalReference: '景品表示法第5条第3号（令和5年内閣府告示第19号）',
+        mode: 'absence',
+        patterns: JP_DISCLOSURE_PATTERNS,
+      },
+      {
+        id: 'disclosure.position',
+        title: '開示の表示位置',
+        severity: 'medium',
+        category: '表示位置',
+        message: 'アフィリエイト表示が記事の後方にあります',
+        recommendation: `冒頭部分（最初の${DISCLOSURE_POSITION_LIMIT}文字以内）に移動してください`,
+        mode: 'absence',
+        patterns: JP_DISCLOSURE_PATTERNS,
+        within: DISCLOSURE_POSITION_LIMIT,
+        // 開示がまったくない場合は disclosure.missing で報告する
+        cooccurs: [JP_DISCLOSURE_PATTERNS.join('|')],
+      },
+    ],
+  },
+  {
+    id: 'us-disclosure',
+    name: 'Affiliate disclosure',
+    version: '2023.06',
+    market: 'us',
+    law: 'FTC Endorsement Guides',
+    description: 'check_disclosure で使う、広告主との関係の開示の有無と表示位置',
+    scope: 'disclosure',
+    rules: [
+      {
+        id: 'disclosure.us-missing',
+        title: 'Material connection disclosure',
+        severity: 'critical',
+        category: 'FTC/消費者庁ガイドライン',
+        message: '広告主との関係（アフィリエイト・提供）の開示がありません',
+        recommendation: '冒頭に "#ad" "Sponsored" などの明確な開示を追加してください',
+        legalReference: '16 CFR §255.5 (Disclosure of material connections)',
+        mode: 'absence',
+        patterns: US_DISCLOSURE_PATTERNS,
+      },
+      {
+        id: 'disclosure.us-position',
+        title: 'Disclosure placement',
+        severity: 'medium',
+        category: '表示位置',
+        message: '開示が本文の後方にあります',
+        recommendation: `冒頭部分（最初の${DISCLOSURE_POSITION_LIMIT}文字以内）に移動してください`,
+        legalReference: 'FTC "Disclosures 101 for Social Media Influencers"',
+        mode: 'absence',
+        patterns: US_DISCLOSURE_PATTERNS,
+        within: DISCLOSURE_POSITION_LIMIT,
+        cooccurs: [US_DISCLOSURE_PATTERNS.join('|')],
+      },
+    ],
+  },
+  {
+    id: 'jp-campaign-audit',
+    name: 'キャンペーン監査',
+    version: '2024.11',
+    market: 'jp',
+    law: 'キャンペーン監査',
+    description: 'audit_campaign で使う、表示義務・価格表示・特定商取引法・著作権・プライバシーの確認（category が監査の区分）',
+    scope: 'campaign_audit',
+    rules: [
+      {
+        id: 'campaign.ad-display',
+        title: '広告表示',
+        severity: 'critical',
+        category: '表示義務',
+        message: '広告表示がありません',
+        recommendation: '「広告」または「PR」表記を追加',
+        legalReference: '景品表示法第5条第3号（令和5年内閣府告示第19号）',
+        mode: 'absence',
+        patterns: ['広告', '\\bPR\\b'],
+      },
+      {
+        id: 'campaign.tax-display',
+        title: '税込・税別の表示',
+        severity: 'medium',
+        category: '価格表示',
+        message: '価格「{match}」に税込/税別の表示がありません',
+        recommendation: '価格には税込/税別を明記',
+        legalReference: '消費税法第63条（価格の表示）',
+        patterns: ['\\d[\\d,]*\\s?円', '[¥￥]\\s?\\d', '\\$\\s?\\d'],
+        unlessPresent: ['税込', '税別', '税抜'],
+        reportOnce: true,
+      },
+      {
+        id: 'campaign.seller-name',
+        title: '事業者名の表示',
+        severity: 'medium',
+        category: '特定商取引法',
+        message: '必要情報が不足: 事業者名',
+        recommendation: '特定商取引法に基づく表記ページへのリンクを追加',
+        legalReference: '特定商取引法第11条（通信販売についての広告）',
+        mode: 'absence',
+        patterns: ['事業者名', '販売事業者', '運営者', '特定商取引法に基づく表記'],
+      },
+      {
+        id: 'campaign.contact',
+        title: '連絡先の表示',
+        severity: 'medium',
+        category: '特定商取引法',
+        message: '必要情報が不足: 連絡先',
+        recommendation: '特定商取引法に基づく表記ページへのリンクを追加',
+        legalReference: '特定商取引法第11条、同法施行規則第8条',
+        mode: 'absence',
+        patterns: ['連絡先', '電話番号', 'お問い?合わせ', '特定商取引法に基づく表記'],
+      },
+      {
+        id: 'campaign.returns',
+        title: '返品条件の表示',
+        severity: 'medium',
+        category: '特定商取引法',
+        message: '必要情報が不足: 返品',
+        recommendation: '特定商取引法に基づく表記ページへのリンクを追加',
+        legalReference: '特定商取引法第11条第5号',
+        mode: 'absence',
+        patterns: ['返品', '特定商取引法に基づく表記'],
+      },
+      {
+        id: 'campaign.copyright-source',
+        title: '出典の表示',
+        severity: 'low',
+        category: '著作権',
+        message: '画像・引用の出典表示が不明確',
+        recommendation: '使用素材の出典を明記',
+        legalReference: '著作権法第32条（引用）・第48条（出所の明示）',
+        patterns: ['画像', '引用'],
+        unlessPresent: ['出典', '©'],
+        reportOnce: true,
+      },
+      {
+        id: 'campaign.privacy-policy',
+        title: 'プライバシーポリシーへの言及',
+        severity: 'medium',
+        category: 'プライバシー',
+        message: 'プライバシーポリシーへの言及なし',
+        recommendation: 'プライバシーポリシーへのリンクを追加',
+        legalReference: '個人情報保護法第21条（取得に際しての利用目的の通知等）',
+        patterns: ['個人情報', 'メール'],
+        unlessPresent: ['プライバシー'],
+        reportOnce: true,
+      },
+    ],
+  },
+];
@@ -0,0 +1,408 @@
+// コンプライアンスのルールパック（市場・法令ごと、バージョン付き）とマッチングエンジン
+// 組み込みパックに加えて、COMPLIANCE_RULES_DIR の JSON / YAML ファイルからパックを読み込む
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { extname, join } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { BUILTIN_RULE_PACKS } from './compliance-rule-packs';
+
+export const COMPLIANCE_SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+export const COMPLIANCE_MARKETS = ['jp', 'us'] as const;
+export const COMPLIANCE_CONTENT_TYPES = ['blog', 'email', 'social', 'landing_page', 'video'] as const;
+/** パックを使うチェック（check_content / check_disclosure / audit_campaign） */
+export const COMPLIANCE_SCOPES = ['content', 'disclosure', 'campaign_audit'] as const;
+
+export type ComplianceSeverity = typeof COMPLIANCE_SEVERITIES[number];
+export type ComplianceMarket = typeof COMPLIANCE_MARKETS[number];
+export type ComplianceContentType = typeof COMPLIANCE_CONTENT_TYPES[number];
+export type ComplianceScope = typeof COMPLIANCE_SCOPES[number];
+
+const RULE_FILE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+// 例外・文脈を探す、マッチの前後の文字数
+const DEFAULT_WINDOW = 30;
+const EXCERPT_WINDOW = 20;
+
+const regexSource = z.string().refine(source => {
+  try {
+    new RegExp(source, 'u');
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: '正規表現として解釈できません' });
+
+/**
+ * 自動修正の定義。replace はマッチ位置から始まる replacements の最初に一致したものを置き換える
+ */
+export const complianceFixSchema = z.object({
+  type: z.enum(['replace', 'prepend', 'insert_after']),
+  replacements: z.array(z.object({ pattern: regexSource, with: z.string() })).default([]),
+  /** prepend は本文の先頭、insert_after はマッチの直後に入れる文言 */
+  text: z.string().optional(),
+  /** text が編集者の記入を待つ記入欄で、記入されるまでは例外（根拠の注記など）とみなさない */
+  placeholder: z.boolean().default(false),
+  /** 編集者に示す修正の理由 */
+  rationale: z.string(),
+}).refine(
+  fix => (fix.type === 'replace' ? fix.replacements.length > 0 : fix.text !== undefined),
+  { message: 'replace は replacements、prepend / insert_after は text を指定してください' }
+);
+
+export const complianceRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_.-]*$/, 'id は英小文字・数字・ドット・ハイフン・アンダースコアのみ'),
+  title: z.string(),
+  severity: z.enum(COMPLIANCE_SEVERITIES),
+  /** 未指定ならパックの law */
+  category: z.string().optional(),
+  /** {match} がマッチした文字列に置き換わる */
+  message: z.string(),
+  recommendation: z.string(),
+  legalReference: z.string().optional(),
+  /** 'absence' はどのパターンにもマッチしないときに1件だけ報告する（表示義務など） */
+  mode: z.enum(['match', 'absence']).default('match'),
+  /** absence で、本文の先頭からこの文字数以内に始まるマッチだけを数える（表示位置の確認） */
+  within: z.number().int().positive().optional(),
+  patterns: z.array(regexSource).default([]),
+  /** 語の先頭（Intl.Segmenter の区切り）からだけマッチさせる語 */
+  terms: z.array(z.string()).default([]),
+  /** terms の直後に続くと対象外になる文字列（「効果的」の「的」など） */
+  notFollowedBy: z.array(z.string()).default([]),
+  /** マッチの前後 window 文字にこれがあれば対象外 */
+  exceptions: z.array(regexSource).default([]),
+  /** 指定すると、マッチの前後 window 文字にいずれかがあるときだけ対象にする */
+  contexts: z.array(regexSource).default([]),
+  window: z.number().int().positive().default(DEFAULT_WINDOW),
+  /** 本文のどこかにすべて含まれるときだけ対象にする */
+  cooccurs: z.array(regexSource).default([]),
+  /** 本文のどこかにいずれかが含まれれば対象外 */
+  unlessPresent: z.array(regexSource).default([]),
+  caseSensitive: z.boolean().default(false),
+  /** 同じルールは最初のマッチだけ報告する */
+  reportOnce: z.boolean().default(false),
+  /** 指定したコンテンツ種別だけに適用する */
+  contentTypes: z.array(z.enum(COMPLIANCE_CONTENT_TYPES)).optional(),
+  fix: complianceFixSchema.optional(),
+}).refine(
+  rule => rule.patterns.length + rule.terms.length > 0,
+  { message: 'patterns か terms のどちらかを指定してください', path: ['patterns'] }
+);
+
+export const complianceRulePackSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'id は英小文字・数字・ハイフン・アンダースコアのみ'),
+  name: z.string(),
+  version: z.string(),
+  market: z.enum(COMPLIANCE_MARKETS),
+  law: z.string(),
+  description: z.string().optional(),
+  scope: z.enum(COMPLIANCE_SCOPES).default('content'),
+  rules: z.array(complianceRuleSchema).min(1),
+});
+
+export type ComplianceFix = z.infer<typeof complianceFixSchema>;
+export type ComplianceRule = z.infer<typeof complianceRuleSchema>;
+export type ComplianceRulePack = z.infer<typeof complianceRulePackSchema>;
+export type ComplianceRulePackInput = z.input<typeof complianceRulePackSchema>;
+
+export interface ComplianceIssue {
+  severity: ComplianceSeverity;
+  category: string;
+  issue: string;
+  recommendation: string;
+  legalReference?: string;
+  /** 抑制の指定に使う識別子（ルールID・マッチ文字列・何件目か） */
+  id?: string;
+  ruleId?: string;
+  packId?: string;
+  packVersion?: string;
+  match?: string;
+  /** 本文先頭からの文字位置（0始まり）と長さ */
+  offset?: number;
+  length?: number;
+  /** 1始まりの行・列 */
+  line?: number;
+  column?: number;
+  excerpt?: string;
+}
+
+export interface ComplianceSuppression {
+  /** 特定の指摘だけを抑制する（issue の id） */
+  issueId?: string;
+  /** ルール単位で抑制する */
+  ruleId?: string;
+  reason: string;
+  /** 抑制を承認した人（監査記録に残る） */
+  approvedBy?: string;
+}
+
+export interface SuppressedIssue extends ComplianceIssue {
+  suppressionReason: string;
+  approvedBy?: string;
+}
+
+export interface ComplianceEvaluation {
+  issues: ComplianceIssue[];
+  suppressed: SuppressedIssue[];
+  packs: Array<{ id: string; name: string; version: string; law: string }>;
+}
+
+export class ComplianceRuleRegistry {
+  private readonly packs = new Map<string, ComplianceRulePack & { source: string }>();
+  private readonly failures: Array<{ file: string; error: string }> = [];
+
+  constructor(definitions: ComplianceRulePackInput[] = []) {
+    for (const definition of definitions) {
+      this.register(definition, 'builtin');
+    }
+  }
+
+  /**
+   * パックを登録する。同じ id は後から登録したもので上書きする（組み込みパックの差し替えに使う）
+   */
+  register(definition: ComplianceRulePackInput, source = 'runtime'): ComplianceRulePack {
+    const parsed = this.validate(definition, source);
+    this.packs.set(parsed.id, { ...parsed, source });
+    return parsed;
+  }
+
+  private validate(definition: unknown, source: string): ComplianceRulePack {
+    const result = complianceRulePackSchema.safeParse(definition);
+    if (!result.success) {
+      const issues = result.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+      throw new Error(`Invalid compliance rule pack in ${source}: ${issues}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * JSON / YAML ファイルから読み込む。1ファイルに1パック、またはパックの配列を書ける
+   */
+  loadFile(filePath: string): ComplianceRulePack[] {
+    const content = readFileSync(filePath, 'utf-8');
+    const parsed: unknown = extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+    const definitions = Array.isArray(parsed) ? parsed : [parsed];
+    // 1件でも不正なら、そのファイルの定義は1件も登録しない
+    const validated = definitions.map(definition => this.validate(definition, filePath));
+    for (const definition of validated) {
+      this.packs.set(definition.id, { ...definition, source: filePath });
+    }
+    return validated;
+  }
+
+  /**
+   * ディレクトリ内のファイルをまとめて読み込む
+   * 読み込めないファイルは飛ばして loadErrors() に記録する（1ファイルの誤りで他の定義まで使えなくしない）
+   */
+  loadDirectory(dir: string): ComplianceRulePack[] {
+    let names: string[];
+    try {
+      names = readdirSync(dir);
+    } catch (error) {
+      this.failures.push({ file: dir, error: error instanceof Error ? error.message : String(error) });
+      return [];
+    }
+    return names
+      .filter(name => RULE_FILE_EXTENSIONS.includes(extname(name).toLowerCase()))
+      .sort()
+      .flatMap(name => {
+        const file = join(dir, name);
+        try {
+          return this.loadFile(file);
+        } catch (error) {
+          this.failures.push({ file, error: error instanceof Error ? error.message : String(error) });
+          return [];
+        }
+      });
+  }
+
+  /**
+   * loadDirectory で読み込めなかったファイルとその理由
+   */
+  loadErrors(): Array<{ file: string; error: string }> {
+    return [...this.failures];
+  }
+
+  get(id: string): ComplianceRulePack | undefined {
+    const pack = this.packs.get(id);
+    if (!pack) return undefined;
+    const { source, ...definition } = pack;
+    return definition;
+  }
+
+  /**
+   * 市場に適用するパック（'global' はすべて）。scope のチェックで使うパックだけを返す
+   */
+  forMarket(market: ComplianceMarket | 'global', scope: ComplianceScope = 'content'): ComplianceRulePack[] {
+    return [...this.packs.keys()]
+      .map(id => this.get(id)!)
+      .filter(pack => pack.scope === scope && (market === 'global' || pack.market === market));
+  }
+
+  list(): Array<{ id: string; name: string; version: string; market: ComplianceMarket; law: string; scope: ComplianceScope; rules: number; source: string }> {
+    return [...this.packs.values()].map(({ id, name, version, market, law, scope, rules, source }) =>
+      ({ id, name, version, market, law, scope, rules: rules.length, source }));
+  }
+}
+
+let defaultRegistry: ComplianceRuleRegistry | undefined;
+
+/**
+ * 組み込みパックと COMPLIANCE_RULES_DIR のパックを登録したレジストリ（初回アクセス時に読み込む）
+ */
+export function getComplianceRuleRegistry(): ComplianceRuleRegistry {
+  if (!defaultRegistry) {
+    const registry = new ComplianceRuleRegistry(BUILTIN_RULE_PACKS);
+    const dir = process.env.COMPLIANCE_RULES_DIR;
+    if (dir) {
+      registry.loadDirectory(dir);
+    }
+    defaultRegistry = registry;
+  }
+  return defaultRegistry;
+}
+
+interface Word {
+  index: number;
+  segment: string;
+}
+
+/**
+ * 本文の語の区切り（Intl.Segmenter の形態素相当の分割）
+ */
+function segmentWords(content: string): Word[] {
+  const segmenter = new Intl.Segmenter('ja', { granularity: 'word' });
+  return [...segmenter.segment(content)].map(({ index, segment }) => ({ index, segment }));
+}
+
+function lineAndColumn(content: string, offset: number): { line: number; column: number } {
+  const before = content.slice(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - before.lastIndexOf('\n') };
+}
+
+function regexes(sources: string[], rule: ComplianceRule, global = false): RegExp[] {
+  const flags = `u${rule.caseSensitive ? '' : 'i'}${global ? 'g' : ''}`;
+  return sources.map(source => new RegExp(source, flags));
+}
+
+/**
+ * ルールのパターン・語にマッチした位置（例外・文脈の条件を満たすものだけ）
+ */
+function findMatches(content: string, words: Word[], rule: ComplianceRule): Array<{ offset: number; match: string }> {
+  const candidates: Array<{ offset: number; match: string }> = [];
+  for (const pattern of regexes(rule.patterns, rule, true)) {
+    for (const m of content.matchAll(pattern)) {
+      if (m[0].length > 0) candidates.push({ offset: m.index ?? 0, match: m[0] });
+    }
+  }
+
+  const fold = (text: string) => (rule.caseSensitive ? text : text.toLowerCase());
+  const folded = fold(content);
+  for (const term of rule.terms) {
+    const wanted = fold(term);
+    // 英数字で終わる語は語末も区切りに一致させる（"ad" が "add" にマッチしないように）
+    const wholeWord = /[a-z0-9]$/i.test(term);
+    for (const word of words) {
+      if (!folded.startsWith(wanted, word.index)) continue;
+      const end = word.index + term.length;
+      if (wholeWord && !words.some(w => w.index === end) && end !== content.length) continue;
+      if (rule.notFollowedBy.some(suffix => folded.startsWith(fold(suffix), end))) continue;
+      candidates.push({ offset: word.index, match: content.slice(word.index, end) });
+    }
+  }
+
+  const exceptions = regexes(rule.exceptions, rule);
+  const contexts = regexes(rule.contexts, rule);
+  // 自動修正で入れた記入欄（※[根拠: …]）は、未記入のままでは例外・文脈とみなさない
+  const placeholder = rule.fix?.placeholder ? rule.fix.text : undefined;
+  const masked = placeholder ? content.split(placeholder).join(' '.repeat(placeholder.length)) : content;
+  const seen = new Set<number>();
+  return candidates
+    .sort((a, b) => a.offset - b.offset || b.match.length - a.match.length)
+    .filter(({ offset, match }) => {
+      if (seen.has(offset)) return false;
+      seen.add(offset);
+      const around = masked.slice(Math.max(0, offset - rule.window), offset + match.length + rule.window);
+      if (exceptions.some(pattern => pattern.test(around))) return false;
+      return contexts.length === 0 || contexts.some(pattern => pattern.test(around));
+    });
+}
+
+function excerptAround(content: string, offset: number, length: number): string {
+  const start = Math.max(0, offset - EXCERPT_WINDOW);
+  const end = Math.min(content.length, offset + length + EXCERPT_WINDOW);
+  return `${start > 0 ? '…' : ''}${content.slice(start, end).replace(/\s+/g, ' ')}${end < content.length ? '…' : ''}`;
+}
+
+/**
+ * ルールパックで本文を検査する。指摘には位置（offset / line / column）と抑制用の id が付く
+ */
+export function evaluateCompliance(
+  content: string,
+  packs: ComplianceRulePack[],
+  options: { contentType?: string; suppressions?: ComplianceSuppression[] } = {}
+): ComplianceEvaluation {
+  const words = segmentWords(content);
+  const issues: ComplianceIssue[] = [];
+
+  for (const pack of packs) {
+    for (const rule of pack.rules) {
+      if (rule.contentTypes && options.contentType && !rule.contentTypes.includes(options.contentType as ComplianceContentType)) continue;
+      if (!regexes(rule.cooccurs, rule).every(pattern => pattern.test(content))) continue;
+      if (regexes(rule.unlessPresent, rule).some(pattern => pattern.test(content))) continue;
+
+      const base = {
+        severity: rule.severity,
+        category: rule.category ?? pack.law,
+        recommendation: rule.recommendation,
+        legalReference: rule.legalReference,
+        ruleId: rule.id,
+        packId: pack.id,
+        packVersion: pack.version,
+      };
+      const matches = findMatches(content, words, rule);
+
+      if (rule.mode === 'absence') {
+        if (!matches.some(({ offset }) => rule.within === undefined || offset < rule.within)) {
+          issues.push({ ...base, id: rule.id, issue: rule.message.replace(/\{match\}/g, '') });
+        }
+        continue;
+      }
+
+      const occurrences = new Map<string, number>();
+      for (const { offset, match } of rule.reportOnce ? matches.slice(0, 1) : matches) {
+        const n = (occurrences.get(match) ?? 0) + 1;
+        occurrences.set(match, n);
+        issues.push({
+          ...base,
+          id: `${rule.id}:${match}:${n}`,
+          issue: rule.message.replace(/\{match\}/g, match),
+          match,
+          offset,
+          length: match.length,
+          ...lineAndColumn(content, offset),
+          excerpt: excerptAround(content, offset, match.length),
+        });
+      }
+    }
+  }
+
+  const suppressions = options.suppressions ?? [];
+  const kept: ComplianceIssue[] = [];
+  const suppressed: SuppressedIssue[] = [];
+  for (const issue of issues) {
+    const suppression = suppressions.find(s => (s.issueId && s.issueId === issue.id) || (s.ruleId && s.ruleId === issue.ruleId));
+    if (suppression) {
+      suppressed.push({ ...issue, suppressionReason: suppression.reason, approvedBy: suppression.approvedBy });
+    } else {
+      kept.push(issue);
+    }
+  }
+
+  return {
+    issues: kept.sort((a, b) => (a.offset ?? -1) - (b.offset ?? -1)),
+    suppressed,
+    packs: packs.map(({ id, name, version, law }) => ({ id, name, version, law })),
+  };
+}
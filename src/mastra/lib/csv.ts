@@ -0,0 +1,101 @@
+// YouTube Studio などのエクスポート CSV の読み書き
+
+/**
+ * RFC 4180 形式の CSV を行の配列にする（引用符内のカンマ・改行、BOM、CRLF に対応）
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = content.replace(/^﻿/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * 1行目をヘッダーとして、列名をキーにしたレコードの配列にする
+ */
+export function parseCsvRecords(content: string): Array<Record<string, string>> {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return [];
+  const keys = header.map(key => key.trim());
+  return rows.map(values => Object.fromEntries(keys.map((key, i) => [key, (values[i] ?? '').trim()])));
+}
+
+export function formatCsvRow(values: Array<string | number | null | undefined>): string {
+  return values
+    .map(value => {
+      const text = value === null || value === undefined ? '' : String(value);
+      return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(',');
+}
+
+/**
+ * エクスポートの列名の揺れ（英語/日本語・単位の有無）を吸収して値を取り出す
+ */
+export function pickColumn(record: Record<string, string>, aliases: string[]): string | undefined {
+  const key = findColumn(record, aliases);
+  const value = key !== undefined ? record[key] : undefined;
+  return value === undefined || value === '' ? undefined : value;
+}
+
+/**
+ * 比率の列を 0〜1 の値で取り出す
+ * 単位は列名（"CTR (%)" など）か値の % で判断し、どちらにもなければ比率として読む（"(%)" の列の 0.8 は 0.8%）
+ */
+export function pickRatio(record: Record<string, string>, aliases: string[]): number | undefined {
+  const key = findColumn(record, aliases);
+  const value = pickColumn(record, aliases);
+  const number = parseNumber(value);
+  if (key === undefined || value === undefined || number === undefined) return undefined;
+  return /[%％]/.test(key) || /[%％]$/.test(value.trim()) ? number / 100 : number;
+}
+
+function findColumn(record: Record<string, string>, aliases: string[]): string | undefined {
+  const normalize = (key: string) => key.toLowerCase().replace(/[\s_\-()（）%％]/g, '');
+  const wanted = aliases.map(normalize);
+  return Object.keys(record).find(k => wanted.includes(normalize(k)));
+}
+
+/**
+ * "12.3%" / "12.3" / "0.123" / "1,234" を数値にする（% は取り除くだけで、比率への換算は pickRatio で行う）
+ */
+export function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const text = value.trim();
+  const number = Number(text.replace(/[,%％\s]/g, ''));
+  if (text === '' || !Number.isFinite(number)) return undefined;
+  return number;
+}
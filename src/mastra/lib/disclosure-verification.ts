@@ -0,0 +1,259 @@
+// ステマ規制（令和5年10月施行）に沿った動画の広告表示の確認
+// 台本の冒頭の発話・概要欄の折りたたみ前・固定コメント・画面表示（テロップ）のそれぞれで、広告であることが分かるかを判定する
+
+import type { ComplianceIssue, ComplianceSeverity } from './compliance-rules';
+import { ABOVE_THE_FOLD_CHARS } from './publishing-package';
+import { estimateSpeakingTime, splitScriptSections, stripStageDirections, timeScript } from './script-timing';
+import type { ScriptSectionInput } from './script-timing';
+
+export type DisclosureSurface = 'script_opening' | 'description' | 'pinned_comment' | 'on_screen';
+
+/** planned: 制作チェックリストで計画しただけで、編集後の動画では確認していない */
+export type DisclosureStatus = 'disclosed' | 'planned' | 'insufficient' | 'missing' | 'not_checked';
+
+export const DISCLOSURE_SURFACE_LABELS: Record<DisclosureSurface, string> = {
+  script_opening: '台本の冒頭（発話）',
+  description: '概要欄の冒頭（「もっと見る」の前）',
+  pinned_comment: '固定コメント',
+  on_screen: '画面表示（テロップ）',
+};
+
+export interface OnScreenCue {
+  text: string;
+  startSeconds?: number;
+  durationSeconds?: number;
+}
+
+export interface ChecklistItem {
+  task: string;
+  category?: string;
+}
+
+export interface VideoDisclosureInput {
+  /** 【見出し】区切りの台本、またはセクションの配列 */
+  script?: string | ScriptSectionInput[];
+  description?: string;
+  pinnedComment?: string;
+  onScreenText?: OnScreenCue[];
+  /** 制作チェックリスト（テロップの計画を画面表示の手がかりにする） */
+  productionChecklist?: ChecklistItem[];
+  videoType?: 'long' | 'shorts';
+  style?: string;
+}
+
+export interface SurfaceCheck {
+  surface: DisclosureSurface;
+  label: string;
+  status: DisclosureStatus;
+  detail: string;
+  match?: string;
+  /** 本文中の位置（0始まり）と行（1始まり） */
+  offset?: number;
+  line?: number;
+  /** 台本・画面表示で開示が出るまでの推定秒数 */
+  seconds?: number;
+}
+
+export interface VideoDisclosureResult {
+  compliant: boolean;
+  surfaces: SurfaceCheck[];
+  /** 開示がない・不十分な面 */
+  missingSurfaces: DisclosureSurface[];
+  /** 計画だけで、実際の表示を確認していない面 */
+  unverifiedSurfaces: DisclosureSurface[];
+  issues: ComplianceIssue[];
+}
+
+// 広告であることが明確に分かる表記（「提供」は「〜提供」「提供：」「提供を受け」の形だけ）
+const DISCLOSURE_PATTERN = /(広告|プロモーション|宣伝|タイアップ|アフィリエイト|スポンサー|(?<![A-Za-z])PR(?![A-Za-z])|(?:様|社|さん)?提供(?=\s*[:：】)]|を受け|により|でお送り)|#ad(?![A-Za-z])|sponsored|paid promotion)/i;
+// 画面表示を指示する演出（[テロップ: 【PR】] など）
+const ON_SCREEN_CUE = /(テロップ|画面|表示|スーパー|字幕|オーバーレイ|文字|サムネ)/;
+const STAGE_DIRECTION = /\[[^\]]*\]|（[^）]*）/g;
+
+// 冒頭とみなす秒数
+const OPENING_SECONDS = { long: 30, shorts: 5 } as const;
+// 画面表示が短すぎると認識できない
+const MIN_ON_SCREEN_SECONDS = 3;
+// 折りたたみ前に表示される行数
+const FOLD_LINES = 3;
+// 同じ行にこれ以上のハッシュタグがあると開示が埋もれる
+const BURIED_HASHTAGS = 3;
+
+const LEGAL_REFERENCE = '景品表示法第5条第3号（令和5年内閣府告示第19号）、「一般消費者が事業者の表示であることを判別することが困難である表示」の運用基準';
+
+const SEVERITY: Record<DisclosureSurface, Record<'missing' | 'insufficient' | 'planned', ComplianceSeverity>> = {
+  script_opening: { missing: 'critical', insufficient: 'high', planned: 'low' },
+  description: { missing: 'critical', insufficient: 'high', planned: 'low' },
+  pinned_comment: { missing: 'medium', insufficient: 'low', planned: 'low' },
+  on_screen: { missing: 'high', insufficient: 'medium', planned: 'low' },
+};
+
+const RECOMMENDATIONS: Record<DisclosureSurface, string> = {
+  script_opening: '動画の冒頭で「この動画は〇〇の提供による広告です」「PRを含みます」と口頭で伝えてください',
+  description: '概要欄の1行目に「【PR】」「広告」などの表記を置いてください',
+  pinned_comment: '固定コメントの1行目に「【PR】」「広告」などの表記を入れてください',
+  on_screen: '冒頭から「PR」「広告」のテロップを、読み取れる大きさと時間（3秒以上）で表示してください',
+};
+
+const VERIFY_RECOMMENDATION = '編集後の動画のテロップを onScreenText（文言・開始秒・表示秒数）で渡して、実際の表示を確認してください';
+
+function lineOf(text: string, offset: number): number {
+  return text.slice(0, offset).split('\n').length;
+}
+
+function isBuriedHashtag(text: string, offset: number, match: string): boolean {
+  if (!text.slice(Math.max(0, offset - 1), offset + match.length).includes('#')) return false;
+  const line = text.split('\n')[lineOf(text, offset) - 1] ?? '';
+  return (line.match(/#\S+/g) ?? []).length > BURIED_HASHTAGS;
+}
+
+/**
+ * テキストの先頭（折りたたみ前）に開示があるかを判定する
+ */
+function checkFoldedText(surface: 'description' | 'pinned_comment', text: string | undefined): SurfaceCheck {
+  const label = DISCLOSURE_SURFACE_LABELS[surface];
+  if (text === undefined) {
+    return { surface, label, status: 'not_checked', detail: '入力がないため確認していません' };
+  }
+  const match = DISCLOSURE_PATTERN.exec(text);
+  if (!match) {
+    return { surface, label, status: 'missing', detail: '広告であることを示す表記がありません' };
+  }
+  const offset = match.index;
+  const line = lineOf(text, offset);
+  const position = { match: match[0], offset, line };
+  if (offset + match[0].length > ABOVE_THE_FOLD_CHARS || line > FOLD_LINES) {
+    return {
+      surface, label, status: 'insufficient', ...position,
+      detail: `表記が${line}行目（${offset + 1}文字目）にあり、「もっと見る」を開かないと見えません`,
+    };
+  }
+  if (isBuriedHashtag(text, offset, match[0])) {
+    return { surface, label, status: 'insufficient', ...position, detail: `「${match[0]}」が多数のハッシュタグの中に埋もれています` };
+  }
+  return { surface, label, status: 'disclosed', ...position, detail: `${line}行目に「${match[0]}」があります` };
+}
+
+/**
+ * 演出指示の中の【】（[テロップ: 【PR】] など）を見出しとして扱わないように分割する
+ */
+function toSections(script: string | ScriptSectionInput[]): ScriptSectionInput[] {
+  if (typeof script !== 'string') return script;
+  const masked = script.replace(STAGE_DIRECTION, direction => direction.replace(/【/g, '\u0001').replace(/】/g, '\u0002'));
+  const restore = (text: string) => text.replace(/\u0001/g, '【').replace(/\u0002/g, '】');
+  return splitScriptSections(masked).map(section => ({ name: restore(section.name), text: restore(section.text) }));
+}
+
+/**
+ * 台本の発話（演出指示を除いた部分）で最初に開示する位置と推定秒数
+ */
+function checkScriptOpening(input: VideoDisclosureInput): SurfaceCheck {
+  const surface = 'script_opening';
+  const label = DISCLOSURE_SURFACE_LABELS[surface];
+  if (input.script === undefined) {
+    return { surface, label, status: 'not_checked', detail: '台本がないため確認していません' };
+  }
+  const sections = toSections(input.script);
+  const timing = timeScript(sections, { style: input.style });
+  const limit = OPENING_SECONDS[input.videoType ?? 'long'];
+
+  for (const [i, section] of sections.entries()) {
+    const spoken = stripStageDirections(section.text);
+    const match = DISCLOSURE_PATTERN.exec(spoken);
+    if (!match) continue;
+    const seconds = Math.round(
+      (timing.sections[i].startSeconds + estimateSpeakingTime(spoken.slice(0, match.index), { language: timing.language, rate: timing.rate }).seconds) * 10
+    ) / 10;
+    const position = { match: match[0], seconds };
+    if (seconds <= limit) {
+      return { surface, label, status: 'disclosed', ...position, detail: `「${section.name}」の約${seconds}秒で「${match[0]}」と話しています` };
+    }
+    return {
+      surface, label, status: 'insufficient', ...position,
+      detail: `最初の開示が「${section.name}」の約${seconds}秒で、冒頭（${limit}秒以内）ではありません`,
+    };
+  }
+  return { surface, label, status: 'missing', detail: '台本の発話に広告であることを伝える部分がありません' };
+}
+
+/**
+ * 画面表示の開示（テロップの指定・台本の演出指示・制作チェックリストの計画）
+ */
+function checkOnScreen(input: VideoDisclosureInput): SurfaceCheck {
+  const surface = 'on_screen';
+  const label = DISCLOSURE_SURFACE_LABELS[surface];
+  if (input.onScreenText === undefined && input.script === undefined && input.productionChecklist === undefined) {
+    return { surface, label, status: 'not_checked', detail: '画面表示・台本・制作チェックリストがないため確認していません' };
+  }
+  const limit = OPENING_SECONDS[input.videoType ?? 'long'];
+
+  const cues = (input.onScreenText ?? []).filter(cue => DISCLOSURE_PATTERN.test(cue.text));
+  if (cues.length > 0) {
+    const cue = [...cues].sort((a, b) => (a.startSeconds ?? 0) - (b.startSeconds ?? 0))[0];
+    const match = DISCLOSURE_PATTERN.exec(cue.text)![0];
+    if (cue.startSeconds !== undefined && cue.startSeconds > limit) {
+      return { surface, label, status: 'insufficient', match, seconds: cue.startSeconds, detail: `テロップ「${cue.text}」の表示が${cue.startSeconds}秒からで、冒頭ではありません` };
+    }
+    if (cue.durationSeconds !== undefined && cue.durationSeconds < MIN_ON_SCREEN_SECONDS) {
+      return { surface, label, status: 'insufficient', match, seconds: cue.startSeconds, detail: `テロップ「${cue.text}」の表示が${cue.durationSeconds}秒しかなく、読み取れません` };
+    }
+    return { surface, label, status: 'disclosed', match, seconds: cue.startSeconds, detail: `テロップ「${cue.text}」で表示します` };
+  }
+
+  if (input.script !== undefined) {
+    const sections = toSections(input.script);
+    for (const [i, section] of sections.entries()) {
+      const direction = (section.text.match(STAGE_DIRECTION) ?? [])
+        .find(text => ON_SCREEN_CUE.test(text) && DISCLOSURE_PATTERN.test(text));
+      if (!direction) continue;
+      const match = DISCLOSURE_PATTERN.exec(direction)![0];
+      return i === 0
+        ? { surface, label, status: 'disclosed', match, detail: `「${section.name}」の演出指示 ${direction} で表示します` }
+        : { surface, label, status: 'insufficient', match, detail: `画面表示の指示 ${direction} が「${section.name}」にあり、冒頭ではありません` };
+    }
+  }
+
+  const planned = (input.productionChecklist ?? []).find(item => ON_SCREEN_CUE.test(item.task) && DISCLOSURE_PATTERN.test(item.task));
+  if (planned) {
+    // 計画は表示の証拠にならない（制作ワークフローのチェックリストには常に入っている）
+    return {
+      surface, label, status: 'planned', match: DISCLOSURE_PATTERN.exec(planned.task)![0],
+      detail: `制作チェックリストの「${planned.task}」で計画されていますが、編集後の動画では確認していません`,
+    };
+  }
+  return { surface, label, status: 'missing', detail: '広告であることを示すテロップ・画面表示の指定がありません' };
+}
+
+/**
+ * 動画の各面（台本の冒頭・概要欄・固定コメント・画面表示）の広告表示を確認する
+ */
+export function verifyVideoDisclosure(input: VideoDisclosureInput): VideoDisclosureResult {
+  const surfaces = [
+    checkScriptOpening(input),
+    checkFoldedText('description', input.description),
+    checkFoldedText('pinned_comment', input.pinnedComment),
+    checkOnScreen(input),
+  ];
+
+  const lacking = surfaces.filter(s => s.status === 'missing' || s.status === 'insufficient');
+  const unverified = surfaces.filter(s => s.status === 'planned');
+  const issues: ComplianceIssue[] = [...lacking, ...unverified].map(s => ({
+    severity: SEVERITY[s.surface][s.status as 'missing' | 'insufficient' | 'planned'],
+    category: 'ステマ規制',
+    issue: `${s.label}: ${s.detail}`,
+    recommendation: s.status === 'planned' ? VERIFY_RECOMMENDATION : RECOMMENDATIONS[s.surface],
+    legalReference: LEGAL_REFERENCE,
+    id: `stealth.${s.surface}`,
+    match: s.match,
+    offset: s.offset,
+    line: s.line,
+  }));
+
+  return {
+    compliant: lacking.length === 0 && unverified.length === 0 && surfaces.some(s => s.status === 'disclosed'),
+    surfaces,
+    missingSurfaces: lacking.map(s => s.surface),
+    unverifiedSurfaces: unverified.map(s => s.surface),
+    issues,
+  };
+}
@@ -0,0 +1,384 @@
+// フックテンプレートのライブラリと、公開動画の実績（冒頭30秒の維持率・CTR）による評価
+
+import { readFile } from 'node:fs/promises';
+import type { Client } from '@libsql/client';
+import { createSchemaInitializer, getStorageClient } from './storage';
+import { parseCsvRecords, parseNumber, pickColumn, pickRatio } from './csv';
+import { BUILTIN_HOOK_TEMPLATES, renderHookTemplate } from './hook-templates';
+import type { EmotionalTrigger, HookTemplate, HookType } from './hook-templates';
+
+export type HookMetric = 'retention_30s' | 'ctr';
+
+export interface HookUsage {
+  videoId: string;
+  templateId: string;
+  hookText: string;
+  topic?: string;
+  publishedAt?: string;
+  recordedAt: string;
+}
+
+export interface HookVideoMetrics {
+  videoId: string;
+  /** 冒頭30秒時点で視聴を続けている割合（0〜1） */
+  retention30s?: number;
+  /** インプレッションのクリック率（0〜1） */
+  ctr?: number;
+  impressions?: number;
+  views?: number;
+  source: string;
+  importedAt: string;
+}
+
+export interface HookObservation {
+  videoId: string;
+  templateId: string;
+  value: number;
+}
+
+export interface RankedHookTemplate {
+  template: HookTemplate;
+  /** 0〜100。実績があればチャンネル平均を50とした相対値、ライブラリに実績が1件もなければ経験則の値 */
+  strength: number;
+  /** empirical: テンプレート自身の実績 / category: 同カテゴリの実績 / channel: チャンネル平均 / static: 経験則 */
+  evidence: 'empirical' | 'category' | 'channel' | 'static';
+  observations: number;
+  categoryObservations: number;
+  /** 事後平均（指標の比率）。実績がなければ undefined */
+  expectedValue?: number;
+  /** 事後平均に探索ボーナスを加えた値 */
+  rankScore: number;
+  /** 探索枠で選ばれたか */
+  explored: boolean;
+}
+
+// テンプレート・カテゴリの平均を上位の平均に寄せるときの仮想的な動画本数
+const PRIOR_VIDEOS = 3;
+
+// 実績が1本以下のときに仮定する動画間のばらつき（平均に対する比率）
+const FALLBACK_RELATIVE_SD = 0.25;
+
+// 探索ボーナス（UCB）の既定の重み
+export const DEFAULT_EXPLORATION = 1;
+
+// 提案のうち、実績の少ないテンプレートを試す枠の割合
+const EXPLORATION_SHARE = 1 / 3;
+
+const METRIC_COLUMNS: Record<HookMetric, string> = {
+  retention_30s: 'retention_30s',
+  ctr: 'ctr',
+};
+
+function categoryKey(hookType: HookType, emotionalTrigger: EmotionalTrigger): string {
+  return `${hookType}.${emotionalTrigger}`;
+}
+
+/**
+ * カスタムテンプレート・フックの使用記録・動画ごとの実績を保存するストア
+ */
+export class HookLibraryStore {
+  private readonly ensureSchema: () => Promise<void>;
+
+  constructor(private readonly client: () => Client = getStorageClient) {
+    this.ensureSchema = createSchemaInitializer(client, [
+      `CREATE TABLE IF NOT EXISTS hook_templates (
+        template_id TEXT PRIMARY KEY,
+        hook_type TEXT NOT NULL,
+        emotional_trigger TEXT NOT NULL,
+        template TEXT NOT NULL,
+        delivery_notes TEXT NOT NULL,
+        base_strength INTEGER NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS hook_usages (
+        video_id TEXT PRIMARY KEY,
+        template_id TEXT NOT NULL,
+        hook_text TEXT NOT NULL,
+        topic TEXT,
+        published_at TEXT,
+        recorded_at TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS hook_video_metrics (
+        video_id TEXT PRIMARY KEY,
+        retention_30s REAL,
+        ctr REAL,
+        impressions INTEGER,
+        views INTEGER,
+        source TEXT NOT NULL,
+        imported_at TEXT NOT NULL
+      )`,
+    ]);
+  }
+
+  async addTemplate(template: Omit<HookTemplate, 'source'>, now = new Date()): Promise<void> {
+    await this.ensureSchema();
+    await this.client().execute({
+      sql: `INSERT OR REPLACE INTO hook_templates
+              (template_id, hook_type, emotional_trigger, template, delivery_notes, base_strength, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        template.templateId,
+        template.hookType,
+        template.emotionalTrigger,
+        template.template,
+        template.deliveryNotes,
+        template.baseStrength,
+        now.toISOString(),
+      ],
+    });
+  }
+
+  /**
+   * 組み込みテンプレートとカスタムテンプレートを合わせて返す（同じIDはカスタムを優先）
+   */
+  async listTemplates(): Promise<HookTemplate[]> {
+    await this.ensureSchema();
+    const result = await this.client().execute('SELECT * FROM hook_templates ORDER BY created_at');
+    const custom: HookTemplate[] = result.rows.map(row => ({
+      templateId: String(row.template_id),
+      hookType: String(row.hook_type) as HookType,
+      emotionalTrigger: String(row.emotional_trigger) as EmotionalTrigger,
+      template: String(row.template),
+      deliveryNotes: String(row.delivery_notes),
+      baseStrength: Number(row.base_strength),
+      source: 'custom',
+    }));
+    const customIds = new Set(custom.map(t => t.templateId));
+    return [...BUILTIN_HOOK_TEMPLATES.filter(t => !customIds.has(t.templateId)), ...custom];
+  }
+
+  async recordUsage(usage: HookUsage): Promise<void> {
+    await this.ensureSchema();
+    await this.client().execute({
+      sql: `INSERT OR REPLACE INTO hook_usages (video_id, template_id, hook_text, topic, published_at, recorded_at)
+            VALUES (?, ?, ?, ?, ?, ?)`,
+      args: [usage.videoId, usage.templateId, usage.hookText, usage.topic ?? null, usage.publishedAt ?? null, usage.recordedAt],
+    });
+  }
+
+  async listUsages(): Promise<HookUsage[]> {
+    await this.ensureSchema();
+    const result = await this.client().execute('SELECT * FROM hook_usages ORDER BY recorded_at DESC');
+    return result.rows.map(row => ({
+      videoId: String(row.video_id),
+      templateId: String(row.template_id),
+      hookText: String(row.hook_text),
+      topic: row.topic ? String(row.topic) : undefined,
+      publishedAt: row.published_at ? String(row.published_at) : undefined,
+      recordedAt: String(row.recorded_at),
+    }));
+  }
+
+  /**
+   * 動画の実績を保存する。エクスポートに含まれない指標は以前の値を残す
+   */
+  async saveMetrics(metrics: HookVideoMetrics[]): Promise<void> {
+    if (metrics.length === 0) return;
+    await this.ensureSchema();
+    await this.client().batch(
+      metrics.map(m => ({
+        sql: `INSERT INTO hook_video_metrics (video_id, retention_30s, ctr, impressions, views, source, imported_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?)
+              ON CONFLICT(video_id) DO UPDATE SET
+                retention_30s = COALESCE(excluded.retention_30s, retention_30s),
+                ctr = COALESCE(excluded.ctr, ctr),
+                impressions = COALESCE(excluded.impressions, impressions),
+                views = COALESCE(excluded.views, views),
+                source = excluded.source,
+                imported_at = excluded.imported_at`,
+        args: [m.videoId, m.retention30s ?? null, m.ctr ?? null, m.impressions ?? null, m.views ?? null, m.source, m.importedAt],
+      })),
+      'write'
+    );
+  }
+
+  /**
+   * フックの使用記録と実績を動画IDで結び付けた観測値
+   */
+  async listObservations(metric: HookMetric): Promise<HookObservation[]> {
+    await this.ensureSchema();
+    const column = METRIC_COLUMNS[metric];
+    const result = await this.client().execute(
+      `SELECT u.video_id, u.template_id, m.${column} AS value
+         FROM hook_usages u JOIN hook_video_metrics m ON m.video_id = u.video_id
+        WHERE m.${column} IS NOT NULL`
+    );
+    return result.rows.map(row => ({
+      videoId: String(row.video_id),
+      templateId: String(row.template_id),
+      value: Number(row.value),
+    }));
+  }
+}
+
+export const hookLibraryStore = new HookLibraryStore();
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * 実績からテンプレートの強さを推定し、探索ボーナス込みで順位付けする
+ * テンプレートの平均はカテゴリ（フックタイプ×感情トリガー）の平均に、カテゴリの平均はチャンネル全体の平均に寄せる
+ */
+export function rankHookTemplates(
+  templates: HookTemplate[],
+  observations: HookObservation[],
+  options: { exploration?: number } = {}
+): RankedHookTemplate[] {
+  const exploration = options.exploration ?? DEFAULT_EXPLORATION;
+  const templateById = new Map(templates.map(t => [t.templateId, t]));
+  const known = observations.filter(o => templateById.has(o.templateId));
+
+  if (known.length === 0) {
+    return templates
+      .map(template => ({
+        template,
+        strength: template.baseStrength,
+        evidence: 'static' as const,
+        observations: 0,
+        categoryObservations: 0,
+        rankScore: template.baseStrength,
+        explored: false,
+      }))
+      .sort((a, b) => b.rankScore - a.rankScore);
+  }
+
+  const values = known.map(o => o.value);
+  const globalMean = mean(values);
+  const sd = values.length > 1
+    ? Math.sqrt(values.reduce((sum, v) => sum + (v - globalMean) ** 2, 0) / (values.length - 1))
+    : globalMean * FALLBACK_RELATIVE_SD;
+
+  const byCategory = new Map<string, number[]>();
+  const byTemplate = new Map<string, number[]>();
+  for (const o of known) {
+    const template = templateById.get(o.templateId)!;
+    const key = categoryKey(template.hookType, template.emotionalTrigger);
+    byCategory.set(key, [...(byCategory.get(key) ?? []), o.value]);
+    byTemplate.set(o.templateId, [...(byTemplate.get(o.templateId) ?? []), o.value]);
+  }
+
+  const shrink = (prior: number, samples: number[]) =>
+    (PRIOR_VIDEOS * prior + samples.reduce((sum, v) => sum + v, 0)) / (PRIOR_VIDEOS + samples.length);
+
+  const ranked = templates.map(template => {
+    const categorySamples = byCategory.get(categoryKey(template.hookType, template.emotionalTrigger)) ?? [];
+    const templateSamples = byTemplate.get(template.templateId) ?? [];
+    const categoryMean = shrink(globalMean, categorySamples);
+    const expectedValue = shrink(categoryMean, templateSamples);
+    // UCB: 使用回数の少ないテンプレートほど上振れの余地を大きく見積もる
+    const bonus = exploration * sd * Math.sqrt(Math.log(known.length + 1) / (templateSamples.length + 1));
+    // 実績がすべて0のときはどのテンプレートもチャンネル平均並み（50）とする
+    const strength = globalMean > 0 ? Math.round((50 * expectedValue) / globalMean) : 50;
+    return {
+      template,
+      strength: Math.max(0, Math.min(100, strength)),
+      evidence: templateSamples.length > 0 ? 'empirical' as const : categorySamples.length > 0 ? 'category' as const : 'channel' as const,
+      observations: templateSamples.length,
+      categoryObservations: categorySamples.length,
+      expectedValue: Math.round(expectedValue * 10000) / 10000,
+      rankScore: expectedValue + bonus,
+      explored: false,
+    };
+  });
+
+  return ranked.sort(
+    (a, b) => b.expectedValue - a.expectedValue || b.template.baseStrength - a.template.baseStrength
+  );
+}
+
+/**
+ * テンプレートを実績順に並べ、トピックを埋め込んだフックを返す
+ */
+export async function suggestHooks(
+  topic: string,
+  options: {
+    hookType?: HookType;
+    emotionalTrigger?: EmotionalTrigger;
+    metric?: HookMetric;
+    exploration?: number;
+    limit?: number;
+    store?: HookLibraryStore;
+  } = {}
+): Promise<Array<RankedHookTemplate & { text: string }>> {
+  const { metric = 'retention_30s', limit = 3, store = hookLibraryStore } = options;
+  const [templates, observations] = await Promise.all([store.listTemplates(), store.listObservations(metric)]);
+
+  // 強さはライブラリ全体の実績から求め、候補の絞り込みは順位付けの後に行う
+  const candidates = rankHookTemplates(templates, observations, { exploration: options.exploration })
+    .filter(r => !options.hookType || r.template.hookType === options.hookType)
+    .filter(r => !options.emotionalTrigger || r.template.emotionalTrigger === options.emotionalTrigger);
+
+  // 大半は実績順で選び、残りの枠を探索ボーナス込みの順位（UCB）で選ぶ
+  const explorationSlots = (options.exploration ?? DEFAULT_EXPLORATION) > 0 && observations.length > 0
+    ? Math.max(1, Math.round(limit * EXPLORATION_SHARE))
+    : 0;
+  const exploited = candidates.slice(0, Math.max(0, limit - explorationSlots));
+  const explored = candidates
+    .slice(exploited.length)
+    .sort((a, b) => b.rankScore - a.rankScore)
+    .slice(0, limit - exploited.length)
+    .map(r => ({ ...r, explored: true }));
+
+  return [...exploited, ...explored].map(r => ({ ...r, text: renderHookTemplate(r.template, topic) }));
+}
+
+// Studio のエクスポート（英語/日本語）と独自集計の列名
+const COLUMN_ALIASES = {
+  videoId: ['videoId', 'video_id', 'Video ID', 'Content', 'コンテンツ', '動画ID'],
+  retention30s: ['retention30s', 'retention_30s', 'Retention at 0:30', 'Intro retention', '30秒時点の視聴維持率', '30秒維持率'],
+  ctr: ['ctr', 'Impressions click-through rate', 'インプレッションのクリック率'],
+  impressions: ['impressions', 'インプレッション数'],
+  views: ['views', '視聴回数'],
+};
+
+/**
+ * アナリティクスのエクスポート（CSV / JSON）から動画ごとの実績を取り込む
+ * フックの使用記録がない動画も保存しておき、後から record_usage した時点で評価に反映する
+ */
+export async function importHookMetrics(
+  input: { filePath?: string; content?: string; source?: string },
+  options: { store?: HookLibraryStore; now?: Date } = {}
+): Promise<{ imported: number; linked: number; unlinkedVideoIds: string[]; skippedRows: number }> {
+  const { store = hookLibraryStore, now = new Date() } = options;
+  const content = input.content ?? (input.filePath ? await readFile(input.filePath, 'utf-8') : undefined);
+  if (content === undefined) {
+    throw new Error('Either filePath or content is required to import metrics');
+  }
+
+  const trimmed = content.trim();
+  const records: Array<Record<string, string>> = /^[[{]/.test(trimmed)
+    ? [JSON.parse(trimmed)].flat().map((row: Record<string, unknown>) =>
+        Object.fromEntries(Object.entries(row).map(([key, value]) => [key, value === null || value === undefined ? '' : String(value)]))
+      )
+    : parseCsvRecords(content);
+
+  const source = input.source ?? input.filePath ?? 'import';
+  const metrics: HookVideoMetrics[] = [];
+  let skippedRows = 0;
+  for (const record of records) {
+    const videoId = pickColumn(record, COLUMN_ALIASES.videoId);
+    const retention30s = pickRatio(record, COLUMN_ALIASES.retention30s);
+    const ctr = pickRatio(record, COLUMN_ALIASES.ctr);
+    // Studio の CSV の「合計」行や指標のない行は飛ばす
+    if (!videoId || /^(total|合計)$/i.test(videoId) || (retention30s === undefined && ctr === undefined)) {
+      skippedRows++;
+      continue;
+    }
+    metrics.push({
+      videoId,
+      retention30s,
+      ctr,
+      impressions: parseNumber(pickColumn(record, COLUMN_ALIASES.impressions)),
+      views: parseNumber(pickColumn(record, COLUMN_ALIASES.views)),
+      source,
+      importedAt: now.toISOString(),
+    });
+  }
+  await store.saveMetrics(metrics);
+
+  const usedVideoIds = new Set((await store.listUsages()).map(u => u.videoId));
+  const unlinkedVideoIds = metrics.map(m => m.videoId).filter(id => !usedVideoIds.has(id));
+  return { imported: metrics.length, linked: metrics.length - unlinkedVideoIds.length, unlinkedVideoIds, skippedRows };
+}
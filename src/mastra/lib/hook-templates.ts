@@ -0,0 +1,87 @@
+// 組み込みのフックテンプレート（{topic} を動画のトピックに置き換えて使う）
+
+import type { EMOTIONAL_TRIGGERS, HOOK_TYPES } from './script-styles';
+
+export type HookType = (typeof HOOK_TYPES)[number];
+export type EmotionalTrigger = (typeof EMOTIONAL_TRIGGERS)[number];
+
+export interface HookTemplate {
+  templateId: string;
+  hookType: HookType;
+  emotionalTrigger: EmotionalTrigger;
+  template: string;
+  deliveryNotes: string;
+  /** 実績がないときに使う経験則の強さ（0〜100） */
+  baseStrength: number;
+  source: 'builtin' | 'custom';
+}
+
+const BASE_TEMPLATES: Record<HookType, Record<EmotionalTrigger, string>> = {
+  question: {
+    curiosity: 'なぜ{topic}で成功する人は、たった1%しかいないのか？',
+    fear: '{topic}を知らないと、あなたは大きな損失を被るかもしれません',
+    excitement: '{topic}で人生が180度変わった瞬間を教えます！',
+    surprise: 'えっ、{topic}ってそんなに簡単だったの？',
+    urgency: '今すぐ{topic}を始めないと手遅れになる理由',
+  },
+  shocking_fact: {
+    curiosity: '実は{topic}には、誰も知らない裏技があります',
+    fear: '{topic}の失敗率は87%...でも回避方法があります',
+    excitement: '{topic}で月収100万円達成した人の共通点を発見！',
+    surprise: '{topic}の常識、実は全部ウソでした',
+    urgency: 'あと3ヶ月で{topic}のルールが変わります',
+  },
+  contradiction: {
+    curiosity: '{topic}の専門家が絶対に教えない真実',
+    fear: 'みんなが信じている{topic}の方法は実は逆効果',
+    excitement: '{topic}の逆転の発想で大成功！',
+    surprise: '{topic}をやめたら、むしろ結果が出た理由',
+    urgency: '今の{topic}のやり方を続けると危険な理由',
+  },
+  promise: {
+    curiosity: 'この動画を見れば、{topic}の全てがわかります',
+    fear: '{topic}の落とし穴を全て回避する方法を教えます',
+    excitement: 'たった10分で{topic}をマスターできる方法',
+    surprise: '{topic}がこんなに簡単になる秘密を公開',
+    urgency: '今から始めれば、3ヶ月後には{topic}のプロに',
+  },
+  story: {
+    curiosity: '{topic}で失敗した私が、成功するまでの物語',
+    fear: '{topic}で100万円損した私の失敗談',
+    excitement: '{topic}で人生が変わった日のこと',
+    surprise: 'まさか{topic}でこんなことが起きるなんて...',
+    urgency: 'もっと早く{topic}を始めていれば...という後悔',
+  },
+  challenge: {
+    curiosity: '{topic}の常識を覆す実験をしてみた',
+    fear: '{topic}の危険性を身をもって検証',
+    excitement: '{topic}で限界に挑戦してみた結果...',
+    surprise: '{topic}を1週間やり続けたら衝撃の結果に',
+    urgency: '24時間以内に{topic}をマスターする挑戦',
+  },
+};
+
+// 各テンプレートの言い回し違い（ID の接尾辞・変形・話し方・経験則の強さ）
+const VARIANTS: Array<{ suffix: string; wrap: (base: string) => string; deliveryNotes: string; baseStrength: number }> = [
+  { suffix: '', wrap: base => base, deliveryNotes: '強い感情を込めて、視聴者の目を見て話す', baseStrength: 85 },
+  { suffix: '.wait', wrap: base => `待って！${base}`, deliveryNotes: '「待って！」で注意を引き、間を置いてから本題へ', baseStrength: 90 },
+  { suffix: '.true-story', wrap: base => `${base}（実話です）`, deliveryNotes: '「実話です」を付けることで信憑性を高める', baseStrength: 95 },
+];
+
+export const BUILTIN_HOOK_TEMPLATES: HookTemplate[] = Object.entries(BASE_TEMPLATES).flatMap(([hookType, triggers]) =>
+  Object.entries(triggers).flatMap(([emotionalTrigger, base]) =>
+    VARIANTS.map(variant => ({
+      templateId: `${hookType}.${emotionalTrigger}${variant.suffix}`,
+      hookType: hookType as HookType,
+      emotionalTrigger: emotionalTrigger as EmotionalTrigger,
+      template: variant.wrap(base),
+      deliveryNotes: variant.deliveryNotes,
+      baseStrength: variant.baseStrength,
+      source: 'builtin' as const,
+    }))
+  )
+);
+
+export function renderHookTemplate(template: HookTemplate, topic: string): string {
+  return template.template.replace(/\{topic\}/g, topic);
+}
@@ -0,0 +1,348 @@
+import { readFile } from 'node:fs/promises';
+import type { youtube_v3 } from 'googleapis';
+import { z } from 'zod';
+import type { YouTubeService } from './youtube';
+
+export type KeywordSource = 'product_info' | 'autocomplete' | 'video_tags' | 'video_titles';
+
+export interface KeywordCandidate {
+  keyword: string;
+  source: KeywordSource;
+  seed: string;
+  frequency: number;
+}
+
+export interface KeywordMeasurement {
+  totalResults: number;
+  sampleSize: number;
+  medianViewsPerDay: number;
+  totalViews: number;
+  recentUploadRatio: number;
+}
+
+export interface ResearchedKeyword {
+  keyword: string;
+  searchVolume: number;
+  competition: 'low' | 'medium' | 'high';
+  relevanceScore: number;
+  supplyDemandScore: number;
+  provenance: {
+    source: KeywordSource;
+    seed: string;
+    measuredBy: 'youtube_search' | 'inherited' | 'none';
+    measuredQuery?: string;
+    totalResults?: number;
+    sampleSize?: number;
+    medianViewsPerDay?: number;
+    recentUploadRatio?: number;
+  };
+}
+
+/**
+ * キーワード候補（サジェスト）の取得元
+ * テストではフィクスチャを、本番ではYouTubeのオートコンプリートを差し込む
+ */
+export interface KeywordSuggestionSource {
+  name: string;
+  suggest(seed: string): Promise<string[]>;
+}
+
+export type KeywordVideoSearch = Pick<YouTubeService, 'searchVideoPage' | 'getVideoDetails'>;
+
+export interface KeywordResearchOptions {
+  targetCount: number;
+  youtube?: KeywordVideoSearch;
+  suggestionSource?: KeywordSuggestionSource;
+  // search.list は1回100ユニットを消費するため実測するクエリ数を制限する
+  maxMeasuredQueries?: number;
+  now?: Date;
+}
+
+const RECENT_DAYS = 30;
+// オートコンプリートが応答しないときに待つ上限（超えたらサジェストなしで続ける）
+const AUTOCOMPLETE_TIMEOUT_MS = 5000;
+
+const suggestionFixtureSchema = z.record(z.string(), z.array(z.string()));
+
+const SEED_LIMIT = 5;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'you', 'your', 'this', 'that', 'from', 'http', 'https', 'www', 'com', 'html',
+  'こと', 'もの', 'ため', 'よう', 'これ', 'それ', 'さん', '方法', '動画', '紹介', '今回', '解説', 'チャンネル',
+]);
+
+/**
+ * 日本語・英語混在テキストから検索語になりうる語を抜き出す
+ * 分かち書きがないため、英数字列・カタカナ列・漢字列をそれぞれ1語として扱う
+ */
+export function extractTerms(text: string): string[] {
+  const normalized = text.normalize('NFKC');
+  const patterns = [
+    /[A-Za-z][A-Za-z0-9.+#-]*[A-Za-z0-9+#]|[A-Za-z]{2,}/g,
+    /[ァ-ヴー]{2,}/g,
+    /[一-龯々]{2,}/g,
+  ];
+  const terms: string[] = [];
+  for (const pattern of patterns) {
+    for (const match of normalized.matchAll(pattern)) {
+      const term = match[0];
+      if (!STOP_WORDS.has(term.toLowerCase())) {
+        terms.push(term);
+      }
+    }
+  }
+  return terms;
+}
+
+function normalizeKeyword(keyword: string): string {
+  return keyword.normalize('NFKC').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * 商品情報（説明文またはURL）から起点となるキーワードを抽出する
+ */
+export function deriveSeedKeywords(productInfo: string): string[] {
+  let text = productInfo;
+  try {
+    const url = new URL(productInfo.trim());
+    text = [url.hostname.replace(/^www\./, '').split('.')[0], ...url.pathname.split(/[/_-]/)]
+      .map(part => decodeURIComponent(part))
+      .join(' ');
+  } catch {
+    // URLでなければ説明文として扱う
+  }
+
+  const counts = new Map<string, number>();
+  for (const term of extractTerms(text)) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || b[0].length - a[0].length)
+    .map(([term]) => term);
+}
+
+/**
+ * YouTube検索のオートコンプリート（非公式エンドポイント）
+ */
+export class YouTubeAutocompleteSource implements KeywordSuggestionSource {
+  name = 'youtube_autocomplete';
+
+  constructor(
+    private readonly language: string = 'ja',
+    private readonly timeoutMs: number = AUTOCOMPLETE_TIMEOUT_MS
+  ) {}
+
+  async suggest(seed: string): Promise<string[]> {
+    const url = `https://suggestqueries.google.com/complete/search?client=firefox&ds=yt&hl=${this.language}&q=${encodeURIComponent(seed)}`;
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    } catch (error) {
+      if ((error as { name?: string } | null)?.name === 'TimeoutError') {
+        throw new Error(`Autocomplete request timed out after ${this.timeoutMs}ms`);
+      }
+      throw error;
+    }
+    if (!response.ok) {
+      throw new Error(`Autocomplete request failed: ${response.status}`);
+    }
+    const data = (await response.json()) as [string, string[]];
+    return Array.isArray(data[1]) ? data[1] : [];
+  }
+}
+
+/**
+ * シード語 → サジェスト一覧 のJSONを返すフィクスチャ（ネットワーク不要）
+ */
+export class FixtureSuggestionSource implements KeywordSuggestionSource {
+  name = 'fixture';
+
+  constructor(private readonly suggestions: Record<string, string[]>) {}
+
+  static async fromFile(path: string): Promise<FixtureSuggestionSource> {
+    const raw = await readFile(path, 'utf-8');
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`Invalid suggestion fixture ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+    const result = suggestionFixtureSchema.safeParse(parsed);
+    if (!result.success) {
+      const issues = result.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+      throw new Error(`Invalid suggestion fixture ${path}: ${issues}`);
+    }
+    return new FixtureSuggestionSource(result.data);
+  }
+
+  async suggest(seed: string): Promise<string[]> {
+    return this.suggestions[seed] ?? [];
+  }
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * 検索結果上位の動画から需要（再生速度）と供給（結果数・新着率）を測る
+ */
+export function measureVideos(
+  videos: youtube_v3.Schema$Video[],
+  totalResults: number,
+  now: Date
+): KeywordMeasurement {
+  const viewsPerDay: number[] = [];
+  let totalViews = 0;
+  let recent = 0;
+
+  for (const video of videos) {
+    const views = Number(video.statistics?.viewCount ?? 0);
+    const publishedAt = video.snippet?.publishedAt ? new Date(video.snippet.publishedAt) : now;
+    const ageDays = Math.max(1, (now.getTime() - publishedAt.getTime()) / 86_400_000);
+    viewsPerDay.push(views / ageDays);
+    totalViews += views;
+    if (ageDays <= RECENT_DAYS) recent++;
+  }
+
+  return {
+    totalResults,
+    sampleSize: videos.length,
+    medianViewsPerDay: median(viewsPerDay),
+    totalViews,
+    recentUploadRatio: videos.length > 0 ? recent / videos.length : 0,
+  };
+}
+
+/**
+ * 需要と供給のバランスを0〜100で評価する（高いほど狙い目）
+ * 需要: 上位動画の1日あたり再生数の中央値、供給: 検索結果数と直近30日の新着率
+ */
+export function supplyDemandScore(m: KeywordMeasurement): number {
+  const demand = Math.log10(m.medianViewsPerDay + 1);
+  const supply = Math.log10(m.totalResults + 1);
+  const raw = 50 + 20 * (demand - supply + 3) - 20 * (m.recentUploadRatio - 0.3);
+  return Math.round(Math.min(100, Math.max(0, raw)));
+}
+
+export function competitionLevel(m: KeywordMeasurement): 'low' | 'medium' | 'high' {
+  if (m.totalResults > 500_000 || m.recentUploadRatio > 0.5) return 'high';
+  if (m.totalResults < 50_000 && m.recentUploadRatio < 0.2) return 'low';
+  return 'medium';
+}
+
+function relevance(keyword: string, productTerms: Set<string>, frequency: number, maxFrequency: number): number {
+  const terms = extractTerms(keyword).map(t => t.toLowerCase());
+  const overlap = terms.length > 0 ? terms.filter(t => productTerms.has(t)).length / terms.length : 0;
+  const popularity = maxFrequency > 0 ? frequency / maxFrequency : 0;
+  return Math.round(100 * (0.6 * overlap + 0.4 * popularity));
+}
+
+/**
+ * 商品情報 → シード語 → サジェスト・上位動画のタイトル/タグで候補を拡張し、
+ * 実測できたクエリについて需要/供給を評価してキーワードを順位付けする
+ */
+export async function researchKeywords(
+  productInfo: string,
+  options: KeywordResearchOptions
+): Promise<{ keywords: ResearchedKeyword[]; warnings: string[] }> {
+  const { targetCount, youtube, suggestionSource, maxMeasuredQueries = 3 } = options;
+  const now = options.now ?? new Date();
+  const warnings: string[] = [];
+  const seeds = deriveSeedKeywords(productInfo).slice(0, SEED_LIMIT);
+  const productTerms = new Set(deriveSeedKeywords(productInfo).map(t => t.toLowerCase()));
+
+  if (seeds.length === 0) {
+    return { keywords: [], warnings: ['商品情報からキーワードを抽出できませんでした'] };
+  }
+
+  const candidates = new Map<string, KeywordCandidate>();
+  const addCandidate = (keyword: string, source: KeywordSource, seed: string) => {
+    const key = normalizeKeyword(keyword);
+    if (!key || key.length < 2) return;
+    const existing = candidates.get(key);
+    if (existing) {
+      existing.frequency++;
+    } else {
+      candidates.set(key, { keyword: keyword.normalize('NFKC').trim(), source, seed, frequency: 1 });
+    }
+  };
+
+  seeds.forEach(seed => addCandidate(seed, 'product_info', seed));
+
+  if (suggestionSource) {
+    for (const seed of seeds) {
+      try {
+        const suggestions = await suggestionSource.suggest(seed);
+        suggestions.forEach(s => addCandidate(s, 'autocomplete', seed));
+      } catch (error) {
+        warnings.push(`サジェスト取得に失敗（${suggestionSource.name}: ${seed}）: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  const measurements = new Map<string, KeywordMeasurement>();
+  if (youtube) {
+    for (const seed of seeds.slice(0, maxMeasuredQueries)) {
+      try {
+        const page = await youtube.searchVideoPage(seed, 25);
+        const ids = page.items.map(item => item.id?.videoId).filter((id): id is string => Boolean(id));
+        const videos = ids.length > 0 ? await youtube.getVideoDetails(ids) : [];
+        measurements.set(seed, measureVideos(videos, page.totalResults, now));
+
+        for (const video of videos) {
+          video.snippet?.tags?.forEach(tag => addCandidate(tag, 'video_tags', seed));
+          extractTerms(video.snippet?.title ?? '')
+            .filter(term => normalizeKeyword(term) !== normalizeKeyword(seed))
+            .forEach(term => addCandidate(`${seed} ${term}`, 'video_titles', seed));
+        }
+      } catch (error) {
+        warnings.push(`YouTube検索に失敗（${seed}）: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  } else {
+    warnings.push('YouTube APIが利用できないため、需要・供給は未計測です');
+  }
+
+  // 一度しか出現しない動画由来の語はノイズとみなして除外する
+  const filtered = [...candidates.values()].filter(
+    c => c.source === 'product_info' || c.source === 'autocomplete' || c.frequency > 1
+  );
+  const maxFrequency = Math.max(1, ...filtered.map(c => c.frequency));
+
+  const keywords = filtered.map((candidate): ResearchedKeyword => {
+    const own = measurements.get(candidate.keyword);
+    const inherited = measurements.get(candidate.seed);
+    const measurement = own ?? inherited;
+    const measuredBy = own ? 'youtube_search' : inherited ? 'inherited' : 'none';
+
+    return {
+      keyword: candidate.keyword,
+      searchVolume: measurement ? Math.round(measurement.medianViewsPerDay * 30) : 0,
+      competition: measurement ? competitionLevel(measurement) : 'medium',
+      relevanceScore: relevance(candidate.keyword, productTerms, candidate.frequency, maxFrequency),
+      supplyDemandScore: measurement ? supplyDemandScore(measurement) : 0,
+      provenance: {
+        source: candidate.source,
+        seed: candidate.seed,
+        measuredBy,
+        measuredQuery: measurement ? candidate.seed : undefined,
+        totalResults: measurement?.totalResults,
+        sampleSize: measurement?.sampleSize,
+        medianViewsPerDay: measurement ? Math.round(measurement.medianViewsPerDay) : undefined,
+        recentUploadRatio: measurement?.recentUploadRatio,
+      },
+    };
+  });
+
+  keywords.sort(
+    (a, b) =>
+      b.relevanceScore + b.supplyDemandScore - (a.relevanceScore + a.supplyDemandScore) ||
+      b.searchVolume - a.searchVolume
+  );
+
+  return { keywords: keywords.slice(0, targetCount), warnings };
+}
@@ -0,0 +1,382 @@
+// コメントのクラスタリングによるペルソナ推定と、YouTube Studio の視聴者構成 CSV の取り込み
+
+import { readFile } from 'node:fs/promises';
+import { commentTerms, scoreSentiment, splitSentences } from './comments';
+import type { CommentRecord, Sentiment } from './comments';
+import { parseCsvRecords, parseNumber, pickColumn, pickRatio } from './csv';
+
+export type AudienceDimension = 'age' | 'gender' | 'device';
+
+export interface AudienceShare {
+  label: string;
+  share: number;
+}
+
+export interface AudienceDistribution {
+  dimension: AudienceDimension;
+  shares: AudienceShare[];
+}
+
+export type AudienceProfile = Partial<Record<AudienceDimension, AudienceShare[]>>;
+
+export interface PersonaInsight {
+  text: string;
+  commentIds: string[];
+}
+
+export interface PersonaCitation {
+  commentId: string;
+  videoId?: string;
+  author: string;
+  excerpt: string;
+  likeCount: number;
+}
+
+export interface CommentPersona {
+  id: string;
+  name: string;
+  keyword?: string;
+  /** 分析したコメントに占める割合 */
+  share: number;
+  commentCount: number;
+  sentiment: { label: Sentiment; score: number };
+  vocabulary: string[];
+  painPoints: PersonaInsight[];
+  goals: PersonaInsight[];
+  /** チャンネル全体の視聴者構成（コメント投稿者ごとの属性ではない） */
+  demographics?: {
+    age?: AudienceShare;
+    gender?: AudienceShare;
+    devices: AudienceShare[];
+    source: 'youtube_studio';
+  };
+  citations: PersonaCitation[];
+}
+
+export interface PersonaOptions {
+  maxPersonas?: number;
+  keywords?: string[];
+  audience?: AudienceProfile;
+  /** これより少ないコメントしか集まらないクラスタはペルソナにしない */
+  minComments?: number;
+}
+
+export interface PersonaResult {
+  personas: CommentPersona[];
+  analyzedComments: number;
+  unclusteredComments: number;
+  warnings: string[];
+}
+
+const MAX_ITERATIONS = 20;
+const VOCABULARY_SIZE = 8;
+const MAX_INSIGHTS = 5;
+const MAX_CITATIONS = 3;
+const EXCERPT_LENGTH = 120;
+
+const PAIN_PATTERN = /(わからな|分からな|難し|できな|困っ|悩|不安|エラー|失敗|時間がな|続かな|挫折|高すぎ|迷っ|confus|hard to|stuck)/i;
+const GOAL_PATTERN = /(したい|なりたい|目指|稼ぎたい|できるように|知りたい|学びたい|欲しい|ほしい|始めたい|教えて|want to|how to)/i;
+
+type Vector = Map<string, number>;
+
+interface CommentDoc {
+  comment: CommentRecord;
+  vector: Vector;
+  sentiment: { score: number; label: Sentiment };
+}
+
+function normalizeVector(vector: Vector): Vector {
+  const norm = Math.sqrt([...vector.values()].reduce((sum, v) => sum + v * v, 0));
+  if (norm > 0) {
+    for (const [term, value] of vector) vector.set(term, value / norm);
+  }
+  return vector;
+}
+
+function cosine(a: Vector, b: Vector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let sum = 0;
+  for (const [term, value] of small) sum += value * (large.get(term) ?? 0);
+  return sum;
+}
+
+function centroidOf(docs: CommentDoc[]): Vector {
+  const centroid: Vector = new Map();
+  for (const doc of docs) {
+    for (const [term, value] of doc.vector) centroid.set(term, (centroid.get(term) ?? 0) + value);
+  }
+  return normalizeVector(centroid);
+}
+
+/**
+ * TF-IDF ベクトルにする。1件のコメントにしか出ない語は話題の手がかりにならないので使わない
+ */
+function vectorize(comments: CommentRecord[]): { docs: CommentDoc[]; skipped: number } {
+  const termLists = comments.map(comment => commentTerms(comment.text));
+  const df = new Map<string, number>();
+  for (const terms of termLists) {
+    for (const term of new Set(terms)) df.set(term, (df.get(term) ?? 0) + 1);
+  }
+
+  const docs: CommentDoc[] = [];
+  comments.forEach((comment, i) => {
+    const vector: Vector = new Map();
+    for (const term of termLists[i]) {
+      const count = df.get(term) ?? 0;
+      if (count < 2) continue;
+      const idf = Math.log((comments.length + 1) / (count + 1)) + 1;
+      vector.set(term, (vector.get(term) ?? 0) + idf);
+    }
+    if (vector.size > 0) {
+      docs.push({ comment, vector: normalizeVector(vector), sentiment: scoreSentiment(comment.text) });
+    }
+  });
+  return { docs, skipped: comments.length - docs.length };
+}
+
+/**
+ * 球面 k-means（初期値は最遠点選択で決めるため、同じ入力なら結果も同じになる）
+ */
+function clusterDocs(docs: CommentDoc[], k: number): CommentDoc[][] {
+  // 最初の中心は最も多くのコメントと語を共有するコメント
+  const termFrequency = new Map<string, number>();
+  for (const doc of docs) {
+    for (const term of doc.vector.keys()) termFrequency.set(term, (termFrequency.get(term) ?? 0) + 1);
+  }
+  const commonness = (doc: CommentDoc) =>
+    [...doc.vector.keys()].reduce((sum, term) => sum + (termFrequency.get(term) ?? 0), 0);
+  let first = 0;
+  docs.forEach((doc, i) => {
+    if (commonness(doc) > commonness(docs[first])) first = i;
+  });
+
+  const centroids: Vector[] = [docs[first].vector];
+  while (centroids.length < k) {
+    let farthest = -1;
+    let farthestSimilarity = Infinity;
+    docs.forEach((doc, i) => {
+      if (doc.vector.size < 2) return;
+      const similarity = Math.max(...centroids.map(centroid => cosine(doc.vector, centroid)));
+      if (similarity < farthestSimilarity) {
+        farthest = i;
+        farthestSimilarity = similarity;
+      }
+    });
+    if (farthest < 0 || farthestSimilarity >= 0.999) break;
+    centroids.push(docs[farthest].vector);
+  }
+
+  let assignment = docs.map(() => -1);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = docs.map(doc => {
+      let best = 0;
+      centroids.forEach((centroid, c) => {
+        if (cosine(doc.vector, centroid) > cosine(doc.vector, centroids[best])) best = c;
+      });
+      return best;
+    });
+    if (next.every((c, i) => c === assignment[i])) break;
+    assignment = next;
+    centroids.forEach((_, c) => {
+      const members = docs.filter((_, i) => assignment[i] === c);
+      if (members.length > 0) centroids[c] = centroidOf(members);
+    });
+  }
+
+  return centroids.map((_, c) => docs.filter((_, i) => assignment[i] === c)).filter(members => members.length > 0);
+}
+
+/**
+ * 話題のクラスタを、否定的なコメントとそれ以外に分ける（どちらも十分な件数があるときだけ）
+ */
+function splitBySentiment(cluster: CommentDoc[], minComments: number): CommentDoc[][] {
+  const negative = cluster.filter(doc => doc.sentiment.label === 'negative');
+  const others = cluster.filter(doc => doc.sentiment.label !== 'negative');
+  return negative.length >= minComments && others.length >= minComments ? [others, negative] : [cluster];
+}
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > EXCERPT_LENGTH ? `${flat.slice(0, EXCERPT_LENGTH - 1)}…` : flat;
+}
+
+/**
+ * パターンに合う文を集め、同じ文をまとめていいね数の多い順に並べる
+ */
+function extractInsights(cluster: CommentDoc[], pattern: RegExp): PersonaInsight[] {
+  const insights = new Map<string, { text: string; commentIds: string[]; weight: number }>();
+  for (const { comment } of cluster) {
+    for (const sentence of splitSentences(comment.text)) {
+      if (!pattern.test(sentence)) continue;
+      const text = excerpt(sentence);
+      const key = text.normalize('NFKC').toLowerCase().replace(/[\s、。！？!?.,]/g, '');
+      const insight = insights.get(key) ?? { text, commentIds: [], weight: 0 };
+      if (!insight.commentIds.includes(comment.commentId)) insight.commentIds.push(comment.commentId);
+      insight.weight += comment.likeCount + 1;
+      insights.set(key, insight);
+    }
+  }
+  return [...insights.values()]
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_INSIGHTS)
+    .map(({ text, commentIds }) => ({ text, commentIds }));
+}
+
+function topAudience(shares: AudienceShare[] | undefined): AudienceShare | undefined {
+  return shares?.length ? [...shares].sort((a, b) => b.share - a.share)[0] : undefined;
+}
+
+function describePersona(cluster: CommentDoc[], centroid: Vector, index: number, total: number, options: PersonaOptions): CommentPersona {
+  const vocabulary = [...centroid.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, VOCABULARY_SIZE)
+    .map(([term]) => term);
+  const score = cluster.reduce((sum, doc) => sum + doc.sentiment.score, 0) / cluster.length;
+  const label: Sentiment = score > 0.2 ? 'positive' : score < -0.2 ? 'negative' : 'neutral';
+
+  const texts = cluster.map(doc => doc.comment.text.normalize('NFKC').toLowerCase());
+  const keyword = (options.keywords ?? [])
+    .map(keyword => ({ keyword, hits: texts.filter(text => text.includes(keyword.normalize('NFKC').toLowerCase())).length }))
+    .filter(entry => entry.hits > 0)
+    .sort((a, b) => b.hits - a.hits)[0]?.keyword;
+
+  // 中心に近く、いいねの多いコメントを根拠として示す
+  const citations = [...cluster]
+    .map(doc => ({ doc, weight: cosine(doc.vector, centroid) * Math.log2(doc.comment.likeCount + 2) }))
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_CITATIONS)
+    .map(({ doc: { comment } }) => ({
+      commentId: comment.commentId,
+      videoId: comment.videoId,
+      author: comment.author,
+      excerpt: excerpt(comment.text),
+      likeCount: comment.likeCount,
+    }));
+
+  const topic = vocabulary.slice(0, 2).join('・');
+  const audience = options.audience;
+  return {
+    id: `persona_${index + 1}`,
+    name: `「${topic}」${label === 'negative' ? 'でつまずいている' : 'に関心がある'}視聴者`,
+    keyword,
+    share: cluster.length / total,
+    commentCount: cluster.length,
+    sentiment: { label, score },
+    vocabulary,
+    painPoints: extractInsights(cluster, PAIN_PATTERN),
+    goals: extractInsights(cluster, GOAL_PATTERN),
+    demographics: audience && Object.keys(audience).length > 0
+      ? {
+          age: topAudience(audience.age),
+          gender: topAudience(audience.gender),
+          devices: [...(audience.device ?? [])].sort((a, b) => b.share - a.share),
+          source: 'youtube_studio',
+        }
+      : undefined,
+    citations,
+  };
+}
+
+/**
+ * コメントを話題と感情でクラスタリングし、クラスタごとにペルソナを組み立てる
+ */
+export function buildPersonas(comments: CommentRecord[], options: PersonaOptions = {}): PersonaResult {
+  const maxPersonas = options.maxPersonas ?? 3;
+  const minComments = options.minComments ?? 3;
+  const warnings: string[] = [];
+
+  const { docs, skipped } = vectorize(comments);
+  if (docs.length < minComments) {
+    warnings.push(`話題を判定できるコメントが${docs.length}件しかないため、ペルソナを作成できません（${minComments}件以上必要）`);
+    return { personas: [], analyzedComments: docs.length, unclusteredComments: skipped, warnings };
+  }
+
+  const k = Math.max(1, Math.min(maxPersonas, Math.floor(docs.length / minComments)));
+  const clusters = clusterDocs(docs, k)
+    .flatMap(cluster => splitBySentiment(cluster, minComments))
+    .filter(cluster => cluster.length >= minComments)
+    .sort((a, b) => b.length - a.length)
+    .slice(0, maxPersonas);
+
+  const clustered = clusters.reduce((sum, cluster) => sum + cluster.length, 0);
+  if (docs.length - clustered > 0) {
+    warnings.push(`${docs.length - clustered}件のコメントはどのペルソナにも含まれていません（少数の話題）`);
+  }
+  if (!options.audience || Object.keys(options.audience).length === 0) {
+    warnings.push('視聴者構成（年齢・性別・デバイス）は YouTube Studio のエクスポートを指定したときだけ付与されます');
+  }
+
+  const personas = clusters.map((cluster, i) => describePersona(cluster, centroidOf(cluster), i, docs.length, options));
+  return { personas, analyzedComments: docs.length, unclusteredComments: skipped + docs.length - clustered, warnings };
+}
+
+const DIMENSION_COLUMNS: Record<AudienceDimension, string[]> = {
+  age: ['Viewer age', '視聴者の年齢', 'age', '年齢'],
+  gender: ['Viewer gender', '視聴者の性別', 'gender', '性別'],
+  device: ['Device type', 'デバイスの種類', 'device', 'デバイス'],
+};
+// 割合の列を優先し、なければ実数（視聴回数）から割合を出す
+const SHARE_COLUMNS = ['Views (%)', '視聴回数 (%)', 'Watch time (hours) (%)', '総再生時間（単位: 時間）(%)', 'share', '割合'];
+const COUNT_COLUMNS = ['Views', '視聴回数', 'Watch time (hours)', '総再生時間（単位: 時間）'];
+
+const AUDIENCE_LABELS: Record<string, string> = {
+  female: '女性',
+  male: '男性',
+  user_specified: 'その他',
+  'user-specified': 'その他',
+  'mobile phone': 'スマートフォン',
+  mobile: 'スマートフォン',
+  computer: 'PC',
+  desktop: 'PC',
+  tv: 'テレビ',
+  tablet: 'タブレット',
+  'game console': 'ゲーム機',
+};
+
+function audienceLabel(value: string): string {
+  const age = /^age(\d+)-(\d+|)$/i.exec(value.replace(/\s/g, ''));
+  if (age) return age[2] ? `${age[1]}-${age[2]}歳` : `${age[1]}歳以上`;
+  return AUDIENCE_LABELS[value.toLowerCase()] ?? value;
+}
+
+/**
+ * YouTube Studio の「視聴者の年齢 / 性別 / デバイスの種類」の表データ CSV を読み込む
+ */
+export function parseAudienceExport(content: string): AudienceDistribution {
+  const records = parseCsvRecords(content.replace(/^﻿/, ''));
+  const dimension = (Object.keys(DIMENSION_COLUMNS) as AudienceDimension[])
+    .find(d => records.some(record => pickColumn(record, DIMENSION_COLUMNS[d]) !== undefined));
+  if (!dimension) {
+    throw new Error('Audience export must have an age, gender or device type column');
+  }
+
+  const rows = records
+    .map(record => {
+      const label = pickColumn(record, DIMENSION_COLUMNS[dimension]);
+      const share = pickRatio(record, SHARE_COLUMNS);
+      const count = parseNumber(pickColumn(record, COUNT_COLUMNS));
+      return { label, value: share ?? count };
+    })
+    .filter((row): row is { label: string; value: number } =>
+      row.label !== undefined && row.value !== undefined && !/^(total|合計)$/i.test(row.label));
+
+  const total = rows.reduce((sum, row) => sum + row.value, 0);
+  if (total <= 0) {
+    throw new Error(`Audience export has no ${dimension} shares`);
+  }
+  return {
+    dimension,
+    shares: rows.map(row => ({ label: audienceLabel(row.label), share: row.value / total })),
+  };
+}
+
+export async function loadAudienceExport(filePath: string): Promise<AudienceDistribution> {
+  return parseAudienceExport(await readFile(filePath, 'utf-8'));
+}
+
+/**
+ * 複数のエクスポートを1つの視聴者構成にまとめる（同じ軸は後に読んだものを優先）
+ */
+export function mergeAudience(distributions: AudienceDistribution[]): AudienceProfile {
+  return Object.fromEntries(distributions.map(d => [d.dimension, d.shares]));
+}
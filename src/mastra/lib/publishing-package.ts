@@ -0,0 +1,323 @@
+// 台本のセクションと尺から、公開用のメタデータ（チャプター・概要欄・タグ・終了画面・カード・固定コメント）を作る
+
+import { formatTimestamp } from './captions';
+
+// YouTube の入力制限
+export const YOUTUBE_LIMITS = {
+  titleChars: 100,
+  /** Data API の snippet.description の上限はバイト数 */
+  descriptionBytes: 5000,
+  /** タグはカンマ区切り・空白を含むタグは引用符込みで数える */
+  tagsTotalChars: 500,
+  pinnedCommentChars: 10_000,
+  /** 15個を超えるとすべてのハッシュタグが無視される */
+  hashtags: 15,
+  chaptersMin: 3,
+  chapterMinSeconds: 10,
+  endScreenMinVideoSeconds: 25,
+  endScreenMinSeconds: 5,
+  endScreenMaxSeconds: 20,
+  cards: 5,
+} as const;
+
+// 検索結果・「もっと見る」の前に表示される概要欄の目安
+export const ABOVE_THE_FOLD_CHARS = 150;
+
+export interface TimedSection {
+  name: string;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+export interface KeywordCandidate {
+  keyword: string;
+  relevanceScore?: number;
+}
+
+export interface AffiliateLink {
+  label: string;
+  url: string;
+}
+
+export interface PublishingPackageInput {
+  title: string;
+  summary: string;
+  sections: TimedSection[];
+  /** complianceCheckerTool の generate_disclaimer が返す開示文 */
+  disclosure: string;
+  /** 固定コメント冒頭の短い開示文（"【PR】広告を含みます" など） */
+  shortDisclosure?: string;
+  affiliateLinks?: AffiliateLink[];
+  keywords?: KeywordCandidate[];
+  extraTags?: string[];
+  hashtags?: string[];
+  videoType?: 'long' | 'shorts';
+}
+
+export interface ChapterEntry {
+  timestamp: string;
+  startSeconds: number;
+  title: string;
+}
+
+export interface CardPlacement {
+  timestamp: string;
+  startSeconds: number;
+  type: 'video' | 'playlist';
+  teaser: string;
+}
+
+export interface PublishingPackage {
+  title: string;
+  description: string;
+  tags: string[];
+  hashtags: string[];
+  chapters: ChapterEntry[];
+  endScreen: { startSeconds: number; endSeconds: number; timestamp: string; elements: string[] } | null;
+  cards: CardPlacement[];
+  pinnedComment: string;
+  validation: {
+    errors: string[];
+    warnings: string[];
+    lengths: {
+      titleChars: number;
+      descriptionBytes: number;
+      tagsChars: number;
+      hashtags: number;
+      pinnedCommentChars: number;
+    };
+  };
+}
+
+/**
+ * Data API は概要欄・タイトルの "<" ">" を受け付けないため全角に置き換える
+ */
+function sanitize(text: string): string {
+  return text.replace(/</g, '＜').replace(/>/g, '＞');
+}
+
+/**
+ * YouTubeの文字数制限はコードポイント単位で数える（絵文字などのサロゲートペアも1文字）
+ */
+function charLength(text: string): number {
+  return [...text].length;
+}
+
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+/**
+ * セクションからチャプターを作る
+ * YouTube のチャプターは 0:00 始まり・3件以上・各10秒以上が条件のため、短いセクションは隣と統合する
+ */
+export function buildChapters(sections: TimedSection[], warnings: string[] = []): ChapterEntry[] {
+  const merged: TimedSection[] = [];
+  for (const section of sections) {
+    const prev = merged[merged.length - 1];
+    if (prev && prev.endSeconds - prev.startSeconds < YOUTUBE_LIMITS.chapterMinSeconds && merged.length === 1) {
+      // 冒頭のフックなど先頭の短いセクションは、次のセクションと合わせて 0:00 から始める
+      merged[0] = { name: section.name, startSeconds: 0, endSeconds: section.endSeconds };
+    } else if (prev && section.endSeconds - section.startSeconds < YOUTUBE_LIMITS.chapterMinSeconds) {
+      prev.endSeconds = section.endSeconds;
+    } else {
+      merged.push({ ...section });
+    }
+  }
+  if (merged.length > 0) {
+    merged[0].startSeconds = 0;
+  }
+
+  if (merged.length < YOUTUBE_LIMITS.chaptersMin) {
+    warnings.push(`10秒以上のセクションが${YOUTUBE_LIMITS.chaptersMin}つ未満のため、チャプターは表示されません`);
+    return [];
+  }
+  return merged.map(s => ({ timestamp: formatTimestamp(s.startSeconds * 1000), startSeconds: s.startSeconds, title: sanitize(s.name) }));
+}
+
+/**
+ * キーワードリサーチ結果を関連度順に並べ、合計文字数の上限までタグにする
+ */
+export function buildTags(keywords: KeywordCandidate[], extraTags: string[] = []): string[] {
+  const candidates = [
+    ...extraTags,
+    ...[...keywords].sort((a, b) => (b.relevanceScore ?? 0) - (a.relevanceScore ?? 0)).map(k => k.keyword),
+  ];
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  let total = 0;
+
+  for (const raw of candidates) {
+    const tag = sanitize(raw.replace(/,/g, ' ').trim());
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) continue;
+    const cost = tag.length + (/\s/.test(tag) ? 2 : 0) + (tags.length > 0 ? 1 : 0);
+    if (total + cost > YOUTUBE_LIMITS.tagsTotalChars) continue;
+    seen.add(key);
+    tags.push(tag);
+    total += cost;
+  }
+  return tags;
+}
+
+function tagsLength(tags: string[]): number {
+  return tags.reduce((sum, tag, i) => sum + tag.length + (/\s/.test(tag) ? 2 : 0) + (i > 0 ? 1 : 0), 0);
+}
+
+function normalizeHashtags(hashtags: string[]): string[] {
+  return [...new Set(hashtags.map(h => `#${h.replace(/^#/, '').replace(/\s+/g, '')}`).filter(h => h.length > 1))];
+}
+
+export function composeDescription(
+  input: PublishingPackageInput,
+  chapters: ChapterEntry[],
+  hashtags: string[],
+  warnings: string[] = []
+): string {
+  const blocks = (summary: string) => [
+    // ステマ規制の観点から、開示文は「もっと見る」を開かなくても見える先頭に置く
+    input.disclosure.trim(),
+    summary,
+    input.affiliateLinks && input.affiliateLinks.length > 0
+      ? ['▼ 動画で紹介した商品・サービス', ...input.affiliateLinks.map(l => `${l.label}: ${l.url}`)].join('\n')
+      : '',
+    chapters.length > 0 ? ['▼ 目次', ...chapters.map(c => `${c.timestamp} ${c.title}`)].join('\n') : '',
+    hashtags.join(' '),
+  ].filter(Boolean).join('\n\n');
+
+  let summary = input.summary.trim();
+  let description = sanitize(blocks(summary));
+  // 上限を超える場合は要約文を削って収める
+  while (byteLength(description) > YOUTUBE_LIMITS.descriptionBytes && summary.length > 0) {
+    summary = summary.slice(0, Math.max(0, summary.length - 50));
+    description = sanitize(blocks(summary ? `${summary}…` : ''));
+  }
+  if (summary.length < input.summary.trim().length) {
+    warnings.push('概要欄が5,000バイトを超えるため、要約文を短縮しました');
+  }
+  if (input.disclosure.trim().length > ABOVE_THE_FOLD_CHARS) {
+    warnings.push(`開示文が${ABOVE_THE_FOLD_CHARS}文字を超えており、検索結果や折りたたみ表示で途中までしか見えない可能性があります`);
+  }
+  return description;
+}
+
+export function planEndScreen(
+  sections: TimedSection[],
+  durationSeconds: number,
+  warnings: string[] = []
+): PublishingPackage['endScreen'] {
+  if (durationSeconds < YOUTUBE_LIMITS.endScreenMinVideoSeconds) {
+    warnings.push(`動画が${YOUTUBE_LIMITS.endScreenMinVideoSeconds}秒未満のため終了画面は設定できません`);
+    return null;
+  }
+  // 最後のセクション（CTA）の開始が終了画面に使える範囲内なら、そこから表示する
+  const last = sections[sections.length - 1];
+  const earliest = durationSeconds - YOUTUBE_LIMITS.endScreenMaxSeconds;
+  const latest = durationSeconds - YOUTUBE_LIMITS.endScreenMinSeconds;
+  const start = last && last.startSeconds >= earliest && last.startSeconds <= latest ? last.startSeconds : earliest;
+
+  return {
+    startSeconds: Math.round(start),
+    endSeconds: Math.round(durationSeconds),
+    timestamp: formatTimestamp(start * 1000),
+    elements: ['チャンネル登録ボタン', '視聴者に最適な動画', '関連動画（次に見てほしい動画）'],
+  };
+}
+
+/**
+ * カードはメインセクションの切り替わりに置く（冒頭・最後のセクション、10秒未満のセクション、終了画面の区間は避ける）
+ */
+export function planCards(sections: TimedSection[], endScreenStart: number | null): CardPlacement[] {
+  return sections
+    .slice(1, -1)
+    .filter(s => s.endSeconds - s.startSeconds >= YOUTUBE_LIMITS.chapterMinSeconds)
+    .filter(s => endScreenStart === null || s.startSeconds < endScreenStart)
+    .slice(0, YOUTUBE_LIMITS.cards)
+    .map((s, i) => ({
+      timestamp: formatTimestamp(s.startSeconds * 1000),
+      startSeconds: Math.round(s.startSeconds),
+      type: i === 0 ? 'playlist' as const : 'video' as const,
+      teaser: sanitize(`${s.name}をもっと詳しく`),
+    }));
+}
+
+export function composePinnedComment(input: PublishingPackageInput, chapters: ChapterEntry[]): string {
+  const link = input.affiliateLinks?.[0];
+  const comment = sanitize(
+    [
+      input.shortDisclosure ?? '【PR】この動画には広告が含まれています',
+      link ? `▼ ${link.label}はこちら\n${link.url}` : '',
+      `「${input.title}」で一番試してみたいのはどれですか？コメントで教えてください！`,
+      chapters.length > 0 ? ['⏱ 目次', ...chapters.slice(0, 6).map(c => `${c.timestamp} ${c.title}`)].join('\n') : '',
+    ]
+      .filter(Boolean)
+      .join('\n\n')
+  );
+  return [...comment].slice(0, YOUTUBE_LIMITS.pinnedCommentChars).join('');
+}
+
+/**
+ * 公開用パッケージ一式を作り、YouTube の制限に照らして検証する
+ */
+export function generatePublishingPackage(input: PublishingPackageInput): PublishingPackage {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const isShorts = input.videoType === 'shorts';
+  const durationSeconds = input.sections.length > 0 ? input.sections[input.sections.length - 1].endSeconds : 0;
+
+  const title = sanitize(input.title.trim());
+  const titleChars = charLength(title);
+  if (titleChars > YOUTUBE_LIMITS.titleChars) {
+    errors.push(`タイトルが${YOUTUBE_LIMITS.titleChars}文字を超えています（${titleChars}文字）`);
+  }
+
+  const chapters = isShorts ? [] : buildChapters(input.sections, warnings);
+  const hashtags = normalizeHashtags(input.hashtags ?? []);
+  if (hashtags.length > YOUTUBE_LIMITS.hashtags) {
+    errors.push(`ハッシュタグが${YOUTUBE_LIMITS.hashtags}個を超えるとすべて無視されます（${hashtags.length}個）`);
+  }
+
+  const description = composeDescription(input, chapters, hashtags, warnings);
+  const descriptionBytes = byteLength(description);
+  if (descriptionBytes > YOUTUBE_LIMITS.descriptionBytes) {
+    errors.push(`概要欄が${YOUTUBE_LIMITS.descriptionBytes}バイトを超えています（${descriptionBytes}バイト）`);
+  }
+
+  const tags = buildTags(input.keywords ?? [], input.extraTags);
+  if (tags.length === 0) {
+    warnings.push('タグがありません。キーワードリサーチの結果を渡してください');
+  }
+
+  let endScreen: PublishingPackage['endScreen'] = null;
+  let cards: CardPlacement[] = [];
+  if (isShorts) {
+    warnings.push('ショート動画では終了画面・カード・チャプターは表示されません');
+  } else {
+    endScreen = planEndScreen(input.sections, durationSeconds, warnings);
+    cards = planCards(input.sections, endScreen?.startSeconds ?? null);
+  }
+
+  const pinnedComment = composePinnedComment(input, chapters);
+
+  return {
+    title,
+    description,
+    tags,
+    hashtags,
+    chapters,
+    endScreen,
+    cards,
+    pinnedComment,
+    validation: {
+      errors,
+      warnings,
+      lengths: {
+        titleChars,
+        descriptionBytes,
+        tagsChars: tagsLength(tags),
+        hashtags: hashtags.length,
+        pinnedCommentChars: charLength(pinnedComment),
+      },
+    },
+  };
+}
@@ -0,0 +1,429 @@
+// 台本を編集・収録用のファイル形式（プロンプター原稿・字幕・編集マーカー・制作資料）に書き出す
+
+import { formatTimestamp } from './captions';
+import { formatCsvRow } from './csv';
+import { planCards, YOUTUBE_LIMITS } from './publishing-package';
+import { estimateSpeakingTime, stripStageDirections, timeScript } from './script-timing';
+import type { ScriptLanguage, ScriptSectionInput, ScriptTiming } from './script-timing';
+
+export type ScriptExportFormat = 'teleprompter' | 'srt' | 'vtt' | 'edl' | 'markers_csv' | 'markdown';
+
+export const SCRIPT_EXPORT_FORMATS: ScriptExportFormat[] = ['teleprompter', 'srt', 'vtt', 'edl', 'markers_csv', 'markdown'];
+
+export type MarkerKind = 'chapter' | 'visual' | 'interactive';
+
+export interface ScriptMarker {
+  name: string;
+  description: string;
+  kind: MarkerKind;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+export interface ScriptExportInput {
+  title: string;
+  sections: ScriptSectionInput[];
+  style?: string;
+  language?: ScriptLanguage;
+  totalTarget?: string | number;
+  /** conditionalProcessingStep の additionalAssets */
+  visualEffects?: string[];
+  interactiveElements?: string[];
+  specialInstructions?: string[];
+  /** 編集マーカーのフレームレート（デフォルト: 30） */
+  fps?: number;
+  /** EDL の開始タイムコードの時（DaVinci Resolve のタイムライン既定値に合わせて 1） */
+  edlStartHour?: number;
+}
+
+export interface ScriptExport {
+  timing: ScriptTiming;
+  markers: ScriptMarker[];
+  files: Partial<Record<ScriptExportFormat, string>>;
+}
+
+interface CaptionDraftCue {
+  startSeconds: number;
+  endSeconds: number;
+  text: string;
+}
+
+// 字幕1行あたりの文字数の目安（日本語は全角16字、英語は42字）
+const CAPTION_LINE_CHARS: Record<ScriptLanguage, number> = { ja: 16, en: 42 };
+
+// 字幕1枚に表示する行数
+const CAPTION_MAX_LINES = 2;
+
+// マーカーの色（DaVinci Resolve の EDL マーカー色名）
+const MARKER_COLORS: Record<MarkerKind, string> = {
+  chapter: 'ResolveColorBlue',
+  visual: 'ResolveColorGreen',
+  interactive: 'ResolveColorYellow',
+};
+
+const MARKER_KIND_LABELS: Record<MarkerKind, string> = {
+  chapter: 'チャプター',
+  visual: '演出',
+  interactive: 'インタラクティブ',
+};
+
+// 尺の区間を持たない演出は既定でこの秒数のマーカーにする
+const DEFAULT_MARKER_SECONDS = 3;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// 読点での分割を文節の切れ目より優先する度合い（文字数）
+const COMMA_BREAK_BONUS = 3;
+
+/**
+ * 改行・分割してよい位置を返す
+ * 日本語は読点の後ろと、助詞などのひらがなから漢字・カタカナに変わる位置（「スピードが|劇的に」）
+ */
+function breakPositions(text: string, language: ScriptLanguage): Array<{ at: number; comma: boolean }> {
+  const positions: Array<{ at: number; comma: boolean }> = [];
+  for (let i = 1; i < text.length; i++) {
+    const prev = text[i - 1];
+    const next = text[i];
+    const comma = language === 'ja' ? /[、，]/.test(prev) : prev === ',' && /\s/.test(next);
+    const boundary = language === 'ja'
+      ? /[ぁ-ゖ]/.test(prev) && /[一-鿿々ァ-ヶA-Za-z0-9「『]/.test(next)
+      : /\s/.test(next);
+    if (comma || boundary) positions.push({ at: i, comma });
+  }
+  return positions;
+}
+
+/**
+ * 真ん中に近い分割位置で2つに分ける（limit を指定すると両側が収まる位置を優先する）
+ */
+function splitNearMiddle(text: string, language: ScriptLanguage, limit = Infinity): [string, string] {
+  const middle = text.length / 2;
+  const candidates = breakPositions(text, language);
+  const fitting = candidates.filter(({ at }) => at <= limit && text.length - at <= limit);
+  const pool = fitting.length > 0 ? fitting : candidates;
+  const cost = ({ at, comma }: { at: number; comma: boolean }) => Math.abs(at - middle) - (comma ? COMMA_BREAK_BONUS : 0);
+  const at = pool.length > 0
+    ? pool.reduce((best, pos) => (cost(pos) < cost(best) ? pos : best)).at
+    : Math.ceil(middle);
+  return [text.slice(0, at).trim(), text.slice(at).trim()];
+}
+
+/**
+ * 文単位に分け、字幕1枚に収まらない文は読点・文節の切れ目で分割する
+ */
+function splitCaptionChunks(text: string, language: ScriptLanguage): string[] {
+  const maxChars = CAPTION_LINE_CHARS[language] * CAPTION_MAX_LINES;
+  const sentences = text
+    .split(language === 'ja' ? /(?<=[。．！？!?])|\n+/ : /(?<=[.!?])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(Boolean);
+
+  const fit = (chunk: string): string[] => {
+    if (chunk.length <= maxChars) return [chunk];
+    const [head, tail] = splitNearMiddle(chunk, language);
+    return head && tail ? [...fit(head), ...fit(tail)] : [chunk];
+  };
+  return sentences.flatMap(fit);
+}
+
+/**
+ * 字幕1枚を2行以内に折り返す
+ */
+function wrapCaption(text: string, language: ScriptLanguage): string {
+  const lineChars = CAPTION_LINE_CHARS[language];
+  if (text.length <= lineChars) return text;
+  return splitNearMiddle(text, language, lineChars).join('\n');
+}
+
+/**
+ * セクションの尺を、字幕ごとの読み上げ時間の比率で割り振る
+ */
+export function buildCaptionDraft(sections: ScriptSectionInput[], timing: ScriptTiming): CaptionDraftCue[] {
+  const cues: CaptionDraftCue[] = [];
+  sections.forEach((section, i) => {
+    const sectionTiming = timing.sections[i];
+    if (!sectionTiming) return;
+    const chunks = splitCaptionChunks(stripStageDirections(section.text), timing.language);
+    const weights = chunks.map(chunk => Math.max(0.1, estimateSpeakingTime(chunk, { language: timing.language, rate: timing.rate }).seconds));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    const span = sectionTiming.endSeconds - sectionTiming.startSeconds;
+
+    let cursor = sectionTiming.startSeconds;
+    chunks.forEach((chunk, j) => {
+      const end = j === chunks.length - 1 ? sectionTiming.endSeconds : cursor + (span * weights[j]) / total;
+      cues.push({ startSeconds: cursor, endSeconds: end, text: wrapCaption(chunk, timing.language) });
+      cursor = end;
+    });
+  });
+  return cues;
+}
+
+function captionTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+export function toSrt(cues: CaptionDraftCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${captionTimestamp(cue.startSeconds, ',')} --> ${captionTimestamp(cue.endSeconds, ',')}\n${cue.text}`)
+    .join('\n\n') + '\n';
+}
+
+export function toVtt(cues: CaptionDraftCue[]): string {
+  return [
+    'WEBVTT',
+    ...cues.map(cue => `${captionTimestamp(cue.startSeconds, '.')} --> ${captionTimestamp(cue.endSeconds, '.')}\n${cue.text}`),
+  ].join('\n\n') + '\n';
+}
+
+/**
+ * プロンプター用の原稿を作る
+ * 読点の間は「／」、文末の間は「／／」で示し、演出指示は《》で別行に出す
+ */
+export function toTeleprompter(title: string, sections: ScriptSectionInput[], timing: ScriptTiming): string {
+  const pace = timing.language === 'ja'
+    ? `${timing.rate.moraPerSecond}モーラ/秒`
+    : `${timing.rate.wordsPerMinute} words/min`;
+  const lines = [title, `想定尺 ${formatTimestamp(timing.totalSeconds * 1000)}（話速 ${pace}）`, ''];
+
+  sections.forEach((section, i) => {
+    const sectionTiming = timing.sections[i];
+    const range = sectionTiming
+      ? `${formatTimestamp(sectionTiming.startSeconds * 1000)}〜${formatTimestamp(sectionTiming.endSeconds * 1000)}`
+      : '';
+    lines.push(`■ ${range} ${section.name}`.replace(/\s+/g, ' '));
+    if (sectionTiming?.status === 'overrun') {
+      lines.push(`《目標尺より約${sectionTiming.deviationSeconds}秒長い: テンポよく》`);
+    } else if (sectionTiming?.status === 'underrun') {
+      lines.push(`《目標尺より約${-sectionTiming.deviationSeconds}秒短い: 間を取って》`);
+    }
+
+    const body = section.text
+      .replace(/\[([^\]]*)\]|（([^）]*)）/g, (_, bracket, paren) => `\n《${(bracket ?? paren).trim()}》\n`)
+      .split('\n')
+      .flatMap(line =>
+        line.trim().startsWith('《')
+          ? [line]
+          : line
+              .replace(/([、，,])\s*/g, '$1 ／ ')
+              .replace(/([。．！？!?]+)\s*/g, '$1 ／／\n')
+              .split('\n')
+      );
+    lines.push(...body.map(line => line.trim()).filter(Boolean), '');
+  });
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+type PlacementRule = { pattern: RegExp; place: (timing: ScriptTiming) => number[] };
+
+// 演出・インタラクティブ要素の名前から、タイムライン上の置き場所を決める
+const PLACEMENT_RULES: PlacementRule[] = [
+  // セクションの切り替わりごとに入れるもの
+  {
+    pattern: /トランジション|切り替え|画面分割|チャプター|タイムスタンプ|ステップ|プログレス|チェックマーク|タイムライン/,
+    place: timing => timing.sections.slice(1).map(s => s.startSeconds),
+  },
+  {
+    pattern: /エンドスクリーン|終了画面/,
+    place: timing =>
+      timing.totalSeconds >= YOUTUBE_LIMITS.endScreenMinVideoSeconds
+        ? [Math.max(0, timing.totalSeconds - YOUTUBE_LIMITS.endScreenMaxSeconds)]
+        : [],
+  },
+  {
+    pattern: /カード/,
+    place: timing => {
+      const cardStarts = new Set(planCards(timing.sections, null).map(card => card.startSeconds));
+      return timing.sections.filter(s => cardStarts.has(Math.round(s.startSeconds))).map(s => s.startSeconds);
+    },
+  },
+  // 中間CTAは全体の半分に最も近いセクションの切り替わりに置く
+  {
+    pattern: /中間CTA/,
+    place: timing => {
+      const boundaries = timing.sections.slice(1).map(s => s.startSeconds);
+      if (boundaries.length === 0) return [];
+      const middle = timing.totalSeconds / 2;
+      return [boundaries.reduce((best, at) => (Math.abs(at - middle) < Math.abs(best - middle) ? at : best))];
+    },
+  },
+];
+
+/**
+ * 条件分岐ステップの演出・インタラクティブ要素とセクション境界から編集マーカーを作る
+ * 置き場所の決まらない演出は、各セクションの冒頭に順番に割り当てる
+ */
+export function buildMarkers(
+  timing: ScriptTiming,
+  assets: { visualEffects?: string[]; interactiveElements?: string[] } = {}
+): ScriptMarker[] {
+  const markers: ScriptMarker[] = timing.sections.map(s => ({
+    name: s.name,
+    description: `チャプター（推定${s.seconds}秒）`,
+    kind: 'chapter' as const,
+    startSeconds: s.startSeconds,
+    endSeconds: s.endSeconds,
+  }));
+
+  const span = (start: number) => ({ startSeconds: round(start), endSeconds: round(Math.min(timing.totalSeconds, start + DEFAULT_MARKER_SECONDS)) });
+  let rotation = 0;
+  const place = (items: string[], kind: MarkerKind) => {
+    for (const item of items) {
+      const rule = PLACEMENT_RULES.find(r => r.pattern.test(item));
+      if (rule) {
+        for (const at of rule.place(timing)) {
+          markers.push({ name: item, description: MARKER_KIND_LABELS[kind], kind, ...span(at) });
+        }
+        continue;
+      }
+      const section = timing.sections[rotation % Math.max(1, timing.sections.length)];
+      rotation++;
+      if (section) {
+        markers.push({ name: item, description: `${MARKER_KIND_LABELS[kind]}（${section.name}）`, kind, ...span(section.startSeconds) });
+      }
+    }
+  };
+  place(assets.visualEffects ?? [], 'visual');
+  place(assets.interactiveElements ?? [], 'interactive');
+
+  return markers.sort((a, b) => a.startSeconds - b.startSeconds || a.kind.localeCompare(b.kind));
+}
+
+function frameTimecode(seconds: number, fps: number, startHour = 0): string {
+  const totalFrames = Math.round(seconds * fps) + startHour * 3600 * fps;
+  const frames = totalFrames % fps;
+  const totalSeconds = Math.floor(totalFrames / fps);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor((totalSeconds % 3600) / 60))}:${pad(totalSeconds % 60)}:${pad(frames)}`;
+}
+
+/**
+ * DaVinci Resolve の「タイムラインマーカーをEDLから読み込み」で取り込める CMX3600 形式
+ */
+export function toMarkerEdl(title: string, markers: ScriptMarker[], fps = 30, startHour = 1): string {
+  const lines = [`TITLE: ${title.replace(/\s+/g, ' ').slice(0, 60)}`, 'FCM: NON-DROP FRAME', ''];
+  markers.forEach((marker, i) => {
+    const start = frameTimecode(marker.startSeconds, fps, startHour);
+    const end = frameTimecode(marker.startSeconds + 1 / fps, fps, startHour);
+    const durationFrames = Math.max(1, Math.round((marker.endSeconds - marker.startSeconds) * fps));
+    lines.push(
+      `${String(i + 1).padStart(3, '0')}  001      V     C        ${start} ${end} ${start} ${end}`,
+      ` |C:${MARKER_COLORS[marker.kind]} |M:${marker.name.replace(/\|/g, '／')} |D:${durationFrames}`,
+      ''
+    );
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Premiere Pro のマーカー書き出しと同じ列構成の CSV
+ */
+export function toMarkerCsv(markers: ScriptMarker[], fps = 30): string {
+  const rows = markers.map(marker => [
+    marker.name,
+    marker.description,
+    frameTimecode(marker.startSeconds, fps),
+    frameTimecode(marker.endSeconds, fps),
+    frameTimecode(marker.endSeconds - marker.startSeconds, fps),
+    marker.kind === 'chapter' ? 'Chapter' : 'Comment',
+  ]);
+  return [['Marker Name', 'Description', 'In', 'Out', 'Duration', 'Marker Type'], ...rows]
+    .map(formatCsvRow)
+    .join('\n') + '\n';
+}
+
+/**
+ * Markdownの表のセルに入れる文字列（"|" をエスケープし、改行は空白にする）
+ */
+function tableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+export function toProductionMarkdown(
+  input: ScriptExportInput,
+  timing: ScriptTiming,
+  markers: ScriptMarker[]
+): string {
+  const statusLabels = { ok: 'OK', overrun: '超過', underrun: '不足', no_target: '-' } as const;
+  const list = (heading: string, items?: string[]) =>
+    items && items.length > 0 ? [`## ${heading}`, '', ...items.map(item => `- ${item}`), ''] : [];
+
+  return [
+    `# ${input.title}`,
+    '',
+    `- スタイル: ${timing.style}`,
+    `- 想定尺: ${formatTimestamp(timing.totalSeconds * 1000)}${input.totalTarget !== undefined ? `（目標 ${input.totalTarget}）` : ''}`,
+    `- 文字数: ${timing.totalCharacters}`,
+    '',
+    '## 構成',
+    '',
+    '| 開始 | セクション | 推定尺 | 目標尺 | 判定 |',
+    '| --- | --- | --- | --- | --- |',
+    ...timing.sections.map((s, i) =>
+      `| ${s.timestamp} | ${tableCell(s.name)} | ${s.seconds}秒 | ${tableCell(String(input.sections[i]?.duration ?? '-'))} | ${statusLabels[s.status]} |`
+    ),
+    '',
+    ...(timing.warnings.length > 0 ? ['> [!WARNING]', ...timing.warnings.map(w => `> ${w}`), ''] : []),
+    '## 台本',
+    '',
+    ...input.sections.flatMap((section, i) => [
+      `### ${timing.sections[i]?.timestamp ?? ''} ${section.name}`.replace(/\s+/g, ' '),
+      '',
+      section.text.trim(),
+      '',
+    ]),
+    ...list('演出', input.visualEffects),
+    ...list('インタラクティブ要素', input.interactiveElements),
+    ...list('撮影・編集の注意', input.specialInstructions),
+    '## 編集マーカー',
+    '',
+    '| タイムコード | 種別 | 内容 |',
+    '| --- | --- | --- |',
+    ...markers.map(m => `| ${formatTimestamp(m.startSeconds * 1000)} | ${MARKER_KIND_LABELS[m.kind]} | ${tableCell(m.name)} |`),
+    '',
+  ].join('\n');
+}
+
+/**
+ * 台本の尺を見積もり、指定された形式で書き出す
+ */
+export function exportScript(input: ScriptExportInput, formats: ScriptExportFormat[] = SCRIPT_EXPORT_FORMATS): ScriptExport {
+  const timing = timeScript(input.sections, {
+    style: input.style,
+    language: input.language,
+    totalTarget: input.totalTarget,
+  });
+  const markers = buildMarkers(timing, input);
+  const fps = input.fps ?? 30;
+  const cues = formats.includes('srt') || formats.includes('vtt') ? buildCaptionDraft(input.sections, timing) : [];
+
+  const files: ScriptExport['files'] = {};
+  for (const format of new Set(formats)) {
+    switch (format) {
+      case 'teleprompter':
+        files.teleprompter = toTeleprompter(input.title, input.sections, timing);
+        break;
+      case 'srt':
+        files.srt = toSrt(cues);
+        break;
+      case 'vtt':
+        files.vtt = toVtt(cues);
+        break;
+      case 'edl':
+        files.edl = toMarkerEdl(input.title, markers, fps, input.edlStartHour);
+        break;
+      case 'markers_csv':
+        files.markers_csv = toMarkerCsv(markers, fps);
+        break;
+      case 'markdown':
+        files.markdown = toProductionMarkdown(input, timing, markers);
+        break;
+    }
+  }
+  return { timing, markers, files };
+}
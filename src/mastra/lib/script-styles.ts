@@ -0,0 +1,201 @@
+// 台本スタイルの定義とレジストリ
+// 組み込みスタイルに加えて、SCRIPT_STYLES_DIR の JSON / YAML ファイルからハウススタイルを読み込む
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { extname, join } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { BUILTIN_SCRIPT_STYLES } from './script-style-presets';
+import type { SpeakingRate } from './script-timing';
+
+// hookGeneratorTool のフックタイプ・感情トリガーと同じ値
+export const HOOK_TYPES = ['question', 'shocking_fact', 'contradiction', 'promise', 'story', 'challenge'] as const;
+export const EMOTIONAL_TRIGGERS = ['curiosity', 'fear', 'excitement', 'surprise', 'urgency'] as const;
+
+// フェーズの配分の合計に許容する誤差
+const RATIO_TOLERANCE = 0.05;
+
+const STYLE_FILE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+export const scriptStyleDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'id は英小文字・数字・ハイフン・アンダースコアのみ'),
+  styleName: z.string(),
+  description: z.string(),
+  uniqueFeatures: z.array(z.string()).default([]),
+  narrativeApproach: z.string(),
+  phases: z.array(z.object({
+    phase: z.string(),
+    objective: z.string(),
+    techniques: z.array(z.string()).default([]),
+    /** 目標尺に占める割合（全フェーズで合計1） */
+    ratio: z.number().positive().max(1),
+  })).min(1),
+  languageStyle: z.object({
+    tone: z.string(),
+    vocabulary: z.string(),
+    sentenceStructure: z.string(),
+    specialExpressions: z.array(z.string()).default([]),
+  }),
+  visualEffects: z.array(z.string()).default([]),
+  specialInstructions: z.array(z.string()).default([]),
+  interactiveElements: z.array(z.string()).default([]),
+  hookPreferences: z.object({
+    hookTypes: z.array(z.enum(HOOK_TYPES)).default([]),
+    emotionalTriggers: z.array(z.enum(EMOTIONAL_TRIGGERS)).default([]),
+  }).default({}),
+  /** 未指定の項目は標準の話速を使う */
+  speakingRate: z.object({
+    moraPerSecond: z.number().positive(),
+    wordsPerMinute: z.number().positive(),
+    commaPauseSeconds: z.number().min(0),
+    sentencePauseSeconds: z.number().min(0),
+  }).partial().optional(),
+}).refine(
+  style => Math.abs(style.phases.reduce((sum, p) => sum + p.ratio, 0) - 1) <= RATIO_TOLERANCE,
+  { message: 'phases の ratio の合計は1にしてください', path: ['phases'] }
+);
+
+export type ScriptStyleDefinition = z.infer<typeof scriptStyleDefinitionSchema>;
+export type ScriptStyleDefinitionInput = z.input<typeof scriptStyleDefinitionSchema>;
+
+export interface ScriptStylePhasePlan {
+  phase: string;
+  objective: string;
+  techniques: string[];
+  seconds: number;
+  /** "3分" / "45秒" */
+  duration: string;
+}
+
+export class ScriptStyleRegistry {
+  private readonly styles = new Map<string, ScriptStyleDefinition & { source: string }>();
+  private readonly failures: Array<{ file: string; error: string }> = [];
+
+  constructor(definitions: ScriptStyleDefinitionInput[] = []) {
+    for (const definition of definitions) {
+      this.register(definition, 'builtin');
+    }
+  }
+
+  /**
+   * スタイルを登録する。同じ id は後から登録したもので上書きする（組み込みスタイルの調整に使う）
+   */
+  register(definition: ScriptStyleDefinitionInput, source = 'runtime'): ScriptStyleDefinition {
+    const parsed = this.validate(definition, source);
+    this.styles.set(parsed.id, { ...parsed, source });
+    return parsed;
+  }
+
+  private validate(definition: unknown, source: string): ScriptStyleDefinition {
+    const result = scriptStyleDefinitionSchema.safeParse(definition);
+    if (!result.success) {
+      const issues = result.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+      throw new Error(`Invalid script style in ${source}: ${issues}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * JSON / YAML ファイルから読み込む。1ファイルに1スタイル、またはスタイルの配列を書ける
+   */
+  loadFile(filePath: string): ScriptStyleDefinition[] {
+    const content = readFileSync(filePath, 'utf-8');
+    const parsed: unknown = extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+    const definitions = Array.isArray(parsed) ? parsed : [parsed];
+    // 1件でも不正なら、そのファイルの定義は1件も登録しない
+    const validated = definitions.map(definition => this.validate(definition, filePath));
+    for (const definition of validated) {
+      this.styles.set(definition.id, { ...definition, source: filePath });
+    }
+    return validated;
+  }
+
+  /**
+   * ディレクトリ内のファイルをまとめて読み込む
+   * 読み込めないファイルは飛ばして loadErrors() に記録する（1ファイルの誤りで他の定義まで使えなくしない）
+   */
+  loadDirectory(dir: string): ScriptStyleDefinition[] {
+    let names: string[];
+    try {
+      names = readdirSync(dir);
+    } catch (error) {
+      this.failures.push({ file: dir, error: error instanceof Error ? error.message : String(error) });
+      return [];
+    }
+    return names
+      .filter(name => STYLE_FILE_EXTENSIONS.includes(extname(name).toLowerCase()))
+      .sort()
+      .flatMap(name => {
+        const file = join(dir, name);
+        try {
+          return this.loadFile(file);
+        } catch (error) {
+          this.failures.push({ file, error: error instanceof Error ? error.message : String(error) });
+          return [];
+        }
+      });
+  }
+
+  /**
+   * loadDirectory で読み込めなかったファイルとその理由
+   */
+  loadErrors(): Array<{ file: string; error: string }> {
+    return [...this.failures];
+  }
+
+  get(id: string | undefined): ScriptStyleDefinition | undefined {
+    if (!id) return undefined;
+    const style = this.styles.get(id);
+    if (!style) return undefined;
+    const { source, ...definition } = style;
+    return definition;
+  }
+
+  has(id: string): boolean {
+    return this.styles.has(id);
+  }
+
+  list(): Array<{ id: string; styleName: string; description: string; source: string }> {
+    return [...this.styles.values()].map(({ id, styleName, description, source }) => ({ id, styleName, description, source }));
+  }
+}
+
+let defaultRegistry: ScriptStyleRegistry | undefined;
+
+/**
+ * 組み込みスタイルと SCRIPT_STYLES_DIR のハウススタイルを登録したレジストリ（初回アクセス時に読み込む）
+ */
+export function getScriptStyleRegistry(): ScriptStyleRegistry {
+  if (!defaultRegistry) {
+    const registry = new ScriptStyleRegistry(BUILTIN_SCRIPT_STYLES);
+    const dir = process.env.SCRIPT_STYLES_DIR;
+    if (dir) {
+      registry.loadDirectory(dir);
+    }
+    defaultRegistry = registry;
+  }
+  return defaultRegistry;
+}
+
+/**
+ * フェーズの配分を目標尺（分）に割り当てる
+ */
+export function planStylePhases(style: ScriptStyleDefinition, targetMinutes: number): ScriptStylePhasePlan[] {
+  return style.phases.map(({ phase, objective, techniques, ratio }) => {
+    const seconds = Math.round(targetMinutes * 60 * ratio);
+    return {
+      phase,
+      objective,
+      techniques,
+      seconds,
+      duration: seconds >= 60 && seconds % 60 === 0 ? `${seconds / 60}分` : seconds >= 60 ? `${Math.floor(seconds / 60)}分${seconds % 60}秒` : `${seconds}秒`,
+    };
+  });
+}
+
+/**
+ * スタイル定義の話速を標準の話速に重ねる
+ */
+export function styleSpeakingRate(style: ScriptStyleDefinition | undefined, base: SpeakingRate): SpeakingRate | undefined {
+  return style?.speakingRate ? { ...base, ...style.speakingRate } : undefined;
+}
@@ -0,0 +1,305 @@
+// 台本の読み上げ時間の見積もりと、セクションごとの尺の検証
+
+import { formatTimestamp } from './captions';
+import { getScriptStyleRegistry, styleSpeakingRate } from './script-styles';
+
+export type ScriptLanguage = 'ja' | 'en';
+
+export interface SpeakingRate {
+  /** 日本語の話速（モーラ/秒） */
+  moraPerSecond: number;
+  /** 英語の話速（語/分） */
+  wordsPerMinute: number;
+  /** 読点・カンマでの間（秒） */
+  commaPauseSeconds: number;
+  /** 句点・ピリオド・感嘆符での間（秒） */
+  sentencePauseSeconds: number;
+}
+
+export interface DurationRange {
+  minSeconds: number;
+  maxSeconds: number;
+}
+
+export interface SpeechEstimate {
+  language: ScriptLanguage;
+  /** 日本語はモーラ数、英語は単語数 */
+  units: number;
+  /** 空白を除いた文字数 */
+  characters: number;
+  seconds: number;
+}
+
+export interface ScriptSectionInput {
+  name: string;
+  text: string;
+  /** "40-45秒" / "5-10分" / 秒数 など。未指定なら検証しない */
+  duration?: string | number;
+}
+
+export type TimingStatus = 'ok' | 'overrun' | 'underrun' | 'no_target';
+
+export interface SectionTiming extends SpeechEstimate {
+  name: string;
+  startSeconds: number;
+  endSeconds: number;
+  timestamp: string;
+  target?: DurationRange;
+  status: TimingStatus;
+  /** 目標範囲からのずれ（秒）。超過は正、不足は負 */
+  deviationSeconds: number;
+}
+
+export interface ScriptTiming {
+  language: ScriptLanguage;
+  style: string;
+  rate: SpeakingRate;
+  totalSeconds: number;
+  totalUnits: number;
+  totalCharacters: number;
+  sections: SectionTiming[];
+  /** 概要欄にそのまま貼れるチャプター（"0:00 オープニング"） */
+  chapters: string;
+  warnings: string[];
+}
+
+// アナウンサーの標準的な話速は 7〜8 モーラ/秒、英語は 150 語/分前後
+export const DEFAULT_SPEAKING_RATE: SpeakingRate = {
+  moraPerSecond: 7.5,
+  wordsPerMinute: 150,
+  commaPauseSeconds: 0.3,
+  sentencePauseSeconds: 0.6,
+};
+
+// 基本スタイルごとの話速（taiki などの登録済みスタイルは定義の speakingRate が優先される）
+export const STYLE_SPEAKING_RATES: Record<string, SpeakingRate> = {
+  shorts: { moraPerSecond: 9, wordsPerMinute: 180, commaPauseSeconds: 0.15, sentencePauseSeconds: 0.3 },
+  educational: { moraPerSecond: 7, wordsPerMinute: 140, commaPauseSeconds: 0.35, sentencePauseSeconds: 0.7 },
+  entertainment: { moraPerSecond: 8, wordsPerMinute: 165, commaPauseSeconds: 0.25, sentencePauseSeconds: 0.5 },
+  'how-to': { moraPerSecond: 7, wordsPerMinute: 140, commaPauseSeconds: 0.35, sentencePauseSeconds: 0.7 },
+  news: { moraPerSecond: 7.5, wordsPerMinute: 155, commaPauseSeconds: 0.3, sentencePauseSeconds: 0.6 },
+  review: DEFAULT_SPEAKING_RATE,
+  vlog: { moraPerSecond: 7, wordsPerMinute: 145, commaPauseSeconds: 0.35, sentencePauseSeconds: 0.8 },
+};
+
+// 範囲指定のない目標尺（"1分" や 60）に許容するずれ
+const SINGLE_TARGET_TOLERANCE = 0.15;
+
+// 範囲指定の目標尺の外側に許容するずれ
+const RANGE_SLACK = 0.05;
+
+// 漢字1字あたりの平均モーラ数（音読みの多くは2モーラ）
+const MORA_PER_KANJI = 1.8;
+
+// 英字略語（GPT → ジーピーティー）の1字あたりの平均モーラ数
+const MORA_PER_ACRONYM_LETTER = 2.5;
+
+// 英単語をカタカナ読みしたときの1字あたりの平均モーラ数
+const MORA_PER_LATIN_LETTER = 0.9;
+
+// 数字1桁あたりの平均モーラ数（「じゅう」「ひゃく」などの位取りを含む）
+const MORA_PER_DIGIT = 2.5;
+
+export function speakingRateFor(style?: string): SpeakingRate {
+  if (!style) return DEFAULT_SPEAKING_RATE;
+  return (
+    styleSpeakingRate(getScriptStyleRegistry().get(style), DEFAULT_SPEAKING_RATE) ??
+    STYLE_SPEAKING_RATES[style] ??
+    DEFAULT_SPEAKING_RATE
+  );
+}
+
+/**
+ * "40-45秒" / "5〜10分" / "1分30秒" / "90秒" / "1時間" / "3-5min" / 秒数 を秒の範囲に変換する
+ */
+export function parseDurationRange(value: string | number): DurationRange | null {
+  if (typeof value === 'number') {
+    return { minSeconds: value, maxSeconds: value };
+  }
+
+  const normalized = value.replace(/[０-９]/g, d => String.fromCharCode(d.charCodeAt(0) - 0xfee0)).replace(/\s/g, '');
+  const unitSeconds = (unit: string | undefined) =>
+    unit === '時間' || unit === 'h' ? 3600 : unit === '分' || unit === 'm' || unit === 'min' ? 60 : 1;
+
+  const range = normalized.match(/^(\d+(?:\.\d+)?)(秒|分|時間|min|s|m|h)?[-−－〜~～](\d+(?:\.\d+)?)(秒|分|時間|min|s|m|h)?$/);
+  if (range) {
+    const [, min, minUnit, max, maxUnit] = range;
+    return {
+      minSeconds: Number(min) * unitSeconds(minUnit ?? maxUnit),
+      maxSeconds: Number(max) * unitSeconds(maxUnit),
+    };
+  }
+
+  const parts = [...normalized.matchAll(/(\d+(?:\.\d+)?)(秒|分|時間|min|s|m|h)/g)];
+  if (parts.length > 0 && parts.map(p => p[0]).join('') === normalized) {
+    const seconds = parts.reduce((sum, [, n, unit]) => sum + Number(n) * unitSeconds(unit), 0);
+    return { minSeconds: seconds, maxSeconds: seconds };
+  }
+  if (/^\d+(?:\.\d+)?$/.test(normalized)) {
+    return { minSeconds: Number(normalized), maxSeconds: Number(normalized) };
+  }
+  return null;
+}
+
+/**
+ * 読み上げない部分（[話し方: ...] などの演出指示、【見出し】、（ト書き））を除く
+ */
+export function stripStageDirections(text: string): string {
+  return text
+    .replace(/\[[^\]]*\]/g, '')
+    .replace(/【[^】]*】/g, '')
+    .replace(/（[^）]*）/g, '')
+    .trim();
+}
+
+export function detectScriptLanguage(text: string): ScriptLanguage {
+  const japanese = (text.match(/[぀-ヿ一-鿿]/g) ?? []).length;
+  return japanese > 0 && japanese >= text.replace(/\s/g, '').length * 0.1 ? 'ja' : 'en';
+}
+
+/**
+ * 日本語のモーラ数を推定する
+ * かなは1字1モーラ（拗音の小書き文字は前の字と合わせて1モーラ）、漢字・英字・数字は平均値で概算する
+ */
+export function countMora(text: string): number {
+  let mora = 0;
+  for (const token of text.match(/[A-Z]{2,}|[A-Za-z]+|\d+|[\s\S]/g) ?? []) {
+    if (/^[A-Z]{2,}$/.test(token)) {
+      mora += token.length * MORA_PER_ACRONYM_LETTER;
+    } else if (/^[A-Za-z]+$/.test(token)) {
+      mora += Math.max(1, token.length * MORA_PER_LATIN_LETTER);
+    } else if (/^\d+$/.test(token)) {
+      mora += token.length * MORA_PER_DIGIT;
+    } else if (/[ぁぃぅぇぉゃゅょゎァィゥェォャュョヮ]/.test(token)) {
+      // 拗音・小書き文字は直前の字と合わせて1モーラ
+    } else if (/[぀-ゟ゠-ヿー]/.test(token)) {
+      mora += 1; // 促音「っ」・撥音「ん」・長音「ー」も1モーラ
+    } else if (/[一-鿿々]/.test(token)) {
+      mora += MORA_PER_KANJI;
+    }
+  }
+  return Math.round(mora);
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+/**
+ * テキストの読み上げ時間を見積もる（句読点での間を含む）
+ */
+export function estimateSpeakingTime(
+  text: string,
+  options: { style?: string; language?: ScriptLanguage; rate?: SpeakingRate } = {}
+): SpeechEstimate {
+  const spoken = stripStageDirections(text);
+  const language = options.language ?? detectScriptLanguage(spoken);
+  const rate = options.rate ?? speakingRateFor(options.style);
+  const commas = (spoken.match(/[、，,]/g) ?? []).length;
+  const sentences = (spoken.match(/[。．！？!?]+|\.(?=\s|$)/g) ?? []).length;
+  const pauses = commas * rate.commaPauseSeconds + sentences * rate.sentencePauseSeconds;
+
+  const units = language === 'ja' ? countMora(spoken) : countWords(spoken);
+  const speech = language === 'ja' ? units / rate.moraPerSecond : (units / rate.wordsPerMinute) * 60;
+
+  return {
+    language,
+    units,
+    characters: spoken.replace(/\s/g, '').length,
+    seconds: Math.round((speech + pauses) * 10) / 10,
+  };
+}
+
+function judge(seconds: number, target: DurationRange | undefined): { status: TimingStatus; deviationSeconds: number } {
+  if (!target) {
+    return { status: 'no_target', deviationSeconds: 0 };
+  }
+  const single = target.minSeconds === target.maxSeconds;
+  const slack = single ? SINGLE_TARGET_TOLERANCE : RANGE_SLACK;
+  const min = target.minSeconds * (1 - slack);
+  const max = target.maxSeconds * (1 + slack);
+  const round = (value: number) => Math.round(value * 10) / 10;
+  if (seconds > max) return { status: 'overrun', deviationSeconds: round(seconds - target.maxSeconds) };
+  if (seconds < min) return { status: 'underrun', deviationSeconds: round(seconds - target.minSeconds) };
+  return { status: 'ok', deviationSeconds: 0 };
+}
+
+/**
+ * セクションごとの読み上げ時間を見積もり、目標尺と照合してタイムラインを作る
+ */
+export function timeScript(
+  sections: ScriptSectionInput[],
+  options: { style?: string; language?: ScriptLanguage; totalTarget?: string | number } = {}
+): ScriptTiming {
+  const style = options.style ?? 'default';
+  const rate = speakingRateFor(options.style);
+  const language = options.language ?? detectScriptLanguage(sections.map(s => stripStageDirections(s.text)).join(''));
+  const warnings: string[] = [];
+
+  let cursor = 0;
+  const timings = sections.map(section => {
+    const estimate = estimateSpeakingTime(section.text, { language, rate });
+    const target = section.duration !== undefined ? parseDurationRange(section.duration) ?? undefined : undefined;
+    if (section.duration !== undefined && !target) {
+      warnings.push(`「${section.name}」の目標尺「${section.duration}」を解釈できませんでした`);
+    }
+    const { status, deviationSeconds } = judge(estimate.seconds, target);
+    if (status === 'overrun') {
+      warnings.push(`「${section.name}」が目標尺（${section.duration}）を約${deviationSeconds}秒超過しています（推定${estimate.seconds}秒）`);
+    } else if (status === 'underrun') {
+      warnings.push(`「${section.name}」が目標尺（${section.duration}）より約${-deviationSeconds}秒短くなっています（推定${estimate.seconds}秒）`);
+    }
+
+    const timing: SectionTiming = {
+      name: section.name,
+      ...estimate,
+      startSeconds: Math.round(cursor * 10) / 10,
+      endSeconds: Math.round((cursor + estimate.seconds) * 10) / 10,
+      timestamp: formatTimestamp(cursor * 1000),
+      target,
+      status,
+      deviationSeconds,
+    };
+    cursor += estimate.seconds;
+    return timing;
+  });
+
+  const totalSeconds = Math.round(cursor * 10) / 10;
+  if (options.totalTarget !== undefined) {
+    const target = parseDurationRange(options.totalTarget) ?? undefined;
+    const { status, deviationSeconds } = judge(totalSeconds, target);
+    if (status === 'overrun' || status === 'underrun') {
+      warnings.push(
+        `台本全体の推定時間 ${formatTimestamp(totalSeconds * 1000)} が目標（${options.totalTarget}）から約${Math.abs(deviationSeconds)}秒${status === 'overrun' ? '超過' : '不足'}しています`
+      );
+    }
+  }
+
+  return {
+    language,
+    style,
+    rate,
+    totalSeconds,
+    totalUnits: timings.reduce((sum, t) => sum + t.units, 0),
+    totalCharacters: timings.reduce((sum, t) => sum + t.characters, 0),
+    sections: timings,
+    chapters: timings.map(t => `${t.timestamp} ${t.name}`).join('\n'),
+    warnings,
+  };
+}
+
+/**
+ * 【見出し】で区切られた台本をセクションに分割する
+ */
+export function splitScriptSections(script: string): Array<{ name: string; text: string }> {
+  const sections: Array<{ name: string; text: string }> = [];
+  for (const part of script.split(/(?=【[^】]+】)/)) {
+    const match = part.match(/^【([^】]+)】([\s\S]*)$/);
+    if (match) {
+      sections.push({ name: match[1].trim(), text: match[2].trim() });
+    } else if (part.trim() !== '') {
+      sections.push({ name: 'イントロ', text: part.trim() });
+    }
+  }
+  return sections;
+}
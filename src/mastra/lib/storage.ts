@@ -0,0 +1,41 @@
+import { createClient } from '@libsql/client';
+import type { Client } from '@libsql/client';
+
+// Mastra本体（src/mastra/index.ts）と同じLibSQLファイルを共有する
+const DEFAULT_DB_URL = 'file:../mastra.db';
+
+let sharedClient: Client | null = null;
+
+/**
+ * ツール群が独自テーブルを読み書きするためのLibSQLクライアントを返す。
+ * MASTRA_DB_URL が設定されていればそちらを優先する（テスト時は file::memory: など）。
+ */
+export function getStorageClient(): Client {
+  if (!sharedClient) {
+    sharedClient = createClient({
+      url: process.env.MASTRA_DB_URL || DEFAULT_DB_URL,
+      authToken: process.env.MASTRA_DB_AUTH_TOKEN,
+    });
+  }
+  return sharedClient;
+}
+
+/**
+ * 起動時に一度だけテーブルを作成するためのヘルパー。
+ * 同じDDLに対する初期化Promiseをキャッシュし、並列呼び出しでも1回だけ実行する。
+ */
+export function createSchemaInitializer(client: () => Client, ddl: string[]) {
+  let ready: Promise<void> | null = null;
+  return () => {
+    if (!ready) {
+      ready = client()
+        .batch(ddl, 'write')
+        .then(() => undefined)
+        .catch((error) => {
+          ready = null;
+          throw error;
+        });
+    }
+    return ready;
+  };
+}
@@ -0,0 +1,501 @@
+// サムネイルの可読性チェック（文字と背景のコントラスト比・文字面積・168x94 表示での文字の大きさ・1行の文字数・右下の再生時間表示との重なり）
+
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { contrastRatio, parseHexColor, relativeLuminance, toHexColor } from './color';
+import type { Rgb } from './color';
+import { renderThumbnail, THUMBNAIL_SIZE } from './thumbnail-renderer';
+import type { Box, ThumbnailConcept } from './thumbnail-renderer';
+
+// スマホのおすすめ欄で最も小さく表示されるときのサイズ
+export const MOBILE_DISPLAY_SIZE = { width: 168, height: 94 } as const;
+const DISPLAY_SCALE = MOBILE_DISPLAY_SIZE.width / THUMBNAIL_SIZE.width;
+
+// 再生時間の表示が重なる右下の領域（1280x720 換算）
+export const TIMESTAMP_ZONE: Box = { x: 1060, y: 620, width: 220, height: 100 };
+
+// WCAG 2.x の基準（大きな文字は 3:1、通常の文字は 4.5:1）
+export const CONTRAST_AA = 4.5;
+export const CONTRAST_AA_LARGE = 3;
+
+// 168x94 表示での文字の高さ（px）。これ未満は読みにくい/読めない
+const LEGIBLE_DISPLAY_PX = 10;
+const MARGINAL_DISPLAY_PX = 7;
+
+const MAX_CHARS_PER_LINE = 10;
+const TEXT_AREA_RANGE = { min: 0.08, max: 0.5 } as const;
+
+// 文字領域の推定（エッジの強さのしきい値、セルの大きさ、文字とみなすエッジ密度）
+const EDGE_THRESHOLD = 80;
+const CELL = 20;
+const TEXT_CELL_DENSITY = 0.12;
+const JOIN_COLS = 2;
+const JOIN_ROWS = 1;
+const MIN_REGION_CELLS = 4;
+const MAX_DETECTED_REGIONS = 6;
+const INK_HEIGHT_RATIO = 0.8;
+
+const WEIGHTS = {
+  contrast: 0.35,
+  legibility: 0.3,
+  textArea: 0.15,
+  charsPerLine: 0.1,
+  safeZone: 0.1,
+} as const;
+
+export type LegibilityBreakdown = Record<keyof typeof WEIGHTS, number>;
+
+export interface TextRegionInput extends Box {
+  /** 領域内の文言（\n 区切り）。1行の文字数の評価に使う */
+  text?: string;
+}
+
+export interface TextRegionReport {
+  role: 'main' | 'sub' | 'text';
+  /** concept: コンセプトから描画した位置 / provided: 指定された領域 / detected: 画像から推定した領域 */
+  source: 'concept' | 'provided' | 'detected';
+  box: Box;
+  fontSize?: number;
+  displayHeight?: number;
+  legibility: 'legible' | 'marginal' | 'illegible' | 'unknown';
+  lines?: number;
+  charsPerLine?: number;
+  textColor: string;
+  backgroundColor: string;
+  contrast: {
+    /** 文字色と背景（暗い側10%の画素）のコントラスト比 */
+    textVsBackground: number;
+    /** 縁取り・帯を考慮した実効コントラスト比 */
+    effective: number;
+    /** 縁取りがある場合の、文字色と縁取り・縁取りと背景（暗い側10%の画素）のコントラスト比 */
+    textVsOutline?: number;
+    outlineVsBackground?: number;
+    passesAA: boolean;
+    passesAALarge: boolean;
+  };
+  safeZoneViolation: boolean;
+}
+
+export interface LegibilityReport {
+  score: number;
+  breakdown: LegibilityBreakdown;
+  textAreaRatio: number;
+  regions: TextRegionReport[];
+  fixes: string[];
+  warnings: string[];
+}
+
+interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+function clamp(value: number): number {
+  return Math.round(Math.min(100, Math.max(0, value)));
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+async function decodeImage(source: string | Buffer): Promise<{ pixels: Pixels; aspectMismatch: boolean }> {
+  const image = await loadImage(source);
+  const canvas = createCanvas(THUMBNAIL_SIZE.width, THUMBNAIL_SIZE.height);
+  const ctx = canvas.getContext('2d');
+  // 解析は 1280x720 換算で行う
+  ctx.drawImage(image, 0, 0, THUMBNAIL_SIZE.width, THUMBNAIL_SIZE.height);
+  const { data } = ctx.getImageData(0, 0, THUMBNAIL_SIZE.width, THUMBNAIL_SIZE.height);
+  return {
+    pixels: { data, ...THUMBNAIL_SIZE },
+    aspectMismatch: Math.abs(image.width / image.height - 16 / 9) > 0.02,
+  };
+}
+
+function samplePixels(pixels: Pixels, box: Box, step = 4): Rgb[] {
+  const samples: Rgb[] = [];
+  const x0 = Math.max(0, Math.floor(box.x));
+  const y0 = Math.max(0, Math.floor(box.y));
+  const x1 = Math.min(pixels.width, Math.ceil(box.x + box.width));
+  const y1 = Math.min(pixels.height, Math.ceil(box.y + box.height));
+  for (let y = y0; y < y1; y += step) {
+    for (let x = x0; x < x1; x += step) {
+      const i = (y * pixels.width + x) * 4;
+      samples.push([pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]]);
+    }
+  }
+  return samples;
+}
+
+function meanColor(colors: Rgb[]): Rgb {
+  const sum = colors.reduce<Rgb>((acc, c) => [acc[0] + c[0], acc[1] + c[1], acc[2] + c[2]], [0, 0, 0]);
+  return sum.map(v => v / Math.max(1, colors.length)) as Rgb;
+}
+
+/**
+ * 文字色と背景の各画素のコントラスト比のうち、低い側10%の値（背景のムラで読めなくなる部分を拾う）
+ */
+function worstContrast(text: Rgb, background: Rgb[]): number {
+  if (background.length === 0) return 21;
+  const ratios = background.map(bg => contrastRatio(text, bg)).sort((a, b) => a - b);
+  return ratios[Math.floor(ratios.length * 0.1)];
+}
+
+/**
+ * 領域の画素を輝度で2つに分け、少ない側を文字、多い側を背景とみなす（2-means）
+ */
+function splitTextAndBackground(samples: Rgb[]): { text: Rgb; background: Rgb } {
+  const luminances = samples.map(relativeLuminance);
+  // 1280x720 の領域では画素数が多く、スプレッド構文の Math.min/max は引数の上限を超える
+  let low = Infinity;
+  let high = -Infinity;
+  for (const luminance of luminances) {
+    if (luminance < low) low = luminance;
+    if (luminance > high) high = luminance;
+  }
+  let dark: Rgb[] = [];
+  let light: Rgb[] = [];
+  for (let iteration = 0; iteration < 8; iteration++) {
+    const threshold = (low + high) / 2;
+    dark = samples.filter((_, i) => luminances[i] < threshold);
+    light = samples.filter((_, i) => luminances[i] >= threshold);
+    if (dark.length === 0 || light.length === 0) break;
+    low = relativeLuminance(meanColor(dark));
+    high = relativeLuminance(meanColor(light));
+  }
+  if (dark.length === 0 || light.length === 0) {
+    const mean = meanColor(samples);
+    return { text: mean, background: mean };
+  }
+  return dark.length < light.length
+    ? { text: meanColor(dark), background: meanColor(light) }
+    : { text: meanColor(light), background: meanColor(dark) };
+}
+
+function luma(pixels: Pixels, x: number, y: number): number {
+  const i = (y * pixels.width + x) * 4;
+  return 0.299 * pixels.data[i] + 0.587 * pixels.data[i + 1] + 0.114 * pixels.data[i + 2];
+}
+
+function edgeMap(pixels: Pixels): Uint8Array {
+  const edges = new Uint8Array(pixels.width * pixels.height);
+  for (let y = 1; y < pixels.height - 1; y++) {
+    for (let x = 1; x < pixels.width - 1; x++) {
+      const gx = Math.abs(luma(pixels, x + 1, y) - luma(pixels, x - 1, y));
+      const gy = Math.abs(luma(pixels, x, y + 1) - luma(pixels, x, y - 1));
+      if (gx + gy > EDGE_THRESHOLD) edges[y * pixels.width + x] = 1;
+    }
+  }
+  return edges;
+}
+
+/**
+ * 強いエッジが密集したセルをつなげて文字らしい領域を推定する（OCR ではないため目安）
+ */
+function detectTextRegions(pixels: Pixels, edges: Uint8Array): Box[] {
+  const cols = Math.floor(pixels.width / CELL);
+  const rows = Math.floor(pixels.height / CELL);
+  const dense = new Uint8Array(cols * rows);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      let count = 0;
+      for (let y = r * CELL; y < (r + 1) * CELL; y++) {
+        for (let x = c * CELL; x < (c + 1) * CELL; x++) {
+          count += edges[y * pixels.width + x];
+        }
+      }
+      if (count / (CELL * CELL) >= TEXT_CELL_DENSITY) dense[r * cols + c] = 1;
+    }
+  }
+
+  // 文字間・行間のすき間を埋めるため、横2セル・縦1セルまで離れたセルを同じ領域としてつなぐ
+  const joined = new Uint8Array(cols * rows);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (!dense[r * cols + c]) continue;
+      for (let dr = -JOIN_ROWS; dr <= JOIN_ROWS; dr++) {
+        for (let dc = -JOIN_COLS; dc <= JOIN_COLS; dc++) {
+          const nr = r + dr;
+          const nc = c + dc;
+          if (nr >= 0 && nr < rows && nc >= 0 && nc < cols) joined[nr * cols + nc] = 1;
+        }
+      }
+    }
+  }
+
+  const visited = new Uint8Array(cols * rows);
+  const regions: Array<Box & { cells: number }> = [];
+  for (let start = 0; start < dense.length; start++) {
+    if (!dense[start] || visited[start]) continue;
+    const stack = [start];
+    visited[start] = 1;
+    let cells = 0;
+    const bounds = { minC: cols, minR: rows, maxC: 0, maxR: 0 };
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const r = Math.floor(cell / cols);
+      const c = cell % cols;
+      // 領域の外枠はつなぎのセルを除いた、実際にエッジが密なセルで決める
+      if (dense[cell]) {
+        cells++;
+        bounds.minC = Math.min(bounds.minC, c);
+        bounds.maxC = Math.max(bounds.maxC, c);
+        bounds.minR = Math.min(bounds.minR, r);
+        bounds.maxR = Math.max(bounds.maxR, r);
+      }
+      for (const [dr, dc] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+        const nr = r + dr;
+        const nc = c + dc;
+        const next = nr * cols + nc;
+        if (nr >= 0 && nr < rows && nc >= 0 && nc < cols && joined[next] && !visited[next]) {
+          visited[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+    if (cells >= MIN_REGION_CELLS) {
+      regions.push({
+        x: bounds.minC * CELL,
+        y: bounds.minR * CELL,
+        width: (bounds.maxC - bounds.minC + 1) * CELL,
+        height: (bounds.maxR - bounds.minR + 1) * CELL,
+        cells,
+      });
+    }
+  }
+  return regions
+    .sort((a, b) => b.cells - a.cells)
+    .slice(0, MAX_DETECTED_REGIONS)
+    .map(({ cells: _cells, ...box }) => box);
+}
+
+/**
+ * 横方向の投影で文字の行を数え、行の高さの中央値を文字サイズとみなす
+ */
+function estimateLines(edges: Uint8Array, width: number, box: Box): { lines: number; fontSize?: number } {
+  const inked: boolean[] = [];
+  for (let y = box.y; y < box.y + box.height; y++) {
+    let count = 0;
+    for (let x = box.x; x < box.x + box.width; x++) {
+      count += edges[y * width + x];
+    }
+    inked.push(count / box.width > 0.03);
+  }
+  const bands: number[] = [];
+  let run = 0;
+  let gap = 0;
+  for (const ink of [...inked, false, false, false]) {
+    if (ink) {
+      run += gap + 1;
+      gap = 0;
+    } else if (run > 0 && ++gap > 2) {
+      if (run >= 8) bands.push(run);
+      run = 0;
+      gap = 0;
+    }
+  }
+  if (bands.length === 0) return { lines: 0 };
+  const sorted = [...bands].sort((a, b) => a - b);
+  // 字面の高さは文字サイズの8割程度
+  return { lines: bands.length, fontSize: Math.round(sorted[Math.floor(sorted.length / 2)] / INK_HEIGHT_RATIO) };
+}
+
+function intersects(a: Box, b: Box): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function legibilityOf(fontSize: number | undefined): { displayHeight?: number; legibility: TextRegionReport['legibility'] } {
+  if (fontSize === undefined) return { legibility: 'unknown' };
+  const displayHeight = round(fontSize * DISPLAY_SCALE, 1);
+  const legibility = displayHeight >= LEGIBLE_DISPLAY_PX ? 'legible' : displayHeight >= MARGINAL_DISPLAY_PX ? 'marginal' : 'illegible';
+  return { displayHeight, legibility };
+}
+
+function contrastReport(
+  textVsBackground: number,
+  effective: number,
+  outline?: { textVsOutline: number; outlineVsBackground: number }
+): TextRegionReport['contrast'] {
+  return {
+    textVsBackground: round(textVsBackground),
+    effective: round(effective),
+    ...(outline && {
+      textVsOutline: round(outline.textVsOutline),
+      outlineVsBackground: round(outline.outlineVsBackground),
+    }),
+    passesAA: effective >= CONTRAST_AA,
+    passesAALarge: effective >= CONTRAST_AA_LARGE,
+  };
+}
+
+function betterTextColor(background: Rgb): string {
+  return contrastRatio([255, 255, 255], background) >= contrastRatio([0, 0, 0], background) ? '#FFFFFF' : '#000000';
+}
+
+function scoreReport(regions: TextRegionReport[], textAreaRatio: number, warnings: string[]): LegibilityReport {
+  const fixes: string[] = [];
+  const label = (region: TextRegionReport) =>
+    region.role === 'main' ? 'メインテキスト' : region.role === 'sub' ? 'サブテキスト' : `文字領域(${region.box.x},${region.box.y})`;
+
+  for (const region of regions) {
+    if (!region.contrast.passesAA) {
+      fixes.push(
+        `${label(region)}のコントラスト比が${region.contrast.effective}:1です（目標${CONTRAST_AA}:1以上）。` +
+          `文字色を${betterTextColor(parseHexColor(region.backgroundColor)!)}にするか、太い縁取り・帯を付けてください`
+      );
+    }
+    if (region.legibility === 'illegible' || region.legibility === 'marginal') {
+      const needed = Math.ceil(LEGIBLE_DISPLAY_PX / DISPLAY_SCALE);
+      fixes.push(
+        `${label(region)}は168x94表示で文字の高さが${region.displayHeight}pxです。` +
+          `文言を減らして文字サイズを${needed}px以上（1280x720換算）にしてください`
+      );
+    }
+    if (region.charsPerLine !== undefined && region.charsPerLine > MAX_CHARS_PER_LINE) {
+      fixes.push(`${label(region)}の1行が${region.charsPerLine}文字です。${MAX_CHARS_PER_LINE}文字以内で改行するか、言葉を削ってください`);
+    }
+    if (region.safeZoneViolation) {
+      fixes.push(`${label(region)}が右下の再生時間の表示と重なっています。左側か上側へ移動してください`);
+    }
+  }
+  if (regions.length > 0 && textAreaRatio < TEXT_AREA_RANGE.min) {
+    fixes.push(`文字の面積が${Math.round(textAreaRatio * 100)}%しかありません。キーワードを大きく配置してください`);
+  } else if (textAreaRatio > TEXT_AREA_RANGE.max) {
+    fixes.push(`文字の面積が${Math.round(textAreaRatio * 100)}%あり詰め込みすぎです。文言を絞ってください`);
+  }
+
+  // メインテキスト（なければ最も大きい領域）を中心に評価する
+  const primary = regions.find(r => r.role === 'main') ?? [...regions].sort((a, b) => b.box.width * b.box.height - a.box.width * a.box.height)[0];
+  const worstEffective = Math.min(...regions.map(r => r.contrast.effective));
+  const breakdown: LegibilityBreakdown = regions.length === 0
+    ? { contrast: 0, legibility: 0, textArea: 0, charsPerLine: 100, safeZone: 100 }
+    : {
+        contrast: clamp(((0.7 * primary.contrast.effective + 0.3 * worstEffective - 1) / (CONTRAST_AA - 1)) * 100),
+        legibility: primary.displayHeight === undefined
+          ? 50
+          : clamp(((primary.displayHeight - 5) / (LEGIBLE_DISPLAY_PX - 5)) * 100),
+        textArea: textAreaRatio < TEXT_AREA_RANGE.min
+          ? clamp((textAreaRatio / TEXT_AREA_RANGE.min) * 100)
+          : clamp(100 - Math.max(0, textAreaRatio - TEXT_AREA_RANGE.max) * 250),
+        charsPerLine: clamp(100 - 10 * Math.max(0, Math.max(0, ...regions.map(r => r.charsPerLine ?? 0)) - MAX_CHARS_PER_LINE)),
+        safeZone: regions.some(r => r.safeZoneViolation) ? 0 : 100,
+      };
+  if (regions.length === 0) {
+    warnings.push('文字が見つかりませんでした。文字入りのサムネイルなら textRegions で位置を指定してください');
+  }
+
+  const score = clamp(
+    (Object.keys(WEIGHTS) as Array<keyof typeof WEIGHTS>).reduce((sum, key) => sum + WEIGHTS[key] * breakdown[key], 0)
+  );
+  return { score, breakdown, textAreaRatio: round(textAreaRatio, 3), regions, fixes, warnings };
+}
+
+function textAreaOf(boxes: Box[]): number {
+  const area = boxes.reduce((sum, b) => sum + b.width * b.height, 0);
+  return Math.min(1, area / (THUMBNAIL_SIZE.width * THUMBNAIL_SIZE.height));
+}
+
+/**
+ * サムネイル生成ツールのコンセプトを描画し、文字の位置・色が分かっている前提で評価する
+ */
+export async function analyzeThumbnailConcept(concept: ThumbnailConcept, options: { fontPaths?: string[] } = {}): Promise<LegibilityReport> {
+  const rendered = await renderThumbnail(concept, options);
+  // 文字の下の背景を調べるため、文字なしでもう一度描画する
+  const bare = await renderThumbnail({ ...concept, mainText: '', subText: undefined }, options);
+  const { pixels } = await decodeImage(bare.png);
+  const warnings = [...rendered.warnings];
+
+  const regions = rendered.textBoxes.map((box): TextRegionReport => {
+    const text = parseHexColor(box.color) ?? [255, 255, 255];
+    let textVsBackground: number;
+    let effective: number;
+    let background: Rgb;
+    let outlineContrast: { textVsOutline: number; outlineVsBackground: number } | undefined;
+    if (box.backgroundColor) {
+      background = parseHexColor(box.backgroundColor) ?? meanColor(samplePixels(pixels, box));
+      textVsBackground = contrastRatio(text, background);
+      effective = textVsBackground;
+    } else {
+      const samples = samplePixels(pixels, box);
+      background = meanColor(samples);
+      textVsBackground = worstContrast(text, samples);
+      const outline = box.outlineColor ? parseHexColor(box.outlineColor) : undefined;
+      // 縮小表示でも1px以上残る縁取りは文字と背景を分離する
+      const outlineVisible = outline && (box.outlineWidth ?? 0) / 2 * DISPLAY_SCALE >= 0.5;
+      if (outlineVisible) {
+        // 縁取りが効くのは文字と縁取り、縁取りと背景の両方に差があるときだけ（背景と同じ色の縁取りは輪郭にならない）
+        outlineContrast = {
+          textVsOutline: contrastRatio(text, outline),
+          outlineVsBackground: worstContrast(outline, samples),
+        };
+        effective = Math.max(textVsBackground, Math.min(outlineContrast.textVsOutline, outlineContrast.outlineVsBackground));
+      } else {
+        effective = textVsBackground;
+      }
+    }
+    return {
+      role: box.role,
+      source: 'concept',
+      box: { x: box.x, y: box.y, width: box.width, height: box.height },
+      fontSize: box.fontSize,
+      ...legibilityOf(box.fontSize),
+      lines: box.lines.length,
+      charsPerLine: Math.max(...box.lines.map(line => [...line].length)),
+      textColor: toHexColor(text),
+      backgroundColor: toHexColor(background),
+      contrast: contrastReport(textVsBackground, effective, outlineContrast),
+      safeZoneViolation: intersects(box, TIMESTAMP_ZONE),
+    };
+  });
+
+  return scoreReport(regions, textAreaOf(regions.map(r => r.box)), warnings);
+}
+
+/**
+ * 画像ファイル（または PNG/JPEG のバイト列）を評価する
+ * textRegions を省略した場合は、エッジの密度から文字の領域を推定する
+ */
+export async function analyzeThumbnailImage(source: string | Buffer, textRegions?: TextRegionInput[]): Promise<LegibilityReport> {
+  const { pixels, aspectMismatch } = await decodeImage(source);
+  const warnings: string[] = [];
+  if (aspectMismatch) {
+    warnings.push('画像が16:9ではありません。YouTubeでは黒帯が付くか切り取られます');
+  }
+  const edges = edgeMap(pixels);
+  const boxes: Array<{ box: Box; text?: string; source: 'provided' | 'detected' }> = textRegions
+    ? textRegions.map(({ text, ...box }) => ({ box, text, source: 'provided' }))
+    : detectTextRegions(pixels, edges).map(box => ({ box, source: 'detected' }));
+  if (!textRegions && boxes.length > 0) {
+    warnings.push('文字の領域は画像から推定したものです。正確に評価するには textRegions を指定してください');
+  }
+
+  const regions = boxes.map(({ box, text, source }): TextRegionReport => {
+    const clipped = {
+      x: Math.max(0, Math.round(box.x)),
+      y: Math.max(0, Math.round(box.y)),
+      width: Math.min(THUMBNAIL_SIZE.width - Math.max(0, Math.round(box.x)), Math.round(box.width)),
+      height: Math.min(THUMBNAIL_SIZE.height - Math.max(0, Math.round(box.y)), Math.round(box.height)),
+    };
+    const split = splitTextAndBackground(samplePixels(pixels, clipped, 2));
+    const contrast = contrastRatio(split.text, split.background);
+    const lineInfo = estimateLines(edges, pixels.width, clipped);
+    const textLines = text?.split('\n').filter(line => line.trim() !== '');
+    const lines = textLines?.length ?? lineInfo.lines;
+    const fontSize = textLines && textLines.length > 0 ? Math.round(clipped.height / textLines.length / 1.15) : lineInfo.fontSize;
+    return {
+      role: 'text',
+      source,
+      box: clipped,
+      fontSize,
+      ...legibilityOf(fontSize),
+      lines,
+      charsPerLine: textLines ? Math.max(...textLines.map(line => [...line.trim()].length)) : undefined,
+      textColor: toHexColor(split.text),
+      backgroundColor: toHexColor(split.background),
+      contrast: contrastReport(contrast, contrast),
+      safeZoneViolation: intersects(clipped, TIMESTAMP_ZONE),
+    };
+  });
+
+  return scoreReport(regions, textAreaOf(regions.map(r => r.box)), warnings);
+}
@@ -0,0 +1,408 @@
+// サムネイルのコンセプトから 1280x720 の PNG をローカルで描画する（ネットワーク不要・同じ入力なら同じ画像）
+
+import { existsSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { createCanvas, GlobalFonts, loadImage } from '@napi-rs/canvas';
+import type { SKRSContext2D } from '@napi-rs/canvas';
+import { mixColors, parseHexColor, relativeLuminance, toHexColor } from './color';
+
+export const THUMBNAIL_SIZE = { width: 1280, height: 720 } as const;
+
+export const THUMBNAIL_LAYOUTS = ['text_left', 'text_right', 'text_center', 'text_top', 'text_bottom'] as const;
+export type ThumbnailLayout = (typeof THUMBNAIL_LAYOUTS)[number];
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type ThumbnailBackground =
+  | { type: 'solid'; color: string }
+  | { type: 'gradient'; colors: string[]; angle?: number };
+
+export interface ThumbnailConcept {
+  mainText: string;
+  subText?: string;
+  layout: ThumbnailLayout;
+  background: ThumbnailBackground;
+  textColor: string;
+  outlineColor: string;
+  /** サブテキストの帯の色 */
+  accentColor: string;
+  /** 顔写真・商品画像のパス */
+  imagePath?: string;
+  imageFit?: 'contain' | 'cover';
+  shadow?: boolean;
+}
+
+export interface RenderedTextBox extends Box {
+  role: 'main' | 'sub';
+  fontSize: number;
+  lines: string[];
+  color: string;
+  /** 文字の背景（帯）の色。帯がなければ undefined */
+  backgroundColor?: string;
+  outlineColor?: string;
+  /** 縁取りの線幅（px、文字の外側にはその半分がはみ出す） */
+  outlineWidth?: number;
+}
+
+export interface RenderedThumbnail {
+  png: Buffer;
+  width: number;
+  height: number;
+  layout: ThumbnailLayout;
+  textBoxes: RenderedTextBox[];
+  imageBox?: Box;
+  warnings: string[];
+}
+
+interface LayoutPreset {
+  text: Box;
+  align: 'left' | 'center' | 'right';
+  /** 'background' は画像を全面に敷いて暗くする */
+  image: Box | 'background';
+}
+
+// 右下は再生時間の表示に隠れるため、文字を置かない
+const LAYOUT_PRESETS: Record<ThumbnailLayout, LayoutPreset> = {
+  text_left: { text: { x: 60, y: 70, width: 700, height: 540 }, align: 'left', image: { x: 720, y: 60, width: 560, height: 660 } },
+  text_right: { text: { x: 520, y: 70, width: 700, height: 500 }, align: 'right', image: { x: 0, y: 60, width: 560, height: 660 } },
+  text_center: { text: { x: 80, y: 110, width: 1120, height: 460 }, align: 'center', image: 'background' },
+  text_top: { text: { x: 60, y: 40, width: 1160, height: 300 }, align: 'center', image: { x: 340, y: 340, width: 600, height: 380 } },
+  text_bottom: { text: { x: 60, y: 400, width: 960, height: 280 }, align: 'left', image: { x: 340, y: 20, width: 600, height: 380 } },
+};
+
+const MAIN_FONT = { max: 180, min: 48, step: 4, maxLines: 3, lineHeight: 1.15 } as const;
+const SUB_FONT = { max: 80, min: 28, step: 2, maxLines: 1, lineHeight: 1.2 } as const;
+const SUB_BAND_PADDING = 16;
+const SUB_GAP = 24;
+const BACKGROUND_IMAGE_DIM = 0.45;
+
+// 主要な日本語フォントのファミリー名（THUMBNAIL_FONT_PATH 未設定時にシステムフォントから探す）
+const CJK_FAMILIES = ['Noto Sans CJK JP', 'Noto Sans JP', 'Hiragino Sans', 'Yu Gothic', 'Meiryo', 'IPAexGothic', 'IPAGothic', 'Source Han Sans JP'];
+const FONT_ALIAS = 'ThumbnailFont';
+
+// 行頭に置かない文字（禁則処理）
+const NO_LINE_START = /^[、。，．！？!?ー〜」』）】・…ぁぃぅぇぉっゃゅょァィゥェォッャュョ]/;
+
+let fontFamily: string | undefined;
+const registeredFontPaths = new Set<string>();
+
+/**
+ * THUMBNAIL_FONT_PATH（カンマ区切り可）か、システムの日本語フォントを使う
+ */
+export function resolveThumbnailFont(fontPaths: string[] = (process.env.THUMBNAIL_FONT_PATH ?? '').split(',')): string | undefined {
+  const paths = fontPaths.map(p => p.trim()).filter(Boolean);
+  for (const path of paths) {
+    if (registeredFontPaths.has(path)) continue;
+    if (!existsSync(path)) {
+      throw new Error(`Thumbnail font not found: ${path}`);
+    }
+    if (!GlobalFonts.registerFromPath(path, FONT_ALIAS)) {
+      throw new Error(`Failed to load thumbnail font: ${path}`);
+    }
+    registeredFontPaths.add(path);
+  }
+  if (paths.length > 0) {
+    fontFamily = FONT_ALIAS;
+    return fontFamily;
+  }
+  fontFamily ??= CJK_FAMILIES.find(family => GlobalFonts.has(family));
+  return fontFamily;
+}
+
+function fontSpec(size: number, family: string | undefined): string {
+  return `900 ${size}px ${family ? `"${family}", ` : ''}sans-serif`;
+}
+
+/**
+ * 英数字の並びは1語、それ以外は1文字ずつに分ける（分かち書きのない日本語向け）
+ */
+function tokenize(text: string): string[] {
+  return text.match(/[A-Za-z0-9.,'%$+\-]+|\s+|./gu) ?? [];
+}
+
+function wrapText(ctx: SKRSContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const token of tokenize(paragraph)) {
+      const candidate = line + token;
+      if (line !== '' && ctx.measureText(candidate).width > maxWidth && !NO_LINE_START.test(token)) {
+        lines.push(line.trimEnd());
+        line = token.trimStart();
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line.trimEnd());
+  }
+  return lines.filter(l => l !== '');
+}
+
+/**
+ * 枠に収まる最大の文字サイズと改行位置を探す
+ */
+function fitText(
+  ctx: SKRSContext2D,
+  text: string,
+  box: Pick<Box, 'width' | 'height'>,
+  font: { max: number; min: number; step: number; maxLines: number; lineHeight: number },
+  family: string | undefined,
+  outline: number
+): { size: number; lines: string[]; overflow: boolean } {
+  for (let size = font.max; size >= font.min; size -= font.step) {
+    ctx.font = fontSpec(size, family);
+    const lines = wrapText(ctx, text, box.width - outline * 2);
+    if (lines.length <= font.maxLines && lines.length * size * font.lineHeight <= box.height) {
+      return { size, lines, overflow: false };
+    }
+  }
+  ctx.font = fontSpec(font.min, family);
+  return { size: font.min, lines: wrapText(ctx, text, box.width - outline * 2), overflow: true };
+}
+
+function paintBackground(ctx: SKRSContext2D, background: ThumbnailBackground): void {
+  const { width, height } = THUMBNAIL_SIZE;
+  if (background.type === 'solid' || background.colors.length === 1) {
+    ctx.fillStyle = background.type === 'solid' ? background.color : background.colors[0];
+    ctx.fillRect(0, 0, width, height);
+    return;
+  }
+  // 角度は CSS と同じく 0° が下→上、90° が左→右
+  const radians = ((background.angle ?? 135) * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  const gradient = ctx.createLinearGradient(
+    width / 2 - dx * half,
+    height / 2 - dy * half,
+    width / 2 + dx * half,
+    height / 2 + dy * half
+  );
+  background.colors.forEach((color, i) => gradient.addColorStop(i / (background.colors.length - 1), color));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+}
+
+async function paintImage(ctx: SKRSContext2D, path: string, box: Box, fit: 'contain' | 'cover'): Promise<Box> {
+  const image = await loadImage(path);
+  const scale = fit === 'cover'
+    ? Math.max(box.width / image.width, box.height / image.height)
+    : Math.min(box.width / image.width, box.height / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  // 人物・商品は枠の下端に揃える
+  const drawn = {
+    x: Math.round(box.x + (box.width - width) / 2),
+    y: Math.round(fit === 'cover' ? box.y + (box.height - height) / 2 : box.y + box.height - height),
+    width: Math.round(width),
+    height: Math.round(height),
+  };
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(box.x, box.y, box.width, box.height);
+  ctx.clip();
+  ctx.drawImage(image, drawn.x, drawn.y, drawn.width, drawn.height);
+  ctx.restore();
+  return fit === 'cover' ? box : drawn;
+}
+
+function lineX(box: Box, align: LayoutPreset['align']): number {
+  if (align === 'center') return box.x + box.width / 2;
+  return align === 'right' ? box.x + box.width : box.x;
+}
+
+export async function renderThumbnail(concept: ThumbnailConcept, options: { fontPaths?: string[] } = {}): Promise<RenderedThumbnail> {
+  const warnings: string[] = [];
+  const preset = LAYOUT_PRESETS[concept.layout];
+  if (!preset) {
+    throw new Error(`Unknown thumbnail layout: ${concept.layout}`);
+  }
+  const family = resolveThumbnailFont(options.fontPaths);
+  if (!family && /[^\x00-\x7F]/.test(concept.mainText + (concept.subText ?? ''))) {
+    warnings.push('日本語フォントが見つかりません。THUMBNAIL_FONT_PATH にフォントファイルを指定してください');
+  }
+
+  const canvas = createCanvas(THUMBNAIL_SIZE.width, THUMBNAIL_SIZE.height);
+  const ctx = canvas.getContext('2d');
+  paintBackground(ctx, concept.background);
+
+  let imageBox: Box | undefined;
+  if (concept.imagePath) {
+    if (!existsSync(concept.imagePath)) {
+      throw new Error(`Thumbnail image not found: ${concept.imagePath}`);
+    }
+    if (preset.image === 'background') {
+      imageBox = await paintImage(ctx, concept.imagePath, { x: 0, y: 0, ...THUMBNAIL_SIZE }, 'cover');
+      ctx.fillStyle = `rgba(0, 0, 0, ${BACKGROUND_IMAGE_DIM})`;
+      ctx.fillRect(0, 0, THUMBNAIL_SIZE.width, THUMBNAIL_SIZE.height);
+    } else {
+      imageBox = await paintImage(ctx, concept.imagePath, preset.image, concept.imageFit ?? 'contain');
+    }
+  }
+
+  const textBoxes: RenderedTextBox[] = [];
+  const outline = 10;
+  const subText = concept.subText?.trim();
+  const subHeight = subText ? SUB_FONT.max * SUB_FONT.lineHeight + SUB_BAND_PADDING * 2 : 0;
+  const mainArea: Box = { ...preset.text, height: preset.text.height - (subText ? subHeight + SUB_GAP : 0) };
+
+  ctx.textBaseline = 'top';
+  ctx.textAlign = preset.align;
+  ctx.lineJoin = 'round';
+
+  let mainBottom = mainArea.y;
+  if (concept.mainText.trim()) {
+    const fitted = fitText(ctx, concept.mainText.trim(), mainArea, MAIN_FONT, family, outline);
+    if (fitted.overflow) {
+      warnings.push(`メインテキストが枠に収まりません（${fitted.lines.length}行）。文言を短くしてください`);
+    }
+    const lineHeight = fitted.size * MAIN_FONT.lineHeight;
+    const blockHeight = fitted.lines.length * lineHeight;
+    // 文字ブロックは枠の縦中央に置く
+    const top = Math.round(mainArea.y + Math.max(0, (mainArea.height - blockHeight) / 2));
+    ctx.font = fontSpec(fitted.size, family);
+    const x = lineX(mainArea, preset.align);
+    const lineWidth = Math.max(6, Math.round(fitted.size * 0.12));
+
+    if (concept.shadow !== false) {
+      ctx.save();
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+      ctx.shadowBlur = 12;
+      ctx.shadowOffsetX = 6;
+      ctx.shadowOffsetY = 6;
+      ctx.strokeStyle = concept.outlineColor;
+      ctx.lineWidth = lineWidth;
+      fitted.lines.forEach((line, i) => ctx.strokeText(line, x, top + i * lineHeight));
+      ctx.restore();
+    }
+    ctx.strokeStyle = concept.outlineColor;
+    ctx.lineWidth = lineWidth;
+    ctx.fillStyle = concept.textColor;
+    fitted.lines.forEach((line, i) => {
+      ctx.strokeText(line, x, top + i * lineHeight);
+      ctx.fillText(line, x, top + i * lineHeight);
+    });
+
+    const width = Math.round(Math.max(...fitted.lines.map(line => ctx.measureText(line).width)) + lineWidth);
+    const left = preset.align === 'center' ? x - width / 2 : preset.align === 'right' ? x - width : x - lineWidth / 2;
+    textBoxes.push({
+      role: 'main',
+      x: Math.round(left),
+      y: top,
+      width,
+      height: Math.round(blockHeight),
+      fontSize: fitted.size,
+      lines: fitted.lines,
+      color: concept.textColor,
+      outlineColor: concept.outlineColor,
+      outlineWidth: lineWidth,
+    });
+    mainBottom = top + blockHeight;
+  }
+
+  if (subText) {
+    const fitted = fitText(
+      ctx,
+      subText,
+      { width: preset.text.width - SUB_BAND_PADDING * 2, height: SUB_FONT.max * SUB_FONT.lineHeight },
+      SUB_FONT,
+      family,
+      0
+    );
+    if (fitted.overflow) {
+      warnings.push('サブテキストが1行に収まりません。文言を短くしてください');
+    }
+    ctx.font = fontSpec(fitted.size, family);
+    const textWidth = Math.max(...fitted.lines.map(line => ctx.measureText(line).width));
+    const band = {
+      width: Math.round(textWidth + SUB_BAND_PADDING * 2),
+      height: Math.round(fitted.size * SUB_FONT.lineHeight + SUB_BAND_PADDING * 2),
+    };
+    const bandX = preset.align === 'center'
+      ? preset.text.x + (preset.text.width - band.width) / 2
+      : preset.align === 'right' ? preset.text.x + preset.text.width - band.width : preset.text.x;
+    const bandY = Math.round(Math.min(mainBottom + SUB_GAP, preset.text.y + preset.text.height - band.height));
+    ctx.fillStyle = concept.accentColor;
+    ctx.fillRect(Math.round(bandX), bandY, band.width, band.height);
+    ctx.textAlign = 'center';
+    ctx.fillStyle = concept.textColor;
+    fitted.lines.forEach((line, i) =>
+      ctx.fillText(line, bandX + band.width / 2, bandY + SUB_BAND_PADDING + i * fitted.size * SUB_FONT.lineHeight)
+    );
+    textBoxes.push({
+      role: 'sub',
+      x: Math.round(bandX),
+      y: bandY,
+      ...band,
+      fontSize: fitted.size,
+      lines: fitted.lines,
+      color: concept.textColor,
+      backgroundColor: concept.accentColor,
+    });
+  }
+
+  return {
+    png: await canvas.encode('png'),
+    ...THUMBNAIL_SIZE,
+    layout: concept.layout,
+    textBoxes,
+    imageBox,
+    warnings,
+  };
+}
+
+export async function renderThumbnailToFile(
+  concept: ThumbnailConcept,
+  outputPath: string,
+  options: { fontPaths?: string[] } = {}
+): Promise<Omit<RenderedThumbnail, 'png'> & { path: string; bytes: number }> {
+  const { png, ...rendered } = await renderThumbnail(concept, options);
+  await mkdir(dirname(outputPath), { recursive: true });
+  await writeFile(outputPath, png);
+  return { ...rendered, path: outputPath, bytes: png.length };
+}
+
+export interface ThumbnailColorScheme {
+  primary: string;
+  secondary: string;
+  accent: string;
+}
+
+/**
+ * サムネイル生成ツールのカラースキーム（背景・文字・アクセント）から描画用のコンセプトを作る
+ */
+export function conceptFromColorScheme(
+  input: { mainText: string; subText?: string; colorScheme: ThumbnailColorScheme; layout?: ThumbnailLayout; imagePath?: string },
+  overrides: Partial<ThumbnailConcept> = {}
+): ThumbnailConcept {
+  const { primary, secondary, accent } = input.colorScheme;
+  return {
+    mainText: input.mainText,
+    subText: input.subText,
+    layout: input.layout ?? 'text_left',
+    background: { type: 'gradient', colors: [primary, mixWithBlack(primary, 0.45)] },
+    textColor: secondary,
+    // 文字色が暗ければ白、明るければ黒で縁取る
+    outlineColor: isDarkColor(secondary) ? '#FFFFFF' : '#000000',
+    accentColor: accent,
+    imagePath: input.imagePath,
+    ...overrides,
+  };
+}
+
+function mixWithBlack(color: string, amount: number): string {
+  const rgb = parseHexColor(color);
+  return rgb ? toHexColor(mixColors(rgb, [0, 0, 0], amount)) : color;
+}
+
+// 白と黒のコントラスト比が等しくなる輝度より暗いか
+function isDarkColor(color: string): boolean {
+  const rgb = parseHexColor(color);
+  return rgb ? relativeLuminance(rgb) < 0.179 : false;
+}
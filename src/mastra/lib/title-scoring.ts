@@ -0,0 +1,404 @@
+// 動画タイトルの採点（表示幅・省略位置・キーワード位置・【】・数字・感情語・既存タイトルとの類似度）と候補生成
+
+import { YOUTUBE_LIMITS } from './publishing-package';
+
+export type TitleEmotion = 'curiosity' | 'fear' | 'excitement' | 'urgency';
+
+export const TITLE_EMOTIONAL_WORDS: Record<TitleEmotion, string[]> = {
+  curiosity: ['秘密', '真実', '知らない', '発見', '裏技', '本当'],
+  fear: ['危険', '失敗', '後悔', '損する', '注意', 'やばい'],
+  excitement: ['驚き', '革命', '最強', '圧倒的', '神', '衝撃'],
+  urgency: ['今すぐ', '期間限定', '最後', '緊急', '急げ', '今だけ'],
+};
+
+// 表示幅は半角1・全角2で数える
+// スマホのおすすめ・検索結果で2行に収まるのは全角30文字前後、PCの検索結果は全角50文字前後
+export const TITLE_DISPLAY_WIDTHS = {
+  mobile: 60,
+  desktop: 100,
+} as const;
+
+// 既存タイトルとの類似度がこれ以上なら重複とみなす
+export const DUPLICATE_SIMILARITY = 0.8;
+const SIMILAR_WARNING = 0.6;
+const SECONDARY_KEYWORD_FACTOR = 0.7;
+
+const WEIGHTS = {
+  length: 0.2,
+  keywordPosition: 0.25,
+  brackets: 0.1,
+  numbers: 0.1,
+  emotionalWords: 0.15,
+  uniqueness: 0.2,
+} as const;
+
+export type TitleScoreBreakdown = Record<keyof typeof WEIGHTS, number>;
+
+export interface TitleTruncation {
+  truncated: boolean;
+  preview: string;
+}
+
+export interface SimilarTitle {
+  similarity: number;
+  title?: string;
+}
+
+export interface TitleScore {
+  title: string;
+  characterCount: number;
+  displayWidth: number;
+  truncation: Record<keyof typeof TITLE_DISPLAY_WIDTHS, TitleTruncation>;
+  /** 評価に使ったキーワード */
+  keyword?: string;
+  /** キーワードの開始位置（表示幅）。含まれていなければ undefined */
+  keywordOffset?: number;
+  keywordVisibleOnMobile: boolean;
+  bracketPairs: number;
+  numberCount: number;
+  emotionalWords: string[];
+  similarity: {
+    channel: SimilarTitle;
+    competitor: SimilarTitle;
+  };
+  duplicate: boolean;
+  breakdown: TitleScoreBreakdown;
+  score: number;
+  issues: string[];
+}
+
+export interface TitleScoringContext {
+  /** 先頭が主キーワード、2番目以降は副キーワード */
+  keywords: string[];
+  channelTitles?: string[];
+  competitorTitles?: string[];
+}
+
+function charWidth(codePoint: number): number {
+  if (codePoint >= 0xff61 && codePoint <= 0xff9f) return 1; // 半角カナ
+  if (
+    (codePoint >= 0x1100 && codePoint <= 0x115f) ||
+    (codePoint >= 0x2e80 && codePoint <= 0xa4cf) ||
+    (codePoint >= 0xac00 && codePoint <= 0xd7a3) ||
+    (codePoint >= 0xf900 && codePoint <= 0xfaff) ||
+    (codePoint >= 0xfe30 && codePoint <= 0xfe4f) ||
+    (codePoint >= 0xff00 && codePoint <= 0xff60) ||
+    (codePoint >= 0xffe0 && codePoint <= 0xffe6) ||
+    codePoint >= 0x1f300
+  ) {
+    return 2;
+  }
+  return 1;
+}
+
+export function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += charWidth(char.codePointAt(0)!);
+  }
+  return width;
+}
+
+/**
+ * 指定の表示幅を超える部分を「…」で省略したプレビュー
+ */
+export function truncateForDisplay(text: string, maxWidth: number): TitleTruncation {
+  if (displayWidth(text) <= maxWidth) {
+    return { truncated: false, preview: text };
+  }
+  let width = 0;
+  let preview = '';
+  for (const char of text) {
+    const w = charWidth(char.codePointAt(0)!);
+    // 「…」の全角1文字分を残す
+    if (width + w > maxWidth - 2) break;
+    preview += char;
+    width += w;
+  }
+  return { truncated: true, preview: `${preview}…` };
+}
+
+function normalizeForComparison(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]/gu, '');
+}
+
+function bigrams(text: string): Set<string> {
+  const chars = [...normalizeForComparison(text)];
+  const grams = new Set<string>();
+  if (chars.length === 1) grams.add(chars[0]);
+  for (let i = 0; i < chars.length - 1; i++) {
+    grams.add(chars[i] + chars[i + 1]);
+  }
+  return grams;
+}
+
+/**
+ * 文字バイグラムの Dice 係数（0〜1）。分かち書きのない日本語でも語順の違いに強い
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const x = bigrams(a);
+  const y = bigrams(b);
+  if (x.size === 0 || y.size === 0) return 0;
+  let shared = 0;
+  for (const gram of x) {
+    if (y.has(gram)) shared++;
+  }
+  return (2 * shared) / (x.size + y.size);
+}
+
+function mostSimilar(title: string, others: string[]): SimilarTitle {
+  let best: SimilarTitle = { similarity: 0 };
+  for (const other of others) {
+    const similarity = titleSimilarity(title, other);
+    if (similarity > best.similarity) best = { similarity, title: other };
+  }
+  return { similarity: Math.round(best.similarity * 100) / 100, title: best.title };
+}
+
+function clamp(value: number): number {
+  return Math.round(Math.min(100, Math.max(0, value)));
+}
+
+function lengthScore(width: number): number {
+  // スマホで省略されない範囲で、検索語と訴求を入れられる長さが理想
+  if (width < 30) return clamp((width / 30) * 60);
+  if (width < 40) return clamp(60 + (width - 30) * 4);
+  if (width <= TITLE_DISPLAY_WIDTHS.mobile) return 100;
+  if (width <= TITLE_DISPLAY_WIDTHS.desktop) return clamp(100 - (width - TITLE_DISPLAY_WIDTHS.mobile) * 1.25);
+  return clamp(50 - (width - TITLE_DISPLAY_WIDTHS.desktop));
+}
+
+function keywordPositionScore(offset: number | undefined, keywordWidth: number): number {
+  if (offset === undefined) return 0;
+  if (offset + keywordWidth > TITLE_DISPLAY_WIDTHS.mobile) return 30;
+  return clamp(100 - offset);
+}
+
+function bracketScore(pairs: number, balanced: boolean): number {
+  if (!balanced) return 20;
+  if (pairs === 1) return 100;
+  if (pairs === 0) return 50;
+  if (pairs === 2) return 70;
+  return 30;
+}
+
+function numberScore(count: number): number {
+  if (count === 0) return 40;
+  return count <= 2 ? 100 : 70;
+}
+
+function emotionalScore(count: number): number {
+  if (count === 0) return 30;
+  if (count <= 2) return 100;
+  // 感情語を詰め込みすぎると釣りタイトルに見える
+  return count === 3 ? 70 : 40;
+}
+
+/**
+ * 正規化後の文字列での位置を、元の文字列での位置（UTF-16）に戻す
+ * NFKC は半角カナの濁点の結合などで長さが変わるため、正規化後の長さが index に届く最短の接頭辞を探す
+ */
+function originalIndex(text: string, normalizedIndex: number): number {
+  const chars = [...text];
+  for (let i = 0; i <= chars.length; i++) {
+    const prefix = chars.slice(0, i).join('');
+    if (prefix.normalize('NFKC').toLowerCase().length >= normalizedIndex) {
+      return prefix.length;
+    }
+  }
+  return text.length;
+}
+
+export function scoreTitle(title: string, context: TitleScoringContext): TitleScore {
+  const issues: string[] = [];
+  const width = displayWidth(title);
+  const characterCount = [...title].length;
+  const normalizedTitle = title.normalize('NFKC').toLowerCase();
+
+  // リストの先頭から順に、タイトルに含まれる最初のキーワードを評価に使う
+  const matches = context.keywords.map(k => normalizedTitle.indexOf(k.normalize('NFKC').toLowerCase()));
+  const matchedIndex = matches.findIndex(index => index >= 0);
+  const keyword = matchedIndex >= 0 ? context.keywords[matchedIndex] : context.keywords[0];
+  const keywordOffset = matchedIndex >= 0
+    ? displayWidth(title.slice(0, originalIndex(title, matches[matchedIndex])))
+    : undefined;
+  const keywordWidth = keyword ? displayWidth(keyword) : 0;
+  const keywordVisibleOnMobile = keywordOffset !== undefined && keywordOffset + keywordWidth <= TITLE_DISPLAY_WIDTHS.mobile;
+
+  const opens = (title.match(/【/g) ?? []).length;
+  const closes = (title.match(/】/g) ?? []).length;
+  const bracketPairs = Math.min(opens, closes);
+  const numberCount = (title.match(/[0-9０-９]+/g) ?? []).length;
+  const emotionalWords = [...new Set(Object.values(TITLE_EMOTIONAL_WORDS).flat())].filter(word => title.includes(word));
+
+  const channel = mostSimilar(title, context.channelTitles ?? []);
+  const competitor = mostSimilar(title, context.competitorTitles ?? []);
+  const maxSimilarity = Math.max(channel.similarity, competitor.similarity);
+  const duplicate = maxSimilarity >= DUPLICATE_SIMILARITY;
+
+  const breakdown: TitleScoreBreakdown = {
+    length: lengthScore(width),
+    // 副キーワードしか含まない場合は主キーワードより低く評価する
+    keywordPosition: clamp(keywordPositionScore(keywordOffset, keywordWidth) * (matchedIndex > 0 ? SECONDARY_KEYWORD_FACTOR : 1)),
+    brackets: bracketScore(bracketPairs, opens === closes),
+    numbers: numberScore(numberCount),
+    emotionalWords: emotionalScore(emotionalWords.length),
+    uniqueness: duplicate ? 0 : clamp(100 * (1 - Math.max(0, maxSimilarity - 0.2) / 0.6)),
+  };
+
+  if (characterCount > YOUTUBE_LIMITS.titleChars) {
+    issues.push(`タイトルが${YOUTUBE_LIMITS.titleChars}文字を超えています（${characterCount}文字）`);
+  }
+  if (width > TITLE_DISPLAY_WIDTHS.mobile) {
+    issues.push(`スマホでは「${truncateForDisplay(title, TITLE_DISPLAY_WIDTHS.mobile).preview}」までしか表示されません`);
+  }
+  if (context.keywords.length > 0 && matchedIndex !== 0) {
+    issues.push(`主キーワード「${context.keywords[0]}」が含まれていません`);
+  }
+  if (keywordOffset !== undefined && !keywordVisibleOnMobile) {
+    issues.push(`キーワード「${keyword}」がスマホの表示範囲外です`);
+  }
+  if (opens !== closes) {
+    issues.push('【】の対応が取れていません');
+  }
+  if (emotionalWords.length > 3) {
+    issues.push(`感情語が多すぎます（${emotionalWords.join('、')}）`);
+  }
+  if (channel.similarity >= SIMILAR_WARNING) {
+    issues.push(`チャンネルの既存動画「${channel.title}」と似ています（類似度${channel.similarity}）`);
+  }
+  if (competitor.similarity >= SIMILAR_WARNING) {
+    issues.push(`競合動画「${competitor.title}」と似ています（類似度${competitor.similarity}）`);
+  }
+
+  const score = clamp(
+    (Object.keys(WEIGHTS) as Array<keyof typeof WEIGHTS>).reduce((sum, key) => sum + WEIGHTS[key] * breakdown[key], 0)
+  );
+
+  return {
+    title,
+    characterCount,
+    displayWidth: width,
+    truncation: {
+      mobile: truncateForDisplay(title, TITLE_DISPLAY_WIDTHS.mobile),
+      desktop: truncateForDisplay(title, TITLE_DISPLAY_WIDTHS.desktop),
+    },
+    keyword,
+    keywordOffset,
+    keywordVisibleOnMobile,
+    bracketPairs,
+    numberCount,
+    emotionalWords,
+    similarity: { channel, competitor },
+    duplicate,
+    breakdown,
+    score,
+    issues,
+  };
+}
+
+// 候補生成で使う感情語入りの名詞句（「〜の◯◯」「【◯◯】」の形で使える）
+const EMOTION_PHRASES: Record<TitleEmotion, string[]> = {
+  curiosity: ['秘密', '真実', '裏技', '知らない事実'],
+  fear: ['危険性', '失敗例', '落とし穴', '損する理由'],
+  excitement: ['衝撃の結果', '最強の方法', '神ワザ', '圧倒的な差'],
+  urgency: ['今すぐやるべきこと', '期間限定情報', '最後のチャンス', '緊急速報'],
+};
+
+interface PatternSlots {
+  keyword: string;
+  content: string;
+  phrase: string;
+  number?: number;
+}
+
+// 言い回しの型。数字を使う型は includeNumbers が false なら使わない
+const TITLE_PATTERNS: Array<{ id: string; usesNumber: boolean; build: (s: PatternSlots) => string }> = [
+  { id: 'bracket', usesNumber: false, build: s => `【${s.keyword}】${s.content}｜${s.phrase}` },
+  { id: 'bracket_number', usesNumber: true, build: s => `【${s.keyword}】${s.phrase}${s.number}選｜${s.content}` },
+  { id: 'list', usesNumber: true, build: s => `${s.keyword}の${s.phrase}${s.number}選｜${s.content}` },
+  { id: 'question', usesNumber: false, build: s => `${s.keyword}の${s.phrase}とは？${s.content}` },
+  { id: 'experiment', usesNumber: true, build: s => `${s.keyword}を${s.number}日間試した結果【${s.phrase}】${s.content}` },
+  { id: 'tag_first', usesNumber: false, build: s => `【${s.phrase}】${s.keyword}｜${s.content}` },
+  { id: 'suffix_keyword', usesNumber: false, build: s => `${s.content}【${s.keyword}の${s.phrase}】` },
+];
+
+const NUMBER_CHOICES = [3, 5, 7, 10];
+
+// 選んだ候補とこれ以上似ていれば同じ案の言い換えとみなして除外する
+const DIVERSITY_SIMILARITY = 0.6;
+const DIVERSITY_PENALTY = 60;
+
+export interface TitleGenerationInput {
+  videoContent: string;
+  keywords: string[];
+  emotionalHook?: TitleEmotion;
+  includeNumbers: boolean;
+  count: number;
+}
+
+export interface TitleCandidate extends TitleScore {
+  pattern: string;
+  emotion: TitleEmotion;
+  rank: number;
+}
+
+/**
+ * 型・キーワード・感情語・数字の組み合わせで候補を作り、採点したうえで
+ * 似た候補を避けながら（MMR）上位 count 件を選び、スコア順に返す
+ */
+export function generateTitleCandidates(input: TitleGenerationInput, context: Omit<TitleScoringContext, 'keywords'> = {}): TitleCandidate[] {
+  const keywords = input.keywords.map(k => k.trim()).filter(Boolean);
+  if (keywords.length === 0) {
+    throw new Error('At least one target keyword is required');
+  }
+  const content = input.videoContent.trim();
+  const emotions = input.emotionalHook ? [input.emotionalHook] : (Object.keys(TITLE_EMOTIONAL_WORDS) as TitleEmotion[]);
+  const patterns = TITLE_PATTERNS.filter(p => input.includeNumbers || !p.usesNumber);
+
+  const pool = new Map<string, Omit<TitleCandidate, 'rank'>>();
+  const scoringContext = { ...context, keywords };
+  keywords.slice(0, 3).forEach(keyword => {
+    for (const emotion of emotions) {
+      for (const phrase of EMOTION_PHRASES[emotion]) {
+        for (const pattern of patterns) {
+          const numbers = pattern.usesNumber ? NUMBER_CHOICES : [undefined];
+          for (const number of numbers) {
+            const title = pattern.build({ keyword, content, phrase, number });
+            if (pool.has(title)) continue;
+            pool.set(title, { ...scoreTitle(title, scoringContext), pattern: pattern.id, emotion });
+          }
+        }
+      }
+    }
+  });
+
+  // 動画の内容はどの候補にも入るため、多様性はそれ以外の部分で比べる
+  const variablePart = (title: string) => (content ? title.replace(content, '') : title);
+  const remaining = [...pool.values()].filter(c => !c.duplicate && c.characterCount <= YOUTUBE_LIMITS.titleChars);
+  const selected: Array<Omit<TitleCandidate, 'rank'>> = [];
+  while (selected.length < input.count && remaining.length > 0) {
+    let bestIndex = -1;
+    let bestValue = -Infinity;
+    remaining.forEach((candidate, i) => {
+      const maxSimilarity = Math.max(0, ...selected.map(s => titleSimilarity(variablePart(s.title), variablePart(candidate.title))));
+      if (maxSimilarity >= DIVERSITY_SIMILARITY) return;
+      // 同じ型が続かないよう、選択済みの型には小さな減点をする
+      const samePattern = selected.filter(s => s.pattern === candidate.pattern).length;
+      const value = candidate.score - DIVERSITY_PENALTY * maxSimilarity - 5 * samePattern;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = i;
+      }
+    });
+    if (bestIndex < 0) break;
+    selected.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  return selected
+    .sort((a, b) => b.score - a.score)
+    .map((candidate, i) => ({ ...candidate, rank: i + 1 }));
+}
@@ -0,0 +1,177 @@
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import type { Client } from '@libsql/client';
+import { createSchemaInitializer, getStorageClient } from './storage';
+import { detectCaptionFormat, detectLanguage, parseCaptions, parseChapters } from './captions';
+import type { CaptionCue, Chapter } from './captions';
+import type { YouTubeService } from './youtube';
+import { YouTubeNotFoundError } from './youtube-errors';
+
+export type TranscriptSource = 'youtube' | 'srt' | 'vtt';
+
+export interface StoredTranscript {
+  videoId: string;
+  label: string;
+  source: TranscriptSource;
+  /** 自チャンネルの動画（APIから取得）か、競合動画（ファイル取り込み）か */
+  owned: boolean;
+  language?: string;
+  cues: CaptionCue[];
+  chapters: Chapter[];
+  importedAt: string;
+}
+
+/**
+ * 正規化済みの字幕とチャプターを動画単位で保存するストア
+ */
+export class TranscriptStore {
+  private readonly ensureSchema: () => Promise<void>;
+
+  constructor(private readonly client: () => Client = getStorageClient) {
+    this.ensureSchema = createSchemaInitializer(client, [
+      `CREATE TABLE IF NOT EXISTS video_transcripts (
+        video_id TEXT PRIMARY KEY,
+        label TEXT NOT NULL,
+        source TEXT NOT NULL,
+        owned INTEGER NOT NULL,
+        language TEXT,
+        cues TEXT NOT NULL,
+        chapters TEXT NOT NULL,
+        imported_at TEXT NOT NULL
+      )`,
+    ]);
+  }
+
+  async save(transcript: StoredTranscript): Promise<void> {
+    await this.ensureSchema();
+    await this.client().execute({
+      sql: `INSERT OR REPLACE INTO video_transcripts (video_id, label, source, owned, language, cues, chapters, imported_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        transcript.videoId,
+        transcript.label,
+        transcript.source,
+        transcript.owned ? 1 : 0,
+        transcript.language ?? null,
+        JSON.stringify(transcript.cues),
+        JSON.stringify(transcript.chapters),
+        transcript.importedAt,
+      ],
+    });
+  }
+
+  async get(videoId: string): Promise<StoredTranscript | null> {
+    await this.ensureSchema();
+    const result = await this.client().execute({
+      sql: 'SELECT * FROM video_transcripts WHERE video_id = ?',
+      args: [videoId],
+    });
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+    return {
+      videoId: String(row.video_id),
+      label: String(row.label),
+      source: String(row.source) as TranscriptSource,
+      owned: Number(row.owned) === 1,
+      language: row.language ? String(row.language) : undefined,
+      cues: JSON.parse(String(row.cues)),
+      chapters: JSON.parse(String(row.chapters)),
+      importedAt: String(row.imported_at),
+    };
+  }
+
+  async list(): Promise<Array<Omit<StoredTranscript, 'cues' | 'chapters'>>> {
+    await this.ensureSchema();
+    const result = await this.client().execute(
+      'SELECT video_id, label, source, owned, language, imported_at FROM video_transcripts ORDER BY imported_at DESC'
+    );
+    return result.rows.map(row => ({
+      videoId: String(row.video_id),
+      label: String(row.label),
+      source: String(row.source) as TranscriptSource,
+      owned: Number(row.owned) === 1,
+      language: row.language ? String(row.language) : undefined,
+      importedAt: String(row.imported_at),
+    }));
+  }
+}
+
+export const transcriptStore = new TranscriptStore();
+
+/**
+ * 自分の動画の字幕をAPIから取得して保存する
+ * trackId 未指定時は、指定言語の手動字幕 → 自動字幕（ASR）の順に選ぶ
+ */
+export async function ingestOwnedVideoCaptions(
+  youtube: YouTubeService,
+  videoId: string,
+  options: { trackId?: string; language?: string; store?: TranscriptStore; now?: Date } = {}
+): Promise<StoredTranscript> {
+  const { language = 'ja', store = transcriptStore, now = new Date() } = options;
+  let trackId = options.trackId;
+  let trackLanguage: string | undefined;
+
+  if (!trackId) {
+    const tracks = (await youtube.listCaptionTracks(videoId)).filter(t => t.snippet?.language?.startsWith(language));
+    const track = tracks.find(t => t.snippet?.trackKind !== 'asr') ?? tracks[0];
+    if (!track?.id) {
+      throw new YouTubeNotFoundError('ingestOwnedVideoCaptions', `caption track (${language}) for video ${videoId}`);
+    }
+    trackId = track.id;
+    trackLanguage = track.snippet?.language ?? undefined;
+  }
+
+  const [content, [video]] = await Promise.all([
+    youtube.downloadCaption(trackId, 'vtt'),
+    youtube.getVideoDetails([videoId]),
+  ]);
+
+  const transcript: StoredTranscript = {
+    videoId,
+    label: video?.snippet?.title ?? videoId,
+    source: 'youtube',
+    owned: true,
+    language: trackLanguage ?? language,
+    cues: parseCaptions(content, 'vtt'),
+    chapters: parseChapters(video?.snippet?.description ?? ''),
+    importedAt: now.toISOString(),
+  };
+  await store.save(transcript);
+  return transcript;
+}
+
+/**
+ * 競合動画などの .srt / .vtt ファイルを取り込んで保存する
+ * チャプターは動画の概要欄テキストから抽出する
+ */
+export async function importCaptionFile(
+  input: { videoId: string; filePath?: string; content?: string; label?: string; description?: string },
+  options: { store?: TranscriptStore; now?: Date } = {}
+): Promise<StoredTranscript> {
+  const { store = transcriptStore, now = new Date() } = options;
+  const content = input.content ?? (input.filePath ? await readFile(input.filePath, 'utf-8') : undefined);
+  if (content === undefined) {
+    throw new Error('Either filePath or content is required to import captions');
+  }
+
+  const format = detectCaptionFormat(content, input.filePath);
+  const cues = parseCaptions(content, format);
+  if (cues.length === 0) {
+    throw new Error(`No caption cues found in ${input.filePath ? basename(input.filePath) : 'content'}`);
+  }
+
+  const transcript: StoredTranscript = {
+    videoId: input.videoId,
+    label: input.label ?? input.videoId,
+    source: format,
+    owned: false,
+    language: detectLanguage(cues.map(c => c.text).join('')),
+    cues,
+    chapters: parseChapters(input.description ?? ''),
+    importedAt: now.toISOString(),
+  };
+  await store.save(transcript);
+  return transcript;
+}
@@ -0,0 +1,180 @@
+import type { Client } from '@libsql/client';
+import { createSchemaInitializer, getStorageClient } from './storage';
+
+// YouTube Data API の1日あたりのデフォルトクォータ
+export const DEFAULT_DAILY_QUOTA = 10_000;
+
+// エンドポイントごとのクォータ消費量（https://developers.google.com/youtube/v3/determine_quota_cost）
+export const QUOTA_COST = {
+  'channels.list': 1,
+  'videos.list': 1,
+  'playlistItems.list': 1,
+  'search.list': 100,
+  'captions.list': 50,
+  'captions.download': 200,
+  'commentThreads.list': 1,
+} as const;
+
+export type YouTubeEndpoint = keyof typeof QUOTA_COST;
+
+// エンドポイントごとのキャッシュ有効期間（ミリ秒）
+export const CACHE_TTL_MS: Record<YouTubeEndpoint, number> = {
+  'channels.list': 6 * 60 * 60 * 1000,
+  'videos.list': 60 * 60 * 1000,
+  'playlistItems.list': 60 * 60 * 1000,
+  'search.list': 24 * 60 * 60 * 1000,
+  'captions.list': 6 * 60 * 60 * 1000,
+  'captions.download': 7 * 24 * 60 * 60 * 1000,
+  'commentThreads.list': 6 * 60 * 60 * 1000,
+};
+
+export interface CachedResponse<T> {
+  value: T;
+  fetchedAt: Date;
+  expired: boolean;
+}
+
+export interface YouTubeResponseCache {
+  get<T>(key: string, now?: Date): Promise<CachedResponse<T> | null>;
+  set<T>(key: string, endpoint: YouTubeEndpoint, value: T, ttlMs: number, now?: Date): Promise<void>;
+}
+
+export interface QuotaUsage {
+  day: string;
+  used: number;
+  limit: number;
+}
+
+export interface YouTubeQuotaLedger {
+  usage(now?: Date): Promise<QuotaUsage>;
+  consume(endpoint: YouTubeEndpoint, units: number, now?: Date): Promise<void>;
+  markExhausted(now?: Date): Promise<void>;
+}
+
+/**
+ * クォータは太平洋時間の0時にリセットされるため、台帳の日付も太平洋時間で区切る
+ */
+export function quotaDay(now: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: 'America/Los_Angeles',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now);
+}
+
+/**
+ * 引数の順序に依存しないキャッシュキーを作る
+ */
+export function cacheKey(endpoint: YouTubeEndpoint, params: Record<string, unknown>): string {
+  const sorted = Object.keys(params)
+    .sort()
+    .filter(key => params[key] !== undefined)
+    .map(key => [key, params[key]]);
+  return `${endpoint}:${JSON.stringify(sorted)}`;
+}
+
+/**
+ * LibSQLに保存するAPIレスポンスキャッシュ
+ * 期限切れのエントリも削除せず残し、クォータ不足時の縮退応答に使う
+ */
+export class LibSQLYouTubeCache implements YouTubeResponseCache {
+  private readonly ensureSchema: () => Promise<void>;
+
+  constructor(private readonly client: () => Client = getStorageClient) {
+    this.ensureSchema = createSchemaInitializer(client, [
+      `CREATE TABLE IF NOT EXISTS youtube_api_cache (
+        cache_key TEXT PRIMARY KEY,
+        endpoint TEXT NOT NULL,
+        response TEXT NOT NULL,
+        fetched_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      )`,
+    ]);
+  }
+
+  async get<T>(key: string, now: Date = new Date()): Promise<CachedResponse<T> | null> {
+    await this.ensureSchema();
+    const result = await this.client().execute({
+      sql: 'SELECT response, fetched_at, expires_at FROM youtube_api_cache WHERE cache_key = ?',
+      args: [key],
+    });
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+    return {
+      value: JSON.parse(String(row.response)) as T,
+      fetchedAt: new Date(String(row.fetched_at)),
+      expired: new Date(String(row.expires_at)).getTime() <= now.getTime(),
+    };
+  }
+
+  async set<T>(key: string, endpoint: YouTubeEndpoint, value: T, ttlMs: number, now: Date = new Date()): Promise<void> {
+    await this.ensureSchema();
+    await this.client().execute({
+      sql: `INSERT INTO youtube_api_cache (cache_key, endpoint, response, fetched_at, expires_at)
+            VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT(cache_key) DO UPDATE SET
+              response = excluded.response,
+              fetched_at = excluded.fetched_at,
+              expires_at = excluded.expires_at`,
+      args: [key, endpoint, JSON.stringify(value), now.toISOString(), new Date(now.getTime() + ttlMs).toISOString()],
+    });
+  }
+}
+
+/**
+ * 1日あたりのクォータ消費を記録する台帳
+ */
+export class LibSQLQuotaLedger implements YouTubeQuotaLedger {
+  private readonly ensureSchema: () => Promise<void>;
+
+  constructor(
+    private readonly limit: number = DEFAULT_DAILY_QUOTA,
+    private readonly client: () => Client = getStorageClient
+  ) {
+    this.ensureSchema = createSchemaInitializer(client, [
+      `CREATE TABLE IF NOT EXISTS youtube_quota_ledger (
+        day TEXT NOT NULL,
+        endpoint TEXT NOT NULL,
+        units INTEGER NOT NULL DEFAULT 0,
+        calls INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (day, endpoint)
+      )`,
+    ]);
+  }
+
+  async usage(now: Date = new Date()): Promise<QuotaUsage> {
+    await this.ensureSchema();
+    const day = quotaDay(now);
+    const result = await this.client().execute({
+      sql: 'SELECT COALESCE(SUM(units), 0) AS used FROM youtube_quota_ledger WHERE day = ?',
+      args: [day],
+    });
+    return { day, used: Number(result.rows[0]?.used ?? 0), limit: this.limit };
+  }
+
+  async consume(endpoint: YouTubeEndpoint, units: number, now: Date = new Date()): Promise<void> {
+    await this.ensureSchema();
+    await this.client().execute({
+      sql: `INSERT INTO youtube_quota_ledger (day, endpoint, units, calls) VALUES (?, ?, ?, 1)
+            ON CONFLICT(day, endpoint) DO UPDATE SET units = units + excluded.units, calls = calls + 1`,
+      args: [quotaDay(now), endpoint, units],
+    });
+  }
+
+  /**
+   * APIからquotaExceededが返った場合、台帳上もその日の残量を0にする
+   */
+  async markExhausted(now: Date = new Date()): Promise<void> {
+    const { used, limit } = await this.usage(now);
+    if (used < limit) {
+      await this.client().execute({
+        sql: `INSERT INTO youtube_quota_ledger (day, endpoint, units, calls) VALUES (?, 'exhausted', ?, 0)
+              ON CONFLICT(day, endpoint) DO UPDATE SET units = units + excluded.units`,
+        args: [quotaDay(now), limit - used],
+      });
+    }
+  }
+}
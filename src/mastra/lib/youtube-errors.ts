@@ -0,0 +1,132 @@
+// YouTube Data API のエラーを種類ごとに区別するための型付きエラー
+
+export type YouTubeErrorReason = 'quotaExceeded' | 'rateLimited' | 'forbidden' | 'notFound' | 'badRequest' | 'unknown';
+
+export class YouTubeApiError extends Error {
+  constructor(
+    message: string,
+    readonly reason: YouTubeErrorReason,
+    readonly operation: string,
+    readonly status?: number,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'YouTubeApiError';
+  }
+}
+
+/**
+ * 1日のクォータ（10,000ユニット）を使い切った、またはローカルの台帳で上限に達した
+ */
+export class YouTubeQuotaExceededError extends YouTubeApiError {
+  constructor(operation: string, readonly local: boolean, status?: number, cause?: unknown) {
+    super(
+      local
+        ? `YouTube APIの本日のクォータ残量が不足しているため ${operation} を実行しませんでした（太平洋時間0時にリセット）`
+        : `YouTube APIのクォータ上限に達しました（${operation}）。太平洋時間0時以降に再実行してください`,
+      'quotaExceeded',
+      operation,
+      status,
+      cause
+    );
+    this.name = 'YouTubeQuotaExceededError';
+  }
+}
+
+/**
+ * 短時間にリクエストが集中した（rateLimitExceeded / userRateLimitExceeded）
+ * 1日のクォータとは別物で、少し待てば再実行できる
+ */
+export class YouTubeRateLimitError extends YouTubeApiError {
+  constructor(operation: string, status?: number, cause?: unknown) {
+    super(
+      `YouTube APIのリクエストが集中しているため一時的に制限されました（${operation}）。しばらく待ってから再実行してください`,
+      'rateLimited',
+      operation,
+      status,
+      cause
+    );
+    this.name = 'YouTubeRateLimitError';
+  }
+}
+
+/**
+ * APIキーの権限不足・API未有効化・リファラ制限など（quota以外の403）
+ */
+export class YouTubeForbiddenError extends YouTubeApiError {
+  constructor(operation: string, detail: string, status?: number, cause?: unknown) {
+    super(
+      `YouTube APIへのアクセスが拒否されました（${operation}）: ${detail}。APIキーの権限とYouTube Data API v3の有効化を確認してください`,
+      'forbidden',
+      operation,
+      status,
+      cause
+    );
+    this.name = 'YouTubeForbiddenError';
+  }
+}
+
+export class YouTubeNotFoundError extends YouTubeApiError {
+  constructor(operation: string, detail: string, status?: number, cause?: unknown) {
+    super(`指定されたリソースが見つかりません（${operation}）: ${detail}`, 'notFound', operation, status, cause);
+    this.name = 'YouTubeNotFoundError';
+  }
+}
+
+const QUOTA_REASONS = new Set(['quotaExceeded', 'dailyLimitExceeded']);
+const RATE_LIMIT_REASONS = new Set(['rateLimitExceeded', 'userRateLimitExceeded']);
+const NOT_FOUND_REASONS = new Set(['notFound', 'videoNotFound', 'channelNotFound', 'playlistNotFound', 'playlistItemsNotAccessible']);
+
+interface YouTubeApiErrorItem {
+  reason?: string;
+  message?: string;
+}
+
+/**
+ * googleapis（gaxios）のエラーのうち、ここで参照する部分だけの形
+ */
+interface GaxiosLikeError {
+  message?: string;
+  code?: number | string;
+  errors?: YouTubeApiErrorItem[];
+  response?: {
+    status?: number;
+    data?: { error?: { errors?: YouTubeApiErrorItem[] } };
+  };
+}
+
+function isGaxiosLikeError(error: unknown): error is GaxiosLikeError {
+  return typeof error === 'object' && error !== null;
+}
+
+/**
+ * googleapis（gaxios）が投げるエラーを型付きエラーに変換する
+ */
+export function toYouTubeError(error: unknown, operation: string): YouTubeApiError {
+  if (error instanceof YouTubeApiError) {
+    return error;
+  }
+
+  const err = isGaxiosLikeError(error) ? error : undefined;
+  const status = err?.response?.status ?? (typeof err?.code === 'number' ? err.code : undefined);
+  const apiErrors = err?.errors ?? err?.response?.data?.error?.errors ?? [];
+  const reason = apiErrors[0]?.reason;
+  const detail = apiErrors[0]?.message ?? err?.message ?? String(error);
+
+  if (reason && QUOTA_REASONS.has(reason)) {
+    return new YouTubeQuotaExceededError(operation, false, status, error);
+  }
+  if ((reason && RATE_LIMIT_REASONS.has(reason)) || status === 429) {
+    return new YouTubeRateLimitError(operation, status, error);
+  }
+  if ((reason && NOT_FOUND_REASONS.has(reason)) || status === 404) {
+    return new YouTubeNotFoundError(operation, detail, status, error);
+  }
+  if (status === 403) {
+    return new YouTubeForbiddenError(operation, detail, status, error);
+  }
+  if (status === 400) {
+    return new YouTubeApiError(`YouTube APIへのリクエストが不正です（${operation}）: ${detail}`, 'badRequest', operation, status, error);
+  }
+  return new YouTubeApiError(`YouTube APIの呼び出しに失敗しました（${operation}）: ${detail}`, 'unknown', operation, status, error);
+}
@@ -1,96 +1,458 @@
 import { google } from 'googleapis';
-import type { youtube_v3 } from 'googleapis';
+import type { Auth, youtube_v3 } from 'googleapis';
+import {
+  CACHE_TTL_MS,
+  DEFAULT_DAILY_QUOTA,
+  LibSQLQuotaLedger,
+  LibSQLYouTubeCache,
+  QUOTA_COST,
+  cacheKey,
+} from './youtube-cache';
+import type { QuotaUsage, YouTubeEndpoint, YouTubeQuotaLedger, YouTubeResponseCache } from './youtube-cache';
+import {
+  YouTubeForbiddenError,
+  YouTubeNotFoundError,
+  YouTubeQuotaExceededError,
+  YouTubeRateLimitError,
+  toYouTubeError,
+} from './youtube-errors';
+
+// videos.list の id パラメータに指定できる最大件数
+const VIDEO_BATCH_SIZE = 50;
+
+// 高コスト（100ユニット以上）の呼び出しはこの残量を割り込む前に停止し、
+// 1ユニットの呼び出し用に余力を残す
+const DEFAULT_EXPENSIVE_CALL_RESERVE = 500;
+
+// 短時間の集中による制限（rateLimitExceeded）は待って再実行する。待ち時間は1回ごとに倍にする
+const DEFAULT_RATE_LIMIT_RETRIES = 3;
+const DEFAULT_RATE_LIMIT_BACKOFF_MS = 1000;
+
+// playlistItems.list の1ページあたりの最大件数
+const PLAYLIST_PAGE_SIZE = 50;
+// commentThreads.list の1ページあたりの最大件数
+const COMMENT_PAGE_SIZE = 100;
+
+export interface ChannelUploadsOptions {
+  /** この日時以降に公開された動画のみ */
+  publishedAfter?: Date;
+  /** この日時より前に公開された動画のみ */
+  publishedBefore?: Date;
+  /** 取得する最大本数（未指定なら全件） */
+  maxVideos?: number;
+}
+
+export interface ChannelUpload {
+  videoId: string;
+  title: string;
+  publishedAt: string;
+  playlistItem: youtube_v3.Schema$PlaylistItem;
+}
+
+export interface YouTubeServiceOptions {
+  /** null を渡すとキャッシュを無効化 */
+  cache?: YouTubeResponseCache | null;
+  /** null を渡すとクォータ管理を無効化 */
+  quotaLedger?: YouTubeQuotaLedger | null;
+  cacheTtlMs?: Partial<Record<YouTubeEndpoint, number>>;
+  expensiveCallReserve?: number;
+  /** rateLimitExceeded のときに再実行する回数と、最初の待ち時間 */
+  rateLimitRetries?: number;
+  rateLimitBackoffMs?: number;
+  /** 字幕（captions）APIはAPIキーでは使えず、動画所有者のOAuth認証が必要 */
+  oauth?: Auth.OAuth2Client | null;
+}
+
+/**
+ * 環境変数のリフレッシュトークンからOAuthクライアントを作る（未設定ならnull）
+ */
+export function createOAuthClientFromEnv(): Auth.OAuth2Client | null {
+  const { YOUTUBE_OAUTH_CLIENT_ID, YOUTUBE_OAUTH_CLIENT_SECRET, YOUTUBE_OAUTH_REFRESH_TOKEN } = process.env;
+  if (!YOUTUBE_OAUTH_CLIENT_ID || !YOUTUBE_OAUTH_CLIENT_SECRET || !YOUTUBE_OAUTH_REFRESH_TOKEN) {
+    return null;
+  }
+  const client = new google.auth.OAuth2(YOUTUBE_OAUTH_CLIENT_ID, YOUTUBE_OAUTH_CLIENT_SECRET);
+  client.setCredentials({ refresh_token: YOUTUBE_OAUTH_REFRESH_TOKEN });
+  return client;
+}
+
+let defaultCache: YouTubeResponseCache | null = null;
+let defaultLedger: YouTubeQuotaLedger | null = null;
+
+function sharedCache(): YouTubeResponseCache {
+  defaultCache ??= new LibSQLYouTubeCache();
+  return defaultCache;
+}
+
+function sharedLedger(): YouTubeQuotaLedger {
+  defaultLedger ??= new LibSQLQuotaLedger(Number(process.env.YOUTUBE_DAILY_QUOTA) || DEFAULT_DAILY_QUOTA);
+  return defaultLedger;
+}
 
 export class YouTubeService {
   private youtube: youtube_v3.Youtube;
+  private cache: YouTubeResponseCache | null;
+  private quotaLedger: YouTubeQuotaLedger | null;
+  private cacheTtlMs: Record<YouTubeEndpoint, number>;
+  private expensiveCallReserve: number;
+  private rateLimitRetries: number;
+  private rateLimitBackoffMs: number;
+  private ownerYoutube: youtube_v3.Youtube | null;
 
-  constructor(apiKey: string) {
+  constructor(
+    private readonly apiKey: string,
+    private readonly options: YouTubeServiceOptions = {}
+  ) {
     this.youtube = google.youtube({
       version: 'v3',
       auth: apiKey,
     });
+    this.cache = options.cache === undefined ? sharedCache() : options.cache;
+    this.quotaLedger = options.quotaLedger === undefined ? sharedLedger() : options.quotaLedger;
+    this.cacheTtlMs = { ...CACHE_TTL_MS, ...options.cacheTtlMs };
+    this.expensiveCallReserve = options.expensiveCallReserve ?? DEFAULT_EXPENSIVE_CALL_RESERVE;
+    this.rateLimitRetries = options.rateLimitRetries ?? DEFAULT_RATE_LIMIT_RETRIES;
+    this.rateLimitBackoffMs = options.rateLimitBackoffMs ?? DEFAULT_RATE_LIMIT_BACKOFF_MS;
+    const oauth = options.oauth === undefined ? createOAuthClientFromEnv() : options.oauth;
+    this.ownerYoutube = oauth ? google.youtube({ version: 'v3', auth: oauth }) : null;
   }
 
-  async getChannelInfo(channelId: string) {
-    try {
-      const response = await this.youtube.channels.list({
-        part: ['snippet', 'statistics', 'contentDetails'],
-        id: [channelId],
-      });
+  /**
+   * キャッシュを通さずに取得する同じ設定のサービス（クォータ台帳は共有する）
+   * 取得時刻を記録する計測（スナップショット・競合の巡回）では、キャッシュの古い値を今の値として扱わないようにこちらを使う
+   */
+  withoutCache(): YouTubeService {
+    return new YouTubeService(this.apiKey, { ...this.options, cache: null, quotaLedger: this.quotaLedger });
+  }
+
+  private requireOwnerAuth(operation: string): youtube_v3.Youtube {
+    if (!this.ownerYoutube) {
+      throw new YouTubeForbiddenError(
+        operation,
+        '字幕の取得には動画所有者のOAuth認証（YOUTUBE_OAUTH_CLIENT_ID / YOUTUBE_OAUTH_CLIENT_SECRET / YOUTUBE_OAUTH_REFRESH_TOKEN）が必要です'
+      );
+    }
+    return this.ownerYoutube;
+  }
+
+  /**
+   * キャッシュ → クォータ確認 → API呼び出し → 記録 の共通処理
+   * クォータ不足やAPI側のquotaExceeded時は、期限切れでもキャッシュがあればそれを返す
+   * rateLimitExceeded は1日のクォータとは無関係なので台帳は使い切りにせず、待って再実行する
+   */
+  private async request<T>(
+    endpoint: YouTubeEndpoint,
+    operation: string,
+    params: Record<string, unknown>,
+    call: () => Promise<T>
+  ): Promise<T> {
+    // 同じエンドポイント・引数でも戻り値の形がメソッドごとに異なるため、キーに操作名を含める
+    const key = cacheKey(endpoint, { operation, ...params });
+    const cached = this.cache ? await this.cache.get<T>(key) : null;
+    if (cached && !cached.expired) {
+      return cached.value;
+    }
 
+    const cost = QUOTA_COST[endpoint];
+    if (this.quotaLedger) {
+      const { used, limit } = await this.quotaLedger.usage();
+      const reserve = cost >= 100 ? this.expensiveCallReserve : 0;
+      if (used + cost > limit - reserve) {
+        if (cached) {
+          return cached.value;
+        }
+        throw new YouTubeQuotaExceededError(operation, true);
+      }
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const value = await call();
+        await this.quotaLedger?.consume(endpoint, cost);
+        await this.cache?.set(key, endpoint, value, this.cacheTtlMs[endpoint]);
+        return value;
+      } catch (error) {
+        const typed = toYouTubeError(error, operation);
+        // 失敗したリクエストもクォータを消費する
+        await this.quotaLedger?.consume(endpoint, cost);
+        if (typed instanceof YouTubeRateLimitError && attempt < this.rateLimitRetries) {
+          await new Promise(resolve => setTimeout(resolve, this.rateLimitBackoffMs * 2 ** attempt));
+          continue;
+        }
+        if (typed instanceof YouTubeQuotaExceededError) {
+          await this.quotaLedger?.markExhausted();
+        }
+        if (cached && (typed instanceof YouTubeQuotaExceededError || typed instanceof YouTubeRateLimitError)) {
+          return cached.value;
+        }
+        throw typed;
+      }
+    }
+  }
+
+  async getQuotaUsage(): Promise<QuotaUsage | null> {
+    return this.quotaLedger ? this.quotaLedger.usage() : null;
+  }
+
+  async getChannelInfo(channelId: string) {
+    const params = {
+      part: ['snippet', 'statistics', 'contentDetails'],
+      id: [channelId],
+    };
+    return this.request('channels.list', 'getChannelInfo', params, async () => {
+      const response = await this.youtube.channels.list(params);
       return response.data.items?.[0] || null;
-    } catch (error) {
-      console.error('Error fetching channel info:', error);
-      throw error;
+    });
+  }
+
+  /**
+   * チャンネルのアップロード再生リストID（UUxxxx）を取得する
+   */
+  async getUploadsPlaylistId(channelId: string): Promise<string> {
+    const channel = await this.getChannelInfo(channelId);
+    const uploads = channel?.contentDetails?.relatedPlaylists?.uploads;
+    if (!uploads) {
+      throw new YouTubeNotFoundError('getUploadsPlaylistId', `uploads playlist for channel ${channelId}`);
     }
+    return uploads;
   }
 
-  async getChannelVideos(channelId: string, maxResults: number = 50) {
-    try {
-      const response = await this.youtube.search.list({
-        part: ['snippet'],
-        channelId,
-        maxResults,
-        order: 'date',
-        type: ['video'],
+  /**
+   * アップロード再生リストを全ページ走査して動画を新しい順に列挙する
+   * search.list（100ユニット・最大500件）と違い、1ページ1ユニットで全件を取得できる
+   */
+  async *iterateChannelUploads(
+    channelId: string,
+    options: ChannelUploadsOptions = {}
+  ): AsyncGenerator<ChannelUpload> {
+    const { publishedAfter, publishedBefore, maxVideos = Infinity } = options;
+    const playlistId = await this.getUploadsPlaylistId(channelId);
+    let pageToken: string | undefined;
+    let yielded = 0;
+
+    do {
+      const params = {
+        part: ['snippet', 'contentDetails'],
+        playlistId,
+        maxResults: PLAYLIST_PAGE_SIZE,
+        pageToken,
+      };
+      const page = await this.request('playlistItems.list', 'iterateChannelUploads', params, async () => {
+        const response = await this.youtube.playlistItems.list(params);
+        return {
+          items: response.data.items || [],
+          nextPageToken: response.data.nextPageToken ?? undefined,
+        };
       });
 
-      return response.data.items || [];
-    } catch (error) {
-      console.error('Error fetching channel videos:', error);
-      throw error;
+      let olderThanRange = 0;
+      for (const item of page.items) {
+        const videoId = item.contentDetails?.videoId ?? item.snippet?.resourceId?.videoId;
+        const publishedAt = item.contentDetails?.videoPublishedAt ?? item.snippet?.publishedAt;
+        if (!videoId || !publishedAt) {
+          // 非公開・削除済み動画は公開日時を持たない
+          continue;
+        }
+
+        const published = new Date(publishedAt);
+        if (publishedAfter && published < publishedAfter) {
+          olderThanRange++;
+          continue;
+        }
+        if (publishedBefore && published >= publishedBefore) {
+          continue;
+        }
+
+        yield { videoId, title: item.snippet?.title ?? '', publishedAt, playlistItem: item };
+        if (++yielded >= maxVideos) {
+          return;
+        }
+      }
+
+      // アップロード再生リストは新しい順に並ぶため、1ページ丸ごと期間外なら以降も期間外とみなす
+      if (publishedAfter && page.items.length > 0 && olderThanRange === page.items.length) {
+        return;
+      }
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  /**
+   * iterateChannelUploads の結果を50件ずつvideos.listで詳細化して列挙する
+   */
+  async *iterateChannelVideos(
+    channelId: string,
+    options: ChannelUploadsOptions = {}
+  ): AsyncGenerator<youtube_v3.Schema$Video> {
+    let batch: string[] = [];
+    for await (const upload of this.iterateChannelUploads(channelId, options)) {
+      batch.push(upload.videoId);
+      if (batch.length === VIDEO_BATCH_SIZE) {
+        yield* await this.getVideoDetails(batch);
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      yield* await this.getVideoDetails(batch);
     }
   }
 
+  async getAllChannelVideos(channelId: string, options: ChannelUploadsOptions = {}) {
+    const videos: youtube_v3.Schema$Video[] = [];
+    for await (const video of this.iterateChannelVideos(channelId, options)) {
+      videos.push(video);
+    }
+    return videos;
+  }
+
+  /**
+   * @deprecated search.list を使うため1回100ユニットを消費し、最大50件しか取得できない。
+   * iterateChannelUploads / getAllChannelVideos を使うこと
+   */
+  async getChannelVideos(channelId: string, maxResults: number = 50) {
+    const params = {
+      part: ['snippet'],
+      channelId,
+      maxResults,
+      order: 'date',
+      type: ['video'],
+    };
+    return this.request('search.list', 'getChannelVideos', params, async () => {
+      const response = await this.youtube.search.list(params);
+      return response.data.items || [];
+    });
+  }
+
+  /**
+   * 動画詳細を取得する。IDが50件を超える場合は自動的に分割して取得する
+   */
   async getVideoDetails(videoIds: string[]) {
-    try {
-      const response = await this.youtube.videos.list({
+    const uniqueIds = [...new Set(videoIds)];
+    const results: youtube_v3.Schema$Video[] = [];
+
+    for (let i = 0; i < uniqueIds.length; i += VIDEO_BATCH_SIZE) {
+      const params = {
         part: ['snippet', 'statistics', 'contentDetails'],
-        id: videoIds,
+        id: uniqueIds.slice(i, i + VIDEO_BATCH_SIZE),
+      };
+      const items = await this.request('videos.list', 'getVideoDetails', params, async () => {
+        const response = await this.youtube.videos.list(params);
+        return response.data.items || [];
       });
-
-      return response.data.items || [];
-    } catch (error) {
-      console.error('Error fetching video details:', error);
-      throw error;
+      results.push(...items);
     }
+
+    return results;
   }
 
   async searchVideos(query: string, maxResults: number = 10) {
-    try {
-      const response = await this.youtube.search.list({
-        part: ['snippet'],
-        q: query,
-        maxResults,
-        type: ['video'],
-        order: 'relevance',
-      });
+    const params = {
+      part: ['snippet'],
+      q: query,
+      maxResults,
+      type: ['video'],
+      order: 'relevance',
+    };
+    return this.request('search.list', 'searchVideos', params, async () => {
+      const response = await this.youtube.search.list(params);
+      return response.data.items || [];
+    });
+  }
+
+  async searchVideoPage(query: string, maxResults: number = 25) {
+    const params = {
+      part: ['snippet'],
+      q: query,
+      maxResults,
+      type: ['video'],
+      order: 'relevance',
+    };
+    return this.request('search.list', 'searchVideoPage', params, async () => {
+      const response = await this.youtube.search.list(params);
+      return {
+        items: response.data.items || [],
+        totalResults: response.data.pageInfo?.totalResults ?? 0,
+      };
+    });
+  }
 
+  /**
+   * 自分の動画の字幕トラック一覧（50ユニット）
+   */
+  async listCaptionTracks(videoId: string) {
+    const youtube = this.requireOwnerAuth('listCaptionTracks');
+    const params = { part: ['snippet'], videoId };
+    return this.request('captions.list', 'listCaptionTracks', params, async () => {
+      const response = await youtube.captions.list(params);
       return response.data.items || [];
-    } catch (error) {
-      console.error('Error searching videos:', error);
-      throw error;
-    }
+    });
   }
 
-  async getTrendingVideos(regionCode: string = 'JP', categoryId?: string) {
-    try {
-      const params: any = {
-        part: ['snippet', 'statistics'],
-        chart: 'mostPopular',
-        regionCode,
-        maxResults: 20,
+  /**
+   * 字幕トラックをSRT/VTT形式でダウンロードする（200ユニット）
+   */
+  async downloadCaption(trackId: string, format: 'srt' | 'vtt' = 'vtt'): Promise<string> {
+    const youtube = this.requireOwnerAuth('downloadCaption');
+    const params = { id: trackId, tfmt: format };
+    return this.request('captions.download', 'downloadCaption', params, async () => {
+      const response = await youtube.captions.download(params, { responseType: 'text' });
+      return String(response.data);
+    });
+  }
+
+  /**
+   * 動画のコメントスレッド（返信の一部を含む）を関連度順に列挙する（1ページ100件・1ユニット）
+   */
+  async *iterateCommentThreads(
+    videoId: string,
+    options: { maxThreads?: number; order?: 'relevance' | 'time' } = {}
+  ): AsyncGenerator<youtube_v3.Schema$CommentThread> {
+    const { maxThreads = Infinity, order = 'relevance' } = options;
+    let pageToken: string | undefined;
+    let yielded = 0;
+
+    do {
+      const params = {
+        part: ['snippet', 'replies'],
+        videoId,
+        maxResults: COMMENT_PAGE_SIZE,
+        order,
+        textFormat: 'plainText',
+        pageToken,
       };
+      const page = await this.request('commentThreads.list', 'iterateCommentThreads', params, async () => {
+        const response = await this.youtube.commentThreads.list(params);
+        return {
+          items: response.data.items || [],
+          nextPageToken: response.data.nextPageToken ?? undefined,
+        };
+      });
 
-      if (categoryId) {
-        params.videoCategoryId = categoryId;
+      for (const thread of page.items) {
+        yield thread;
+        if (++yielded >= maxThreads) {
+          return;
+        }
       }
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  async getTrendingVideos(regionCode: string = 'JP', categoryId?: string) {
+    const params: youtube_v3.Params$Resource$Videos$List = {
+      part: ['snippet', 'statistics'],
+      chart: 'mostPopular',
+      regionCode,
+      maxResults: 20,
+    };
+
+    if (categoryId) {
+      params.videoCategoryId = categoryId;
+    }
 
+    return this.request('videos.list', 'getTrendingVideos', { ...params }, async () => {
       const response = await this.youtube.videos.list(params);
       return response.data.items || [];
-    } catch (error) {
-      console.error('Error fetching trending videos:', error);
-      throw error;
-    }
+    });
   }
-}
\ No newline at end of file
+}
@@ -1,47 +1,48 @@
+import { randomUUID } from 'node:crypto';
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-
-interface TestVariant {
-  id: string;
-  name: string;
-  content: string;
-  impressions: number;
-  clicks: number;
-  conversions: number;
-  revenue: number;
-}
-
-interface ABTest {
-  testId: string;
-  testName: string;
-  startDate: Date;
-  endDate?: Date;
-  status: 'active' | 'completed' | 'paused';
-  variants: TestVariant[];
-  winningVariant?: string;
-  statisticalSignificance?: number;
-}
-
-// A/Bテストのサンプルデータ（実際の実装では永続化が必要）
-const activeTests: Map<string, ABTest> = new Map();
+import { abTestStore, toProportionSample } from '../lib/ab-test-store';
+import type { ABTest, ABTestEvent, ABTestEventType, ABTestMetric, BanditConfig } from '../lib/ab-test-store';
+import { createSequentialDesign, evaluateSequentialLook } from '../lib/ab-sequential';
+import type { SequentialDesignInput } from '../lib/ab-sequential';
+import { chooseBanditVariant, posteriorMean, probabilityOfBeingBest } from '../lib/ab-bandit';
+import {
+  differenceConfidenceInterval,
+  probabilityToBeatControl,
+  proportionConfidenceInterval,
+  rate,
+  twoProportionZTest,
+} from '../lib/ab-statistics';
 
 export const abTestingTool = createTool({
   id: 'ab-testing',
   description: 'アフィリエイトコンテンツのA/Bテスト実行と分析',
   inputSchema: z.object({
-    action: z.enum(['create', 'analyze', 'optimize', 'report']),
+    action: z.enum(['create', 'record_event', 'choose_variant', 'analyze', 'optimize', 'report']),
     testName: z.string().optional(),
     variants: z.array(z.object({
       name: z.string(),
       content: z.string(),
     })).optional(),
     testId: z.string().optional(),
+    metric: z.enum(['ctr', 'cvr']).optional().describe('判定指標（ctr: クリック/表示, cvr: 成約/クリック）。デフォルト: cvr'),
+    variantId: z.string().optional().describe('record_event時の対象バリアントIDまたは名前'),
+    eventType: z.enum(['impression', 'click', 'conversion', 'revenue']).optional(),
+    count: z.number().int().nonnegative().optional().describe('eventTypeの発生件数（デフォルト: 1）'),
+    value: z.number().optional().describe('revenueイベントの金額'),
     metrics: z.object({
       impressions: z.number(),
       clicks: z.number(),
       conversions: z.number(),
       revenue: z.number(),
-    }).optional(),
+    }).optional().describe('record_event時にまとめて加算する集計値'),
+    alpha: z.number().min(0.001).max(0.2).optional().describe('有意水準（デフォルト: 0.05）'),
+    mode: z.enum(['fixed', 'sequential', 'bandit']).optional().describe('fixed: 固定サンプル, sequential: 逐次検定で自動停止, bandit: 多腕バンディットで配信比率を適応'),
+    baselineRate: z.number().gt(0).lt(1).optional().describe('sequential時のコントロールの想定比率（例: 0.05）'),
+    minimumDetectableEffect: z.number().gt(0).optional().describe('sequential時の最小検出効果（相対リフト、0.1 = +10%）'),
+    power: z.number().min(0.5).max(0.99).optional().describe('sequential時の検出力（デフォルト: 0.8）'),
+    algorithm: z.enum(['thompson', 'epsilon_greedy']).optional().describe('bandit時の割り当てアルゴリズム（デフォルト: thompson）'),
+    epsilon: z.number().min(0).max(1).optional().describe('epsilon_greedy時の探索率（デフォルト: 0.1）'),
   }),
   outputSchema: z.object({
     testId: z.string().optional(),
@@ -50,19 +51,74 @@ export const abTestingTool = createTool({
       winningVariant: z.string().optional(),
       improvementRate: z.number().optional(),
       confidenceLevel: z.number().optional(),
+      statisticalSignificance: z.number().optional(),
+      variants: z.array(z.object({
+        variantId: z.string(),
+        name: z.string(),
+        trials: z.number(),
+        successes: z.number(),
+        rate: z.number(),
+        confidenceInterval: z.tuple([z.number(), z.number()]),
+        upliftVsControl: z.number().optional(),
+        upliftConfidenceInterval: z.tuple([z.number(), z.number()]).optional(),
+        zScore: z.number().optional(),
+        pValue: z.number().optional(),
+        probabilityToBeatControl: z.number().optional(),
+      })).optional(),
+      sequential: z.object({
+        requiredSampleSizePerVariant: z.number(),
+        samplesPerVariant: z.number(),
+        informationFraction: z.number(),
+        alphaSpent: z.number(),
+        boundaryCrossed: z.boolean(),
+        decision: z.enum(['winner', 'no_difference']).optional(),
+      }).optional(),
+      selectedVariant: z.object({
+        variantId: z.string(),
+        name: z.string(),
+        content: z.string(),
+        explored: z.boolean(),
+      }).optional(),
+      allocation: z.array(z.object({
+        variantId: z.string(),
+        name: z.string(),
+        probability: z.number(),
+        posteriorMean: z.number(),
+      })).optional(),
       recommendations: z.array(z.string()),
     }).optional(),
     report: z.string().optional(),
   }),
   execute: async ({ context }) => {
-    const { action, testName, variants, testId, metrics } = context;
+    const {
+      action, testName, variants, testId, metric, variantId, eventType, count, value, metrics,
+      alpha, mode, baselineRate, minimumDetectableEffect, power, algorithm, epsilon,
+    } = context;
     
     switch (action) {
       case 'create':
-        return createABTest(testName!, variants!);
+        if (mode === 'sequential') {
+          if (baselineRate === undefined || minimumDetectableEffect === undefined) {
+            throw new Error('baselineRate and minimumDetectableEffect are required for sequential tests');
+          }
+          return createABTest(testName!, variants!, metric, { baselineRate, minimumDetectableEffect, alpha, power });
+        }
+        if (mode === 'bandit') {
+          return createABTest(testName!, variants!, metric, undefined, {
+            algorithm: algorithm ?? 'thompson',
+            epsilon: epsilon ?? 0.1,
+          });
+        }
+        return createABTest(testName!, variants!, metric);
+        
+      case 'choose_variant':
+        return chooseVariant(testId!);
+        
+      case 'record_event':
+        return recordABTestEvent(testId!, buildEvent(variantId!, eventType, count, value, metrics));
         
       case 'analyze':
-        return analyzeABTest(testId!);
+        return analyzeABTest(testId!, alpha);
         
       case 'optimize':
         return optimizeBasedOnResults(testId!);
@@ -76,16 +132,26 @@ export const abTestingTool = createTool({
   },
 });
 
-function createABTest(
+const DEFAULT_ALPHA = 0.05;
+
+async function createABTest(
   testName: string, 
-  variants: Array<{name: string; content: string}>
-): any {
-  const testId = `test_${Date.now()}`;
+  variants: Array<{name: string; content: string}>,
+  metric: ABTestMetric = 'cvr',
+  sequentialInput?: SequentialDesignInput,
+  bandit?: BanditConfig
+): Promise<any> {
+  const testId = `test_${randomUUID()}`;
+  const sequential = sequentialInput ? createSequentialDesign(sequentialInput, variants.length) : undefined;
   const test: ABTest = {
     testId,
     testName,
     startDate: new Date(),
     status: 'active',
+    metric,
+    mode: sequential ? 'sequential' : bandit ? 'bandit' : 'fixed',
+    sequential,
+    bandit,
     variants: variants.map((v, index) => ({
       id: `variant_${index}`,
       name: v.name,
@@ -97,24 +163,155 @@ function createABTest(
     })),
   };
   
-  activeTests.set(testId, test);
+  await abTestStore.save(test);
   
+  const recommendations = [
+    `テスト「${testName}」を開始しました`,
+    `${variants.length}つのバリアントを設定（コントロール: ${variants[0]?.name}）`,
+    'record_eventアクションで各バリアントの実績を登録してください',
+  ];
+  if (sequential) {
+    recommendations.push(
+      `必要サンプルサイズ: 1バリアントあたり${sequential.requiredSampleSizePerVariant.toLocaleString()}${metric === 'ctr' ? 'インプレッション' : 'クリック'}`,
+      'イベント登録ごとに逐次検定を行い、境界を越えた時点で自動的に終了します',
+    );
+  } else if (bandit) {
+    recommendations.push(
+      `割り当てアルゴリズム: ${bandit.algorithm === 'thompson' ? 'トンプソンサンプリング' : `ε-greedy（ε=${bandit.epsilon}）`}`,
+      'choose_variantで配信するバリアントを取得し、結果をrecord_eventで報告してください',
+    );
+  } else {
+    recommendations.push('統計的有意性を確保するため2週間以上の実行を推奨');
+  }
+
   return {
     testId,
     status: 'A/Bテストが作成されました',
     results: {
+      sequential: sequential && summarizeSequential(test),
+      recommendations,
+    },
+  };
+}
+
+function summarizeSequential(test: ABTest) {
+  const design = test.sequential!;
+  const last = design.looks[design.looks.length - 1];
+  return {
+    requiredSampleSizePerVariant: design.requiredSampleSizePerVariant,
+    samplesPerVariant: last?.samplesPerVariant ?? 0,
+    informationFraction: last?.informationFraction ?? 0,
+    alphaSpent: last?.cumulativeAlpha ?? 0,
+    boundaryCrossed: last?.boundaryCrossed ?? false,
+    decision: design.decision,
+  };
+}
+
+function buildEvent(
+  variantId: string,
+  eventType?: ABTestEventType,
+  count: number = 1,
+  value?: number,
+  metrics?: { impressions: number; clicks: number; conversions: number; revenue: number }
+): ABTestEvent {
+  if (metrics) {
+    return { variantId, ...metrics };
+  }
+
+  switch (eventType) {
+    case 'impression':
+      return { variantId, impressions: count };
+    case 'click':
+      return { variantId, clicks: count };
+    case 'conversion':
+      return { variantId, conversions: count, revenue: value ?? 0 };
+    case 'revenue':
+      return { variantId, revenue: value ?? 0 };
+    default:
+      throw new Error('eventType or metrics is required for record_event');
+  }
+}
+
+async function recordABTestEvent(testId: string, event: ABTestEvent): Promise<any> {
+  try {
+    // 逐次検定モードではバッチごとに中間解析し、境界を越えたら自動終了する
+    // 中間解析と終了状態の保存はイベントの集計と同じトランザクションで行い、同時に届いたイベントで上書きされないようにする
+    let look: ReturnType<typeof evaluateSequentialLook> = null;
+    const test = await abTestStore.recordEvent(testId, event, updated => {
+      look = evaluateSequentialLook(updated);
+    });
+    const variant = test.variants.find(v => v.id === event.variantId || v.name === event.variantId)!;
+    const recommendations = [
+      `${variant.name}: 表示${variant.impressions.toLocaleString()} / クリック${variant.clicks.toLocaleString()} / 成約${variant.conversions.toLocaleString()}`,
+    ];
+
+    if (look) {
+      if (test.status === 'completed') {
+        recommendations.push(
+          test.winningVariant
+            ? `逐次検定の境界を越えました。勝利バリアント「${test.winningVariant}」でテストを終了しました`
+            : '必要サンプルサイズに到達しましたが有意差はありませんでした。テストを終了しました'
+        );
+      }
+    }
+
+    return {
+      testId,
+      status: test.status === 'completed' ? 'イベントを記録しました（テスト終了）' : 'イベントを記録しました',
+      results: {
+        winningVariant: test.winningVariant,
+        statisticalSignificance: test.statisticalSignificance,
+        sequential: test.sequential && summarizeSequential(test),
+        recommendations,
+      },
+    };
+  } catch (error) {
+    return {
+      testId,
+      status: error instanceof Error ? error.message : 'イベントの記録に失敗しました',
+      results: { recommendations: [] },
+    };
+  }
+}
+
+async function chooseVariant(testId: string): Promise<any> {
+  const test = await abTestStore.get(testId);
+  if (!test || test.mode !== 'bandit') {
+    return {
+      status: 'バンディットテストが見つかりません',
+      results: { recommendations: [] },
+    };
+  }
+  if (test.status !== 'active') {
+    return {
+      testId,
+      status: 'テストはアクティブではありません',
+      results: { winningVariant: test.winningVariant, recommendations: [] },
+    };
+  }
+
+  const choice = chooseBanditVariant(test);
+  return {
+    testId,
+    status: 'バリアントを選択しました',
+    results: {
+      selectedVariant: {
+        variantId: choice.variant.id,
+        name: choice.variant.name,
+        content: choice.variant.content,
+        explored: choice.explored,
+      },
+      allocation: choice.allocation,
       recommendations: [
-        `テスト「${testName}」を開始しました`,
-        `${variants.length}つのバリアントを設定`,
-        '最低1,000インプレッションまで実行を推奨',
-        '統計的有意性を確保するため2週間以上の実行を推奨',
+        `「${choice.variant.name}」を配信してください${choice.explored ? '（探索）' : ''}`,
+        '配信後の表示・クリック・成約はrecord_eventで報告してください',
       ],
     },
   };
 }
 
-function analyzeABTest(testId: string): any {
-  const test = activeTests.get(testId);
+async function analyzeABTest(testId: string, alpha: number = DEFAULT_ALPHA): Promise<any> {
+  const test = await abTestStore.get(testId);
   if (!test) {
     return {
       status: 'テストが見つかりません',
@@ -122,56 +319,192 @@ function analyzeABTest(testId: string): any {
     };
   }
   
-  // 実際の実装では実データを使用
-  // ここではサンプルデータを生成
-  test.variants = test.variants.map((v, index) => ({
-    ...v,
-    impressions: Math.floor(Math.random() * 5000) + 1000,
-    clicks: Math.floor(Math.random() * 500) + 50,
-    conversions: Math.floor(Math.random() * 50) + 5,
-    revenue: Math.floor(Math.random() * 500000) + 50000,
-  }));
-  
-  // パフォーマンス分析
-  const analysis = analyzePerformance(test);
+  if (test.mode === 'sequential') {
+    return analyzeSequentialTest(test);
+  }
+  if (test.mode === 'bandit') {
+    return analyzeBanditTest(testId);
+  }
+
+  // パフォーマンス分析（分析中に記録されたイベントを上書きしないよう、最新の集計で分析して結果だけを保存する）
+  let analysis: any;
+  await abTestStore.update(testId, latest => {
+    analysis = analyzePerformance(latest, alpha);
+    latest.winningVariant = analysis.winner;
+    latest.statisticalSignificance = analysis.significance;
+  });
   
   return {
     testId,
-    status: '分析完了',
+    status: analysis.winner ? '分析完了（有意差あり）' : '分析完了（有意差なし）',
     results: {
       winningVariant: analysis.winner,
       improvementRate: analysis.improvement,
       confidenceLevel: analysis.confidence,
+      statisticalSignificance: analysis.significance,
+      variants: analysis.variants,
       recommendations: analysis.recommendations,
     },
   };
 }
 
-function analyzePerformance(test: ABTest): any {
+/**
+ * 逐次検定モードのテストは中間結果で勝者を宣言しない（覗き見による偽陽性を防ぐ）
+ * 勝者は record_event 時の逐次検定でのみ確定する
+ */
+function analyzeSequentialTest(test: ABTest): any {
+  const design = test.sequential!;
+  const analysis = analyzePerformance(test, design.alpha);
+  const completed = test.status === 'completed';
+
+  return {
+    testId: test.testId,
+    status: completed ? '分析完了（逐次検定で終了済み）' : 'テスト継続中（逐次検定の境界未到達）',
+    results: {
+      winningVariant: completed ? test.winningVariant : undefined,
+      improvementRate: completed ? analysis.improvement : undefined,
+      confidenceLevel: Math.round((1 - design.alpha) * 100),
+      statisticalSignificance: completed ? test.statisticalSignificance : undefined,
+      variants: analysis.variants,
+      sequential: summarizeSequential(test),
+      recommendations: completed
+        ? analysis.recommendations
+        : [
+            `必要サンプルの${Math.round((summarizeSequential(test).informationFraction) * 100)}%を収集済み`,
+            '境界に到達するまで勝者は確定しません。テストを継続してください',
+          ],
+    },
+  };
+}
+
+// バンディットで勝者とみなす「最良である確率」の閾値
+const BANDIT_WIN_PROBABILITY = 0.95;
+
+async function analyzeBanditTest(testId: string): Promise<any> {
+  // 分析中に記録された試行・報酬を上書きしないよう、最新の集計で分析して勝者の判定だけを保存する
+  let analysis: any;
+  let allocation: { variantId: string; name: string; probability: number; posteriorMean: number }[] = [];
+  let leader = allocation[0];
+  const test = await abTestStore.update(testId, latest => {
+    analysis = analyzePerformance(latest, DEFAULT_ALPHA);
+    // 勝者判定は割り当てアルゴリズムに関わらず「最良である事後確率」で行う
+    const probabilities = probabilityOfBeingBest(latest);
+    allocation = latest.variants.map((v, i) => ({
+      variantId: v.id,
+      name: v.name,
+      probability: probabilities[i],
+      posteriorMean: posteriorMean(latest, v),
+    }));
+    leader = [...allocation].sort((a, b) => b.probability - a.probability)[0];
+    latest.winningVariant = leader.probability >= BANDIT_WIN_PROBABILITY ? leader.name : undefined;
+    latest.statisticalSignificance = Math.round(leader.probability * 10000) / 100;
+  });
+  const winner = test.winningVariant;
+
+  return {
+    testId: test.testId,
+    status: winner ? '分析完了（最良バリアント確定）' : '分析完了（探索継続中）',
+    results: {
+      winningVariant: winner,
+      statisticalSignificance: test.statisticalSignificance,
+      variants: analysis.variants,
+      allocation,
+      recommendations: winner
+        ? [`「${winner}」が最良である確率は${(leader.probability * 100).toFixed(1)}%です。本実装への採用を推奨`]
+        : [
+            `現在の最有力: 「${leader.name}」（最良である確率 ${(leader.probability * 100).toFixed(1)}%）`,
+            'バンディットが配信比率を自動調整しています。配信を継続してください',
+          ],
+    },
+  };
+}
+
+interface VariantAnalysis {
+  variantId: string;
+  name: string;
+  trials: number;
+  successes: number;
+  rate: number;
+  confidenceInterval: [number, number];
+  upliftVsControl?: number;
+  upliftConfidenceInterval?: [number, number];
+  zScore?: number;
+  pValue?: number;
+  probabilityToBeatControl?: number;
+}
+
+function analyzePerformance(test: ABTest, alpha: number): any {
+  const [control, ...challengers] = test.variants;
+  const controlSample = toProportionSample(control, test.metric);
+  // 複数バリアントを同時比較する場合はBonferroni補正で有意水準を調整
+  const adjustedAlpha = alpha / Math.max(1, challengers.length);
+
+  const variants = test.variants.map((v, index): VariantAnalysis => {
+    const sample = toProportionSample(v, test.metric);
+    const base = {
+      variantId: v.id,
+      name: v.name,
+      trials: sample.trials,
+      successes: sample.successes,
+      rate: rate(sample),
+      confidenceInterval: proportionConfidenceInterval(sample, 1 - alpha),
+    };
+    if (index === 0) {
+      return base;
+    }
+
+    const zTest = twoProportionZTest(controlSample, sample);
+    return {
+      ...base,
+      upliftVsControl: rate(controlSample) > 0 ? (rate(sample) - rate(controlSample)) / rate(controlSample) : undefined,
+      upliftConfidenceInterval: differenceConfidenceInterval(controlSample, sample, 1 - adjustedAlpha),
+      zScore: zTest.zScore,
+      pValue: zTest.pValue,
+      probabilityToBeatControl: probabilityToBeatControl(controlSample, sample),
+    };
+  });
+
+  // 有意に異なるバリアントのうち、率が最も高いものを勝者とする
+  // コントロールを有意に下回るバリアントしかない場合はコントロールの勝ち
+  const significant = variants
+    .slice(1)
+    .filter(v => v.pValue !== undefined && v.pValue < adjustedAlpha);
+  const significantWinners = significant.filter(v => v.rate > variants[0].rate);
+  const bestChallenger = significantWinners.sort((a, b) => b.rate - a.rate)[0];
+
+  let winner: VariantAnalysis | undefined;
+  if (bestChallenger) {
+    winner = bestChallenger;
+  } else if (significant.length > 0 && significant.length === challengers.length) {
+    winner = variants[0];
+  }
+
+  const minPValue = Math.min(1, ...variants.slice(1).map(v => v.pValue ?? 1));
+  const significance = Math.round((1 - minPValue) * 10000) / 100;
+  const improvement = bestChallenger?.upliftVsControl !== undefined
+    ? Math.round(bestChallenger.upliftVsControl * 10000) / 100
+    : 0;
+
   const variantStats = test.variants.map(v => ({
     ...v,
-    ctr: (v.clicks / v.impressions) * 100,
-    cvr: (v.conversions / v.clicks) * 100,
-    rpc: v.revenue / v.clicks,
+    ctr: v.impressions > 0 ? (v.clicks / v.impressions) * 100 : 0,
+    cvr: v.clicks > 0 ? (v.conversions / v.clicks) * 100 : 0,
+    rpc: v.clicks > 0 ? v.revenue / v.clicks : 0,
   }));
-  
-  // 最高パフォーマンスのバリアントを特定
-  const bestVariant = variantStats.reduce((best, current) => 
-    current.cvr > best.cvr ? current : best
-  );
-  
-  const baselineVariant = variantStats[0];
-  const improvement = ((bestVariant.cvr - baselineVariant.cvr) / baselineVariant.cvr) * 100;
-  
-  // 統計的有意性の簡易計算（実際はより厳密な計算が必要）
-  const sampleSize = Math.min(...test.variants.map(v => v.impressions));
-  const confidence = sampleSize > 1000 ? 95 : sampleSize > 500 ? 85 : 70;
-  
+  const recommendations = winner
+    ? generateRecommendations(variantStats, variantStats.find(v => v.id === winner!.variantId))
+    : [
+        `現時点で有意差なし（最小p値 ${minPValue.toFixed(3)}、補正後有意水準 ${adjustedAlpha.toFixed(3)}）`,
+        'サンプルが不足している可能性があります。テストを継続してください',
+      ];
+
   return {
-    winner: bestVariant.name,
-    improvement: Math.round(improvement),
-    confidence,
-    recommendations: generateRecommendations(variantStats, bestVariant),
+    winner: winner?.name,
+    improvement,
+    confidence: Math.round((1 - alpha) * 100),
+    significance,
+    variants,
+    recommendations,
   };
 }
 
@@ -200,14 +533,26 @@ function generateRecommendations(
   return recommendations;
 }
 
-function optimizeBasedOnResults(testId: string): any {
-  const test = activeTests.get(testId);
-  if (!test || test.status !== 'active') {
+async function optimizeBasedOnResults(testId: string): Promise<any> {
+  const test = await abTestStore.get(testId);
+  if (!test || test.status === 'paused') {
     return {
       status: 'アクティブなテストが見つかりません',
       results: { recommendations: [] },
     };
   }
+
+  // 逐次検定モードでは終了前の数値に基づく最適化を行わない
+  if (test.mode === 'sequential' && test.status !== 'completed') {
+    return {
+      testId,
+      status: 'テスト継続中のため最適化を保留しました',
+      results: {
+        sequential: summarizeSequential(test),
+        recommendations: ['逐次検定が終了するまでイベントの登録を継続してください'],
+      },
+    };
+  }
   
   // テスト結果に基づく最適化提案
   const optimizations = [
@@ -241,15 +586,19 @@ function optimizeBasedOnResults(testId: string): any {
     testId,
     status: '最適化提案を生成しました',
     results: {
-      recommendations: optimizations.map(opt => 
-        `${opt.element}: "${opt.optimized}" (期待効果: ${opt.expectedImprovement})`
-      ),
+      winningVariant: test.winningVariant,
+      recommendations: [
+        ...(test.winningVariant ? [`勝利バリアント「${test.winningVariant}」を本実装に採用`] : []),
+        ...optimizations.map(opt => 
+          `${opt.element}: "${opt.optimized}" (期待効果: ${opt.expectedImprovement})`
+        ),
+      ],
     },
   };
 }
 
-function generateABTestReport(testId: string): any {
-  const test = activeTests.get(testId);
+async function generateABTestReport(testId: string): Promise<any> {
+  const test = await abTestStore.get(testId);
   if (!test) {
     return {
       status: 'テストが見つかりません',
@@ -266,13 +615,17 @@ function generateABTestReport(testId: string): any {
 - テストID: ${test.testId}
 - 実施期間: ${duration}日間
 - ステータス: ${test.status}
+- 判定指標: ${test.metric === 'ctr' ? 'CTR（クリック/表示）' : 'CVR（成約/クリック）'}
+- 検定方式: ${test.mode === 'sequential' ? `逐次検定（必要サンプル ${test.sequential!.requiredSampleSizePerVariant.toLocaleString()}/バリアント、中間解析 ${test.sequential!.looks.length}回）` : test.mode === 'bandit' ? `多腕バンディット（${test.bandit!.algorithm}）` : '固定サンプル'}
+- 勝利バリアント: ${test.winningVariant ?? '未確定'}
+- 統計的有意性: ${test.statisticalSignificance !== undefined ? `${test.statisticalSignificance}%` : '未分析'}
 
 ## パフォーマンスサマリー
 ${test.variants.map(v => `
 ### ${v.name}
 - インプレッション: ${v.impressions.toLocaleString()}
-- クリック数: ${v.clicks.toLocaleString()} (CTR: ${((v.clicks/v.impressions)*100).toFixed(2)}%)
-- コンバージョン: ${v.conversions} (CVR: ${((v.conversions/v.clicks)*100).toFixed(2)}%)
+- クリック数: ${v.clicks.toLocaleString()} (CTR: ${v.impressions > 0 ? ((v.clicks/v.impressions)*100).toFixed(2) : '0.00'}%)
+- コンバージョン: ${v.conversions} (CVR: ${v.clicks > 0 ? ((v.conversions/v.clicks)*100).toFixed(2) : '0.00'}%)
 - 収益: ¥${v.revenue.toLocaleString()}
 `).join('\n')}
 
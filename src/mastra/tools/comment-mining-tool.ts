@@ -0,0 +1,84 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { YouTubeService } from '../lib/youtube.js';
+import { collectComments } from '../lib/comments.js';
+import { mineComments } from '../lib/comment-mining.js';
+
+const OBJECTION_CATEGORIES = ['price', 'trust', 'effectiveness', 'promotion', 'cancellation', 'necessity'] as const;
+
+const sentimentSummarySchema = z.object({
+  videoId: z.string().optional(),
+  comments: z.number(),
+  positive: z.number(),
+  neutral: z.number(),
+  negative: z.number(),
+  averageScore: z.number().describe('-1〜1'),
+});
+
+export const videoIdeaSchema = z.object({
+  rank: z.number(),
+  title: z.string(),
+  topic: z.string(),
+  targetKeywords: z.array(z.string()),
+  demandScore: z.number(),
+  questionCount: z.number(),
+  requestCount: z.number(),
+  commentIds: z.array(z.string()),
+  examples: z.array(z.string()),
+});
+
+export const faqEntrySchema = z.object({
+  question: z.string(),
+  askedCount: z.number(),
+  likeCount: z.number(),
+  commentIds: z.array(z.string()),
+  videoIds: z.array(z.string()),
+  variants: z.array(z.string()).describe('同じ趣旨の別の聞き方'),
+});
+
+export const commentMiningTool = createTool({
+  id: 'comment-mining',
+  description: '動画のコメントから質問・リクエスト・紹介商品への反論・感情を抽出し、需要順の動画ネタとFAQを作成',
+  inputSchema: z.object({
+    videoIds: z.array(z.string()).optional().describe('コメントを取得する動画ID（YOUTUBE_API_KEYが必要）'),
+    commentsFile: z.string().optional().describe('コメントのエクスポートJSONのファイルパス'),
+    commentsJson: z.string().optional().describe('コメントのエクスポートJSON（commentThreads.listのレスポンスまたはコメントの配列）'),
+    products: z.array(z.string()).optional().describe('動画で紹介している商品名（反論の検出に使う）'),
+    maxIdeas: z.number().int().min(1).max(30).default(10).describe('動画ネタの最大数'),
+    maxFaq: z.number().int().min(1).max(50).default(10).describe('FAQの最大数'),
+    maxThreadsPerVideo: z.number().int().min(1).max(1000).default(200).describe('動画ごとに取得するコメントスレッド数'),
+  }),
+  outputSchema: z.object({
+    analyzedComments: z.number(),
+    duplicatesRemoved: z.number(),
+    sentiment: sentimentSummarySchema,
+    sentimentByVideo: z.array(sentimentSummarySchema),
+    videoIdeas: z.array(videoIdeaSchema),
+    faq: z.array(faqEntrySchema),
+    objections: z.array(z.object({
+      product: z.string().optional(),
+      category: z.enum(OBJECTION_CATEGORIES),
+      count: z.number(),
+      likeCount: z.number(),
+      commentIds: z.array(z.string()),
+      examples: z.array(z.string()),
+    })),
+    keyPoints: z.array(z.string()).describe('コンテンツ生成ツールのkeyPointsに渡せる、答えるべき論点'),
+    warnings: z.array(z.string()),
+  }),
+  execute: async ({ context }) => {
+    const { videoIds, commentsFile, commentsJson, products, maxIdeas, maxFaq, maxThreadsPerVideo } = context;
+    const apiKey = process.env.YOUTUBE_API_KEY;
+    const { comments, warnings, duplicatesRemoved } = await collectComments(
+      { videoIds, commentsFile, commentsJson, maxThreadsPerVideo },
+      apiKey ? new YouTubeService(apiKey) : undefined
+    );
+    if (comments.length === 0) {
+      warnings.push('分析するコメントがありません。videoIds・commentsFile・commentsJsonのいずれかを指定してください');
+    }
+
+    const mined = mineComments(comments, { products, maxIdeas, maxFaq });
+    // 同じIDの重複は収集時に、同じ本文の重複は分析時に除いているので合算する
+    return { ...mined, duplicatesRemoved: duplicatesRemoved + mined.duplicatesRemoved, warnings };
+  },
+});
@@ -0,0 +1,116 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { YouTubeService } from '../lib/youtube.js';
+import { YouTubeApiError } from '../lib/youtube-errors.js';
+import { competitorWatchStore, scanWatchlist } from '../lib/competitor-watchlist.js';
+
+const alertTypeSchema = z.enum(['new_upload', 'title_changed', 'thumbnail_changed', 'view_spike', 'new_affiliate_product']);
+
+export const competitorWatchlistTool = createTool({
+  id: 'competitor-watchlist',
+  description: '競合YouTubeチャンネルを監視し、新規投稿・タイトル/サムネイル変更・再生急増・新規アフィリエイト商品を検知',
+  inputSchema: z.object({
+    action: z.enum(['add', 'remove', 'list', 'scan', 'alerts']).describe('実行するアクション'),
+    channelId: z.string().optional().describe('チャンネルID（add/remove時に必須、alerts時は絞り込み）'),
+    label: z.string().optional().describe('add時の表示名（デフォルト: チャンネル名）'),
+    productKeywords: z.array(z.string()).optional().describe('add時に概要欄での言及を検知したい商品名'),
+    maxVideosPerChannel: z.number().int().min(1).max(200).optional().describe('scan時にチャンネルごとに確認する最新動画数（デフォルト: 25）'),
+    spikeMultiplier: z.number().gt(1).optional().describe('再生急増とみなす、チャンネル中央値に対する倍率（デフォルト: 3）'),
+    spikeMinViews: z.number().int().nonnegative().optional().describe('再生急増とみなす最小の再生増加数（デフォルト: 1000）'),
+    sinceHours: z.number().gt(0).optional().describe('alerts時に遡る時間（デフォルト: 168）'),
+    types: z.array(alertTypeSchema).optional().describe('alerts時に絞り込むアラート種別'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    watchlist: z.array(z.object({
+      channelId: z.string(),
+      label: z.string(),
+      productKeywords: z.array(z.string()),
+      addedAt: z.string(),
+      lastScannedAt: z.string().optional(),
+    })).optional(),
+    alerts: z.array(z.object({
+      id: z.number().optional(),
+      type: alertTypeSchema,
+      severity: z.enum(['info', 'warning', 'critical']),
+      channelId: z.string(),
+      channelLabel: z.string(),
+      videoId: z.string(),
+      detectedAt: z.string(),
+      summary: z.string(),
+      details: z.record(z.unknown()),
+    })).optional(),
+    scan: z.object({
+      scannedChannels: z.number(),
+      baselinedChannels: z.array(z.string()),
+      errors: z.array(z.object({ channelId: z.string(), error: z.string() })),
+    }).optional(),
+    error: z.string().optional(),
+    errorType: z.enum(['quotaExceeded', 'rateLimited', 'forbidden', 'notFound', 'badRequest', 'unknown']).optional(),
+  }),
+  execute: async ({ context }) => {
+    const { action, channelId, label, productKeywords, maxVideosPerChannel, spikeMultiplier, spikeMinViews, sinceHours, types } = context;
+
+    try {
+      switch (action) {
+        case 'add': {
+          if (!channelId) {
+            throw new Error('Channel ID is required for add');
+          }
+          let name = label;
+          const apiKey = process.env.YOUTUBE_API_KEY;
+          if (!name && apiKey) {
+            const channel = await new YouTubeService(apiKey).getChannelInfo(channelId);
+            name = channel?.snippet?.title ?? undefined;
+          }
+          await competitorWatchStore.add(channelId, name ?? channelId, productKeywords ?? []);
+          return { success: true, watchlist: await competitorWatchStore.list() };
+        }
+
+        case 'remove':
+          if (!channelId) {
+            throw new Error('Channel ID is required for remove');
+          }
+          if (!(await competitorWatchStore.remove(channelId))) {
+            throw new Error(`Channel is not on the watchlist: ${channelId}`);
+          }
+          return { success: true, watchlist: await competitorWatchStore.list() };
+
+        case 'list':
+          return { success: true, watchlist: await competitorWatchStore.list() };
+
+        case 'scan': {
+          const apiKey = process.env.YOUTUBE_API_KEY;
+          if (!apiKey) {
+            throw new Error('YouTube API key not configured');
+          }
+          const { alerts, ...scan } = await scanWatchlist(new YouTubeService(apiKey), {
+            maxVideosPerChannel,
+            spikeMultiplier,
+            spikeMinViews,
+          });
+          return { success: true, alerts, scan };
+        }
+
+        case 'alerts':
+          return {
+            success: true,
+            alerts: await competitorWatchStore.listAlerts({
+              since: new Date(Date.now() - (sinceHours ?? 168) * 3_600_000),
+              channelId,
+              types,
+            }),
+          };
+
+        default:
+          throw new Error('Invalid action');
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorType: error instanceof YouTubeApiError ? error.reason : undefined,
+      };
+    }
+  },
+});
@@ -1,62 +1,165 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import { COMPLIANCE_SEVERITIES, evaluateCompliance, getComplianceRuleRegistry } from '../lib/compliance-rules.js';
+import type { ComplianceIssue, ComplianceRulePack, ComplianceScope, ComplianceSuppression } from '../lib/compliance-rules.js';
+import { fixCompliance, hashContent } from '../lib/compliance-fix.js';
+import { assessClaims, auditCampaignClaims, claimEvidenceStore } from '../lib/claim-evidence.js';
+import { complianceAuditStore, toAuditCsv, toAuditJson, toOverrides } from '../lib/compliance-audit.js';
+import type { ComplianceAuditQuery } from '../lib/compliance-audit.js';
+import type { ClaimAssessment, ClaimEvidenceInput } from '../lib/claim-evidence.js';
+import { verifyVideoDisclosure } from '../lib/disclosure-verification.js';
+import type { VideoDisclosureInput } from '../lib/disclosure-verification.js';
 
-interface ComplianceIssue {
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  category: string;
-  issue: string;
-  recommendation: string;
-  legalReference?: string;
+interface AuditQueryInput {
+  contentId?: string;
+  contentHash?: string;
+  status?: string;
+  since?: string;
+  until?: string;
+  publishedAt?: string;
+  limit: number;
+  format: 'csv' | 'json';
 }
 
-interface ComplianceReport {
-  score: number;
-  status: 'compliant' | 'needs_attention' | 'non_compliant';
-  issues: ComplianceIssue[];
-  recommendations: string[];
-  requiredActions: string[];
-}
+export const complianceIssueSchema = z.object({
+  severity: z.enum(COMPLIANCE_SEVERITIES),
+  category: z.string(),
+  issue: z.string(),
+  recommendation: z.string(),
+  legalReference: z.string().optional(),
+  id: z.string().optional().describe('抑制の指定に使う識別子'),
+  ruleId: z.string().optional(),
+  packId: z.string().optional(),
+  packVersion: z.string().optional(),
+  match: z.string().optional(),
+  offset: z.number().optional().describe('本文先頭からの文字位置（0始まり）'),
+  length: z.number().optional(),
+  line: z.number().optional(),
+  column: z.number().optional(),
+  excerpt: z.string().optional(),
+});
 
 export const complianceCheckerTool = createTool({
   id: 'compliance-checker',
   description: 'アフィリエイトマーケティングの法的コンプライアンスチェック',
   inputSchema: z.object({
-    action: z.enum(['check_content', 'check_disclosure', 'check_claims', 'generate_disclaimer', 'audit_campaign']),
+    action: z.enum(['check_content', 'check_disclosure', 'check_claims', 'generate_disclaimer', 'audit_campaign', 'auto_fix', 'register_claim', 'list_claims', 'sign_off', 'query_audit', 'export_audit']),
     content: z.string().optional(),
     contentType: z.enum(['blog', 'email', 'social', 'landing_page', 'video']).optional(),
     productClaims: z.array(z.string()).optional(),
+    product: z.string().optional().describe('主張の対象商品（根拠の照合に使う。未指定なら本文に名前が出てくる商品の根拠を使う）'),
+    campaignContents: z.array(z.object({
+      id: z.string().describe('記事・メール・動画などの識別子'),
+      content: z.string(),
+    })).optional().describe('check_claims でキャンペーン全体の数値の主張を照合する本文'),
+    evidence: z.object({
+      product: z.string(),
+      claim: z.string().describe('根拠のある主張（例: 受講者満足度92%）'),
+      metric: z.string().optional().describe('数値が示すもの（例: 満足度）。本文の数値の前（文頭の数値なら後ろ）にこれがあるときだけ根拠として照合する。未指定なら claim の数値の前の部分'),
+      source: z.string().describe('出典（調査機関・調査名）'),
+      sourceUrl: z.string().optional(),
+      surveyedAt: z.string().describe('調査日・発表日（YYYY-MM-DD）'),
+      expiresAt: z.string().optional().describe('根拠の有効期限（未指定なら調査日から1年）'),
+      note: z.string().optional().describe('調査対象・期間などの補足'),
+    }).optional().describe('register_claim で登録する根拠'),
+    video: z.object({
+      script: z.string().optional().describe('【見出し】区切りの台本'),
+      description: z.string().optional().describe('概要欄'),
+      pinnedComment: z.string().optional().describe('固定コメント'),
+      onScreenText: z.array(z.object({
+        text: z.string(),
+        startSeconds: z.number().optional(),
+        durationSeconds: z.number().optional(),
+      })).optional().describe('テロップ・画面表示の文言と表示時間'),
+      productionChecklist: z.array(z.object({
+        task: z.string(),
+        category: z.string().optional(),
+      })).optional().describe('制作チェックリスト（youtubeFullProductionWorkflow の productionPlan.checklist）'),
+      videoType: z.enum(['long', 'shorts']).optional(),
+    }).optional().describe('check_disclosure で動画の各面（台本冒頭・概要欄・固定コメント・テロップ）を確認する'),
     targetMarket: z.enum(['jp', 'us', 'global']).optional(),
+    rulePacks: z.array(z.string()).optional().describe('使うルールパックのID（未指定なら、市場のパックのうちそのアクションの scope のものをすべて使う）'),
+    suppressions: z.array(z.object({
+      issueId: z.string().optional().describe('抑制する指摘のid'),
+      ruleId: z.string().optional().describe('抑制するルールのID（そのルールの指摘をすべて抑制）'),
+      reason: z.string().describe('抑制する理由'),
+      approvedBy: z.string().optional().describe('抑制を承認した人（監査記録に残る。check_content では必須）'),
+    })).optional().describe('確認済みで問題ない指摘の抑制'),
+    hunkDecisions: z.array(z.object({
+      hunkId: z.string(),
+      accept: z.boolean(),
+    })).optional().describe('auto_fix の修正案のハンクごとの採否（未指定のハンクは保留）'),
+    baseHash: z.string().optional().describe('修正案の report.baseHash（採否を送るとき、本文が変わっていないことを確かめる）'),
+    applyAll: z.boolean().optional().describe('auto_fix で採否を指定していないハンクもすべて採用する'),
+    contentId: z.string().optional().describe('公開する動画ID・記事URLなど（check_content・audit_campaign の監査記録に残す）'),
+    checkedBy: z.string().optional().describe('チェックを実行した人'),
+    signOff: z.object({
+      runId: z.number().int().describe('承認するチェックの report.auditRunId'),
+      approvedBy: z.string(),
+      note: z.string().optional(),
+    }).optional().describe('sign_off で公開を承認する'),
+    auditQuery: z.object({
+      contentId: z.string().optional(),
+      contentHash: z.string().optional(),
+      status: z.enum(['compliant', 'needs_attention', 'non_compliant']).optional(),
+      since: z.string().optional().describe('ISO 8601'),
+      until: z.string().optional().describe('ISO 8601'),
+      publishedAt: z.string().optional().describe('contentId と合わせて指定すると、公開時点のチェックとサインオフを返す（content に公開した本文を渡すとハッシュも照合する）'),
+      limit: z.number().int().min(1).max(1000).default(100),
+      format: z.enum(['csv', 'json']).default('csv').describe('export_audit の形式'),
+    }).optional().describe('query_audit・export_audit の条件'),
   }),
   outputSchema: z.object({
     report: z.any(),
-    issues: z.array(z.object({
-      severity: z.enum(['low', 'medium', 'high', 'critical']),
-      category: z.string(),
-      issue: z.string(),
-      recommendation: z.string(),
-    })),
+    issues: z.array(complianceIssueSchema),
+    suppressed: z.array(complianceIssueSchema.extend({ suppressionReason: z.string(), approvedBy: z.string().optional() })).optional(),
     recommendations: z.array(z.string()),
     disclaimer: z.string().optional(),
     templates: z.any().optional(),
   }),
   execute: async ({ context }) => {
-    const { action, content, contentType, productClaims, targetMarket } = context;
+    const {
+      action, content, contentType, productClaims, product, campaignContents, evidence,
+      targetMarket, rulePacks, suppressions, video, hunkDecisions, baseHash, applyAll,
+      contentId, checkedBy, signOff, auditQuery,
+    } = context;
     
     switch (action) {
       case 'check_content':
-        return checkContentCompliance(content!, contentType!, targetMarket || 'jp');
+        return checkContentCompliance(content!, contentType!, targetMarket || 'jp', { rulePacks, suppressions, contentId, checkedBy });
         
       case 'check_disclosure':
-        return checkAffiliateDisclosure(content!, contentType!);
+        if (video) {
+          return checkVideoDisclosure(video);
+        }
+        return checkAffiliateDisclosure(content!, contentType!, targetMarket || 'jp', rulePacks);
         
       case 'check_claims':
-        return checkProductClaims(productClaims!, targetMarket || 'jp');
+        return checkProductClaims(productClaims ?? [], targetMarket || 'jp', { product, campaignContents });
+        
+      case 'register_claim':
+        return registerClaimEvidence(evidence!);
+        
+      case 'list_claims':
+        return listClaimEvidence(product);
         
       case 'generate_disclaimer':
         return generateDisclaimer(contentType!, targetMarket || 'jp');
         
       case 'audit_campaign':
-        return auditMarketingCampaign(content!);
+        return auditMarketingCampaign(content!, targetMarket || 'jp', { rulePacks, contentId, checkedBy });
+        
+      case 'sign_off':
+        return signOffCompliance(signOff!);
+        
+      case 'query_audit':
+        return queryComplianceAudit(auditQuery ?? { limit: 100, format: 'csv' }, content);
+        
+      case 'export_audit':
+        return exportComplianceAudit(auditQuery ?? { limit: 100, format: 'csv' });
+        
+      case 'auto_fix':
+        return autoFixContent(content!, contentType!, targetMarket || 'jp', { rulePacks, suppressions, hunkDecisions, baseHash, applyAll });
         
       default:
         throw new Error('Invalid action');
@@ -64,133 +167,144 @@ export const complianceCheckerTool = createTool({
   },
 });
 
+function selectRulePacks(market: 'jp' | 'us' | 'global', rulePacks?: string[], scope: ComplianceScope = 'content'): ComplianceRulePack[] {
+  const registry = getComplianceRuleRegistry();
+  return rulePacks
+    ? rulePacks.map(id => {
+        const pack = registry.get(id);
+        if (!pack) {
+          const failed = registry.loadErrors().map(({ file }) => file);
+          throw new Error(`Unknown compliance rule pack: ${id}${failed.length > 0 ? ` (failed to load: ${failed.join(', ')})` : ''}`);
+        }
+        return pack;
+      })
+    : registry.forMarket(market, scope);
+}
+
 async function checkContentCompliance(
   content: string, 
   contentType: string, 
-  market: string
+  market: 'jp' | 'us' | 'global',
+  options: { rulePacks?: string[]; suppressions?: ComplianceSuppression[]; contentId?: string; checkedBy?: string } = {}
 ): Promise<any> {
-  const issues: ComplianceIssue[] = [];
-  
-  // 景品表示法チェック（日本）
-  if (market === 'jp') {
-    // 誇大広告のチェック
-    const exaggeratedTerms = ['必ず', '絶対', '確実に', '保証', '最高', '日本一', 'No.1'];
-    exaggeratedTerms.forEach(term => {
-      if (content.includes(term)) {
-        issues.push({
-          severity: 'high',
-          category: '景品表示法',
-          issue: `誇大表現「${term}」が含まれています`,
-          recommendation: `「${term}」を削除するか、客観的根拠を明示してください`,
-          legalReference: '景品表示法第5条（不当表示の禁止）',
-        });
-      }
-    });
-    
-    // 二重価格表示のチェック
-    if (content.includes('通常価格') && content.includes('特別価格')) {
-      issues.push({
-        severity: 'medium',
-        category: '景品表示法',
-        issue: '二重価格表示が検出されました',
-        recommendation: '比較対照価格の根拠を明確に示してください',
-        legalReference: '不当な価格表示についての景品表示法上の考え方',
-      });
-    }
-  }
-  
-  // アフィリエイト表示義務
-  const hasAffiliateDisclosure = checkForAffiliateDisclosure(content);
-  if (!hasAffiliateDisclosure) {
-    issues.push({
-      severity: 'critical',
-      category: 'アフィリエイト表示',
-      issue: 'アフィリエイトリンクの明示がありません',
-      recommendation: '記事冒頭に「広告」「PR」表記を追加してください',
-      legalReference: '消費者庁「インターネット消費者取引に係る広告表示に関する景品表示法上の問題点及び留意事項」',
-    });
-  }
-  
-  // 薬機法関連（健康・美容商品の場合）
-  const medicalTerms = ['治る', '効果', '改善', '予防', '診断'];
-  medicalTerms.forEach(term => {
-    if (content.includes(term)) {
-      issues.push({
-        severity: 'high',
-        category: '薬機法',
-        issue: `医療関連表現「${term}」が含まれています`,
-        recommendation: '医療効果を暗示する表現は避けてください',
-        legalReference: '医薬品医療機器等法第66条（誇大広告等の禁止）',
-      });
-    }
+  const packs = selectRulePacks(market, options.rulePacks);
+
+  const { issues, suppressed, packs: appliedPacks } = evaluateCompliance(content, packs, {
+    contentType,
+    suppressions: options.suppressions,
   });
   
-  // 個人情報保護
-  if (content.includes('個人情報') || content.includes('メールアドレス')) {
-    const hasPrivacyPolicy = content.includes('プライバシーポリシー');
-    if (!hasPrivacyPolicy) {
-      issues.push({
-        severity: 'medium',
-        category: '個人情報保護法',
-        issue: '個人情報取得時のプライバシーポリシーへのリンクがありません',
-        recommendation: 'プライバシーポリシーへのリンクを追加してください',
-        legalReference: '個人情報保護法第18条（取得に際しての利用目的の通知等）',
-      });
-    }
-  }
-  
   const score = calculateComplianceScore(issues);
   const status = getComplianceStatus(score);
+  const checkedAt = new Date();
+  const run = await complianceAuditStore.recordRun({
+    action: 'check_content',
+    contentId: options.contentId,
+    contentType,
+    market,
+    contentHash: hashContent(content),
+    rulePacks: appliedPacks.map(({ id, version }) => ({ id, version })),
+    score,
+    status,
+    issues,
+    overrides: toOverrides(suppressed, checkedAt),
+    checkedBy: options.checkedBy,
+    checkedAt: checkedAt.toISOString(),
+  });
   
   return {
     report: {
       score,
       status,
-      checkedAreas: ['景品表示法', 'アフィリエイト表示', '薬機法', '個人情報保護法'],
+      checkedAreas: [...new Set(appliedPacks.map(pack => pack.law))],
+      rulePacks: appliedPacks,
       market,
+      auditRunId: run.id,
+      contentHash: run.contentHash,
+      // COMPLIANCE_RULES_DIR で読み込めず、チェックに使われていないパックのファイル
+      ruleLoadErrors: getComplianceRuleRegistry().loadErrors(),
     },
     issues,
+    suppressed,
     recommendations: generateComplianceRecommendations(issues, contentType),
   };
 }
 
-async function checkAffiliateDisclosure(content: string, contentType: string): Promise<any> {
-  const issues: ComplianceIssue[] = [];
-  
-  const disclosurePatterns = [
-    'アフィリエイト',
-    '広告',
-    'PR',
-    'プロモーション',
-    'AD',
-    '提供',
-    'sponsored',
-    'パートナーシップ',
-  ];
-  
-  const hasDisclosure = disclosurePatterns.some(pattern => 
-    content.toLowerCase().includes(pattern.toLowerCase())
-  );
-  
-  if (!hasDisclosure) {
-    issues.push({
-      severity: 'critical',
-      category: 'FTC/消費者庁ガイドライン',
-      issue: 'アフィリエイト関係の開示が不十分です',
-      recommendation: '明確なアフィリエイト表示を追加してください',
-    });
+async function autoFixContent(
+  content: string,
+  contentType: string,
+  market: 'jp' | 'us' | 'global',
+  options: {
+    rulePacks?: string[];
+    suppressions?: ComplianceSuppression[];
+    hunkDecisions?: Array<{ hunkId: string; accept: boolean }>;
+    baseHash?: string;
+    applyAll?: boolean;
+  } = {}
+): Promise<any> {
+  if (options.baseHash && options.baseHash !== hashContent(content)) {
+    throw new Error('Content has changed since the fix was proposed; request a new auto_fix proposal before sending hunk decisions');
   }
+  const packs = selectRulePacks(market, options.rulePacks);
+  const { issues, suppressed } = evaluateCompliance(content, packs, { contentType, suppressions: options.suppressions });
+  const fix = fixCompliance(content, issues, packs, { decisions: options.hunkDecisions, applyAll: options.applyAll });
+
+  // 採用した修正を反映した本文で残る指摘
+  const remaining = evaluateCompliance(fix.fixedContent, packs, { contentType, suppressions: options.suppressions }).issues;
+  const pending = fix.hunks.filter(hunk => hunk.status === 'pending').length;
+  const score = calculateComplianceScore(remaining);
   
-  // 表示位置のチェック
-  const disclosurePosition = getDisclosurePosition(content, disclosurePatterns);
-  if (disclosurePosition > 200) {
-    issues.push({
-      severity: 'medium',
-      category: '表示位置',
-      issue: 'アフィリエイト表示が記事の後方にあります',
-      recommendation: '冒頭部分（最初の200文字以内）に移動してください',
-    });
-  }
+  return {
+    report: {
+      ...fix,
+      score,
+      status: getComplianceStatus(score),
+      acceptedHunks: fix.hunks.filter(hunk => hunk.status === 'accepted').length,
+      rejectedHunks: fix.hunks.filter(hunk => hunk.status === 'rejected').length,
+      pendingHunks: pending,
+    },
+    issues: remaining,
+    suppressed,
+    recommendations: [
+      ...(pending > 0 ? [`${pending}件のハンクが未確認です。diff を確認し hunkDecisions で採否を指定してください`] : []),
+      ...(fix.unfixed.length > 0 ? ['自動修正できない指摘は手動で修正してください'] : []),
+      ...(fix.proposedContent.includes('※[根拠:')
+        ? ['「※[根拠: …]」の記入欄に調査元・期間・対象を記入してから公開してください']
+        : []),
+    ],
+  };
+}
+
+async function checkVideoDisclosure(video: VideoDisclosureInput): Promise<any> {
+  const { compliant, surfaces, missingSurfaces, unverifiedSurfaces, issues } = verifyVideoDisclosure(video);
+  
+  return {
+    report: {
+      hasDisclosure: surfaces.some(s => s.status === 'disclosed'),
+      compliant,
+      surfaces,
+      missingSurfaces,
+      unverifiedSurfaces,
+      platformRequirement: '動画開始時（発話・テロップ）と概要欄・固定コメントの冒頭に表示',
+    },
+    issues,
+    recommendations: [...new Set(issues.map(issue => issue.recommendation))],
+    templates: getDisclosureTemplates('video'),
+  };
+}
+
+async function checkAffiliateDisclosure(
+  content: string,
+  contentType: string,
+  market: 'jp' | 'us' | 'global',
+  rulePacks?: string[]
+): Promise<any> {
+  const packs = selectRulePacks(market, rulePacks, 'disclosure');
+  const { issues, packs: appliedPacks } = evaluateCompliance(content, packs, { contentType });
+  // 位置の指定（within）がない absence ルールの指摘は、開示がまったくないことを示す
+  const missingRules = new Set(packs.flatMap(pack =>
+    pack.rules.filter(rule => rule.mode === 'absence' && rule.within === undefined).map(rule => rule.id)));
+  const hasDisclosure = !issues.some(issue => issue.ruleId !== undefined && missingRules.has(issue.ruleId));
   
   // プラットフォーム別の要件
   const platformRequirements = {
@@ -206,8 +320,8 @@ async function checkAffiliateDisclosure(content: string, contentType: string): P
   return {
     report: {
       hasDisclosure,
-      disclosurePosition,
       platformRequirement: requirement,
+      rulePacks: appliedPacks,
     },
     issues,
     recommendations: [
@@ -220,18 +334,29 @@ async function checkAffiliateDisclosure(content: string, contentType: string): P
   };
 }
 
-async function checkProductClaims(claims: string[], market: string): Promise<any> {
+async function checkProductClaims(
+  claims: string[],
+  market: string,
+  options: { product?: string; campaignContents?: Array<{ id: string; content: string }> } = {}
+): Promise<any> {
   const issues: ComplianceIssue[] = [];
+  const evidence = await claimEvidenceStore.list({ product: options.product, includeExpired: true });
+  const assessments: ClaimAssessment[] = [];
+  // 準拠率は主張ごとに数える（キャンペーン全体の指摘は issues に加わるが、主張の数には含めない）
+  let problematicClaims = 0;
   
   claims.forEach(claim => {
-    // 数値・統計の根拠チェック
-    const hasNumbers = /\d+[%％]|\d+倍|\d+人/.test(claim);
-    if (hasNumbers && !claim.includes('※') && !claim.includes('出典')) {
+    const issuesBefore = issues.length;
+    // 数値・統計の根拠チェック（登録済みの根拠と照合）
+    const claimAssessments = assessClaims(claim, evidence, { product: options.product });
+    assessments.push(...claimAssessments);
+    issues.push(...claimAssessments.filter(a => a.status === 'stale').map(a => staleEvidenceIssue(a)));
+    if (claimAssessments.some(a => a.status === 'unsubstantiated')) {
       issues.push({
         severity: 'medium',
         category: '根拠表示',
         issue: `「${claim}」の数値に根拠表示がありません`,
-        recommendation: '調査元・期間・対象を明記してください',
+        recommendation: '調査元・期間・対象を明記するか、根拠を登録してください（register_claim）',
       });
     }
     
@@ -257,16 +382,42 @@ async function checkProductClaims(claims: string[], market: string): Promise<any
         });
       }
     });
+    if (issues.length > issuesBefore) {
+      problematicClaims++;
+    }
   });
   
+  // キャンペーン全体の数値の主張
+  const campaign = options.campaignContents
+    ? auditCampaignClaims(options.campaignContents, evidence, { product: options.product })
+    : undefined;
+  if (campaign) {
+    issues.push(...campaign.stale.map(a => staleEvidenceIssue(a, a.contentId)));
+    issues.push(...campaign.unsubstantiated.map(a => ({
+      severity: 'medium' as const,
+      category: '根拠表示',
+      issue: `[${a.contentId}] ${a.line}行目の「${a.figure}」に根拠がありません`,
+      recommendation: '調査元・期間・対象を明記するか、根拠を登録してください（register_claim）',
+      match: a.figure,
+      offset: a.offset,
+      line: a.line,
+      excerpt: a.sentence,
+    })));
+  }
+  
   return {
     report: {
       totalClaims: claims.length,
-      problematicClaims: issues.length,
-      complianceRate: ((claims.length - issues.length) / claims.length) * 100,
+      problematicClaims,
+      complianceRate: claims.length > 0 ? ((claims.length - problematicClaims) / claims.length) * 100 : 100,
+      substantiated: assessments.filter(a => a.status === 'substantiated'),
+      campaign,
     },
     issues,
     recommendations: [
+      ...(campaign && campaign.expiringSoon.length > 0
+        ? [`${campaign.expiringSoon.length}件の根拠が30日以内に期限切れになります。再調査を予定してください`]
+        : []),
       '客観的データに基づく表現を心がける',
       '個人の感想は明確に区別する',
       '誤解を招く表現を避ける',
@@ -275,6 +426,124 @@ async function checkProductClaims(claims: string[], market: string): Promise<any
   };
 }
 
+function staleEvidenceIssue(assessment: ClaimAssessment, contentId?: string): ComplianceIssue {
+  const evidence = assessment.evidence!;
+  return {
+    severity: 'high',
+    category: '根拠表示',
+    issue: `${contentId ? `[${contentId}] ` : ''}「${assessment.figure}」の根拠（${evidence.source}、${evidence.surveyedAt}調査）は${evidence.expiresAt}に期限が切れています`,
+    recommendation: '再調査した根拠を登録し直すか、数値の表示をやめてください',
+    match: assessment.figure,
+    offset: assessment.offset,
+    line: assessment.line,
+    excerpt: assessment.sentence,
+  };
+}
+
+async function registerClaimEvidence(input: ClaimEvidenceInput): Promise<any> {
+  const evidence = await claimEvidenceStore.register(input);
+  
+  return {
+    report: { evidence },
+    issues: [],
+    recommendations: [`${evidence.expiresAt}までに再調査し、根拠を更新してください`],
+  };
+}
+
+async function listClaimEvidence(product?: string): Promise<any> {
+  const today = new Date().toISOString().slice(0, 10);
+  const evidence = (await claimEvidenceStore.list({ product, includeExpired: true }))
+    .map(e => ({ ...e, expired: e.expiresAt < today }));
+  const expired = evidence.filter(e => e.expired);
+  
+  return {
+    report: { evidence, expired: expired.length },
+    issues: [],
+    recommendations: expired.length > 0
+      ? [`${expired.length}件の根拠が期限切れです。再調査して登録し直してください`]
+      : [],
+  };
+}
+
+async function signOffCompliance(input: { runId: number; approvedBy: string; note?: string }): Promise<any> {
+  const signOff = await complianceAuditStore.signOff(input.runId, input.approvedBy, input.note);
+  
+  return {
+    report: { signOff },
+    issues: [],
+    recommendations: ['公開する本文を変更した場合は、チェックとサインオフをやり直してください'],
+  };
+}
+
+function toDate(value: string, field: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${field}: ${value}`);
+  }
+  return date;
+}
+
+function toAuditQuery(query: AuditQueryInput): ComplianceAuditQuery {
+  return {
+    contentId: query.contentId,
+    contentHash: query.contentHash,
+    status: query.status,
+    since: query.since ? toDate(query.since, 'auditQuery.since') : undefined,
+    until: query.until ? toDate(query.until, 'auditQuery.until') : undefined,
+    limit: query.limit,
+  };
+}
+
+async function queryComplianceAudit(query: AuditQueryInput, publishedContent?: string): Promise<any> {
+  if (query.publishedAt) {
+    if (!query.contentId) {
+      throw new Error('auditQuery.contentId is required with publishedAt');
+    }
+    const record = await complianceAuditStore.publicationRecord(
+      query.contentId,
+      toDate(query.publishedAt, 'auditQuery.publishedAt'),
+      publishedContent !== undefined ? hashContent(publishedContent) : undefined
+    );
+    const recommendations: string[] = [];
+    if (!record.run) recommendations.push('公開前のチェック記録がありません');
+    else if (!record.signOff) recommendations.push('公開前のサインオフがありません');
+    if (record.hashMatches === false) recommendations.push('公開した本文がチェックした本文と一致しません。公開版で再チェックしてください');
+    
+    return {
+      report: record,
+      issues: record.run?.issues ?? [],
+      recommendations,
+    };
+  }
+  
+  const runs = await complianceAuditStore.queryRuns(toAuditQuery(query));
+  const signOffs = await complianceAuditStore.listSignOffs({ runIds: runs.map(run => run.id) });
+  
+  return {
+    report: {
+      runs: runs.map(run => ({ ...run, signOffs: signOffs.filter(s => s.runId === run.id) })),
+      total: runs.length,
+    },
+    issues: [],
+    recommendations: [],
+  };
+}
+
+async function exportComplianceAudit(query: AuditQueryInput): Promise<any> {
+  const runs = await complianceAuditStore.queryRuns(toAuditQuery(query));
+  const signOffs = await complianceAuditStore.listSignOffs({ runIds: runs.map(run => run.id) });
+  
+  return {
+    report: {
+      format: query.format,
+      runs: runs.length,
+      export: query.format === 'json' ? toAuditJson(runs, signOffs) : toAuditCsv(runs, signOffs),
+    },
+    issues: [],
+    recommendations: [],
+  };
+}
+
 async function generateDisclaimer(contentType: string, market: string): Promise<any> {
   const disclaimers = {
     jp: {
@@ -334,38 +603,46 @@ Check description for affiliate links.`,
   };
 }
 
-async function auditMarketingCampaign(campaignContent: string): Promise<any> {
-  // キャンペーン全体の監査
-  const auditAreas = [
-    { area: '表示義務', check: checkDisplayObligations },
-    { area: '価格表示', check: checkPriceDisplay },
-    { area: '特定商取引法', check: checkSpecificCommercialTransaction },
-    { area: '著作権', check: checkCopyright },
-    { area: 'プライバシー', check: checkPrivacy },
-  ];
-  
-  const auditResults = [];
-  const allIssues: ComplianceIssue[] = [];
-  
-  for (const audit of auditAreas) {
-    const result = audit.check(campaignContent);
-    auditResults.push({
-      area: audit.area,
-      status: result.status,
-      issues: result.issues,
-    });
-    allIssues.push(...result.issues);
-  }
+async function auditMarketingCampaign(
+  campaignContent: string,
+  market: 'jp' | 'us' | 'global',
+  options: { rulePacks?: string[]; contentId?: string; checkedBy?: string } = {}
+): Promise<any> {
+  // キャンペーン全体の監査（ルールの category が監査の区分）
+  const packs = selectRulePacks(market, options.rulePacks, 'campaign_audit');
+  const { issues: allIssues, packs: appliedPacks } = evaluateCompliance(campaignContent, packs);
+  const areas = [...new Set(packs.flatMap(pack => pack.rules.map(rule => rule.category ?? pack.law)))];
+  const auditResults = areas.map(area => {
+    const issues = allIssues.filter(issue => issue.category === area);
+    return { area, status: issues.length === 0 ? 'pass' : 'fail', issues };
+  });
   
   const overallScore = calculateComplianceScore(allIssues);
   const requiredActions = prioritizeActions(allIssues);
+  const checkedAt = new Date();
+  const run = await complianceAuditStore.recordRun({
+    action: 'audit_campaign',
+    contentId: options.contentId,
+    market,
+    contentHash: hashContent(campaignContent),
+    rulePacks: appliedPacks.map(({ id, version }) => ({ id, version })),
+    score: overallScore,
+    status: getComplianceStatus(overallScore),
+    issues: allIssues,
+    overrides: [],
+    checkedBy: options.checkedBy,
+    checkedAt: checkedAt.toISOString(),
+  });
   
   return {
     report: {
       overallScore,
       status: getComplianceStatus(overallScore),
       auditResults,
-      timestamp: new Date().toISOString(),
+      rulePacks: appliedPacks,
+      timestamp: checkedAt.toISOString(),
+      auditRunId: run.id,
+      contentHash: run.contentHash,
     },
     issues: allIssues,
     recommendations: [
@@ -379,17 +656,6 @@ async function auditMarketingCampaign(campaignContent: string): Promise<any> {
 }
 
 // ヘルパー関数
-function checkForAffiliateDisclosure(content: string): boolean {
-  const disclosureKeywords = [
-    'アフィリエイト', '広告', 'PR', 'プロモーション',
-    'affiliate', 'sponsored', 'ad',
-  ];
-  
-  return disclosureKeywords.some(keyword => 
-    content.toLowerCase().includes(keyword.toLowerCase())
-  );
-}
-
 function calculateComplianceScore(issues: ComplianceIssue[]): number {
   let score = 100;
   
@@ -451,19 +717,6 @@ function generateComplianceRecommendations(issues: ComplianceIssue[], contentTyp
   return Array.from(recommendations);
 }
 
-function getDisclosurePosition(content: string, patterns: string[]): number {
-  let minPosition = content.length;
-  
-  patterns.forEach(pattern => {
-    const position = content.toLowerCase().indexOf(pattern.toLowerCase());
-    if (position !== -1 && position < minPosition) {
-      minPosition = position;
-    }
-  });
-  
-  return minPosition;
-}
-
 function getDisclosureTemplates(contentType: string): any {
   return {
     simple: getSimpleDisclosure(contentType),
@@ -515,106 +768,6 @@ All opinions expressed are our own.`;
   }
 }
 
-// 監査用ヘルパー関数
-function checkDisplayObligations(content: string): any {
-  const issues: ComplianceIssue[] = [];
-  
-  if (!content.includes('広告') && !content.includes('PR')) {
-    issues.push({
-      severity: 'critical',
-      category: '表示義務',
-      issue: '広告表示がありません',
-      recommendation: '「広告」または「PR」表記を追加',
-    });
-  }
-  
-  return {
-    status: issues.length === 0 ? 'pass' : 'fail',
-    issues,
-  };
-}
-
-function checkPriceDisplay(content: string): any {
-  const issues: ComplianceIssue[] = [];
-  
-  if (content.includes('円') || content.includes('¥') || content.includes('$')) {
-    if (!content.includes('税込') && !content.includes('税別')) {
-      issues.push({
-        severity: 'medium',
-        category: '価格表示',
-        issue: '税込/税別の表示がありません',
-        recommendation: '価格には税込/税別を明記',
-      });
-    }
-  }
-  
-  return {
-    status: issues.length === 0 ? 'pass' : 'fail',
-    issues,
-  };
-}
-
-function checkSpecificCommercialTransaction(content: string): any {
-  const issues: ComplianceIssue[] = [];
-  
-  const requiredInfo = ['事業者名', '連絡先', '返品'];
-  const missingInfo = requiredInfo.filter(info => !content.includes(info));
-  
-  if (missingInfo.length > 0) {
-    issues.push({
-      severity: 'medium',
-      category: '特定商取引法',
-      issue: `必要情報が不足: ${missingInfo.join(', ')}`,
-      recommendation: '特定商取引法に基づく表記ページへのリンクを追加',
-    });
-  }
-  
-  return {
-    status: issues.length === 0 ? 'pass' : 'fail',
-    issues,
-  };
-}
-
-function checkCopyright(content: string): any {
-  const issues: ComplianceIssue[] = [];
-  
-  if (content.includes('画像') || content.includes('引用')) {
-    if (!content.includes('出典') && !content.includes('©')) {
-      issues.push({
-        severity: 'low',
-        category: '著作権',
-        issue: '画像・引用の出典表示が不明確',
-        recommendation: '使用素材の出典を明記',
-      });
-    }
-  }
-  
-  return {
-    status: issues.length === 0 ? 'pass' : 'fail',
-    issues,
-  };
-}
-
-function checkPrivacy(content: string): any {
-  const issues: ComplianceIssue[] = [];
-  
-  if (content.includes('個人情報') || content.includes('メール')) {
-    if (!content.includes('プライバシー')) {
-      issues.push({
-        severity: 'medium',
-        category: 'プライバシー',
-        issue: 'プライバシーポリシーへの言及なし',
-        recommendation: 'プライバシーポリシーへのリンクを追加',
-      });
-    }
-  }
-  
-  return {
-    status: issues.length === 0 ? 'pass' : 'fail',
-    issues,
-  };
-}
-
 function prioritizeActions(issues: ComplianceIssue[]): string[] {
   const actions = [];
   
@@ -1,26 +1,21 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import { analyzeTranscript } from '../lib/captions.js';
+import { transcriptStore } from '../lib/transcript-store.js';
+import { suggestHooks } from '../lib/hook-library.js';
+import { EMOTIONAL_TRIGGERS, HOOK_TYPES } from '../lib/script-styles.js';
 
 export const hookGeneratorTool = createTool({
   id: 'hook-generator',
-  description: '視聴者を引き込む強力なフックを生成',
+  description: '視聴者を引き込む強力なフックを生成（フックライブラリの実績に基づいて順位付け）',
   inputSchema: z.object({
     topic: z.string().describe('動画のトピック'),
-    hookType: z.enum([
-      'question',
-      'shocking_fact',
-      'contradiction',
-      'promise',
-      'story',
-      'challenge',
-    ]).describe('フックのタイプ'),
-    emotionalTrigger: z.enum([
-      'curiosity',
-      'fear',
-      'excitement',
-      'surprise',
-      'urgency',
-    ]).describe('感情的トリガー'),
+    hookType: z.enum(HOOK_TYPES).optional().describe('フックのタイプ（未指定なら全タイプから選ぶ）'),
+    emotionalTrigger: z.enum(EMOTIONAL_TRIGGERS).optional().describe('感情的トリガー（未指定なら全トリガーから選ぶ）'),
+    referenceVideoIds: z.array(z.string()).optional().describe('冒頭を参考にする取り込み済み字幕の動画ID（video-transcriptツールで取り込み）'),
+    metric: z.enum(['retention_30s', 'ctr']).optional().describe('強さの評価に使う実績（デフォルト: 冒頭30秒の維持率）'),
+    exploration: z.number().min(0).max(5).optional().describe('実績の少ないテンプレートを試す度合い（0で実績のみ、デフォルト: 1）'),
+    limit: z.number().int().min(1).max(20).optional().describe('返すフックの数（デフォルト: 3）'),
   }),
   outputSchema: z.object({
     hooks: z.array(z.object({
@@ -28,79 +23,53 @@ export const hookGeneratorTool = createTool({
       type: z.string(),
       strength: z.number().min(0).max(100),
       deliveryNotes: z.string(),
+      templateId: z.string(),
+      emotionalTrigger: z.string(),
+      evidence: z.enum(['empirical', 'category', 'channel', 'static']).describe('empirical: テンプレートの実績 / category: 同カテゴリの実績 / channel: チャンネル平均 / static: 経験則'),
+      observations: z.number(),
+      explored: z.boolean(),
     })),
+    referenceOpenings: z.array(z.object({
+      videoId: z.string(),
+      label: z.string(),
+      text: z.string(),
+      unitsPerMinute: z.number(),
+    })).optional(),
   }),
   execute: async ({ context }) => {
-    const { topic, hookType, emotionalTrigger } = context;
-    
-    const hookTemplates = {
-      question: {
-        curiosity: `なぜ${topic}で成功する人は、たった1%しかいないのか？`,
-        fear: `${topic}を知らないと、あなたは大きな損失を被るかもしれません`,
-        excitement: `${topic}で人生が180度変わった瞬間を教えます！`,
-        surprise: `えっ、${topic}ってそんなに簡単だったの？`,
-        urgency: `今すぐ${topic}を始めないと手遅れになる理由`,
-      },
-      shocking_fact: {
-        curiosity: `実は${topic}には、誰も知らない裏技があります`,
-        fear: `${topic}の失敗率は87%...でも回避方法があります`,
-        excitement: `${topic}で月収100万円達成した人の共通点を発見！`,
-        surprise: `${topic}の常識、実は全部ウソでした`,
-        urgency: `あと3ヶ月で${topic}のルールが変わります`,
-      },
-      contradiction: {
-        curiosity: `${topic}の専門家が絶対に教えない真実`,
-        fear: `みんなが信じている${topic}の方法は実は逆効果`,
-        excitement: `${topic}の逆転の発想で大成功！`,
-        surprise: `${topic}をやめたら、むしろ結果が出た理由`,
-        urgency: `今の${topic}のやり方を続けると危険な理由`,
-      },
-      promise: {
-        curiosity: `この動画を見れば、${topic}の全てがわかります`,
-        fear: `${topic}の落とし穴を全て回避する方法を教えます`,
-        excitement: `たった10分で${topic}をマスターできる方法`,
-        surprise: `${topic}がこんなに簡単になる秘密を公開`,
-        urgency: `今から始めれば、3ヶ月後には${topic}のプロに`,
-      },
-      story: {
-        curiosity: `${topic}で失敗した私が、成功するまでの物語`,
-        fear: `${topic}で100万円損した私の失敗談`,
-        excitement: `${topic}で人生が変わった日のこと`,
-        surprise: `まさか${topic}でこんなことが起きるなんて...`,
-        urgency: `もっと早く${topic}を始めていれば...という後悔`,
-      },
-      challenge: {
-        curiosity: `${topic}の常識を覆す実験をしてみた`,
-        fear: `${topic}の危険性を身をもって検証`,
-        excitement: `${topic}で限界に挑戦してみた結果...`,
-        surprise: `${topic}を1週間やり続けたら衝撃の結果に`,
-        urgency: `24時間以内に${topic}をマスターする挑戦`,
-      },
-    };
+    const { topic, hookType, emotionalTrigger, referenceVideoIds, metric, exploration, limit } = context;
     
-    const selectedHook = hookTemplates[hookType][emotionalTrigger];
+    // ライブラリのテンプレートを公開動画の実績順に並べる（実績の少ないテンプレートには探索ボーナス）
+    const suggestions = await suggestHooks(topic, { hookType, emotionalTrigger, metric, exploration, limit });
+
+    // 実際の動画の冒頭15秒を比較用に添える
+    const referenceOpenings = [];
+    for (const videoId of referenceVideoIds ?? []) {
+      const transcript = await transcriptStore.get(videoId);
+      if (transcript) {
+        const { opening } = analyzeTranscript(transcript.cues, transcript.chapters);
+        referenceOpenings.push({
+          videoId,
+          label: transcript.label,
+          text: opening.text,
+          unitsPerMinute: Math.round(opening.units / (opening.seconds / 60)),
+        });
+      }
+    }
     
     return {
-      hooks: [
-        {
-          text: selectedHook,
-          type: hookType,
-          strength: 85,
-          deliveryNotes: '強い感情を込めて、視聴者の目を見て話す',
-        },
-        {
-          text: `待って！${selectedHook}`,
-          type: hookType,
-          strength: 90,
-          deliveryNotes: '「待って！」で注意を引き、間を置いてから本題へ',
-        },
-        {
-          text: `${selectedHook}（実話です）`,
-          type: hookType,
-          strength: 95,
-          deliveryNotes: '「実話です」を付けることで信憑性を高める',
-        },
-      ],
+      hooks: suggestions.map(s => ({
+        text: s.text,
+        type: s.template.hookType,
+        strength: s.strength,
+        deliveryNotes: s.template.deliveryNotes,
+        templateId: s.template.templateId,
+        emotionalTrigger: s.template.emotionalTrigger,
+        evidence: s.evidence,
+        observations: s.observations,
+        explored: s.explored,
+      })),
+      referenceOpenings: referenceVideoIds ? referenceOpenings : undefined,
     };
   },
 });
\ No newline at end of file
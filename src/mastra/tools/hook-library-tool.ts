@@ -0,0 +1,155 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { hookLibraryStore, importHookMetrics, rankHookTemplates } from '../lib/hook-library.js';
+import { renderHookTemplate } from '../lib/hook-templates.js';
+import { EMOTIONAL_TRIGGERS, HOOK_TYPES } from '../lib/script-styles.js';
+
+export const hookLibraryTool = createTool({
+  id: 'hook-library',
+  description: 'フックテンプレートの管理と、公開動画の冒頭30秒維持率・CTRの取り込みによる実績評価',
+  inputSchema: z.object({
+    action: z.enum(['add_template', 'list_templates', 'record_usage', 'import_metrics', 'leaderboard']).describe('実行するアクション'),
+    templateId: z.string().optional().describe('テンプレートID（add_template / record_usage で必須）'),
+    template: z.string().optional().describe('add_template時のテンプレート本文（{topic} がトピックに置き換わる）'),
+    hookType: z.enum(HOOK_TYPES).optional().describe('add_template時のフックタイプ、leaderboardの絞り込み'),
+    emotionalTrigger: z.enum(EMOTIONAL_TRIGGERS).optional().describe('add_template時の感情トリガー、leaderboardの絞り込み'),
+    deliveryNotes: z.string().optional().describe('add_template時の話し方のメモ'),
+    baseStrength: z.number().min(0).max(100).optional().describe('add_template時の実績がないときの強さ（デフォルト: 80）'),
+    videoId: z.string().optional().describe('record_usage時のフックを使った公開動画のID'),
+    topic: z.string().optional().describe('record_usage時の動画のトピック（hookText未指定時にテンプレートへ埋め込む）'),
+    hookText: z.string().optional().describe('record_usage時に実際に使ったフックの文言'),
+    publishedAt: z.string().optional().describe('record_usage時の公開日時'),
+    filePath: z.string().optional().describe('import_metrics時のエクスポートファイル（CSV / JSON）'),
+    content: z.string().optional().describe('import_metrics時のエクスポートの内容（filePathの代わり）'),
+    metric: z.enum(['retention_30s', 'ctr']).optional().describe('leaderboardの評価指標（デフォルト: retention_30s）'),
+    limit: z.number().int().min(1).max(100).optional().describe('leaderboardの件数（デフォルト: 20）'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    templates: z.array(z.object({
+      templateId: z.string(),
+      hookType: z.string(),
+      emotionalTrigger: z.string(),
+      template: z.string(),
+      source: z.enum(['builtin', 'custom']),
+    })).optional(),
+    leaderboard: z.array(z.object({
+      rank: z.number(),
+      templateId: z.string(),
+      hookType: z.string(),
+      emotionalTrigger: z.string(),
+      template: z.string(),
+      strength: z.number(),
+      evidence: z.enum(['empirical', 'category', 'channel', 'static']),
+      observations: z.number(),
+      expectedValue: z.number().optional(),
+    })).optional(),
+    import: z.object({
+      imported: z.number(),
+      linked: z.number(),
+      unlinkedVideoIds: z.array(z.string()),
+      skippedRows: z.number(),
+    }).optional(),
+    message: z.string().optional(),
+    error: z.string().optional(),
+  }),
+  execute: async ({ context }) => {
+    const { action, templateId, hookType, emotionalTrigger, videoId, metric = 'retention_30s', limit = 20 } = context;
+
+    try {
+      switch (action) {
+        case 'add_template': {
+          if (!templateId || !context.template || !hookType || !emotionalTrigger) {
+            throw new Error('templateId, template, hookType and emotionalTrigger are required for add_template');
+          }
+          if (!context.template.includes('{topic}')) {
+            throw new Error('Template must contain {topic}');
+          }
+          await hookLibraryStore.addTemplate({
+            templateId,
+            hookType,
+            emotionalTrigger,
+            template: context.template,
+            deliveryNotes: context.deliveryNotes ?? '',
+            baseStrength: context.baseStrength ?? 80,
+          });
+          return { success: true, message: `Template ${templateId} added` };
+        }
+
+        case 'list_templates': {
+          const templates = await hookLibraryStore.listTemplates();
+          return {
+            success: true,
+            templates: templates.map(({ templateId, hookType, emotionalTrigger, template, source }) => ({
+              templateId,
+              hookType,
+              emotionalTrigger,
+              template,
+              source,
+            })),
+          };
+        }
+
+        case 'record_usage': {
+          if (!videoId || !templateId) {
+            throw new Error('videoId and templateId are required for record_usage');
+          }
+          const template = (await hookLibraryStore.listTemplates()).find(t => t.templateId === templateId);
+          if (!template) {
+            throw new Error(`Hook template not found: ${templateId}`);
+          }
+          const hookText = context.hookText ?? (context.topic ? renderHookTemplate(template, context.topic) : template.template);
+          await hookLibraryStore.recordUsage({
+            videoId,
+            templateId,
+            hookText,
+            topic: context.topic,
+            publishedAt: context.publishedAt,
+            recordedAt: new Date().toISOString(),
+          });
+          return { success: true, message: `Recorded ${templateId} for video ${videoId}` };
+        }
+
+        case 'import_metrics':
+          return {
+            success: true,
+            import: await importHookMetrics({ filePath: context.filePath, content: context.content }),
+          };
+
+        case 'leaderboard': {
+          const [templates, observations] = await Promise.all([
+            hookLibraryStore.listTemplates(),
+            hookLibraryStore.listObservations(metric),
+          ]);
+          // 探索枠を含めない実績のみの順位
+          const ranked = rankHookTemplates(templates, observations)
+            .filter(r => !hookType || r.template.hookType === hookType)
+            .filter(r => !emotionalTrigger || r.template.emotionalTrigger === emotionalTrigger)
+            .slice(0, limit);
+          return {
+            success: true,
+            leaderboard: ranked.map((r, i) => ({
+              rank: i + 1,
+              templateId: r.template.templateId,
+              hookType: r.template.hookType,
+              emotionalTrigger: r.template.emotionalTrigger,
+              template: r.template.template,
+              strength: r.strength,
+              evidence: r.evidence,
+              observations: r.observations,
+              expectedValue: r.expectedValue,
+            })),
+          };
+        }
+
+        default:
+          throw new Error('Invalid action');
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  },
+});
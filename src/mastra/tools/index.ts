@@ -4,6 +4,7 @@ export { productAnalysisTool } from './product-analysis-tool';
 export { contentGeneratorTool } from './content-generator-tool';
 export { contentGeneratorToolV2 } from './content-generator-tool-v2';
 export { competitorAnalysisTool } from './competitor-analysis-tool';
+export { competitorWatchlistTool } from './competitor-watchlist-tool';
 export { abTestingTool } from './ab-testing-tool';
 export { roiCalculatorTool } from './roi-calculator-tool';
 export { socialMediaSchedulingTool } from './social-media-scheduling-tool';
@@ -19,11 +20,19 @@ export { relationshipManagementTool } from './relationship-management-tool';
 export { youtubeAnalyticsTool } from './youtube-analytics';
 export { youtubeKeywordResearchTool } from './youtube-keyword-research';
 export { youtubeThumbnailGeneratorTool } from './youtube-thumbnail-generator';
+export { thumbnailRenderTool } from './thumbnail-render-tool';
+export { thumbnailLegibilityTool } from './thumbnail-legibility-tool';
 export { youtubeTitleGeneratorTool } from './youtube-title-generator';
 export { scriptStructureGeneratorTool } from './script-structure-generator';
 export { scriptStyleSelectorTool } from './script-style-selector';
 export { advancedScriptStylesTool } from './advanced-script-styles';
 export { hookGeneratorTool } from './hook-generator';
+export { hookLibraryTool } from './hook-library-tool';
+export { videoTranscriptTool } from './video-transcript-tool';
+export { commentMiningTool } from './comment-mining-tool';
+export { scriptTimingTool } from './script-timing-tool';
+export { publishingPackageTool } from './publishing-package-tool';
+export { scriptExportTool } from './script-export-tool';
 
 // Gemini API Tools Export
 export { geminiSearchTool } from './gemini-search-tool';
@@ -40,6 +49,7 @@ export const coreTools = () => ({
   'generate-affiliate-content': contentGeneratorTool,
   'generate-affiliate-content-v2': contentGeneratorToolV2,
   'analyze-competitors': competitorAnalysisTool,
+  'competitor-watchlist': competitorWatchlistTool,
   'ab-testing': abTestingTool,
   'roi-calculator': roiCalculatorTool,
   'social-media-scheduling': socialMediaSchedulingTool,
@@ -56,11 +66,19 @@ export const youtubeTools = () => ({
   'youtube-analytics': youtubeAnalyticsTool,
   'youtube-keyword-research': youtubeKeywordResearchTool,
   'youtube-thumbnail-generator': youtubeThumbnailGeneratorTool,
+  'thumbnail-render': thumbnailRenderTool,
+  'thumbnail-legibility': thumbnailLegibilityTool,
   'youtube-title-generator': youtubeTitleGeneratorTool,
   'script-structure-generator': scriptStructureGeneratorTool,
   'script-style-selector': scriptStyleSelectorTool,
   'advanced-script-styles': advancedScriptStylesTool,
   'hook-generator': hookGeneratorTool,
+  'hook-library': hookLibraryTool,
+  'video-transcript': videoTranscriptTool,
+  'comment-mining': commentMiningTool,
+  'script-timing': scriptTimingTool,
+  'publishing-package': publishingPackageTool,
+  'script-export': scriptExportTool,
 });
 
 export const geminiApiTools = () => ({
@@ -94,6 +112,7 @@ export const toolDescriptions = {
   'generate-affiliate-content': 'アフィリエイトコンテンツの自動生成',
   'generate-affiliate-content-v2': '拡張版コンテンツ生成（RuntimeContext対応）',
   'analyze-competitors': '競合分析と戦略的ポジショニング',
+  'competitor-watchlist': '競合YouTubeチャンネルの変化検知とアラート',
   'ab-testing': 'A/Bテストの作成と管理',
   'roi-calculator': 'ROI計算と収益予測',
   'social-media-scheduling': 'ソーシャルメディア投稿のスケジューリング',
@@ -101,7 +120,7 @@ export const toolDescriptions = {
   'seo-optimization': 'SEO最適化と分析',
   'analytics-dashboard': '統合分析ダッシュボード',
   'lead-magnet-generator': 'リードマグネットの自動生成',
-  'persona-generator': 'ターゲットペルソナの生成',
+  'persona-generator': 'コメントと視聴者構成データからのペルソナ生成',
   'compliance-checker': '法的コンプライアンスチェック',
   'relationship-management': 'パートナー関係管理',
   
@@ -109,11 +128,19 @@ export const toolDescriptions = {
   'youtube-analytics': 'YouTubeチャンネルと動画の分析',
   'youtube-keyword-research': 'YouTubeキーワードリサーチ',
   'youtube-thumbnail-generator': 'サムネイルコンセプト生成',
+  'thumbnail-render': 'サムネイルPNGのローカル描画',
+  'thumbnail-legibility': 'サムネイルの可読性・コントラストチェック',
   'youtube-title-generator': 'SEO最適化タイトル生成',
   'script-structure-generator': 'スクリプト構造の生成',
   'script-style-selector': 'スクリプトスタイルの選択',
   'advanced-script-styles': '高度なスクリプトスタイル',
   'hook-generator': '強力なフック生成',
+  'hook-library': 'フックテンプレートの実績管理と評価',
+  'video-transcript': '字幕の取り込みと冒頭・チャプター・話速の分析',
+  'comment-mining': 'コメントからの動画ネタ・FAQ・反論の抽出',
+  'script-timing': '台本の読み上げ時間とセクション尺の検証',
+  'publishing-package': 'チャプター・概要欄・タグ・固定コメントの生成',
+  'script-export': '台本のプロンプター原稿・字幕・編集マーカー書き出し',
   
   // Gemini API Tools
   'gemini-search-grounding': 'Google検索でリアルタイム情報取得',
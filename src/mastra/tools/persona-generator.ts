@@ -1,83 +1,101 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import { YouTubeService } from '../lib/youtube.js';
+import { collectComments } from '../lib/comments.js';
+import { buildPersonas, loadAudienceExport, mergeAudience, parseAudienceExport } from '../lib/personas.js';
+import type { AudienceDistribution } from '../lib/personas.js';
+
+const audienceShareSchema = z.object({
+  label: z.string(),
+  share: z.number().describe('0〜1の割合'),
+});
+
+const insightSchema = z.object({
+  text: z.string(),
+  commentIds: z.array(z.string()).describe('根拠となるコメントのID'),
+});
+
+export const personaSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  keyword: z.string().optional().describe('このペルソナのコメントに最も多く出てくるキーワード'),
+  share: z.number().describe('分析したコメントに占める割合'),
+  commentCount: z.number(),
+  sentiment: z.object({
+    label: z.enum(['positive', 'neutral', 'negative']),
+    score: z.number(),
+  }),
+  vocabulary: z.array(z.string()).describe('このペルソナが使う言葉'),
+  painPoints: z.array(insightSchema),
+  goals: z.array(insightSchema),
+  demographics: z.object({
+    age: audienceShareSchema.optional(),
+    gender: audienceShareSchema.optional(),
+    devices: z.array(audienceShareSchema),
+    source: z.literal('youtube_studio'),
+  }).optional().describe('チャンネル全体の視聴者構成（YouTube Studioのエクスポート）'),
+  citations: z.array(z.object({
+    commentId: z.string(),
+    videoId: z.string().optional(),
+    author: z.string(),
+    excerpt: z.string(),
+    likeCount: z.number(),
+  })),
+});
 
 export const personaGeneratorTool = createTool({
   id: 'persona-generator',
-  description: 'キーワードに基づいてターゲットペルソナを生成',
+  description: 'YouTubeのコメントを話題と感情でクラスタリングしてペルソナを作成（悩み・目標・語彙と根拠コメント付き、Studioの視聴者構成CSVも反映）',
   inputSchema: z.object({
-    keywords: z.array(z.string()).describe('対象キーワードリスト'),
-    personasPerKeyword: z.number().default(3).describe('キーワードごとのペルソナ数'),
+    keywords: z.array(z.string()).optional().describe('対象キーワード（各ペルソナに最も関連するものを付与）'),
+    videoIds: z.array(z.string()).optional().describe('コメントを取得する動画ID（YOUTUBE_API_KEYが必要）'),
+    commentsFile: z.string().optional().describe('コメントのエクスポートJSONのファイルパス'),
+    commentsJson: z.string().optional().describe('コメントのエクスポートJSON（commentThreads.listのレスポンスまたはコメントの配列）'),
+    audienceFiles: z.array(z.string()).optional().describe('YouTube Studioの年齢・性別・デバイスの表データCSVのファイルパス'),
+    audienceCsv: z.array(z.string()).optional().describe('YouTube Studioの年齢・性別・デバイスの表データCSVの内容'),
+    maxPersonas: z.number().int().min(1).max(10).default(3).describe('作成するペルソナの最大数'),
+    maxThreadsPerVideo: z.number().int().min(1).max(1000).default(200).describe('動画ごとに取得するコメントスレッド数'),
   }),
   outputSchema: z.object({
-    personas: z.array(z.object({
-      id: z.string(),
-      keyword: z.string(),
-      demographics: z.object({
-        age: z.string(),
-        gender: z.string(),
-        occupation: z.string(),
-        income: z.string(),
-      }),
-      psychographics: z.object({
-        interests: z.array(z.string()),
-        painPoints: z.array(z.string()),
-        goals: z.array(z.string()),
-        values: z.array(z.string()),
-      }),
-      behavior: z.object({
-        youtubeUsage: z.string(),
-        preferredContentLength: z.string(),
-        watchingTime: z.string(),
-        deviceUsage: z.array(z.string()),
-      }),
-      futureGoals: z.array(z.string()),
-    })),
+    personas: z.array(personaSchema),
+    analyzedComments: z.number(),
+    unclusteredComments: z.number(),
+    warnings: z.array(z.string()),
   }),
   execute: async ({ context }) => {
-    const { keywords, personasPerKeyword } = context;
-    
-    const personas = [];
-    
-    for (const keyword of keywords) {
-      for (let i = 0; i < personasPerKeyword; i++) {
-        personas.push({
-          id: `persona_${keyword}_${i + 1}`,
-          keyword,
-          demographics: {
-            age: ['20-30歳', '30-40歳', '40-50歳'][i % 3],
-            gender: ['男性', '女性', '不問'][i % 3],
-            occupation: ['会社員', 'フリーランス', '経営者'][i % 3],
-            income: ['300-500万円', '500-800万円', '800万円以上'][i % 3],
-          },
-          psychographics: {
-            interests: ['テクノロジー', 'ビジネス', '自己啓発', 'AI活用'],
-            painPoints: [
-              '業務効率化したい',
-              'AIの使い方がわからない',
-              '収入を増やしたい',
-            ],
-            goals: [
-              'AIスキルを身につけたい',
-              '副業で成功したい',
-              '最新技術に追いつきたい',
-            ],
-            values: ['効率性', '革新性', '成長', '学習'],
-          },
-          behavior: {
-            youtubeUsage: ['毎日1-2時間', '週3-4回', '毎日30分'][i % 3],
-            preferredContentLength: ['10-20分', '5-10分', '20分以上'][i % 3],
-            watchingTime: ['通勤時間', '昼休み', '夜'][i % 3],
-            deviceUsage: ['スマートフォン', 'PC', 'タブレット'],
-          },
-          futureGoals: [
-            'AIを使いこなして業務を効率化する',
-            '副業で月10万円稼ぐ',
-            '最新のAI技術をマスターする',
-          ],
-        });
+    const { keywords, videoIds, commentsFile, commentsJson, audienceFiles, audienceCsv, maxPersonas, maxThreadsPerVideo } = context;
+    const apiKey = process.env.YOUTUBE_API_KEY;
+    const { comments, warnings } = await collectComments(
+      { videoIds, commentsFile, commentsJson, maxThreadsPerVideo },
+      apiKey ? new YouTubeService(apiKey) : undefined
+    );
+
+    const distributions: AudienceDistribution[] = [];
+    for (const file of audienceFiles ?? []) {
+      try {
+        distributions.push(await loadAudienceExport(file));
+      } catch (error) {
+        warnings.push(`視聴者構成CSVの読み込みに失敗（${file}）: ${error instanceof Error ? error.message : error}`);
       }
     }
-    
-    return { personas };
+    (audienceCsv ?? []).forEach((content, i) => {
+      try {
+        distributions.push(parseAudienceExport(content));
+      } catch (error) {
+        warnings.push(`視聴者構成CSV（${i + 1}件目）の解析に失敗: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+
+    if (comments.length === 0) {
+      warnings.push('コメントがないためペルソナを作成できません。videoIds・commentsFile・commentsJsonのいずれかを指定してください');
+      return { personas: [], analyzedComments: 0, unclusteredComments: 0, warnings };
+    }
+
+    const result = buildPersonas(comments, {
+      maxPersonas,
+      keywords,
+      audience: distributions.length > 0 ? mergeAudience(distributions) : undefined,
+    });
+    return { ...result, warnings: [...warnings, ...result.warnings] };
   },
-});
\ No newline at end of file
+});
@@ -0,0 +1,95 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { generatePublishingPackage } from '../lib/publishing-package.js';
+import { timeScript } from '../lib/script-timing.js';
+import { complianceCheckerTool } from './compliance-checker-tool.js';
+
+// ワークフローからも同じ形で出力するため共有する
+export const publishingPackageSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  tags: z.array(z.string()),
+  hashtags: z.array(z.string()),
+  chapters: z.array(z.object({
+    timestamp: z.string(),
+    startSeconds: z.number(),
+    title: z.string(),
+  })),
+  endScreen: z.object({
+    startSeconds: z.number(),
+    endSeconds: z.number(),
+    timestamp: z.string(),
+    elements: z.array(z.string()),
+  }).nullable(),
+  cards: z.array(z.object({
+    timestamp: z.string(),
+    startSeconds: z.number(),
+    type: z.enum(['video', 'playlist']),
+    teaser: z.string(),
+  })),
+  pinnedComment: z.string(),
+  validation: z.object({
+    errors: z.array(z.string()),
+    warnings: z.array(z.string()),
+    lengths: z.object({
+      titleChars: z.number(),
+      descriptionBytes: z.number(),
+      tagsChars: z.number(),
+      hashtags: z.number(),
+      pinnedCommentChars: z.number(),
+    }),
+  }),
+});
+
+export const publishingPackageTool = createTool({
+  id: 'publishing-package',
+  description: '完成した台本からチャプター・概要欄・タグ・終了画面/カード・固定コメントを生成し、YouTubeの文字数制限で検証',
+  inputSchema: z.object({
+    title: z.string().describe('動画タイトル'),
+    summary: z.string().describe('概要欄の導入文'),
+    sections: z.array(z.object({
+      name: z.string(),
+      text: z.string().optional().describe('セクションの台本（startSecondsがない場合は読み上げ時間から尺を推定）'),
+      startSeconds: z.number().optional(),
+      endSeconds: z.number().optional(),
+    })).describe('台本のセクション'),
+    style: z.string().optional().describe('台本スタイル（尺の推定に使用）'),
+    videoType: z.enum(['long', 'shorts']).optional(),
+    affiliateLinks: z.array(z.object({ label: z.string(), url: z.string() })).optional(),
+    keywords: z.array(z.object({
+      keyword: z.string(),
+      relevanceScore: z.number().optional(),
+    })).optional().describe('youtubeKeywordResearchTool の keywords'),
+    extraTags: z.array(z.string()).optional(),
+    hashtags: z.array(z.string()).optional(),
+    targetMarket: z.enum(['jp', 'us', 'global']).optional(),
+  }),
+  outputSchema: publishingPackageSchema,
+  execute: async ({ context, runtimeContext }) => {
+    const { title, summary, sections, style, videoType, affiliateLinks, keywords, extraTags, hashtags, targetMarket } = context;
+
+    // 開始・終了時刻がないセクションは台本の読み上げ時間から求める
+    const hasTimes = sections.every(s => s.startSeconds !== undefined && s.endSeconds !== undefined);
+    const timed = hasTimes
+      ? sections.map(s => ({ name: s.name, startSeconds: s.startSeconds!, endSeconds: s.endSeconds! }))
+      : timeScript(sections.map(s => ({ name: s.name, text: s.text ?? '' })), { style }).sections;
+
+    const disclaimer = await complianceCheckerTool.execute!({
+      context: { action: 'generate_disclaimer', contentType: 'video', targetMarket: targetMarket ?? 'jp' },
+      runtimeContext,
+    });
+
+    return generatePublishingPackage({
+      title,
+      summary,
+      sections: timed,
+      disclosure: disclaimer.disclaimer ?? '',
+      shortDisclosure: disclaimer.templates?.short,
+      affiliateLinks,
+      keywords,
+      extraTags,
+      hashtags,
+      videoType,
+    });
+  },
+});
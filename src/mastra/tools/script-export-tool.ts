@@ -0,0 +1,59 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { exportScript } from '../lib/script-export.js';
+import { splitScriptSections } from '../lib/script-timing.js';
+
+const exportFormatSchema = z.enum(['teleprompter', 'srt', 'vtt', 'edl', 'markers_csv', 'markdown']);
+
+// ワークフローからも同じ形で出力するため共有する
+export const scriptExportSchema = z.object({
+  totalSeconds: z.number(),
+  markers: z.array(z.object({
+    name: z.string(),
+    description: z.string(),
+    kind: z.enum(['chapter', 'visual', 'interactive']),
+    startSeconds: z.number(),
+    endSeconds: z.number(),
+  })),
+  files: z.object({
+    teleprompter: z.string().optional(),
+    srt: z.string().optional(),
+    vtt: z.string().optional(),
+    edl: z.string().optional(),
+    markers_csv: z.string().optional(),
+    markdown: z.string().optional(),
+  }),
+  warnings: z.array(z.string()),
+});
+
+export const scriptExportTool = createTool({
+  id: 'script-export',
+  description: '台本をプロンプター原稿・SRT/VTT字幕・編集マーカー（EDL/CSV）・制作用Markdownに書き出す',
+  inputSchema: z.object({
+    title: z.string().describe('動画タイトル'),
+    sections: z.array(z.object({
+      name: z.string(),
+      text: z.string(),
+      duration: z.union([z.string(), z.number()]).optional().describe('目標尺（"40-45秒" / "5-10分" / 秒数）'),
+    })).optional().describe('セクションごとの台本'),
+    script: z.string().optional().describe('【見出し】で区切られた台本全文（sectionsの代わり）'),
+    formats: z.array(exportFormatSchema).optional().describe('書き出す形式（未指定なら全形式）'),
+    style: z.string().optional().describe('台本スタイル（話速の選択に使用）'),
+    totalTarget: z.union([z.string(), z.number()]).optional().describe('台本全体の目標尺'),
+    visualEffects: z.array(z.string()).optional().describe('演出（編集マーカーに変換）'),
+    interactiveElements: z.array(z.string()).optional().describe('カード・終了画面などのインタラクティブ要素'),
+    specialInstructions: z.array(z.string()).optional().describe('撮影・編集の注意（Markdownに記載）'),
+    fps: z.number().int().min(1).max(120).optional().describe('編集マーカーのフレームレート（デフォルト: 30）'),
+  }),
+  outputSchema: scriptExportSchema,
+  execute: async ({ context }) => {
+    const { sections, script, formats, ...rest } = context;
+    const input = sections ?? (script ? splitScriptSections(script) : []);
+    if (input.length === 0) {
+      throw new Error('Either sections or script is required');
+    }
+
+    const { timing, markers, files } = exportScript({ ...rest, sections: input }, formats);
+    return { totalSeconds: timing.totalSeconds, markers, files, warnings: timing.warnings };
+  },
+});
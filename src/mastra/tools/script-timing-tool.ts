@@ -0,0 +1,53 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { splitScriptSections, timeScript } from '../lib/script-timing.js';
+
+// ワークフローからも同じ形で出力するため共有する
+export const scriptTimingSchema = z.object({
+  language: z.enum(['ja', 'en']),
+  style: z.string(),
+  totalSeconds: z.number(),
+  totalUnits: z.number(),
+  totalCharacters: z.number(),
+  sections: z.array(z.object({
+    name: z.string(),
+    units: z.number(),
+    characters: z.number(),
+    seconds: z.number(),
+    startSeconds: z.number(),
+    endSeconds: z.number(),
+    timestamp: z.string(),
+    target: z.object({ minSeconds: z.number(), maxSeconds: z.number() }).optional(),
+    status: z.enum(['ok', 'overrun', 'underrun', 'no_target']),
+    deviationSeconds: z.number(),
+  })),
+  chapters: z.string(),
+  warnings: z.array(z.string()),
+});
+
+export const scriptTimingTool = createTool({
+  id: 'script-timing',
+  description: '台本の読み上げ時間をセクションごとに見積もり、目標尺との差とチャプター用タイムラインを返す',
+  inputSchema: z.object({
+    sections: z.array(z.object({
+      name: z.string(),
+      text: z.string(),
+      duration: z.union([z.string(), z.number()]).optional().describe('目標尺（"40-45秒" / "5-10分" / 秒数）'),
+    })).optional().describe('セクションごとの台本'),
+    script: z.string().optional().describe('【見出し】で区切られた台本全文（sectionsの代わり）'),
+    style: z.string().optional().describe('台本スタイル（shorts / educational / taiki など）。話速の選択に使用'),
+    language: z.enum(['ja', 'en']).optional().describe('台本の言語（未指定なら自動判定）'),
+    totalTarget: z.union([z.string(), z.number()]).optional().describe('台本全体の目標尺'),
+  }),
+  outputSchema: scriptTimingSchema,
+  execute: async ({ context }) => {
+    const { sections, script, style, language, totalTarget } = context;
+    const input = sections ?? (script ? splitScriptSections(script) : []);
+    if (input.length === 0) {
+      throw new Error('Either sections or script is required');
+    }
+
+    const { rate, ...timing } = timeScript(input, { style, language, totalTarget });
+    return timing;
+  },
+});
@@ -0,0 +1,82 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { analyzeThumbnailConcept, analyzeThumbnailImage } from '../lib/thumbnail-legibility.js';
+import { thumbnailConceptInputSchema, toThumbnailConcept } from './thumbnail-render-tool.js';
+
+const boxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+});
+
+export const thumbnailLegibilitySchema = z.object({
+  score: z.number().min(0).max(100),
+  breakdown: z.object({
+    contrast: z.number(),
+    legibility: z.number(),
+    textArea: z.number(),
+    charsPerLine: z.number(),
+    safeZone: z.number(),
+  }),
+  textAreaRatio: z.number().describe('文字領域が画像全体に占める割合'),
+  regions: z.array(z.object({
+    role: z.enum(['main', 'sub', 'text']),
+    source: z.enum(['concept', 'provided', 'detected']),
+    box: boxSchema,
+    fontSize: z.number().optional(),
+    displayHeight: z.number().optional().describe('168x94表示での文字の高さ（px）'),
+    legibility: z.enum(['legible', 'marginal', 'illegible', 'unknown']),
+    lines: z.number().optional(),
+    charsPerLine: z.number().optional(),
+    textColor: z.string(),
+    backgroundColor: z.string(),
+    contrast: z.object({
+      textVsBackground: z.number(),
+      effective: z.number().describe('縁取りがある場合は、文字と縁取り・縁取りと背景の低い方で評価'),
+      textVsOutline: z.number().optional(),
+      outlineVsBackground: z.number().optional(),
+      passesAA: z.boolean(),
+      passesAALarge: z.boolean(),
+    }),
+    safeZoneViolation: z.boolean().describe('右下の再生時間の表示と重なるか'),
+  })),
+  fixes: z.array(z.string()),
+  warnings: z.array(z.string()),
+});
+
+export const thumbnailLegibilityTool = createTool({
+  id: 'thumbnail-legibility',
+  description: 'サムネイル画像またはコンセプトの文字の読みやすさ（WCAGコントラスト比・168x94表示での文字サイズ・文字面積・1行の文字数・再生時間表示との重なり）を採点し、修正案を返す',
+  inputSchema: z.object({
+    imagePath: z.string().optional().describe('評価する画像ファイル（PNG / JPEG）'),
+    textRegions: z.array(boxSchema.extend({
+      text: z.string().optional().describe('領域内の文言（\\n区切り）'),
+    })).optional().describe('imagePath内の文字の位置（1280x720換算、省略時は画像から推定）'),
+    concept: thumbnailConceptInputSchema.optional().describe('サムネイル生成ツールのコンセプト（描画して評価する）'),
+    fontPath: z.string().optional().describe('concept評価時の日本語フォントファイル'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    report: thumbnailLegibilitySchema.optional(),
+    error: z.string().optional(),
+  }),
+  execute: async ({ context }) => {
+    const { imagePath, textRegions, concept, fontPath } = context;
+
+    try {
+      if (!imagePath && !concept) {
+        throw new Error('imagePath or concept is required');
+      }
+      const report = concept
+        ? await analyzeThumbnailConcept(toThumbnailConcept(concept), { fontPaths: fontPath ? [fontPath] : undefined })
+        : await analyzeThumbnailImage(imagePath!, textRegions);
+      return { success: true, report };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  },
+});
@@ -0,0 +1,100 @@
+import { join } from 'node:path';
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { conceptFromColorScheme, renderThumbnailToFile, THUMBNAIL_LAYOUTS } from '../lib/thumbnail-renderer.js';
+import type { ThumbnailConcept } from '../lib/thumbnail-renderer.js';
+
+const DEFAULT_OUTPUT_DIR = './thumbnails';
+
+const boxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+});
+
+export const thumbnailRenderSchema = z.object({
+  id: z.string(),
+  path: z.string(),
+  bytes: z.number(),
+  layout: z.enum(THUMBNAIL_LAYOUTS),
+  textBoxes: z.array(boxSchema.extend({
+    role: z.enum(['main', 'sub']),
+    fontSize: z.number(),
+    lines: z.array(z.string()),
+    color: z.string(),
+    backgroundColor: z.string().optional(),
+    outlineColor: z.string().optional(),
+    outlineWidth: z.number().optional(),
+  })),
+  imageBox: boxSchema.optional(),
+  warnings: z.array(z.string()),
+});
+
+// サムネイル生成ツールのコンセプトをそのまま渡せる形
+export const thumbnailConceptInputSchema = z.object({
+  id: z.string().describe('コンセプトID（出力ファイル名になる）'),
+  mainText: z.string().describe('メインテキスト（\\nで改行位置を指定できる）'),
+  subText: z.string().optional().describe('帯に入れるサブテキスト'),
+  colorScheme: z.object({
+    primary: z.string().describe('背景色'),
+    secondary: z.string().describe('文字色'),
+    accent: z.string().describe('サブテキストの帯の色'),
+  }),
+  layout: z.enum(THUMBNAIL_LAYOUTS).default('text_left').describe('レイアウトプリセット'),
+  background: z.object({
+    colors: z.array(z.string()).min(1).describe('1色なら単色、2色以上ならグラデーション'),
+    angle: z.number().optional().describe('グラデーションの角度（CSSと同じ、デフォルト: 135）'),
+  }).optional().describe('背景（未指定ならprimaryから自動でグラデーション）'),
+  outlineColor: z.string().optional().describe('文字の縁取りの色'),
+  imagePath: z.string().optional().describe('顔写真・商品画像のファイルパス'),
+  imageFit: z.enum(['contain', 'cover']).optional(),
+  shadow: z.boolean().optional().describe('文字の影（デフォルト: あり）'),
+});
+
+export function toThumbnailConcept(input: z.infer<typeof thumbnailConceptInputSchema>): ThumbnailConcept {
+  return conceptFromColorScheme(input, {
+    ...(input.background && {
+      background: { type: 'gradient' as const, colors: input.background.colors, angle: input.background.angle },
+    }),
+    ...(input.outlineColor && { outlineColor: input.outlineColor }),
+    ...(input.imageFit && { imageFit: input.imageFit }),
+    ...(input.shadow !== undefined && { shadow: input.shadow }),
+  });
+}
+
+export const thumbnailRenderTool = createTool({
+  id: 'thumbnail-render',
+  description: 'サムネイルのコンセプト（文言・配色・レイアウト・顔/商品画像）から1280x720のPNGをローカルで描画',
+  inputSchema: z.object({
+    concepts: z.array(thumbnailConceptInputSchema).min(1),
+    outputDir: z.string().default(DEFAULT_OUTPUT_DIR).describe('PNGの出力先ディレクトリ'),
+    fontPath: z.string().optional().describe('日本語フォントファイル（未指定ならTHUMBNAIL_FONT_PATH）'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    thumbnails: z.array(thumbnailRenderSchema).optional(),
+    error: z.string().optional(),
+  }),
+  execute: async ({ context }) => {
+    const { concepts, outputDir, fontPath } = context;
+
+    try {
+      const thumbnails = [];
+      for (const concept of concepts) {
+        const rendered = await renderThumbnailToFile(
+          toThumbnailConcept(concept),
+          join(outputDir, `${concept.id.replace(/[^\w.-]/g, '_')}.png`),
+          { fontPaths: fontPath ? [fontPath] : undefined }
+        );
+        thumbnails.push({ id: concept.id, ...rendered });
+      }
+      return { success: true, thumbnails };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  },
+});
@@ -0,0 +1,138 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { YouTubeService } from '../lib/youtube.js';
+import { YouTubeApiError } from '../lib/youtube-errors.js';
+import { analyzeTranscript, summarizeTranscript } from '../lib/captions.js';
+import { importCaptionFile, ingestOwnedVideoCaptions, transcriptStore } from '../lib/transcript-store.js';
+import type { StoredTranscript } from '../lib/transcript-store.js';
+
+const segmentSchema = z.object({
+  title: z.string(),
+  startMs: z.number(),
+  endMs: z.number(),
+  text: z.string(),
+  units: z.number(),
+  unitsPerMinute: z.number(),
+});
+
+export const videoTranscriptTool = createTool({
+  id: 'video-transcript',
+  description: '動画の字幕を取り込み、冒頭（フック）・チャプターごとの内容と話速を分析',
+  inputSchema: z.object({
+    action: z.enum(['list_tracks', 'download', 'import', 'get', 'list']).describe('実行するアクション'),
+    videoId: z.string().optional().describe('動画ID（list以外で必須。import時は任意の識別子でも可）'),
+    trackId: z.string().optional().describe('download時の字幕トラックID（未指定なら言語から自動選択）'),
+    language: z.string().optional().describe('download時の字幕言語（デフォルト: ja）'),
+    filePath: z.string().optional().describe('import時の .srt / .vtt ファイルパス'),
+    content: z.string().optional().describe('import時の字幕ファイルの内容（filePathの代わり）'),
+    label: z.string().optional().describe('import時の表示名（動画タイトルなど）'),
+    description: z.string().optional().describe('import時のチャプター抽出用の概要欄テキスト'),
+    openingSeconds: z.number().int().min(3).max(120).optional().describe('冒頭として扱う秒数（デフォルト: 15）'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    tracks: z.array(z.object({
+      id: z.string(),
+      language: z.string(),
+      name: z.string(),
+      trackKind: z.string(),
+    })).optional(),
+    transcripts: z.array(z.object({
+      videoId: z.string(),
+      label: z.string(),
+      source: z.enum(['youtube', 'srt', 'vtt']),
+      owned: z.boolean(),
+      language: z.string().optional(),
+      importedAt: z.string(),
+    })).optional(),
+    transcript: z.object({
+      videoId: z.string(),
+      label: z.string(),
+      source: z.enum(['youtube', 'srt', 'vtt']),
+      owned: z.boolean(),
+      cueCount: z.number(),
+      language: z.enum(['ja', 'en']),
+      durationMs: z.number(),
+      opening: z.object({ seconds: z.number(), text: z.string(), units: z.number() }),
+      segments: z.array(segmentSchema),
+      pacing: z.object({ unitsPerMinute: z.number(), pauses: z.number(), longestPauseMs: z.number() }),
+      summary: z.string(),
+    }).optional(),
+    error: z.string().optional(),
+    errorType: z.enum(['quotaExceeded', 'rateLimited', 'forbidden', 'notFound', 'badRequest', 'unknown']).optional(),
+  }),
+  execute: async ({ context }) => {
+    const { action, videoId, trackId, language, filePath, content, label, description, openingSeconds } = context;
+
+    const present = (transcript: StoredTranscript) => {
+      const analysis = analyzeTranscript(transcript.cues, transcript.chapters, openingSeconds);
+      return {
+        videoId: transcript.videoId,
+        label: transcript.label,
+        source: transcript.source,
+        owned: transcript.owned,
+        cueCount: transcript.cues.length,
+        ...analysis,
+        summary: summarizeTranscript(transcript.label, analysis),
+      };
+    };
+
+    const youtube = () => {
+      const apiKey = process.env.YOUTUBE_API_KEY;
+      if (!apiKey) {
+        throw new Error('YouTube API key not configured');
+      }
+      return new YouTubeService(apiKey);
+    };
+
+    try {
+      if (action === 'list') {
+        return { success: true, transcripts: await transcriptStore.list() };
+      }
+      if (!videoId) {
+        throw new Error(`Video ID is required for ${action}`);
+      }
+
+      switch (action) {
+        case 'list_tracks': {
+          const tracks = await youtube().listCaptionTracks(videoId);
+          return {
+            success: true,
+            tracks: tracks.map(t => ({
+              id: t.id ?? '',
+              language: t.snippet?.language ?? '',
+              name: t.snippet?.name ?? '',
+              trackKind: t.snippet?.trackKind ?? '',
+            })),
+          };
+        }
+
+        case 'download':
+          return { success: true, transcript: present(await ingestOwnedVideoCaptions(youtube(), videoId, { trackId, language })) };
+
+        case 'import':
+          return {
+            success: true,
+            transcript: present(await importCaptionFile({ videoId, filePath, content, label, description })),
+          };
+
+        case 'get': {
+          const transcript = await transcriptStore.get(videoId);
+          if (!transcript) {
+            throw new Error(`Transcript not found: ${videoId}`);
+          }
+          return { success: true, transcript: present(transcript) };
+        }
+
+        default:
+          throw new Error('Invalid action');
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorType: error instanceof YouTubeApiError ? error.reason : undefined,
+      };
+    }
+  },
+});
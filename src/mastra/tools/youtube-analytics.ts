@@ -1,24 +1,45 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { YouTubeService } from '../lib/youtube.js';
+import { YouTubeApiError } from '../lib/youtube-errors.js';
+import { buildChannelHistory, captureChannelSnapshot } from '../lib/channel-snapshots.js';
 
 export const youtubeAnalyticsTool = createTool({
   id: 'youtube-analytics',
   description: 'YouTubeチャンネルと動画を分析',
   inputSchema: z.object({
-    action: z.enum(['channel', 'video', 'search', 'trending']).describe('実行するアクション'),
-    channelId: z.string().optional().describe('チャンネルID（channel分析時に必須）'),
+    action: z.enum(['channel', 'video', 'search', 'trending', 'history']).describe('実行するアクション'),
+    channelId: z.string().optional().describe('チャンネルID（channel分析・history時に必須）'),
     videoId: z.string().optional().describe('動画ID（video分析時に必須）'),
     query: z.string().optional().describe('検索クエリ（search時に必須）'),
     regionCode: z.string().optional().describe('地域コード（デフォルト: JP）'),
+    days: z.number().optional().describe('history で遡る日数（デフォルト: 30）'),
   }),
   outputSchema: z.object({
     success: z.boolean(),
     data: z.any(),
     error: z.string().optional(),
+    errorType: z.enum(['quotaExceeded', 'rateLimited', 'forbidden', 'notFound', 'badRequest', 'unknown']).optional(),
   }),
   execute: async ({ context }) => {
-    const { action, channelId, videoId, query, regionCode } = context;
+    const { action, channelId, videoId, query, regionCode, days } = context;
+
+    // history は保存済みのスナップショットのみを使うため API キー不要
+    if (action === 'history') {
+      if (!channelId) {
+        return { success: false, data: null, error: 'Channel ID is required for history' };
+      }
+      try {
+        return { success: true, data: await buildChannelHistory(channelId, { days }) };
+      } catch (error) {
+        return {
+          success: false,
+          data: null,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+
     const apiKey = process.env.YOUTUBE_API_KEY;
     
     if (!apiKey) {
@@ -39,9 +60,8 @@ export const youtubeAnalyticsTool = createTool({
           if (!channelId) {
             throw new Error('Channel ID is required for channel analysis');
           }
-          const channelInfo = await youtube.getChannelInfo(channelId);
-          const channelVideos = await youtube.getChannelVideos(channelId);
-          data = { channel: channelInfo, videos: channelVideos };
+          // 取得のたびにスナップショットを保存し、history で推移を追えるようにする
+          data = await captureChannelSnapshot(youtube, channelId, { maxVideos: 50 });
           break;
           
         case 'video':
@@ -76,6 +96,7 @@ export const youtubeAnalyticsTool = createTool({
         success: false,
         data: null,
         error: error instanceof Error ? error.message : 'Unknown error',
+        errorType: error instanceof YouTubeApiError ? error.reason : undefined,
       };
     }
   },
@@ -1,5 +1,12 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import { YouTubeService } from '../lib/youtube.js';
+import {
+  FixtureSuggestionSource,
+  YouTubeAutocompleteSource,
+  researchKeywords,
+} from '../lib/keyword-research.js';
+import type { KeywordSuggestionSource } from '../lib/keyword-research.js';
 
 export const youtubeKeywordResearchTool = createTool({
   id: 'youtube-keyword-research',
@@ -7,41 +14,56 @@ export const youtubeKeywordResearchTool = createTool({
   inputSchema: z.object({
     productInfo: z.string().describe('販売商品の情報またはサービスURL'),
     targetCount: z.number().default(30).describe('抽出するキーワード数'),
+    suggestionSource: z.enum(['youtube_autocomplete', 'fixture', 'none']).default('youtube_autocomplete')
+      .describe('サジェスト候補の取得元（fixtureはsuggestionFixturePathのJSONを使用）'),
+    suggestionFixturePath: z.string().optional().describe('シード語→サジェスト配列のJSONファイルパス'),
+    maxMeasuredQueries: z.number().min(0).max(10).default(3)
+      .describe('YouTube検索で需要・供給を実測するシード語の数（1件100クォータ）'),
   }),
   outputSchema: z.object({
     keywords: z.array(z.object({
       keyword: z.string(),
-      searchVolume: z.number(),
+      searchVolume: z.number().describe('上位動画の再生速度から推定した月間再生需要'),
       competition: z.enum(['low', 'medium', 'high']),
       relevanceScore: z.number().min(0).max(100),
+      supplyDemandScore: z.number().min(0).max(100),
+      provenance: z.object({
+        source: z.enum(['product_info', 'autocomplete', 'video_tags', 'video_titles']),
+        seed: z.string(),
+        measuredBy: z.enum(['youtube_search', 'inherited', 'none']),
+        measuredQuery: z.string().optional(),
+        totalResults: z.number().optional(),
+        sampleSize: z.number().optional(),
+        medianViewsPerDay: z.number().optional(),
+        recentUploadRatio: z.number().optional(),
+      }),
     })),
+    warnings: z.array(z.string()),
   }),
   execute: async ({ context }) => {
-    const { productInfo, targetCount } = context;
-    
-    // 実際の実装では、YouTube APIやキーワードツールAPIを使用
-    // ここではモックデータを返す
-    const mockKeywords = [
-      { keyword: 'AI活用法', searchVolume: 12000, competition: 'medium' as const, relevanceScore: 95 },
-      { keyword: 'ChatGPT使い方', searchVolume: 18000, competition: 'high' as const, relevanceScore: 90 },
-      { keyword: 'AI副業', searchVolume: 8000, competition: 'low' as const, relevanceScore: 85 },
-      { keyword: 'AIツール比較', searchVolume: 6000, competition: 'medium' as const, relevanceScore: 80 },
-      { keyword: 'AI初心者', searchVolume: 15000, competition: 'medium' as const, relevanceScore: 88 },
-    ];
-    
-    // targetCountに合わせてキーワードを生成
-    const keywords = [];
-    for (let i = 0; i < targetCount; i++) {
-      keywords.push({
-        ...mockKeywords[i % mockKeywords.length],
-        keyword: `${mockKeywords[i % mockKeywords.length].keyword}${i >= mockKeywords.length ? i : ''}`,
-        searchVolume: mockKeywords[i % mockKeywords.length].searchVolume - (i * 100),
-      });
+    const { productInfo, targetCount, suggestionSource, suggestionFixturePath, maxMeasuredQueries } = context;
+    const apiKey = process.env.YOUTUBE_API_KEY;
+
+    let source: KeywordSuggestionSource | undefined;
+    switch (suggestionSource) {
+      case 'youtube_autocomplete':
+        source = new YouTubeAutocompleteSource('ja');
+        break;
+      case 'fixture':
+        if (!suggestionFixturePath) {
+          throw new Error('suggestionFixturePath is required when suggestionSource is fixture');
+        }
+        source = await FixtureSuggestionSource.fromFile(suggestionFixturePath);
+        break;
+      default:
+        source = undefined;
     }
-    
-    // 検索ボリューム順にソート
-    keywords.sort((a, b) => b.searchVolume - a.searchVolume);
-    
-    return { keywords };
+
+    return researchKeywords(productInfo, {
+      targetCount,
+      youtube: apiKey ? new YouTubeService(apiKey) : undefined,
+      suggestionSource: source,
+      maxMeasuredQueries,
+    });
   },
-});
\ No newline at end of file
+});
@@ -1,5 +1,21 @@
+import { randomUUID } from 'node:crypto';
+import { join } from 'node:path';
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import { conceptFromColorScheme, renderThumbnailToFile, THUMBNAIL_LAYOUTS } from '../lib/thumbnail-renderer.js';
+import type { ThumbnailLayout } from '../lib/thumbnail-renderer.js';
+
+// A/Bテスト用に、コンセプトごとにレイアウトを変える
+const CONCEPT_LAYOUTS: ThumbnailLayout[] = ['text_left', 'text_center', 'text_right'];
+
+// 描画（thumbnail-renderer のレイアウト）と同じ配置を説明する
+const LAYOUT_DESCRIPTIONS: Record<ThumbnailLayout, string> = {
+  text_left: 'メインテキストは左側に左揃え、人物・商品画像は右側に配置',
+  text_right: 'メインテキストは右側に右揃え、人物・商品画像は左側に配置',
+  text_center: 'メインテキストは中央に大きく配置し、人物・商品画像は背景に敷く',
+  text_top: 'メインテキストは画面上部、人物・商品画像は下部中央に配置',
+  text_bottom: 'メインテキストは画面下部（右下の再生時間表示は避ける）、人物・商品画像は上部中央に配置',
+};
 
 export const youtubeThumbnailGeneratorTool = createTool({
   id: 'youtube-thumbnail-generator',
@@ -9,6 +25,9 @@ export const youtubeThumbnailGeneratorTool = createTool({
     targetAudience: z.string().describe('ターゲット視聴者'),
     style: z.enum(['professional', 'casual', 'dramatic', 'minimalist']).describe('デザインスタイル'),
     includeText: z.boolean().default(true).describe('テキストを含めるか'),
+    renderImages: z.boolean().default(false).describe('コンセプトをローカルでPNGに描画するか'),
+    outputDir: z.string().default('./thumbnails').describe('renderImages時のPNGの出力先'),
+    subjectImagePath: z.string().optional().describe('renderImages時に配置する顔写真・商品画像'),
   }),
   outputSchema: z.object({
     thumbnailConcepts: z.array(z.object({
@@ -21,12 +40,15 @@ export const youtubeThumbnailGeneratorTool = createTool({
         accent: z.string(),
       }),
       visualElements: z.array(z.string()),
+      layout: z.enum(THUMBNAIL_LAYOUTS),
       layoutDescription: z.string(),
       expectedCTR: z.string(),
+      imagePath: z.string().optional().describe('描画したPNGのパス'),
     })),
+    warnings: z.array(z.string()).optional(),
   }),
   execute: async ({ context }) => {
-    const { videoTopic, targetAudience, style, includeText } = context;
+    const { videoTopic, targetAudience, style, includeText, renderImages, outputDir, subjectImagePath } = context;
     
     // サムネイルコンセプトを生成
     const concepts = [];
@@ -51,17 +73,35 @@ export const youtubeThumbnailGeneratorTool = createTool({
     
     for (let i = 0; i < 3; i++) {
       const styleConfig = styles[style];
+      const layout = CONCEPT_LAYOUTS[i % CONCEPT_LAYOUTS.length];
       concepts.push({
         id: `thumbnail_${i + 1}`,
         mainText: includeText ? `${videoTopic}の秘密` : '',
         subText: includeText ? '知らないと損する！' : '',
         colorScheme: styleConfig.colors,
         visualElements: styleConfig.elements,
-        layoutDescription: `${style}スタイルのレイアウト。メインテキストは画面上部、視覚要素は中央配置`,
+        layout,
+        layoutDescription: `${style}スタイルのレイアウト。${LAYOUT_DESCRIPTIONS[layout]}`,
         expectedCTR: `${8 + i * 2}%`,
       });
     }
     
-    return { thumbnailConcepts: concepts };
+    if (!renderImages) {
+      return { thumbnailConcepts: concepts };
+    }
+
+    // 実行ごとにファイル名を変え、前回のA/Bテスト用の画像を上書きしない
+    const runId = `${new Date().toISOString().replace(/[:.]/g, '-')}_${randomUUID().slice(0, 8)}`;
+    const warnings: string[] = [];
+    const rendered = [];
+    for (const concept of concepts) {
+      const result = await renderThumbnailToFile(
+        conceptFromColorScheme({ ...concept, imagePath: subjectImagePath }),
+        join(outputDir, `${runId}_${concept.id}.png`)
+      );
+      warnings.push(...result.warnings.map(w => `${concept.id}: ${w}`));
+      rendered.push({ ...concept, imagePath: result.path });
+    }
+    return { thumbnailConcepts: rendered, warnings };
   },
 });
\ No newline at end of file
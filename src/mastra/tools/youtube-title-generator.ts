@@ -1,53 +1,141 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import { YouTubeService } from '../lib/youtube.js';
+import { generateTitleCandidates, scoreTitle } from '../lib/title-scoring.js';
+import type { TitleScore } from '../lib/title-scoring.js';
+
+// 重複チェックに使うチャンネルの既存動画・競合動画の取得件数
+const CHANNEL_TITLE_LIMIT = 200;
+const COMPETITOR_TITLE_LIMIT = 25;
+
+const EMOTIONAL_HOOKS = ['curiosity', 'fear', 'excitement', 'urgency'] as const;
+
+const truncationSchema = z.object({
+  truncated: z.boolean(),
+  preview: z.string(),
+});
+
+const similarTitleSchema = z.object({
+  similarity: z.number(),
+  title: z.string().optional(),
+});
 
 export const youtubeTitleGeneratorTool = createTool({
   id: 'youtube-title-generator',
-  description: 'SEO最適化されたYouTube動画タイトルを生成',
+  description: 'SEO最適化されたYouTube動画タイトルを生成し、表示幅・省略位置・キーワード位置・既存タイトルとの重複で採点',
   inputSchema: z.object({
     videoContent: z.string().describe('動画の内容'),
-    targetKeywords: z.array(z.string()).describe('ターゲットキーワード'),
-    emotionalHook: z.enum(['curiosity', 'fear', 'excitement', 'urgency']).describe('感情的フック'),
+    targetKeywords: z.array(z.string()).min(1).describe('ターゲットキーワード（先頭が主キーワード）'),
+    emotionalHook: z.enum(EMOTIONAL_HOOKS).optional().describe('感情的フック（未指定なら全種類から多様な候補を作る）'),
     includeNumbers: z.boolean().default(true).describe('数字を含めるか'),
+    count: z.number().int().min(1).max(20).default(5).describe('生成する候補数'),
+    candidateTitles: z.array(z.string()).optional().describe('採点だけしたいタイトル案（指定時は生成せずこれらを順位付け）'),
+    existingTitles: z.array(z.string()).optional().describe('チャンネルの既存動画のタイトル'),
+    competitorTitles: z.array(z.string()).optional().describe('上位の競合動画のタイトル'),
+    channelId: z.string().optional().describe('既存タイトルをYouTubeから取得するチャンネルID'),
+    fetchCompetitorTitles: z.boolean().default(false)
+      .describe('主キーワードの検索上位タイトルをYouTubeから取得するか（search.listで100クォータ）'),
   }),
   outputSchema: z.object({
     titles: z.array(z.object({
+      rank: z.number(),
       title: z.string(),
       characterCount: z.number(),
+      displayWidth: z.number().describe('半角1・全角2で数えた表示幅'),
       keywordPlacement: z.string(),
       emotionalAppeal: z.string(),
       seoScore: z.number().min(0).max(100),
+      pattern: z.string().optional(),
+      truncation: z.object({
+        mobile: truncationSchema,
+        desktop: truncationSchema,
+      }),
+      breakdown: z.object({
+        length: z.number(),
+        keywordPosition: z.number(),
+        brackets: z.number(),
+        numbers: z.number(),
+        emotionalWords: z.number(),
+        uniqueness: z.number(),
+      }),
+      emotionalWords: z.array(z.string()),
+      similarity: z.object({
+        channel: similarTitleSchema,
+        competitor: similarTitleSchema,
+      }),
+      duplicate: z.boolean(),
+      issues: z.array(z.string()),
     })),
+    warnings: z.array(z.string()),
   }),
   execute: async ({ context }) => {
-    const { videoContent, targetKeywords, emotionalHook, includeNumbers } = context;
-    
-    const emotionalWords = {
-      curiosity: ['秘密', '真実', '知らない', '発見'],
-      fear: ['危険', '失敗', '後悔', '損する'],
-      excitement: ['驚き', '革命', '最強', '圧倒的'],
-      urgency: ['今すぐ', '期間限定', '最後', '緊急'],
-    };
-    
-    const titles = [];
-    const hooks = emotionalWords[emotionalHook];
-    
-    for (let i = 0; i < 5; i++) {
-      const keyword = targetKeywords[i % targetKeywords.length];
-      const hook = hooks[i % hooks.length];
-      const number = includeNumbers ? `${(i + 1) * 3}つの` : '';
-      
-      const title = `【${keyword}】${number}${hook}！${videoContent}`;
-      
-      titles.push({
-        title,
-        characterCount: title.length,
-        keywordPlacement: 'タイトル前方',
-        emotionalAppeal: emotionalHook,
-        seoScore: 85 + i * 2,
-      });
+    const { videoContent, targetKeywords, emotionalHook, includeNumbers, count, candidateTitles, channelId, fetchCompetitorTitles } = context;
+    const warnings: string[] = [];
+    const channelTitles = [...(context.existingTitles ?? [])];
+    const competitorTitles = [...(context.competitorTitles ?? [])];
+
+    if (channelId || fetchCompetitorTitles) {
+      const apiKey = process.env.YOUTUBE_API_KEY;
+      if (!apiKey) {
+        warnings.push('YOUTUBE_API_KEYが未設定のため、YouTubeからのタイトル取得をスキップしました');
+      } else {
+        const youtube = new YouTubeService(apiKey);
+        if (channelId) {
+          try {
+            for await (const upload of youtube.iterateChannelUploads(channelId, { maxVideos: CHANNEL_TITLE_LIMIT })) {
+              channelTitles.push(upload.title);
+            }
+          } catch (error) {
+            warnings.push(`チャンネルの動画一覧の取得に失敗: ${error instanceof Error ? error.message : error}`);
+          }
+        }
+        if (fetchCompetitorTitles) {
+          try {
+            const results = await youtube.searchVideos(targetKeywords[0], COMPETITOR_TITLE_LIMIT);
+            results.forEach(item => item.snippet?.title && competitorTitles.push(item.snippet.title));
+          } catch (error) {
+            warnings.push(`競合タイトルの検索に失敗（${targetKeywords[0]}）: ${error instanceof Error ? error.message : error}`);
+          }
+        }
+      }
     }
-    
-    return { titles };
+
+    const scoringContext = { channelTitles, competitorTitles };
+    const ranked: Array<TitleScore & { rank: number; pattern?: string; emotion?: string }> = candidateTitles
+      ? candidateTitles
+          .map(title => scoreTitle(title, { ...scoringContext, keywords: targetKeywords }))
+          .sort((a, b) => b.score - a.score)
+          .map((score, i) => ({ ...score, rank: i + 1 }))
+      : generateTitleCandidates({ videoContent, keywords: targetKeywords, emotionalHook, includeNumbers, count }, scoringContext);
+
+    if (!candidateTitles && ranked.length < count) {
+      warnings.push(`重複・類似を除いた結果、候補は${ranked.length}件でした`);
+    }
+
+    return {
+      titles: ranked.map(t => ({
+        rank: t.rank,
+        title: t.title,
+        characterCount: t.characterCount,
+        displayWidth: t.displayWidth,
+        keywordPlacement: t.keywordOffset === undefined
+          ? 'キーワードなし'
+          : t.keywordOffset === 0
+            ? 'タイトル先頭'
+            : t.keywordVisibleOnMobile
+              ? `タイトル前方（表示幅${t.keywordOffset}の位置）`
+              : 'スマホでは省略される位置',
+        emotionalAppeal: t.emotion ?? (t.emotionalWords.length > 0 ? t.emotionalWords.join('、') : 'なし'),
+        seoScore: t.score,
+        pattern: t.pattern,
+        truncation: t.truncation,
+        breakdown: t.breakdown,
+        emotionalWords: t.emotionalWords,
+        similarity: t.similarity,
+        duplicate: t.duplicate,
+        issues: t.issues,
+      })),
+      warnings,
+    };
   },
-});
\ No newline at end of file
+});
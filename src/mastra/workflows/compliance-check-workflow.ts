@@ -1,12 +1,11 @@
 import { createWorkflow } from '@mastra/core';
 import { z } from 'zod';
 import { complianceCheckerTool } from '../tools/compliance-checker-tool';
-import { contentGeneratorToolV2 } from '../tools/content-generator-tool-v2';
 import { seoOptimizationTool } from '../tools/seo-optimization-tool';
 
 /**
  * コンプライアンスチェックワークフロー
- * コンテンツチェック → 修正提案 → 自動修正 → 最終確認
+ * コンテンツチェック → 修正提案 → 自動修正（ルールパックの書き換えと diff） → 最終確認
  */
 export const complianceCheckWorkflow = createWorkflow({
   name: 'compliance-check-workflow',
@@ -17,17 +16,20 @@ export const complianceCheckWorkflow = createWorkflow({
     productClaims: z.array(z.string()).optional(),
     targetMarket: z.enum(['jp', 'us', 'global']),
     autoFix: z.boolean().default(true),
+    contentId: z.string().optional().describe('公開する動画ID・記事URLなど（監査記録の照会に使う）'),
   }),
   outputSchema: z.object({
     complianceScore: z.number(),
     status: z.enum(['compliant', 'needs_attention', 'non_compliant']),
     fixedContent: z.string().optional(),
+    diff: z.string().optional(),
     issues: z.array(z.object({
       severity: z.string(),
       category: z.string(),
       issue: z.string(),
       fixed: z.boolean(),
     })),
+    recommendations: z.array(z.string()).describe('記入欄（※[根拠: …]）の記入や未確認のハンクなど、公開前に必要な対応'),
     disclaimer: z.string(),
   }),
   steps: [
@@ -40,6 +42,7 @@ export const complianceCheckWorkflow = createWorkflow({
         content: input.content,
         contentType: input.contentType,
         targetMarket: input.targetMarket,
+        contentId: input.contentId,
       }),
     },
     {
@@ -50,6 +53,7 @@ export const complianceCheckWorkflow = createWorkflow({
         action: 'check_disclosure',
         content: input.content,
         contentType: input.contentType,
+        targetMarket: input.targetMarket,
       }),
     },
     {
@@ -76,17 +80,13 @@ export const complianceCheckWorkflow = createWorkflow({
     {
       id: 'auto-fix-content',
       name: 'コンテンツ自動修正',
-      tool: contentGeneratorToolV2,
-      input: ({ input, previousSteps }) => ({
-        action: 'fix_compliance',
+      tool: complianceCheckerTool,
+      input: ({ input }) => ({
+        action: 'auto_fix',
         content: input.content,
-        issues: previousSteps['initial-check'].output.issues,
-        context: {
-          market: input.targetMarket,
-          language: input.targetMarket === 'jp' ? 'ja' : 'en',
-          compliance: true,
-          style: 'compliant',
-        },
+        contentType: input.contentType,
+        targetMarket: input.targetMarket,
+        applyAll: true,
       }),
       condition: ({ input, previousSteps }) => 
         input.autoFix && previousSteps['initial-check'].output.issues.length > 0,
@@ -97,7 +97,9 @@ export const complianceCheckWorkflow = createWorkflow({
       tool: complianceCheckerTool,
       input: ({ input, previousSteps }) => ({
         action: 'audit_campaign',
-        campaignContent: previousSteps['auto-fix-content']?.output?.content || input.content,
+        content: previousSteps['auto-fix-content']?.output?.report.fixedContent || input.content,
+        targetMarket: input.targetMarket,
+        contentId: input.contentId,
       }),
     },
     {
@@ -106,34 +108,49 @@ export const complianceCheckWorkflow = createWorkflow({
       tool: seoOptimizationTool,
       input: ({ input, previousSteps }) => ({
         action: 'optimize_content',
-        content: previousSteps['auto-fix-content']?.output?.content || input.content,
+        content: previousSteps['auto-fix-content']?.output?.report.fixedContent || input.content,
         keywords: ['アフィリエイト', '広告'],
       }),
       condition: ({ previousSteps }) => 
-        previousSteps['final-check'].output.report.status === 'compliant',
+        previousSteps['final-check'].output.report.status === 'compliant' &&
+        (previousSteps['auto-fix-content'] ?? previousSteps['initial-check']).output.report.status === 'compliant',
     },
   ],
   output: ({ steps, input }) => {
     const initialIssues = steps['initial-check'].output.issues || [];
     const finalReport = steps['final-check'].output.report;
     const wasFixed = steps['auto-fix-content']?.output ? true : false;
+    // 修正後の本文に残る指摘（未記入の記入欄が残る最上級・数値表示もここに入る）
+    const remainingIssues = wasFixed ? steps['auto-fix-content'].output.issues : initialIssues;
+    const contentReport = (wasFixed ? steps['auto-fix-content'] : steps['initial-check']).output.report;
     
     return {
-      complianceScore: finalReport.overallScore || finalReport.score,
-      status: finalReport.status,
-      fixedContent: wasFixed ? steps['auto-fix-content'].output.content : undefined,
+      complianceScore: Math.min(finalReport.overallScore, contentReport.score),
+      status: worseStatus(finalReport.status, contentReport.status),
+      fixedContent: wasFixed ? steps['auto-fix-content'].output.report.fixedContent : undefined,
+      diff: wasFixed ? steps['auto-fix-content'].output.report.diff : undefined,
       issues: initialIssues.map((issue: any) => ({
         ...issue,
-        fixed: wasFixed && !steps['final-check'].output.issues.some(
-          (finalIssue: any) => finalIssue.issue === issue.issue
+        fixed: wasFixed && !remainingIssues.some(
+          (remaining: any) => remaining.id === issue.id
         ),
       })),
+      recommendations: [...new Set<string>([
+        ...(wasFixed ? steps['auto-fix-content'].output.recommendations : steps['initial-check'].output.recommendations),
+        ...steps['final-check'].output.issues.map((issue: any) => issue.recommendation),
+      ])],
       disclaimer: steps['generate-disclaimer'].output.disclaimer,
     };
   },
 });
 
 // ヘルパー関数
+const STATUS_ORDER = ['compliant', 'needs_attention', 'non_compliant'] as const;
+
+function worseStatus(a: typeof STATUS_ORDER[number], b: typeof STATUS_ORDER[number]): typeof STATUS_ORDER[number] {
+  return STATUS_ORDER.indexOf(a) >= STATUS_ORDER.indexOf(b) ? a : b;
+}
+
 function extractClaims(content: string): string[] {
   const claims: string[] = [];
   
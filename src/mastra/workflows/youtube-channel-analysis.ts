@@ -1,76 +1,133 @@
 import { createWorkflow, createStep } from '@mastra/core';
 import { z } from 'zod';
 import { youtubeChannelAnalysisAgent } from '../agents/youtube-channel-analysis.js';
+import { YouTubeService } from '../lib/youtube.js';
+import { computeChannelMetrics, summarizeChannelMetrics, summarizeCompetitorComparison } from '../lib/channel-metrics.js';
+
+// 競合チャンネルは直近の動画だけで比較する（クォータ節約のため）
+const COMPETITOR_VIDEO_LIMIT = 50;
 
 // Channel data fetching step
 const fetchChannelDataStep = createStep({
   id: 'fetch-channel-data',
-  description: 'YouTubeチャンネル情報と最新動画を取得',
+  description: 'YouTubeチャンネル情報とアップロード済み動画（全件）、競合チャンネルの直近動画を取得',
   inputSchema: z.object({
     channelId: z.string(),
     analysisDepth: z.enum(['basic', 'detailed', 'comprehensive']).default('detailed'),
+    competitorChannels: z.array(z.string()).optional(),
+    publishedAfter: z.string().datetime().optional(),
+    publishedBefore: z.string().datetime().optional(),
+    maxVideos: z.number().int().positive().optional(),
   }),
   outputSchema: z.object({
     channelData: z.any(),
     videos: z.array(z.any()),
+    competitors: z.array(z.object({ channelData: z.any(), videos: z.array(z.any()) })),
+    warnings: z.array(z.string()),
   }),
   execute: async ({ getInitData }) => {
     const triggerData = getInitData();
     if (!triggerData) {
       throw new Error('Trigger data not found');
     }
-    const { channelId, analysisDepth } = triggerData;
+    const { channelId, publishedAfter, publishedBefore, maxVideos, competitorChannels = [] } = triggerData;
 
-    // Use the agent to fetch data
-    const result = await youtubeChannelAnalysisAgent.generate([{
-      role: 'user',
-      content: `チャンネルID ${channelId} のデータを ${analysisDepth} レベルで取得してください`
-    }]);
+    const apiKey = process.env.YOUTUBE_API_KEY;
+    if (!apiKey) {
+      throw new Error('YouTube API key not configured');
+    }
+    const youtube = new YouTubeService(apiKey);
+
+    const channelData = await youtube.getChannelInfo(channelId);
+    if (!channelData) {
+      throw new Error(`Channel not found: ${channelId}`);
+    }
+
+    // アップロード再生リストをページングして期間内の動画を全件取得する
+    const videos = await youtube.getAllChannelVideos(channelId, {
+      publishedAfter: publishedAfter ? new Date(publishedAfter) : undefined,
+      publishedBefore: publishedBefore ? new Date(publishedBefore) : undefined,
+      maxVideos,
+    });
+
+    // 競合は取得できなかったチャンネルを飛ばして続ける
+    const competitors = [];
+    const warnings: string[] = [];
+    for (const competitorId of competitorChannels.filter((id: string) => id !== channelId)) {
+      try {
+        const competitorData = await youtube.getChannelInfo(competitorId);
+        if (!competitorData) {
+          warnings.push(`競合チャンネルが見つかりません: ${competitorId}`);
+          continue;
+        }
+        const competitorVideos = await youtube.getAllChannelVideos(competitorId, { maxVideos: COMPETITOR_VIDEO_LIMIT });
+        competitors.push({ channelData: competitorData, videos: competitorVideos });
+      } catch (error) {
+        warnings.push(`競合チャンネルの取得に失敗（${competitorId}）: ${error instanceof Error ? error.message : error}`);
+      }
+    }
 
     return {
-      channelData: { id: channelId },
-      videos: []
+      channelData,
+      videos,
+      competitors,
+      warnings,
     };
   },
 });
 
+const metricsSchema = z.object({
+  subscribers: z.number(),
+  totalViews: z.number(),
+  videoCount: z.number(),
+  averageViews: z.number(),
+});
+
 // Performance analysis step
 const analyzePerformanceStep = createStep({
   id: 'analyze-performance',
-  description: 'チャンネルパフォーマンスの分析',
+  description: 'チャンネルパフォーマンスの指標をコードで計算',
   inputSchema: z.object({
     channelData: z.any(),
     videos: z.array(z.any()),
+    competitors: z.array(z.object({ channelData: z.any(), videos: z.array(z.any()) })),
+    warnings: z.array(z.string()),
   }),
   outputSchema: z.object({
     performanceAnalysis: z.string(),
-    metrics: z.object({
-      subscribers: z.number(),
-      totalViews: z.number(),
-      videoCount: z.number(),
-      averageViews: z.number(),
-    }),
+    competitorComparison: z.string().optional(),
+    metrics: metricsSchema,
+    channelMetrics: z.any(),
+    competitorMetrics: z.array(z.any()),
+    warnings: z.array(z.string()),
   }),
-  execute: async ({ getStepResult }) => {
+  execute: async ({ getStepResult, getInitData }) => {
     const fetchResult = getStepResult(fetchChannelDataStep);
-    if (!fetchResult) {
+    const triggerData = getInitData();
+    if (!fetchResult || !triggerData) {
       throw new Error('Fetch result not found');
     }
-    const { channelData, videos } = fetchResult;
+    const { channelData, videos, competitors, warnings } = fetchResult;
+    const depth = triggerData.analysisDepth ?? 'detailed';
 
-    const result = await youtubeChannelAnalysisAgent.generate([{
-      role: 'user',
-      content: `チャンネルデータを分析し、詳細なメトリクス分析を提供してください`
-    }]);
+    // 指標はLLMに計算させず、ここで決定的に算出する
+    const channelMetrics = computeChannelMetrics(channelData, videos, depth);
+    const competitorMetrics = competitors.map(c => computeChannelMetrics(c.channelData, c.videos, depth));
 
     return {
-      performanceAnalysis: 'チャンネルは一貫した成長を示し、高いエンゲージメント指標を維持しています',
+      performanceAnalysis: summarizeChannelMetrics(channelMetrics),
+      competitorComparison: competitorMetrics.length > 0
+        ? summarizeCompetitorComparison(channelMetrics, competitorMetrics)
+        : undefined,
       metrics: {
-        subscribers: 1000,
-        totalViews: 50000,
-        videoCount: 100,
-        averageViews: 500,
+        subscribers: channelMetrics.overview.subscribers,
+        totalViews: channelMetrics.overview.totalViews,
+        videoCount: channelMetrics.overview.videoCount,
+        averageViews: channelMetrics.overview.averageViews,
       },
+      channelMetrics,
+      competitorMetrics,
+      warnings,
     };
   },
 });
@@ -81,31 +138,59 @@ const generateRecommendationsStep = createStep({
   description: 'チャンネル成長のための提案を生成',
   inputSchema: z.object({
     performanceAnalysis: z.string(),
-    metrics: z.any(),
+    competitorComparison: z.string().optional(),
+    metrics: metricsSchema,
+    channelMetrics: z.any(),
+    competitorMetrics: z.array(z.any()),
+    warnings: z.array(z.string()),
   }),
   outputSchema: z.object({
     recommendations: z.array(z.string()),
     competitiveInsights: z.string().optional(),
+    metrics: metricsSchema,
+    channelMetrics: z.any(),
+    competitorMetrics: z.array(z.any()),
+    warnings: z.array(z.string()),
   }),
   execute: async ({ getStepResult }) => {
     const performanceResult = getStepResult(analyzePerformanceStep);
     if (!performanceResult) {
       throw new Error('Performance result not found');
     }
-    const { performanceAnalysis, metrics } = performanceResult;
+    const { performanceAnalysis, competitorComparison, metrics, channelMetrics, competitorMetrics, warnings } = performanceResult;
+
+    // 競合の指標がなければ比較を求めない（根拠のない一般論を書かせない）
+    const competitorSection = competitorComparison
+      ? `\n\n競合チャンネル（コードで計算済み）:\n${competitorComparison}`
+      : '';
+    const competitorFormat = competitorComparison
+      ? '\n- 最後に「競合比較:」で始まる1行で、上記の競合チャンネルの指標と比べた所感'
+      : '';
 
     const result = await youtubeChannelAnalysisAgent.generate([{
       role: 'user',
-      content: `パフォーマンス分析に基づいて、チャンネル成長のための具体的な提案を提供してください`
+      content: `以下はコードで計算済みのチャンネル指標です。数値は再計算せず、この要約だけを根拠に分析してください。
+
+${performanceAnalysis}${competitorSection}
+
+出力形式:
+- 「- 」で始まる箇条書きで、具体的な改善提案を5個以内${competitorFormat}`
     }]);
 
+    const lines = result.text.split('\n').map(line => line.trim());
+    const recommendations = lines
+      .filter(line => /^[-・*]\s*/.test(line))
+      .map(line => line.replace(/^[-・*]\s*/, ''))
+      .filter(Boolean);
+    const competitiveLine = competitorComparison ? lines.find(line => line.startsWith('競合比較:')) : undefined;
+
     return {
-      recommendations: [
-        'より頻繁にアップロードして視聴者のエンゲージメントを維持',
-        'サムネイルデザインを改善してクリック率を向上',
-        'トレンドキーワードで動画タイトルを最適化'
-      ],
-      competitiveInsights: 'チャンネルは同じニッチの他のクリエイターと比較して良好なパフォーマンスを示しています',
+      recommendations: recommendations.length > 0 ? recommendations : [result.text.trim()],
+      competitiveInsights: competitiveLine?.replace('競合比較:', '').trim(),
+      metrics,
+      channelMetrics,
+      competitorMetrics,
+      warnings,
     };
   },
 });
@@ -115,18 +200,20 @@ export const youtubeChannelAnalysisWorkflow = createWorkflow({
   id: 'youtube-channel-analysis',
   inputSchema: z.object({
     channelId: z.string(),
-    analysisDepth: z.enum(['basic', 'detailed', 'comprehensive']).default('detailed'),
-    competitorChannels: z.array(z.string()).optional(),
+    analysisDepth: z.enum(['basic', 'detailed', 'comprehensive']).default('detailed')
+      .describe('basic: 概要・投稿頻度 / detailed: +エンゲージメント・尺・ショート比較 / comprehensive: +外れ値・曜日分析'),
+    competitorChannels: z.array(z.string()).optional().describe(`比較する競合チャンネルID（各チャンネルの直近${COMPETITOR_VIDEO_LIMIT}本で比較）`),
+    publishedAfter: z.string().datetime().optional().describe('この日時以降に公開された動画のみ分析（ISO 8601）'),
+    publishedBefore: z.string().datetime().optional().describe('この日時より前に公開された動画のみ分析（ISO 8601）'),
+    maxVideos: z.number().int().positive().optional().describe('分析する最大本数（未指定なら全件）'),
   }),
   outputSchema: z.object({
     recommendations: z.array(z.string()),
     competitiveInsights: z.string().optional(),
-    metrics: z.object({
-      subscribers: z.number(),
-      totalViews: z.number(),
-      videoCount: z.number(),
-      averageViews: z.number(),
-    }),
+    metrics: metricsSchema,
+    channelMetrics: z.any(),
+    competitorMetrics: z.array(z.any()),
+    warnings: z.array(z.string()),
   }),
 })
   .then(fetchChannelDataStep)
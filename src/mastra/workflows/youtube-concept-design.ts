@@ -1,6 +1,13 @@
 import { createWorkflow, createStep } from '@mastra/core';
 import { z } from 'zod';
 import { youtubeConceptDesignerAgent } from '../agents/youtube-concept-designer.js';
+import { faqEntrySchema, videoIdeaSchema } from '../tools/comment-mining-tool.js';
+
+// comment-mining ツールの出力（視聴者の質問・リクエスト）をそのまま渡せる
+const commentInsightsSchema = z.object({
+  videoIdeas: z.array(videoIdeaSchema.pick({ title: true, targetKeywords: true, demandScore: true })).default([]),
+  faq: z.array(faqEntrySchema.pick({ question: true, askedCount: true })).default([]),
+});
 
 // Step 1: 商品情報収集
 const collectProductInfoStep = createStep({
@@ -143,7 +150,7 @@ const generateConceptsStep = createStep({
       targetPersona: z.string(),
     })),
   }),
-  execute: async ({ getStepResult }) => {
+  execute: async ({ getInitData, getStepResult }) => {
     const keywordResult = getStepResult(researchKeywordsStep);
     const personaResult = getStepResult(generatePersonasStep);
     if (!keywordResult || !personaResult) {
@@ -151,13 +158,18 @@ const generateConceptsStep = createStep({
     }
     const { topKeywords } = keywordResult;
     const { selectedPersonas } = personaResult;
+    const commentInsights: z.infer<typeof commentInsightsSchema> | undefined = getInitData()?.commentInsights;
+    const viewerDemand = commentInsights
+      ? `\n視聴者のリクエスト: ${commentInsights.videoIdeas.map(idea => `${idea.title}（${idea.targetKeywords.join('・')}）`).join('; ')}
+よくある質問: ${commentInsights.faq.map(entry => entry.question).join('; ')}`
+      : '';
     
     const result = await youtubeConceptDesignerAgent.generate([{
       role: 'user',
       content: `以下の情報に基づいて、YouTubeチャンネルコンセプト案を30個生成してください（タイトルは13文字以内）：
       
 キーワード: ${topKeywords.slice(0, 3).map(k => k.keyword).join(', ')}
-ペルソナ: ${selectedPersonas.map(p => p.description).join('; ')}`,
+ペルソナ: ${selectedPersonas.map(p => p.description).join('; ')}${viewerDemand}`,
     }]);
     
     // モックデータ（実際は30個生成）
@@ -194,6 +206,7 @@ export const youtubeConceptDesignWorkflow = createWorkflow({
     serviceUrl: z.string().optional(),
     productDescription: z.string(),
     targetConceptCount: z.number().default(30),
+    commentInsights: commentInsightsSchema.optional().describe('既存動画のコメントから抽出した動画ネタとFAQ'),
   }),
   outputSchema: z.object({
     concepts: z.array(z.object({
@@ -4,6 +4,11 @@ import { youtubeConceptDesignerAgent } from '../agents/youtube-concept-designer.
 import { youtubeMarketingAgent } from '../agents/youtube-marketing-agent.js';
 import { youtubeScriptWriterAgent } from '../agents/youtube-script-writer.js';
 import { youtubeChannelAnalysisAgent } from '../agents/youtube-channel-analysis.js';
+import { splitScriptSections, timeScript } from '../lib/script-timing.js';
+import { getScriptStyleRegistry } from '../lib/script-styles.js';
+import { DEFAULT_VISUAL_EFFECTS } from '../lib/script-style-presets.js';
+import { scriptTimingSchema } from '../tools/script-timing-tool.js';
+import { scriptExportSchema, scriptExportTool } from '../tools/script-export-tool.js';
 
 // Step 1: チャンネル分析とトレンド調査
 const analyzeChannelAndTrendsStep = createStep({
@@ -246,19 +251,7 @@ const generateScriptStep = createStep({
       contentType: z.enum(['educational', 'entertainment', 'how-to', 'review', 'news']),
     }),
     selectedTitle: z.string(),
-    scriptStyle: z.enum([
-      'educational',
-      'entertainment',
-      'how-to',
-      'news',
-      'review',
-      'vlog',
-      'taiki',
-      'roadmap',
-      'osaru',
-      'moezo',
-      'dialogue',
-    ]).optional(),
+    scriptStyle: z.string().optional(),
   }),
   outputSchema: z.object({
     script: z.object({
@@ -271,6 +264,7 @@ const generateScriptStep = createStep({
       })),
       totalWordCount: z.number(),
       estimatedSpeakingTime: z.number(),
+      timing: scriptTimingSchema.optional(),
     }),
   }),
   execute: async ({ getInitData, getStepResult }) => {
@@ -318,6 +312,12 @@ ChatGPTを使えば、ビジネスメールの下書きが30秒で完成しま
 チャンネル登録といいねボタンもお忘れなく！
 次回は「ChatGPTの応用テクニック」をお届けします。それでは、また次の動画でお会いしましょう！`;
     
+    // 台本本文から読み上げ時間を実測し、目標尺（分）と照合する
+    const { rate, ...timing } = timeScript(splitScriptSections(fullScript), {
+      style,
+      totalTarget: `${contentPlan.estimatedDuration}分`,
+    });
+
     return {
       script: {
         fullScript,
@@ -353,8 +353,10 @@ ChatGPTを使えば、ビジネスメールの下書きが30秒で完成しま
             keyPoints: ['重要ポイントの復習', 'チャンネル登録促進', '次回予告'],
           },
         ],
-        totalWordCount: 3000,
-        estimatedSpeakingTime: 15,
+        // 日本語は単語の区切りがないため文字数を語数として扱う
+        totalWordCount: timing.language === 'ja' ? timing.totalCharacters : timing.totalUnits,
+        estimatedSpeakingTime: Math.round(timing.totalSeconds / 6) / 10,
+        timing,
       },
     };
   },
@@ -375,6 +377,7 @@ const conditionalProcessingStep = createStep({
       })),
       totalWordCount: z.number(),
       estimatedSpeakingTime: z.number(),
+      timing: scriptTimingSchema.optional(),
     }),
     scriptStyle: z.string().optional(),
   }),
@@ -394,67 +397,15 @@ const conditionalProcessingStep = createStep({
     const { scriptStyle } = triggerData;
     const { script } = scriptResult;
     
-    // 条件分岐: スタイルに基づいて異なる処理を実行
-    const additionalAssets: any = {};
-    
-    if (scriptStyle === 'taiki' || scriptStyle === 'moezo') {
-      // アニメーションスタイルの場合
-      additionalAssets.visualEffects = [
-        'キャラクターアニメーション',
-        'ポップアップテキスト',
-        'エモーショナルエフェクト',
-        'BGM強調',
-      ];
-      additionalAssets.specialInstructions = [
-        'キャラクターの表情変化を多用',
-        'リアクションを大げさに',
-        '効果音を頻繁に使用',
-      ];
-    } else if (scriptStyle === 'roadmap') {
-      // ロードマップスタイルの場合
-      additionalAssets.visualEffects = [
-        'タイムラインアニメーション',
-        'ステップバイステップ表示',
-        'プログレスバー',
-        'チェックマーク演出',
-      ];
-      additionalAssets.interactiveElements = [
-        'チャプターマーカー',
-        'クリッカブルリンク',
-        'タイムスタンプ',
-      ];
-    } else if (scriptStyle === 'dialogue') {
-      // 対話スタイルの場合
-      additionalAssets.visualEffects = [
-        '吹き出しアニメーション',
-        '画面分割効果',
-        'キャラクター切り替え',
-      ];
-      additionalAssets.specialInstructions = [
-        '会話のテンポに注意',
-        '間を効果的に使用',
-        'リアクションカットを挿入',
-      ];
-    } else if (scriptStyle === 'osaru') {
-      // おさるスタイルの場合
-      additionalAssets.visualEffects = [
-        'サル猿化演出',
-        'ジャングル背景',
-        'バナナトランジション',
-      ];
-      additionalAssets.specialInstructions = [
-        'ユーモアを前面に',
-        '予想外の展開を含める',
-        '視聴者を巻き込む質問',
-      ];
-    } else {
-      // デフォルトスタイル
-      additionalAssets.visualEffects = [
-        'スタンダードトランジション',
-        'テキストオーバーレイ',
-        '基本的なズーム効果',
-      ];
-    }
+    // スタイル定義の演出プリセットを使う（未登録のスタイルは標準の演出）
+    const style = getScriptStyleRegistry().get(scriptStyle);
+    const additionalAssets: any = style
+      ? {
+          visualEffects: style.visualEffects,
+          specialInstructions: style.specialInstructions.length > 0 ? style.specialInstructions : undefined,
+          interactiveElements: style.interactiveElements.length > 0 ? style.interactiveElements : undefined,
+        }
+      : { visualEffects: DEFAULT_VISUAL_EFFECTS };
     
     // 動画の長さに基づく条件分岐
     if (script.estimatedSpeakingTime > 10) {
@@ -470,7 +421,52 @@ const conditionalProcessingStep = createStep({
   },
 });
 
-// Step 6: 制作チェックリストとスケジュール
+// Step 6: 編集・収録用ファイルの書き出し
+const exportScriptStep = createStep({
+  id: 'export-script',
+  description: 'プロンプター原稿・字幕ドラフト・編集マーカー・制作資料を書き出す',
+  inputSchema: z.object({
+    additionalAssets: z.object({
+      visualEffects: z.array(z.string()).optional(),
+      specialInstructions: z.array(z.string()).optional(),
+      interactiveElements: z.array(z.string()).optional(),
+    }),
+  }),
+  outputSchema: z.object({
+    scriptExports: scriptExportSchema,
+  }),
+  execute: async ({ getInitData, getStepResult, runtimeContext }) => {
+    const triggerData = getInitData();
+    const planResult = getStepResult(planContentStep);
+    const marketingResult = getStepResult(generateMarketingAssetsStep);
+    const scriptResult = getStepResult(generateScriptStep);
+    const assetsResult = getStepResult(conditionalProcessingStep);
+    if (!triggerData || !planResult || !marketingResult || !scriptResult || !assetsResult) {
+      throw new Error('Required data not found');
+    }
+    const { scriptStyle, exportFormats } = triggerData;
+    const { contentPlan } = planResult;
+    const { additionalAssets } = assetsResult;
+
+    const scriptExports = await scriptExportTool.execute!({
+      context: {
+        title: marketingResult.marketingAssets.titles[0]?.title || contentPlan.videoTitle,
+        script: scriptResult.script.fullScript,
+        formats: exportFormats,
+        style: scriptStyle || contentPlan.contentType,
+        totalTarget: `${contentPlan.estimatedDuration}分`,
+        visualEffects: additionalAssets.visualEffects,
+        interactiveElements: additionalAssets.interactiveElements,
+        specialInstructions: additionalAssets.specialInstructions,
+      },
+      runtimeContext,
+    });
+
+    return { scriptExports };
+  },
+});
+
+// Step 7: 制作チェックリストとスケジュール
 const createProductionChecklistStep = createStep({
   id: 'create-production-checklist',
   description: '制作チェックリストとスケジュールを作成',
@@ -559,6 +555,12 @@ const createProductionChecklistStep = createStep({
             priority: 'medium',
             estimatedTime: '2時間',
           },
+          {
+            task: '冒頭の「PR」テロップ表示（ステマ規制）',
+            category: 'ポストプロダクション',
+            priority: 'high',
+            estimatedTime: '10分',
+          },
           {
             task: 'BGM・効果音の追加',
             category: 'ポストプロダクション',
@@ -636,19 +638,10 @@ export const youtubeFullProductionWorkflow = createWorkflow({
     niche: z.string().describe('チャンネルのニッチ/ジャンル'),
     competitorChannels: z.array(z.string()).optional().describe('競合チャンネルID'),
     contentGoals: z.string().describe('コンテンツの目標'),
-    scriptStyle: z.enum([
-      'educational',
-      'entertainment',
-      'how-to',
-      'news',
-      'review',
-      'vlog',
-      'taiki',
-      'roadmap',
-      'osaru',
-      'moezo',
-      'dialogue',
-    ]).optional().describe('台本スタイル'),
+    scriptStyle: z.string().optional().describe('台本スタイル（educational などの基本スタイル、または taiki などの登録済みスタイルのID）'),
+    exportFormats: z.array(z.enum(['teleprompter', 'srt', 'vtt', 'edl', 'markers_csv', 'markdown']))
+      .optional()
+      .describe('台本の書き出し形式（未指定なら全形式）'),
   }),
   outputSchema: z.object({
     channelInsights: z.any(),
@@ -656,6 +649,7 @@ export const youtubeFullProductionWorkflow = createWorkflow({
     marketingAssets: z.any(),
     script: z.any(),
     additionalAssets: z.any(),
+    scriptExports: z.any(),
     productionPlan: z.any(),
   }),
 })
@@ -664,6 +658,7 @@ export const youtubeFullProductionWorkflow = createWorkflow({
   .then(generateMarketingAssetsStep)
   .then(generateScriptStep)
   .then(conditionalProcessingStep)
+  .then(exportScriptStep)
   .then(createProductionChecklistStep);
 
 youtubeFullProductionWorkflow.commit();
\ No newline at end of file
@@ -1,6 +1,26 @@
 import { createWorkflow, createStep } from '@mastra/core';
 import { z } from 'zod';
 import { youtubeScriptWriterAgent } from '../agents/youtube-script-writer.js';
+import { timeScript } from '../lib/script-timing.js';
+import { getScriptStyleRegistry, planStylePhases } from '../lib/script-styles.js';
+import { scriptTimingSchema } from '../tools/script-timing-tool.js';
+import { publishingPackageSchema, publishingPackageTool } from '../tools/publishing-package-tool.js';
+import { youtubeKeywordResearchTool } from '../tools/youtube-keyword-research.js';
+
+const fullScriptSchema = z.object({
+  title: z.string(),
+  totalDuration: z.number(),
+  sections: z.array(z.object({
+    sectionName: z.string(),
+    duration: z.number(),
+    script: z.string(),
+    visualCues: z.array(z.string()),
+    transitions: z.string(),
+  })),
+  keywords: z.array(z.string()),
+  hashtags: z.array(z.string()),
+  timing: scriptTimingSchema.optional(),
+});
 
 // Step 1: コンテンツプランニング
 const planContentStep = createStep({
@@ -9,19 +29,7 @@ const planContentStep = createStep({
   inputSchema: z.object({
     videoTitle: z.string(),
     videoType: z.enum(['long', 'shorts']),
-    scriptStyle: z.enum([
-      'educational',
-      'entertainment',
-      'how-to',
-      'news',
-      'review',
-      'vlog',
-      'taiki',
-      'roadmap',
-      'osaru',
-      'moezo',
-      'dialogue',
-    ]).optional(),
+    scriptStyle: z.string().optional(),
     targetAudience: z.string(),
     mainMessage: z.string(),
     callToAction: z.string(),
@@ -94,16 +102,20 @@ const generateHookStep = createStep({
     })),
     selectedHook: z.string(),
   }),
-  execute: async ({ getStepResult }) => {
+  execute: async ({ getInitData, getStepResult }) => {
+    const triggerData = getInitData();
     const planResult = getStepResult(planContentStep);
-    if (!planResult) {
+    if (!triggerData || !planResult) {
       throw new Error('Content plan not found');
     }
     const { contentPlan } = planResult;
+    const preferredTypes: string[] = getScriptStyleRegistry().get(triggerData.scriptStyle)?.hookPreferences.hookTypes ?? [];
     
     const result = await youtubeScriptWriterAgent.generate([{
       role: 'user',
-      content: `${contentPlan.topic}の動画用に、強力なフックを3つ生成してください。`,
+      content: `${contentPlan.topic}の動画用に、強力なフックを3つ生成してください。${
+        preferredTypes.length > 0 ? `\nスタイルに合うフックタイプ: ${preferredTypes.join(', ')}` : ''
+      }`,
     }]);
     
     const hooks = [
@@ -124,9 +136,13 @@ const generateHookStep = createStep({
       },
     ];
     
+    // スタイルが好むタイプの中で最も強力なものを選択（該当がなければ全体で最も強力なもの）
+    const candidates = hooks.filter(h => preferredTypes.includes(h.type));
+    const selected = (candidates.length > 0 ? candidates : hooks).reduce((best, h) => (h.strength > best.strength ? h : best));
+    
     return {
       hooks,
-      selectedHook: hooks[1].text, // 最も強力なものを選択
+      selectedHook: selected.text,
     };
   },
 });
@@ -154,16 +170,22 @@ const generateStructureStep = createStep({
       speakingNotes: z.string(),
     })),
   }),
-  execute: async ({ getStepResult }) => {
+  execute: async ({ getInitData, getStepResult }) => {
+    const triggerData = getInitData();
     const planResult = getStepResult(planContentStep);
     const hookResult = getStepResult(generateHookStep);
-    if (!planResult || !hookResult) {
+    if (!triggerData || !planResult || !hookResult) {
       throw new Error('Required data not found');
     }
     const { contentPlan } = planResult;
     const { selectedHook } = hookResult;
+    const style = getScriptStyleRegistry().get(triggerData.scriptStyle);
     
-    const styleInfo = contentPlan.scriptStyle ? `
+    const styleInfo = style
+      ? `
+スタイル: ${style.styleName}（${style.narrativeApproach}）
+構成: ${style.phases.map(p => p.phase).join(' → ')}`
+      : contentPlan.scriptStyle ? `
 スタイル: ${contentPlan.scriptStyle}` : '';
     
     const result = await youtubeScriptWriterAgent.generate([{
@@ -174,7 +196,32 @@ const generateStructureStep = createStep({
 時間: ${contentPlan.targetDuration}秒${styleInfo}`,
     }]);
     
-    if (contentPlan.targetDuration > 300) {
+    if (contentPlan.targetDuration > 300 && style) {
+      // 登録済みスタイルはオープニングとCTAの間をスタイルのフェーズ配分で構成する
+      const bodyMinutes = (contentPlan.targetDuration - 90) / 60;
+      return {
+        scriptStructure: [
+          {
+            section: 'オープニング',
+            duration: 30,
+            content: selectedHook,
+            speakingNotes: `${style.languageStyle.tone}。強い感情を込めて、視聴者の注意を引く`,
+          },
+          ...planStylePhases(style, bodyMinutes).map(p => ({
+            section: p.phase,
+            duration: p.seconds,
+            content: p.objective,
+            speakingNotes: p.techniques.join('、'),
+          })),
+          {
+            section: 'まとめとCTA',
+            duration: 60,
+            content: '要点の復習と次のアクション',
+            speakingNotes: '明確で実行可能なステップを提示',
+          },
+        ],
+      };
+    } else if (contentPlan.targetDuration > 300) {
       // 長尺動画の構成
       return {
         scriptStructure: [
@@ -265,19 +312,7 @@ const generateFullScriptStep = createStep({
     callToAction: z.string(),
   }),
   outputSchema: z.object({
-    fullScript: z.object({
-      title: z.string(),
-      totalDuration: z.number(),
-      sections: z.array(z.object({
-        sectionName: z.string(),
-        duration: z.number(),
-        script: z.string(),
-        visualCues: z.array(z.string()),
-        transitions: z.string(),
-      })),
-      keywords: z.array(z.string()),
-      hashtags: z.array(z.string()),
-    }),
+    fullScript: fullScriptSchema,
   }),
   execute: async ({ getInitData, getStepResult }) => {
     const triggerData = getInitData();
@@ -304,6 +339,15 @@ CTA: ${callToAction}`,
       visualCues: ['テロップ表示', 'BGM調整', '画面切り替え'],
       transitions: '自然なトランジション',
     }));
+
+    // 各セクションの台本を構成上の尺と照合する
+    const { rate, ...timing } = timeScript(
+      sections.map(section => ({ name: section.sectionName, text: section.script, duration: section.duration })),
+      {
+        style: triggerData.videoType === 'shorts' ? 'shorts' : triggerData.scriptStyle,
+        totalTarget: contentPlan.targetDuration,
+      }
+    );
     
     return {
       fullScript: {
@@ -312,53 +356,93 @@ CTA: ${callToAction}`,
         sections,
         keywords: ['AI', 'ChatGPT', '効率化', '自動化'],
         hashtags: ['#AI活用', '#ChatGPT', '#業務効率化', '#DX'],
+        timing,
       },
     };
   },
 });
 
+// Step 5: 公開用メタデータ生成
+const generatePublishingPackageStep = createStep({
+  id: 'generate-publishing-package',
+  description: 'チャプター・概要欄・タグ・終了画面・固定コメントを生成',
+  inputSchema: z.object({
+    fullScript: fullScriptSchema,
+  }),
+  outputSchema: z.object({
+    fullScript: fullScriptSchema,
+    publishingPackage: publishingPackageSchema,
+  }),
+  execute: async ({ getInitData, getStepResult, runtimeContext }) => {
+    const triggerData = getInitData();
+    const scriptResult = getStepResult(generateFullScriptStep);
+    if (!triggerData || !scriptResult) {
+      throw new Error('Required data not found');
+    }
+    const { videoTitle, videoType, scriptStyle, mainMessage } = triggerData;
+    const { fullScript } = scriptResult;
+
+    // 検索1回100ユニットのため、需要・供給の実測は1クエリに抑える
+    const keywordResult = await youtubeKeywordResearchTool.execute!({
+      context: {
+        productInfo: `${videoTitle} ${mainMessage}`,
+        targetCount: 30,
+        suggestionSource: 'youtube_autocomplete',
+        maxMeasuredQueries: 1,
+      },
+      runtimeContext,
+    });
+
+    // 読み上げ時間の実測があればそれを、なければ構成上の尺をタイムラインに使う
+    let cursor = 0;
+    const sections = fullScript.timing?.sections.map(s => ({
+      name: s.name,
+      startSeconds: s.startSeconds,
+      endSeconds: s.endSeconds,
+    })) ?? fullScript.sections.map(s => {
+      const section = { name: s.sectionName, startSeconds: cursor, endSeconds: cursor + s.duration };
+      cursor += s.duration;
+      return section;
+    });
+
+    const publishingPackage = await publishingPackageTool.execute!({
+      context: {
+        title: videoTitle,
+        summary: mainMessage,
+        sections,
+        style: scriptStyle,
+        videoType,
+        keywords: keywordResult.keywords,
+        extraTags: fullScript.keywords,
+        hashtags: fullScript.hashtags,
+      },
+      runtimeContext,
+    });
+
+    return { fullScript, publishingPackage };
+  },
+});
+
 // ワークフロー定義
 export const youtubeScriptGenerationWorkflow = createWorkflow({
   id: 'youtube-script-generation',
   inputSchema: z.object({
     videoTitle: z.string(),
     videoType: z.enum(['long', 'shorts']),
-    scriptStyle: z.enum([
-      'educational',
-      'entertainment',
-      'how-to',
-      'news',
-      'review',
-      'vlog',
-      'taiki',
-      'roadmap',
-      'osaru',
-      'moezo',
-      'dialogue',
-    ]).optional().describe('台本スタイル（長尺動画のみ）'),
+    scriptStyle: z.string().optional().describe('台本スタイル（長尺動画のみ。educational などの基本スタイル、または taiki などの登録済みスタイルのID）'),
     targetAudience: z.string(),
     mainMessage: z.string(),
     callToAction: z.string(),
   }),
   outputSchema: z.object({
-    fullScript: z.object({
-      title: z.string(),
-      totalDuration: z.number(),
-      sections: z.array(z.object({
-        sectionName: z.string(),
-        duration: z.number(),
-        script: z.string(),
-        visualCues: z.array(z.string()),
-        transitions: z.string(),
-      })),
-      keywords: z.array(z.string()),
-      hashtags: z.array(z.string()),
-    }),
+    fullScript: fullScriptSchema,
+    publishingPackage: publishingPackageSchema,
   }),
 })
   .then(planContentStep)
   .then(generateHookStep)
   .then(generateStructureStep)
-  .then(generateFullScriptStep);
+  .then(generateFullScriptStep)
+  .then(generatePublishingPackageStep);
 
 youtubeScriptGenerationWorkflow.commit();
\ No newline at end of file